@@ -1,29 +1,57 @@
 import React from "react";
 
+import { CellStyle } from "../Engine/GlobalDefinitions";
+
 // a component that will render a single cell.
 // the cell has a value and a label
 // the cell has a class name
 // the cell has a click handler
 // the cell has a style
-// the cell has a value
-// the cell has a label
-
+// the cell shows the user who is editing it
+// a cell with comments has a mark in its corner, it is grey once every discussion is resolved
+// a cell that a conditional format rule matches is drawn in the style of the rule
 
+export type CommentMark = "none" | "open" | "resolved";
 
 interface CellProps {
   value: string;
   label: string;
+  editor: string;
+  commentMark: CommentMark;
   className: string;
   onClick: (event: React.MouseEvent<HTMLButtonElement>) => void;
-  style: React.CSSProperties;
+  style: React.CSSProperties | undefined;
+  cellStyle: CellStyle | undefined;
 } // interface CellProps
 
-function Cell({ value, label, className, onClick, style }: CellProps) {
+function Cell({ value, label, editor, commentMark, className, onClick, style, cellStyle }: CellProps) {
+  // the style of the rule goes under the cursor of the other users
+  const ruleStyle: React.CSSProperties = {};
+  if (cellStyle?.color) {
+    ruleStyle.color = cellStyle.color;
+  }
+  if (cellStyle?.backgroundColor) {
+    ruleStyle.backgroundColor = cellStyle.backgroundColor;
+  }
+  if (cellStyle?.bold) {
+    ruleStyle.fontWeight = "bold";
+  }
+
   return (
-    <button className={className} onClick={onClick} style={style} value={value}>
-      {label}
+    <button
+      onClick={onClick}
+      value={value}
+      cell-label={label}
+      data-testid={label}
+      className={className}
+      style={{ ...ruleStyle, ...style }}
+    >
+      {value}
+      <label className="cell-label">{editor}</label>
+      {commentMark !== "none" &&
+        <span className={`comment-mark comment-mark-${commentMark}`} data-testid={`${label}-comment`}></span>}
     </button>
   );
 } // Cell
 
-export default Cell;
\ No newline at end of file
+export default Cell;
@@ -0,0 +1,88 @@
+import React, { useState } from "react";
+
+import { CommentTransport } from "../Engine/GlobalDefinitions";
+import "./CommentThread.css";
+
+// the discussions on the current cell, it opens over the sheet
+// each comment shows its replies and can be replied to, resolved, opened again or deleted
+// the form at the bottom starts a new discussion on the cell
+
+export type CommentAction = "add" | "reply" | "resolve" | "delete";
+
+interface CommentThreadProps {
+  cellLabel: string;
+  comments: CommentTransport[];
+  onCommentAction: (action: CommentAction, details: object) => void;
+  onClose: () => void;
+} // interface CommentThreadProps
+
+function CommentThread({ cellLabel, comments, onCommentAction, onClose }: CommentThreadProps) {
+  const [newComment, setNewComment] = useState("");
+  const [replies, setReplies] = useState<Record<number, string>>({});
+
+  function addComment(event: React.FormEvent) {
+    event.preventDefault();
+    if (newComment.trim() === "") {
+      return;
+    }
+    onCommentAction("add", { text: newComment });
+    setNewComment("");
+  }
+
+  function addReply(event: React.FormEvent, id: number) {
+    event.preventDefault();
+    const text = replies[id] ?? "";
+    if (text.trim() === "") {
+      return;
+    }
+    onCommentAction("reply", { id: id, text: text });
+    setReplies({ ...replies, [id]: "" });
+  }
+
+  function formatTime(time: number): string {
+    return new Date(time).toLocaleString();
+  }
+
+  return (
+    <div className="comment-thread">
+      <div className="comment-thread-title">
+        <span>Comments on {cellLabel}</span>
+        <button onClick={onClose}>Close</button>
+      </div>
+      {comments.map((comment) => (
+        <div key={comment.id} className={comment.resolved ? "comment comment-resolved" : "comment"}>
+          <div className="comment-header">
+            <span className="comment-author">{comment.author}</span>
+            <span className="comment-time">{formatTime(comment.time)}</span>
+          </div>
+          <div>{comment.text}</div>
+          {comment.replies.map((reply, index) => (
+            <div key={index} className="comment-reply">
+              <div className="comment-header">
+                <span className="comment-author">{reply.author}</span>
+                <span className="comment-time">{formatTime(reply.time)}</span>
+              </div>
+              <div>{reply.text}</div>
+            </div>
+          ))}
+          <form className="comment-form" onSubmit={(event) => addReply(event, comment.id)}>
+            <input placeholder="Reply" value={replies[comment.id] ?? ""}
+              onChange={(event) => setReplies({ ...replies, [comment.id]: event.target.value })} />
+            <button type="submit">Reply</button>
+          </form>
+          <button onClick={() => onCommentAction("resolve", { id: comment.id, resolved: !comment.resolved })}>
+            {comment.resolved ? "Reopen" : "Resolve"}
+          </button>
+          <button onClick={() => onCommentAction("delete", { id: comment.id })}>Delete</button>
+        </div>
+      ))}
+      <form className="comment-form" onSubmit={addComment}>
+        <input placeholder="Add a comment" value={newComment}
+          onChange={(event) => setNewComment(event.target.value)} />
+        <button type="submit">Comment</button>
+      </form>
+    </div>
+  );
+} // CommentThread
+
+export default CommentThread;
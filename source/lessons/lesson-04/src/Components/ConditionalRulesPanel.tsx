@@ -0,0 +1,136 @@
+import React, { useState } from "react";
+
+import { ConditionalRuleTransport, ConditionKind } from "../Engine/GlobalDefinitions";
+import "./ConditionalRulesPanel.css";
+
+// the conditional format rules of the sheet that is shown, they are shown next to the names
+// each rule styles the cells of its range that meet its condition and can be deleted
+// the form at the bottom adds a rule after the others, the first rule wins when rules style the same cell
+
+export type RuleAction = "add" | "delete";
+
+interface ConditionalRulesPanelProps {
+  rules: ConditionalRuleTransport[];
+  onRuleAction: (action: RuleAction, details: object) => void;
+} // interface ConditionalRulesPanelProps
+
+const conditionNames: Record<ConditionKind, string> = {
+  lessThan: "value <",
+  greaterThan: "value >",
+  equalTo: "value =",
+  between: "value between",
+  top: "top %",
+  bottom: "bottom %",
+  error: "error",
+  colorScale: "color scale",
+};
+
+// what a rule checks, B2:B9 value < 0
+function describeRule(rule: ConditionalRuleTransport): string {
+  let condition = conditionNames[rule.condition];
+  if (rule.condition === "between") {
+    condition += ` ${rule.value} and ${rule.value2}`;
+  } else if (rule.value !== undefined) {
+    condition += ` ${rule.value}`;
+  }
+  return `${rule.range} ${condition}`;
+}
+
+function ConditionalRulesPanel({ rules, onRuleAction }: ConditionalRulesPanelProps) {
+  const [range, setRange] = useState("");
+  const [condition, setCondition] = useState<ConditionKind>("lessThan");
+  const [value, setValue] = useState("");
+  const [value2, setValue2] = useState("");
+  const [color, setColor] = useState("#cc0000");
+  const [backgroundColor, setBackgroundColor] = useState("#ffff00");
+  const [useBackground, setUseBackground] = useState(false);
+  const [bold, setBold] = useState(false);
+
+  const needsValue = condition !== "error" && condition !== "colorScale";
+
+  function addRule(event: React.FormEvent) {
+    event.preventDefault();
+    if (range === "" || (needsValue && value === "")) {
+      return;
+    }
+    const rule: Partial<ConditionalRuleTransport> = { range: range, condition: condition };
+    if (needsValue) {
+      rule.value = Number(value);
+    }
+    if (condition === "between") {
+      rule.value2 = Number(value2);
+    }
+    if (condition === "colorScale") {
+      // the text color and the background are the colors of the smallest and the largest value
+      rule.minColor = color;
+      rule.maxColor = backgroundColor;
+    } else {
+      rule.style = useBackground ? { color: color, backgroundColor: backgroundColor } : { color: color };
+      if (bold) {
+        rule.style.bold = true;
+      }
+    }
+    onRuleAction("add", { rule: rule });
+    setRange("");
+    setValue("");
+    setValue2("");
+  }
+
+  return (
+    <div className="rules-panel">
+      <span className="rules-title">Conditional formats</span>
+      <table className="rules-table">
+        <tbody>
+          {rules.map((rule) => (
+            <tr key={rule.id}>
+              <td>
+                <span className="rules-sample" style={rule.condition === "colorScale" ?
+                  { background: `linear-gradient(to right, ${rule.minColor}, ${rule.maxColor})` } :
+                  { color: rule.style?.color, backgroundColor: rule.style?.backgroundColor, fontWeight: rule.style?.bold ? "bold" : undefined }}>
+                  Aa
+                </span>
+              </td>
+              <td>{describeRule(rule)}</td>
+              <td>
+                <button onClick={() => onRuleAction("delete", { id: rule.id })}>Delete</button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <form className="rules-form" onSubmit={addRule}>
+        <input placeholder="B2:B40" value={range}
+          onChange={(event) => setRange(event.target.value)} />
+        <select value={condition} onChange={(event) => setCondition(event.target.value as ConditionKind)}>
+          {Object.entries(conditionNames).map(([kind, name]) => (
+            <option key={kind} value={kind}>{name}</option>
+          ))}
+        </select>
+        {needsValue &&
+          <input type="number" placeholder={condition === "top" || condition === "bottom" ? "10" : "0"} value={value}
+            onChange={(event) => setValue(event.target.value)} />}
+        {condition === "between" &&
+          <input type="number" placeholder="100" value={value2}
+            onChange={(event) => setValue2(event.target.value)} />}
+        <label>
+          <input type="color" value={color} onChange={(event) => setColor(event.target.value)} />
+          {condition === "colorScale" ? "smallest" : "text"}
+        </label>
+        <label>
+          <input type="color" value={backgroundColor} onChange={(event) => setBackgroundColor(event.target.value)} />
+          {condition === "colorScale" ? "largest" :
+            <><input type="checkbox" checked={useBackground}
+              onChange={(event) => setUseBackground(event.target.checked)} /> background</>}
+        </label>
+        {condition !== "colorScale" &&
+          <label>
+            <input type="checkbox" checked={bold} onChange={(event) => setBold(event.target.checked)} />
+            bold
+          </label>}
+        <button type="submit">Add</button>
+      </form>
+    </div>
+  );
+} // ConditionalRulesPanel
+
+export default ConditionalRulesPanel;
@@ -0,0 +1,101 @@
+import React, { useState, useEffect } from "react";
+
+import { NumberFormatSpec } from "../Engine/GlobalDefinitions";
+import "./FormatBar.css";
+
+// the number format of the current cell, it is shown above the sheet
+// the format is applied to the current cell or to the range that is typed (B2:D9)
+// the format only changes how the numbers are shown, the cells keep their values
+
+type FormatKind = NumberFormatSpec["kind"];
+
+interface FormatBarProps {
+  cellLabel: string;
+  format: NumberFormatSpec | undefined;
+  onFormat: (format: NumberFormatSpec, range: string) => void;
+} // interface FormatBarProps
+
+// the decimals each kind has when the user leaves them empty
+const defaultDecimals: Record<FormatKind, string> = {
+  general: "",
+  fixed: "2",
+  percent: "0",
+  currency: "2",
+  scientific: "2",
+};
+
+function FormatBar({ cellLabel, format, onFormat }: FormatBarProps) {
+  const [kind, setKind] = useState<FormatKind>("general");
+  const [decimals, setDecimals] = useState("");
+  const [thousands, setThousands] = useState(false);
+  const [symbol, setSymbol] = useState("$");
+  const [range, setRange] = useState("");
+
+  // show the format of the cell each time another cell is selected or its format changes
+  const formatKey = JSON.stringify(format ?? { kind: "general" });
+  useEffect(() => {
+    const shown: NumberFormatSpec = JSON.parse(formatKey);
+    setKind(shown.kind);
+    setDecimals(shown.decimals === undefined ? defaultDecimals[shown.kind] : shown.decimals.toString());
+    setThousands(shown.thousands ?? shown.kind === "currency");
+    setSymbol(shown.symbol ?? "$");
+  }, [cellLabel, formatKey]);
+
+  function onKindChange(event: React.ChangeEvent<HTMLSelectElement>) {
+    const newKind = event.target.value as FormatKind;
+    setKind(newKind);
+    setDecimals(defaultDecimals[newKind]);
+    setThousands(newKind === "currency");
+  }
+
+  function applyFormat(event: React.FormEvent) {
+    event.preventDefault();
+    const newFormat: NumberFormatSpec = { kind: kind };
+    if (kind !== "general") {
+      if (decimals !== "") {
+        newFormat.decimals = Number(decimals);
+      }
+      if (kind !== "scientific") {
+        newFormat.thousands = thousands;
+      }
+      if (kind === "currency") {
+        newFormat.symbol = symbol;
+      }
+    }
+    onFormat(newFormat, range.trim());
+    setRange("");
+  }
+
+  return (
+    <form className="format-bar" onSubmit={applyFormat}>
+      <span className="format-title">Format:</span>
+      <select value={kind} onChange={onKindChange} data-testid="FormatKind">
+        <option value="general">General</option>
+        <option value="fixed">Number</option>
+        <option value="percent">Percent</option>
+        <option value="currency">Currency</option>
+        <option value="scientific">Scientific</option>
+      </select>
+      {kind !== "general" &&
+        <label>
+          Decimals
+          <input className="format-decimals" type="number" min={0} max={10} value={decimals}
+            onChange={(event) => setDecimals(event.target.value)} />
+        </label>}
+      {kind !== "general" && kind !== "scientific" &&
+        <label>
+          <input type="checkbox" checked={thousands}
+            onChange={(event) => setThousands(event.target.checked)} />
+          1,000
+        </label>}
+      {kind === "currency" &&
+        <input className="format-symbol" maxLength={3} value={symbol}
+          onChange={(event) => setSymbol(event.target.value)} />}
+      <input className="format-range" placeholder={cellLabel} value={range}
+        onChange={(event) => setRange(event.target.value)} />
+      <button type="submit">Apply</button>
+    </form>
+  );
+} // FormatBar
+
+export default FormatBar;
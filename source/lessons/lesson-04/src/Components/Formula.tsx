@@ -1,4 +1,4 @@
-import React from "react";
+import React, { useState } from "react";
 
 import "./Formula.css";
 
@@ -7,21 +7,42 @@ import "./Formula.css";
 // FormulaComponentProps
 // we pass in value for the formula 
 // and the value for the current result
+// while the user is editing a cell the formula can be typed, it is sent when Enter is pressed
 type FormulaProps = {
   formulaString: string;
   resultString: string;
+  currentlyEditing: boolean;
+  onFormulaSubmit: (formula: string) => void;
 } // interface FormulaProps
 
 
 
 
-const Formula: React.FC<FormulaProps> = ({ formulaString, resultString }) => {
+const Formula: React.FC<FormulaProps> = ({ formulaString, resultString, currentlyEditing, onFormulaSubmit }) => {
+  // the text the user is typing, null when they are not typing so the formula of the cell is shown
+  const [typedFormula, setTypedFormula] = useState<string | null>(null);
+
+  function onKeyDown(event: React.KeyboardEvent<HTMLInputElement>): void {
+    if (event.key === "Enter") {
+      onFormulaSubmit(typedFormula ?? formulaString);
+      setTypedFormula(null);
+    } else if (event.key === "Escape") {
+      setTypedFormula(null);
+    }
+  }
+
   return (
     <div>
       <span className="formula-title" data-testid="FormulaTitle">Formula:</span>
 
       <div className="formula">
-        <span data-testid="FormulaValue">{formulaString} </span>
+        {currentlyEditing ?
+          <input className="formula-input" data-testid="FormulaInput"
+            value={typedFormula ?? formulaString}
+            placeholder="(A1+B2)*3.5"
+            onChange={(event) => setTypedFormula(event.target.value)}
+            onKeyDown={onKeyDown} /> :
+          <span data-testid="FormulaValue">{formulaString} </span>}
       </div>
       <br />
       <span className="formula-title" data-testid="Result">Result:</span>
@@ -34,4 +55,4 @@ const Formula: React.FC<FormulaProps> = ({ formulaString, resultString }) => {
   );
 } // const Formula 
 
-export default Formula; 
\ No newline at end of file
+export default Formula;
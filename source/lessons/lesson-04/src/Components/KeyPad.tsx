@@ -126,6 +126,206 @@ function KeyPad({ onButtonClick, onCommandButtonClick, currentlyEditing }: KeyPa
           dataTestId="atan-button"
         />
       </div>
+      <div className="buttons-row">
+        <Button
+          text="SUM"
+          isDigit={false}
+          onClick={onButtonClick}
+          className="button-operator"
+          dataTestId="sum-button"
+        />
+        <Button
+          text="AVERAGE"
+          isDigit={false}
+          onClick={onButtonClick}
+          className="button-operator"
+          dataTestId="average-button"
+        />
+        <Button
+          text="MIN"
+          isDigit={false}
+          onClick={onButtonClick}
+          className="button-operator"
+          dataTestId="min-button"
+        />
+        <Button
+          text="MAX"
+          isDigit={false}
+          onClick={onButtonClick}
+          className="button-operator"
+          dataTestId="max-button"
+        />
+        <Button
+          text="COUNT"
+          isDigit={false}
+          onClick={onButtonClick}
+          className="button-operator"
+          dataTestId="count-button"
+        />
+        <Button
+          text="PRODUCT"
+          isDigit={false}
+          onClick={onButtonClick}
+          className="button-operator"
+          dataTestId="product-button"
+        />
+      </div>
+
+      <div className="buttons-row">
+        <Button
+          text="IF"
+          isDigit={false}
+          onClick={onButtonClick}
+          className="button-operator"
+          dataTestId="if-button"
+        />
+        <Button
+          text="AND"
+          isDigit={false}
+          onClick={onButtonClick}
+          className="button-operator"
+          dataTestId="and-button"
+        />
+        <Button
+          text="OR"
+          isDigit={false}
+          onClick={onButtonClick}
+          className="button-operator"
+          dataTestId="or-button"
+        />
+        <Button
+          text="NOT"
+          isDigit={false}
+          onClick={onButtonClick}
+          className="button-operator"
+          dataTestId="not-button"
+        />
+        <Button
+          text="IFERROR"
+          isDigit={false}
+          onClick={onButtonClick}
+          className="button-operator"
+          dataTestId="iferror-button"
+        />
+      </div>
+
+      <div className="buttons-row">
+        <Button
+          text="="
+          isDigit={false}
+          onClick={onButtonClick}
+          className="button-operator"
+          dataTestId="equal-button"
+        />
+        <Button
+          text="<>"
+          isDigit={false}
+          onClick={onButtonClick}
+          className="button-operator"
+          dataTestId="not-equal-button"
+        />
+        <Button
+          text="<"
+          isDigit={false}
+          onClick={onButtonClick}
+          className="button-operator"
+          dataTestId="less-button"
+        />
+        <Button
+          text="<="
+          isDigit={false}
+          onClick={onButtonClick}
+          className="button-operator"
+          dataTestId="less-equal-button"
+        />
+        <Button
+          text=">"
+          isDigit={false}
+          onClick={onButtonClick}
+          className="button-operator"
+          dataTestId="greater-button"
+        />
+        <Button
+          text=">="
+          isDigit={false}
+          onClick={onButtonClick}
+          className="button-operator"
+          dataTestId="greater-equal-button"
+        />
+      </div>
+
+      <div className="buttons-row">
+        <Button
+          text=":"
+          isDigit={false}
+          onClick={onButtonClick}
+          className="button-operator"
+          dataTestId="range-button"
+        />
+        <Button
+          text=","
+          isDigit={false}
+          onClick={onButtonClick}
+          className="button-operator"
+          dataTestId="comma-button"
+        />
+        <Button
+          text="^"
+          isDigit={false}
+          onClick={onButtonClick}
+          className="button-operator"
+          dataTestId="power-button"
+        />
+        <Button
+          text="%"
+          isDigit={false}
+          onClick={onButtonClick}
+          className="button-operator"
+          dataTestId="modulo-button"
+        />
+        <Button
+          text="//"
+          isDigit={false}
+          onClick={onButtonClick}
+          className="button-operator"
+          dataTestId="integer-divide-button"
+        />
+        <Button
+          text="&"
+          isDigit={false}
+          onClick={onButtonClick}
+          className="button-operator"
+          dataTestId="concatenate-button"
+        />
+        <Button
+          text="$"
+          isDigit={false}
+          onClick={onButtonClick}
+          className="button-operator"
+          dataTestId="anchor-button"
+        />
+        <Button
+          text="TRUE"
+          isDigit={false}
+          onClick={onButtonClick}
+          className="button-operator"
+          dataTestId="true-button"
+        />
+        <Button
+          text="FALSE"
+          isDigit={false}
+          onClick={onButtonClick}
+          className="button-operator"
+          dataTestId="false-button"
+        />
+        <Button
+          text={ButtonNames.text}
+          isDigit={false}
+          onClick={() => onCommandButtonClick(ButtonNames.text)}
+          className="button-control"
+          dataTestId="text-button"
+        />
+      </div>
       <div className="buttons-row">
 
 
@@ -166,6 +366,51 @@ function KeyPad({ onButtonClick, onCommandButtonClick, currentlyEditing }: KeyPa
         />
       </div>
 
+      <div className="buttons-row">
+        <Button
+          text={ButtonNames.undo}
+          isDigit={false}
+          onClick={() => onCommandButtonClick(ButtonNames.undo)}
+          className="button-control"
+          dataTestId="undo-button"
+        />
+        <Button
+          text={ButtonNames.redo}
+          isDigit={false}
+          onClick={() => onCommandButtonClick(ButtonNames.redo)}
+          className="button-control"
+          dataTestId="redo-button"
+        />
+        <Button
+          text={ButtonNames.copy}
+          isDigit={false}
+          onClick={() => onCommandButtonClick(ButtonNames.copy)}
+          className="button-control"
+          dataTestId="copy-button"
+        />
+        <Button
+          text={ButtonNames.paste}
+          isDigit={false}
+          onClick={() => onCommandButtonClick(ButtonNames.paste)}
+          className="button-control"
+          dataTestId="paste-button"
+        />
+        <Button
+          text={ButtonNames.fillDown}
+          isDigit={false}
+          onClick={() => onCommandButtonClick(ButtonNames.fillDown)}
+          className="button-control"
+          dataTestId="fill-down-button"
+        />
+        <Button
+          text={ButtonNames.fillRight}
+          isDigit={false}
+          onClick={() => onCommandButtonClick(ButtonNames.fillRight)}
+          className="button-control"
+          dataTestId="fill-right-button"
+        />
+      </div>
+
       <div className="buttons-row">
         <Button
           text="4"
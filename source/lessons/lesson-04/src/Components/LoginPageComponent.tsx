@@ -3,6 +3,8 @@ import './LoginPageComponent.css';
 
 /**
  * Login PageComponent is the component that will be used to display the login page
+ * The user logs in with a password or registers a new account, the session token
+ * the server gives is kept in sessionStorage with the user name.
  * If the user is logged in, then this component will display the list of documents
  * that the user has access to.  Each document will have a button that will allow the
  * user to edit the document. when the user clicks on the button, the user will be
@@ -19,8 +21,17 @@ interface LoginPageProps {
 
 function LoginPageComponent({ spreadSheetClient }: LoginPageProps): JSX.Element {
   const [userName, setUserName] = useState(window.sessionStorage.getItem('userName') || "");
+  const [token, setToken] = useState(window.sessionStorage.getItem('token') || "");
+  const [loginName, setLoginName] = useState(userName);
+  const [password, setPassword] = useState("");
   const [documents, setDocuments] = useState<string[]>([]);
 
+  // the client sends the session token with every request
+  useEffect(() => {
+    spreadSheetClient.userName = userName;
+    spreadSheetClient.token = token;
+  }, [spreadSheetClient, userName, token]);
+
   // SpreadSheetClient is fetching the documents from the server so we should
   // check every 1/20 of a second to see if the documents have been fetched
   useEffect(() => {
@@ -33,22 +44,42 @@ function LoginPageComponent({ spreadSheetClient }: LoginPageProps): JSX.Element
     return () => clearInterval(interval);
   });
 
+  function startSession(action: string) {
+    const session = action === 'register'
+      ? spreadSheetClient.register(loginName, password)
+      : spreadSheetClient.login(loginName, password);
+    session.then((loggedIn: boolean) => {
+      if (loggedIn) {
+        window.sessionStorage.setItem('userName', spreadSheetClient.userName);
+        window.sessionStorage.setItem('token', spreadSheetClient.token);
+        setUserName(spreadSheetClient.userName);
+        setToken(spreadSheetClient.token);
+      }
+      setPassword("");
+    });
+  }
+
   function getUserLogin() {
     return <div>
       <input
         type="text"
         placeholder="User name"
-        defaultValue={userName}
+        value={loginName}
+        onChange={(event) => setLoginName(event.target.value)} />
+      <br />
+      <input
+        type="password"
+        placeholder="Password"
+        value={password}
+        onChange={(event) => setPassword(event.target.value)}
         onKeyDown={(event) => {
           if (event.key === 'Enter') {
-            // get the text from the input
-            let userName = (event.target as HTMLInputElement).value;
-            window.sessionStorage.setItem('userName', userName);
-            // set the user name
-            setUserName(userName);
-            spreadSheetClient.userName = userName;
+            startSession('login');
           }
         }} />
+      <br />
+      <button onClick={() => startSession('login')}>Login</button>
+      <button onClick={() => startSession('register')}>Register</button>
     </div>
 
   }
@@ -77,17 +108,18 @@ function LoginPageComponent({ spreadSheetClient }: LoginPageProps): JSX.Element
 
 
   function logout() {
-    // clear the user name
+    // clear the user name and the session
     window.sessionStorage.setItem('userName', "");
+    window.sessionStorage.setItem('token', "");
     // reload the page
     window.location.reload();
   }
 
 
   function buildFileSelector() {
-    if (userName === "") {
+    if (token === "") {
       return <div>
-        <h4>Please enter a user name</h4>
+        <h4>Please log in</h4>
         <br />
         You must be logged in to<br />
         access the documents!
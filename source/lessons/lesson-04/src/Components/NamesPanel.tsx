@@ -0,0 +1,59 @@
+import React, { useState } from "react";
+
+import { NameTransport } from "../Engine/GlobalDefinitions";
+import "./NamesPanel.css";
+
+// the names of a document, they are shown next to the sheet
+// a name stands for a cell, a range or a constant and can be used in the formulas
+// the form at the bottom adds a name, each name can be renamed or deleted
+
+export type NameAction = "add" | "rename" | "delete";
+
+interface NamesPanelProps {
+  names: NameTransport[];
+  onNameAction: (action: NameAction, name: string, definition?: string) => void;
+} // interface NamesPanelProps
+
+function NamesPanel({ names, onNameAction }: NamesPanelProps) {
+  const [newName, setNewName] = useState("");
+  const [newDefinition, setNewDefinition] = useState("");
+
+  function addName(event: React.FormEvent) {
+    event.preventDefault();
+    if (newName === "" || newDefinition === "") {
+      return;
+    }
+    onNameAction("add", newName, newDefinition);
+    setNewName("");
+    setNewDefinition("");
+  }
+
+  return (
+    <div className="names-panel">
+      <span className="names-title">Names</span>
+      <table className="names-table">
+        <tbody>
+          {names.map((name) => (
+            <tr key={name.name}>
+              <td className="names-name">{name.name}</td>
+              <td>{name.definition}</td>
+              <td>
+                <button onClick={() => onNameAction("rename", name.name)}>Rename</button>
+                <button onClick={() => onNameAction("delete", name.name)}>Delete</button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <form className="names-form" onSubmit={addName}>
+        <input placeholder="TaxRate" value={newName}
+          onChange={(event) => setNewName(event.target.value)} />
+        <input placeholder="B1, C2:C40 or 0.2" value={newDefinition}
+          onChange={(event) => setNewDefinition(event.target.value)} />
+        <button type="submit">Add</button>
+      </form>
+    </div>
+  );
+} // NamesPanel
+
+export default NamesPanel;
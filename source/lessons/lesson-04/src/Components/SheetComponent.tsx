@@ -1,6 +1,8 @@
-import React from "react";
+import React, { useState } from "react";
 
 import Cell from "../Engine/Cell";
+import CellComponent, { CommentMark } from "./CellComponent";
+import { PresenceTransport, CommentTransport, CellStyle } from "../Engine/GlobalDefinitions";
 
 import "./SheetComponent.css";
 
@@ -11,15 +13,74 @@ import "./SheetComponent.css";
 
 interface SheetComponentProps {
   cellsValues: Array<Array<string>>;
+  // the styles the conditional format rules give the cells
+  cellsStyles: Array<Array<CellStyle | undefined>>;
   onClick: (event: React.MouseEvent<HTMLButtonElement>) => void;
   currentCell: string;
   currentlyEditing: boolean;
+  // the other users who have the document open, their cursors are shown on the sheet they are at
+  presence: PresenceTransport[];
+  shownSheet: string;
+  // the comments on the cells of the sheet that is shown
+  comments: CommentTransport[];
+  // the rows the filter of the user hides
+  hiddenRows: number[];
+  onHeaderAction: (dimension: "rows" | "columns", action: "insert" | "delete", index: number) => void;
 } // interface SheetComponentProps
 
+// the header that was right clicked and where to show its menu
+interface HeaderMenu {
+  dimension: "rows" | "columns";
+  index: number;
+  x: number;
+  y: number;
+}
+
+// each user keeps the same color in every document and on every client
+const userColors = ["#e6194b", "#3cb44b", "#4363d8", "#f58231", "#911eb4", "#42d4f4", "#f032e6", "#9a6324"];
+
+function getUserColor(user: string): string {
+  let hash = 0;
+  for (const character of user) {
+    hash = (hash * 31 + character.charCodeAt(0)) % userColors.length;
+  }
+  return userColors[hash];
+}
 
 
+function SheetComponent({ cellsValues, cellsStyles, onClick, currentCell, currentlyEditing, presence, shownSheet, comments, hiddenRows, onHeaderAction }: SheetComponentProps) {
+  const [headerMenu, setHeaderMenu] = useState<HeaderMenu | null>(null);
 
-function SheetComponent({ cellsValues, onClick, currentCell, currentlyEditing }: SheetComponentProps) {
+  /**
+   * open the menu for a row or column header instead of the browser context menu
+   */
+  function openHeaderMenu(event: React.MouseEvent, dimension: "rows" | "columns", index: number) {
+    event.preventDefault();
+    setHeaderMenu({ dimension, index, x: event.clientX, y: event.clientY });
+  }
+
+  function chooseHeaderAction(action: "insert" | "delete", offset: number) {
+    if (headerMenu) {
+      onHeaderAction(headerMenu.dimension, action, headerMenu.index + offset);
+    }
+    setHeaderMenu(null);
+  }
+
+  // the menu offers to insert before or after the header, or to delete it
+  function getHeaderMenu() {
+    if (!headerMenu) {
+      return null;
+    }
+    const name = headerMenu.dimension === "rows" ? "row" : "column";
+    return (
+      <div className="header-menu" style={{ left: headerMenu.x, top: headerMenu.y }}
+        onMouseLeave={() => setHeaderMenu(null)}>
+        <button onClick={() => chooseHeaderAction("insert", 0)}>Insert {name} before</button>
+        <button onClick={() => chooseHeaderAction("insert", 1)}>Insert {name} after</button>
+        <button onClick={() => chooseHeaderAction("delete", 0)}>Delete {name}</button>
+      </div>
+    );
+  }
 
   /**
    * 
@@ -45,7 +106,46 @@ function SheetComponent({ cellsValues, onClick, currentCell, currentlyEditing }:
     return "cell";
   }
 
-  // T
+  /**
+   * the cursor of another user who is at the cell, an editor has a solid border and a viewer a dashed one.
+   * when several users are at the cell the first one is shown
+   */
+  function getCursorStyle(cellLabel: string): React.CSSProperties | undefined {
+    const userPresence = presence.find((other) => other.sheet === shownSheet && other.cell === cellLabel);
+    if (!userPresence) {
+      return undefined;
+    }
+    const borderStyle = userPresence.isEditing ? "solid" : "dashed";
+    return { outline: `2px ${borderStyle} ${getUserColor(userPresence.user)}`, outlineOffset: "-2px" };
+  }
+
+  // the users who have the document open, an idle or away user is faded
+  function getAvatarList() {
+    if (presence.length === 0) {
+      return null;
+    }
+    return (
+      <div className="avatar-list">
+        {presence.map((userPresence) => (
+          <span key={userPresence.user}
+            className={`avatar avatar-${userPresence.state}`}
+            style={{ backgroundColor: getUserColor(userPresence.user) }}
+            title={`${userPresence.user} is ${userPresence.state} at ${userPresence.sheet}!${userPresence.cell}`}>
+            {userPresence.user.charAt(0).toUpperCase()}
+          </span>
+        ))}
+      </div>
+    );
+  }
+
+  // a cell with a discussion that is not resolved is marked, a cell whose discussions are all resolved is greyed
+  function getCommentMark(cellLabel: string): CommentMark {
+    const cellComments = comments.filter((comment) => comment.cell === cellLabel);
+    if (cellComments.length === 0) {
+      return "none";
+    }
+    return cellComments.some((comment) => !comment.resolved) ? "open" : "resolved";
+  }
 
   function getCellValue(cell: string) {
     // split on | return the first part
@@ -57,32 +157,36 @@ function SheetComponent({ cellsValues, onClick, currentCell, currentlyEditing }:
   }
 
   return (
+    <>
+    {getAvatarList()}
     <table className="table">
       <tbody>
         {/*add a row with column cellsValues */}
         <tr>
           <th></th>
           {cellsValues[0].map((col, colIndex) => (
-            <th className="column-label" key={colIndex}>
+            <th className="column-label" key={colIndex}
+              onContextMenu={(event) => openHeaderMenu(event, "columns", colIndex)}>
               {Cell.columnNumberToName(colIndex)}
             </th>
           ))}
         </tr>
-        {cellsValues.map((row, rowIndex) => (
+        {cellsValues.map((row, rowIndex) => hiddenRows.includes(rowIndex) ? null : (
           <tr key={rowIndex}>
-            <td className="row-label"> {Cell.rowNumberToName(rowIndex)}</td>
+            <td className="row-label"
+              onContextMenu={(event) => openHeaderMenu(event, "rows", rowIndex)}> {Cell.rowNumberToName(rowIndex)}</td>
             {row.map((cell, colIndex) => (
               <td key={colIndex}>
-                <button
+                <CellComponent
                   onClick={onClick}
-                  value={cell}
-                  cell-label={Cell.columnRowToCell(colIndex, rowIndex)}
-                  data-testid={Cell.columnRowToCell(colIndex, rowIndex)}
+                  value={getCellValue(cell)}
+                  label={Cell.columnRowToCell(colIndex, rowIndex)}
+                  editor={getCellEditor(cell)}
+                  commentMark={getCommentMark(Cell.columnRowToCell(colIndex, rowIndex))}
                   className={(getCellClass(Cell.columnRowToCell(colIndex, rowIndex)))}
-                >
-                  {getCellValue(cell)}
-                  <label className="cell-label">{getCellEditor(cell)}</label>
-                </button>
+                  style={getCursorStyle(Cell.columnRowToCell(colIndex, rowIndex))}
+                  cellStyle={cellsStyles[rowIndex]?.[colIndex]}
+                />
 
               </td>
             ))}
@@ -90,6 +194,8 @@ function SheetComponent({ cellsValues, onClick, currentCell, currentlyEditing }:
         ))}
       </tbody>
     </table>
+    {getHeaderMenu()}
+    </>
   );
 } // SheetComponent
 
@@ -1,6 +1,7 @@
 import React from "react";
 
 import SheetComponent from "./SheetComponent";
+import { PresenceTransport, CommentTransport, CellStyle } from "../Engine/GlobalDefinitions";
 import "./SheetHolder.css";
 
 // a wrapper for the sheet component that allows the sheet to be scrolled
@@ -14,15 +15,22 @@ import "./SheetHolder.css";
 
 interface SheetHolderProps {
   cellsValues: Array<Array<string>>;
+  cellsStyles: Array<Array<CellStyle | undefined>>;
   onClick: (event: React.MouseEvent<HTMLButtonElement>) => void;
   currentCell: string;
   currentlyEditing:boolean
+  presence: PresenceTransport[];
+  shownSheet: string;
+  comments: CommentTransport[];
+  hiddenRows: number[];
+  onHeaderAction: (dimension: "rows" | "columns", action: "insert" | "delete", index: number) => void;
 }
 
-function SheetHolder({ cellsValues, onClick, currentCell, currentlyEditing}: SheetHolderProps) {
+function SheetHolder({ cellsValues, cellsStyles, onClick, currentCell, currentlyEditing, presence, shownSheet, comments, hiddenRows, onHeaderAction}: SheetHolderProps) {
   return (
     <div className="sheet-holder">
-      <SheetComponent cellsValues={cellsValues} onClick={onClick} currentCell={currentCell}  currentlyEditing={currentlyEditing}  />
+      <SheetComponent cellsValues={cellsValues} cellsStyles={cellsStyles} onClick={onClick} currentCell={currentCell}  currentlyEditing={currentlyEditing}
+        presence={presence} shownSheet={shownSheet} comments={comments} hiddenRows={hiddenRows} onHeaderAction={onHeaderAction} />
     </div>
   );
 } // SheetHolder
@@ -0,0 +1,75 @@
+import React, { useState } from "react";
+
+import "./SheetTabs.css";
+
+// the tabs of the sheets of a document, they are shown under the sheet
+// a click on a tab shows the sheet
+// the + tab adds a sheet
+// a right click on a tab opens a menu to rename, move or delete the sheet
+
+export type SheetAction = "add" | "rename" | "move" | "delete" | "select";
+
+interface SheetTabsProps {
+  sheets: string[];
+  shownSheet: string;
+  onSheetAction: (action: SheetAction, sheet: string, index?: number) => void;
+} // interface SheetTabsProps
+
+// the tab that was right clicked and where to show its menu
+interface TabMenu {
+  sheet: string;
+  index: number;
+  x: number;
+  y: number;
+}
+
+function SheetTabs({ sheets, shownSheet, onSheetAction }: SheetTabsProps) {
+  const [tabMenu, setTabMenu] = useState<TabMenu | null>(null);
+
+  function openTabMenu(event: React.MouseEvent, sheet: string, index: number) {
+    event.preventDefault();
+    setTabMenu({ sheet, index, x: event.clientX, y: event.clientY });
+  }
+
+  function chooseTabAction(action: SheetAction, index?: number) {
+    if (tabMenu) {
+      onSheetAction(action, tabMenu.sheet, index);
+    }
+    setTabMenu(null);
+  }
+
+  // the menu offers to rename the sheet, to move it one place left or right, or to delete it
+  function getTabMenu() {
+    if (!tabMenu) {
+      return null;
+    }
+    return (
+      <div className="tab-menu" style={{ left: tabMenu.x, top: tabMenu.y }}
+        onMouseLeave={() => setTabMenu(null)}>
+        <button onClick={() => chooseTabAction("rename")}>Rename</button>
+        <button disabled={tabMenu.index === 0}
+          onClick={() => chooseTabAction("move", tabMenu.index - 1)}>Move left</button>
+        <button disabled={tabMenu.index === sheets.length - 1}
+          onClick={() => chooseTabAction("move", tabMenu.index + 1)}>Move right</button>
+        <button disabled={sheets.length === 1} onClick={() => chooseTabAction("delete")}>Delete</button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="sheet-tabs">
+      {sheets.map((sheet, index) => (
+        <button key={sheet}
+          className={sheet === shownSheet ? "sheet-tab-selected" : "sheet-tab"}
+          onClick={() => onSheetAction("select", sheet)}
+          onContextMenu={(event) => openTabMenu(event, sheet, index)}>
+          {sheet}
+        </button>
+      ))}
+      <button className="sheet-tab" onClick={() => onSheetAction("add", "")}>+</button>
+      {getTabMenu()}
+    </div>
+  );
+} // SheetTabs
+
+export default SheetTabs;
@@ -0,0 +1,109 @@
+import React, { useState } from "react";
+
+import { FilterCondition, FilterCriterion, FilterTransport, SortKey } from "../Engine/GlobalDefinitions";
+import "./SortFilterBar.css";
+
+// sorts a range of the sheet that is shown and filters its rows
+// a sort changes the document for every user, a filter only hides the rows from this user
+// the columns are named by their letters (B), a second column breaks the ties of the first
+
+interface SortFilterBarProps {
+  canSort: boolean;
+  filter: FilterTransport | undefined;
+  hiddenRowCount: number;
+  onSort: (range: string, keys: SortKey[]) => void;
+  onFilter: (range: string, criteria: FilterCriterion[]) => void;
+  onClearFilter: () => void;
+} // interface SortFilterBarProps
+
+const conditionNames: Record<FilterCondition, string> = {
+  equalTo: "=",
+  notEqualTo: "≠",
+  lessThan: "<",
+  greaterThan: ">",
+  contains: "contains",
+  notBlank: "is not blank",
+};
+
+function SortFilterBar({ canSort, filter, hiddenRowCount, onSort, onFilter, onClearFilter }: SortFilterBarProps) {
+  const [range, setRange] = useState("");
+  const [sortColumn, setSortColumn] = useState("");
+  const [sortDescending, setSortDescending] = useState(false);
+  const [thenColumn, setThenColumn] = useState("");
+  const [thenDescending, setThenDescending] = useState(false);
+  const [filterColumn, setFilterColumn] = useState("");
+  const [condition, setCondition] = useState<FilterCondition>("equalTo");
+  const [value, setValue] = useState("");
+
+  function sortRange(event: React.FormEvent) {
+    event.preventDefault();
+    if (range === "" || sortColumn === "") {
+      return;
+    }
+    const keys: SortKey[] = [{ column: sortColumn, descending: sortDescending }];
+    if (thenColumn !== "") {
+      keys.push({ column: thenColumn, descending: thenDescending });
+    }
+    onSort(range, keys);
+  }
+
+  function filterRange(event: React.FormEvent) {
+    event.preventDefault();
+    if (range === "" || filterColumn === "") {
+      return;
+    }
+    const criterion: FilterCriterion = { column: filterColumn, condition: condition };
+    if (condition !== "notBlank") {
+      criterion.value = value;
+    }
+    onFilter(range, [criterion]);
+  }
+
+  return (
+    <div className="sort-filter-bar">
+      <input className="sort-filter-range" placeholder="A2:C40" value={range}
+        onChange={(event) => setRange(event.target.value)} />
+      {canSort &&
+        <form onSubmit={sortRange}>
+          <span className="sort-filter-title">Sort by</span>
+          <input className="sort-filter-column" placeholder="B" value={sortColumn}
+            onChange={(event) => setSortColumn(event.target.value)} />
+          <select value={sortDescending ? "descending" : "ascending"}
+            onChange={(event) => setSortDescending(event.target.value === "descending")}>
+            <option value="ascending">A to Z</option>
+            <option value="descending">Z to A</option>
+          </select>
+          <span className="sort-filter-title">then</span>
+          <input className="sort-filter-column" placeholder="C" value={thenColumn}
+            onChange={(event) => setThenColumn(event.target.value)} />
+          <select value={thenDescending ? "descending" : "ascending"}
+            onChange={(event) => setThenDescending(event.target.value === "descending")}>
+            <option value="ascending">A to Z</option>
+            <option value="descending">Z to A</option>
+          </select>
+          <button type="submit">Sort</button>
+        </form>}
+      <form onSubmit={filterRange}>
+        <span className="sort-filter-title">Show rows where</span>
+        <input className="sort-filter-column" placeholder="B" value={filterColumn}
+          onChange={(event) => setFilterColumn(event.target.value)} />
+        <select value={condition} onChange={(event) => setCondition(event.target.value as FilterCondition)}>
+          {Object.entries(conditionNames).map(([kind, name]) => (
+            <option key={kind} value={kind}>{name}</option>
+          ))}
+        </select>
+        {condition !== "notBlank" &&
+          <input className="sort-filter-value" value={value}
+            onChange={(event) => setValue(event.target.value)} />}
+        <button type="submit">Filter</button>
+      </form>
+      {filter &&
+        <span className="sort-filter-active">
+          {filter.range} filtered, {hiddenRowCount} hidden
+          <button onClick={onClearFilter}>Show all</button>
+        </span>}
+    </div>
+  );
+} // SortFilterBar
+
+export default SortFilterBar;
@@ -4,8 +4,15 @@ import Status from "./Status";
 import KeyPad from "./KeyPad";
 import SpreadSheetClient from "../Engine/SpreadSheetClient";
 import SheetHolder from "./SheetHolder";
-
-import { ButtonNames } from "../Engine/GlobalDefinitions";
+import SheetTabs, { SheetAction } from "./SheetTabs";
+import NamesPanel, { NameAction } from "./NamesPanel";
+import CommentThread, { CommentAction } from "./CommentThread";
+import FormatBar from "./FormatBar";
+import ConditionalRulesPanel, { RuleAction } from "./ConditionalRulesPanel";
+import SortFilterBar from "./SortFilterBar";
+import "./SpreadSheet.css";
+
+import { ButtonNames, NumberFormatSpec, SortKey, FilterCriterion } from "../Engine/GlobalDefinitions";
 import ServerSelector from "./ServerSelector";
 
 
@@ -26,9 +33,24 @@ function SpreadSheet({ documentName, spreadSheetClient }: SpreadSheetProps) {
   const [formulaString, setFormulaString] = useState(spreadSheetClient.getFormulaString())
   const [resultString, setResultString] = useState(spreadSheetClient.getResultString())
   const [cells, setCells] = useState(spreadSheetClient.getSheetDisplayStringsForGUI());
+  const [cellStyles, setCellStyles] = useState(spreadSheetClient.getSheetStylesForGUI());
   const [statusString, setStatusString] = useState(spreadSheetClient.getEditStatusString());
   const [currentCell, setCurrentCell] = useState(spreadSheetClient.getWorkingCellLabel());
   const [currentlyEditing, setCurrentlyEditing] = useState(spreadSheetClient.getEditStatus());
+  const [sheetTabs, setSheetTabs] = useState(spreadSheetClient.getSheetTabs());
+  const [shownSheet, setShownSheet] = useState(spreadSheetClient.getShownSheet());
+  const [currentSheet, setCurrentSheet] = useState(spreadSheetClient.getCurrentSheet());
+  const [names, setNames] = useState(spreadSheetClient.getNames());
+  const [canEdit, setCanEdit] = useState(spreadSheetClient.canEdit());
+  const [isOwner, setIsOwner] = useState(spreadSheetClient.isOwner());
+  const [cellEditor, setCellEditor] = useState(spreadSheetClient.getCellEditor());
+  const [presence, setPresence] = useState(spreadSheetClient.getPresence());
+  const [comments, setComments] = useState(spreadSheetClient.getComments());
+  const [showComments, setShowComments] = useState(false);
+  const [format, setFormat] = useState(spreadSheetClient.getFormat());
+  const [conditionalRules, setConditionalRules] = useState(spreadSheetClient.getConditionalRules());
+  const [filter, setFilter] = useState(spreadSheetClient.getFilter());
+  const [hiddenRows, setHiddenRows] = useState(spreadSheetClient.getHiddenRows());
   const [userName, setUserName] = useState(window.sessionStorage.getItem('userName') || "");
   const [serverSelected, setServerSelected] = useState("localhost");
 
@@ -40,17 +62,35 @@ function SpreadSheet({ documentName, spreadSheetClient }: SpreadSheetProps) {
     setResultString(spreadSheetClient.getResultString());
     setStatusString(spreadSheetClient.getEditStatusString());
     setCells(spreadSheetClient.getSheetDisplayStringsForGUI());
+    setCellStyles(spreadSheetClient.getSheetStylesForGUI());
     setCurrentCell(spreadSheetClient.getWorkingCellLabel());
     setCurrentlyEditing(spreadSheetClient.getEditStatus());
+    setSheetTabs(spreadSheetClient.getSheetTabs());
+    setShownSheet(spreadSheetClient.getShownSheet());
+    setCurrentSheet(spreadSheetClient.getCurrentSheet());
+    setNames(spreadSheetClient.getNames());
+    setCanEdit(spreadSheetClient.canEdit());
+    setIsOwner(spreadSheetClient.isOwner());
+    setCellEditor(spreadSheetClient.getCellEditor());
+    setPresence(spreadSheetClient.getPresence());
+    setComments(spreadSheetClient.getComments());
+    setFormat(spreadSheetClient.getFormat());
+    setConditionalRules(spreadSheetClient.getConditionalRules());
+    setFilter(spreadSheetClient.getFilter());
+    setHiddenRows(spreadSheetClient.getHiddenRows());
 
   }
 
-  // useEffect to refetch the data every 1/20 of a second
+  // the client opens the channel to the server once it knows the user, their session and the document
   useEffect(() => {
-    const interval = setInterval(() => {
-      updateDisplayValues();
-    }, 50);
-    return () => clearInterval(interval);
+    spreadSheetClient.token = window.sessionStorage.getItem('token') || "";
+    spreadSheetClient.userName = userName;
+    spreadSheetClient.documentName = documentName;
+  }, [spreadSheetClient, userName, documentName]);
+
+  // show the document each time the server sends a new version of it
+  useEffect(() => {
+    spreadSheetClient.setDocumentChangedCallback(updateDisplayValues);
   });
 
   function returnToLoginPage() {
@@ -77,6 +117,15 @@ function SpreadSheet({ documentName, spreadSheetClient }: SpreadSheetProps) {
     return true;
   }
 
+  // a viewer can look at the cells and the sheets but the server refuses their changes
+  function checkCanEdit(): boolean {
+    if (!canEdit) {
+      alert("You can only view this document");
+      return false;
+    }
+    return true;
+  }
+
   /** callback to display error message when client gets the message */
   function displayErrorMessage(message: string) {
     alert(message);
@@ -120,6 +169,46 @@ function SpreadSheet({ documentName, spreadSheetClient }: SpreadSheetProps) {
         spreadSheetClient.clearFormula();
         break;
 
+      case ButtonNames.undo:
+        spreadSheetClient.undo();
+        break;
+
+      case ButtonNames.redo:
+        spreadSheetClient.redo();
+        break;
+
+      case ButtonNames.copy:
+        spreadSheetClient.copyCell();
+        break;
+
+      case ButtonNames.paste:
+        spreadSheetClient.pasteCell();
+        break;
+
+      case ButtonNames.fillDown:
+        // fill copies the current cell into the next cells, ask how many
+        const rowCount = Number(window.prompt("How many cells below should be filled?", "1"));
+        if (rowCount > 0) {
+          spreadSheetClient.fillDown(rowCount);
+        }
+        break;
+
+      case ButtonNames.fillRight:
+        const columnCount = Number(window.prompt("How many cells to the right should be filled?", "1"));
+        if (columnCount > 0) {
+          spreadSheetClient.fillRight(columnCount);
+        }
+        break;
+
+      case ButtonNames.text:
+        // text is added to the formula as a single string literal token
+        const text = window.prompt("Enter the text for the cell");
+        if (text !== null) {
+          spreadSheetClient.setEditStatus(true);
+          spreadSheetClient.addToken(`"${text.replace(/"/g, '""')}"`);
+        }
+        break;
+
     }
     // update the display values
     updateDisplayValues();
@@ -188,19 +277,200 @@ function SpreadSheet({ documentName, spreadSheetClient }: SpreadSheetProps) {
 
   }
 
+  /**
+   * called when the owner takes the current cell away from the user who is editing it,
+   * for a user who left the cell locked
+   */
+  function onReleaseCell(): void {
+    if (!checkUserName()) {
+      return;
+    }
+    if (window.confirm(`Release ${currentCell}? ${cellEditor} stops editing it`)) {
+      spreadSheetClient.releaseCell();
+    }
+    updateDisplayValues();
+  }
+
+  /**
+   * called when a typed formula is entered, it replaces the formula of the cell being edited
+   */
+  function onFormulaSubmit(formula: string): void {
+    if (!checkUserName()) {
+      return;
+    }
+    spreadSheetClient.setFormula(formula);
+    updateDisplayValues();
+  }
+
+  /**
+   * called from the menu of a row or column header to insert or delete it
+   */
+  function onHeaderAction(dimension: "rows" | "columns", action: "insert" | "delete", index: number): void {
+    if (!checkUserName() || !checkCanEdit()) {
+      return;
+    }
+    spreadSheetClient.changeStructure(dimension, action, index);
+    updateDisplayValues();
+  }
+
+  /**
+   * called from the sheet tabs to show, add, rename, move or delete a sheet
+   */
+  function onSheetAction(action: SheetAction, sheet: string, index?: number): void {
+    if (!checkUserName()) {
+      return;
+    }
+    if (action !== "select" && !checkCanEdit()) {
+      return;
+    }
+    if (action === "add") {
+      const newSheet = window.prompt("Enter the name of the new sheet");
+      if (newSheet) {
+        spreadSheetClient.changeSheet("add", newSheet);
+      }
+    } else if (action === "rename") {
+      const newName = window.prompt(`Enter the new name of ${sheet}`, sheet);
+      if (newName && newName !== sheet) {
+        spreadSheetClient.changeSheet("rename", sheet, { newName: newName });
+      }
+    } else if (action === "move") {
+      spreadSheetClient.changeSheet("move", sheet, { index: index });
+    } else if (action === "delete") {
+      if (window.confirm(`Delete ${sheet}? The references to its cells become #REF!`)) {
+        spreadSheetClient.changeSheet("delete", sheet);
+      }
+    } else {
+      spreadSheetClient.changeSheet("select", sheet);
+    }
+    updateDisplayValues();
+  }
+
+  /**
+   * called from the names panel to add, rename or delete a name
+   */
+  function onNameAction(action: NameAction, name: string, definition?: string): void {
+    if (!checkUserName() || !checkCanEdit()) {
+      return;
+    }
+    if (action === "add") {
+      spreadSheetClient.changeName("add", name, { definition: definition });
+    } else if (action === "rename") {
+      const newName = window.prompt(`Enter the new name of ${name}`, name);
+      if (newName && newName !== name) {
+        spreadSheetClient.changeName("rename", name, { newName: newName });
+      }
+    } else if (window.confirm(`Delete ${name}? The formulas that use it show #NAME?`)) {
+      spreadSheetClient.changeName("delete", name);
+    }
+    updateDisplayValues();
+  }
+
+  /**
+   * called from the comments of the current cell to add, reply to, resolve or delete a comment
+   */
+  function onCommentAction(action: CommentAction, details: object): void {
+    if (!checkUserName() || !checkCanEdit()) {
+      return;
+    }
+    if (action === "delete" && !window.confirm("Delete this comment and its replies?")) {
+      return;
+    }
+    spreadSheetClient.changeComment(action, details);
+    updateDisplayValues();
+  }
+
+  /**
+   * called from the format bar to change how the numbers of the current cell or a range are shown
+   */
+  function onFormat(newFormat: NumberFormatSpec, range: string): void {
+    if (!checkUserName() || !checkCanEdit()) {
+      return;
+    }
+    spreadSheetClient.setFormat(newFormat, range);
+    updateDisplayValues();
+  }
+
+  /**
+   * called from the conditional formats panel to add or delete a rule
+   */
+  function onRuleAction(action: RuleAction, details: object): void {
+    if (!checkUserName() || !checkCanEdit()) {
+      return;
+    }
+    spreadSheetClient.changeConditionalRule(action, details);
+    updateDisplayValues();
+  }
+
+  /**
+   * called from the sort and filter bar to sort a range for every user
+   */
+  function onSort(range: string, keys: SortKey[]): void {
+    if (!checkUserName() || !checkCanEdit()) {
+      return;
+    }
+    spreadSheetClient.sortRange(range, keys);
+    updateDisplayValues();
+  }
+
+  /**
+   * called from the sort and filter bar to hide the rows that do not match, a viewer can filter too
+   */
+  function onFilter(range: string, criteria: FilterCriterion[]): void {
+    if (!checkUserName()) {
+      return;
+    }
+    spreadSheetClient.setFilter(range, criteria);
+    updateDisplayValues();
+  }
+
+  function onClearFilter(): void {
+    if (!checkUserName()) {
+      return;
+    }
+    spreadSheetClient.clearFilter();
+    updateDisplayValues();
+  }
+
+  // the comments are on the current cell when it is on the sheet that is shown
+  const currentCellComments = shownSheet === currentSheet ? comments.filter((comment) => comment.cell === currentCell) : [];
+
   return (
     <div>
       <Status statusString={statusString} userName={userName}></Status>
       <button onClick={returnToLoginPage}>Return to Login Page</button>
-      <Formula formulaString={formulaString} resultString={resultString}  ></Formula>
-
-      {<SheetHolder cellsValues={cells}
-        onClick={onCellClick}
-        currentCell={currentCell}
-        currentlyEditing={currentlyEditing} ></SheetHolder>}
-      <KeyPad onButtonClick={onButtonClick}
+      <button onClick={() => setShowComments(!showComments)}>
+        Comments on {currentCell} ({currentCellComments.length})
+      </button>
+      {isOwner && cellEditor !== "" &&
+        <button onClick={onReleaseCell}>Release {currentCell} from {cellEditor}</button>}
+      <Formula formulaString={formulaString} resultString={resultString}
+        currentlyEditing={currentlyEditing} onFormulaSubmit={onFormulaSubmit}></Formula>
+      {canEdit && <FormatBar cellLabel={currentCell} format={format} onFormat={onFormat}></FormatBar>}
+      <SortFilterBar canSort={canEdit} filter={filter} hiddenRowCount={hiddenRows.length}
+        onSort={onSort} onFilter={onFilter} onClearFilter={onClearFilter}></SortFilterBar>
+
+      <div className="spreadsheet-body">
+        {<SheetHolder cellsValues={cells}
+          cellsStyles={cellStyles}
+          onClick={onCellClick}
+          currentCell={shownSheet === currentSheet ? currentCell : ""}
+          currentlyEditing={currentlyEditing}
+          presence={presence}
+          shownSheet={shownSheet}
+          comments={comments}
+          hiddenRows={hiddenRows}
+          onHeaderAction={onHeaderAction} ></SheetHolder>}
+        <NamesPanel names={names} onNameAction={onNameAction}></NamesPanel>
+        <ConditionalRulesPanel rules={conditionalRules} onRuleAction={onRuleAction}></ConditionalRulesPanel>
+      </div>
+      {showComments && shownSheet === currentSheet &&
+        <CommentThread cellLabel={currentCell} comments={currentCellComments}
+          onCommentAction={onCommentAction} onClose={() => setShowComments(false)}></CommentThread>}
+      <SheetTabs sheets={sheetTabs} shownSheet={shownSheet} onSheetAction={onSheetAction}></SheetTabs>
+      {canEdit ? <KeyPad onButtonClick={onButtonClick}
         onCommandButtonClick={onCommandButtonClick}
         currentlyEditing={currentlyEditing}></KeyPad>
+        : <div className="read-only">You can only view this document</div>}
       <ServerSelector serverSelector={serverSelector} serverSelected={serverSelected} />
     </div>
   )
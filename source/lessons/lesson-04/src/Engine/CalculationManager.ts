@@ -3,111 +3,293 @@
  * it is responsible for managing the calculation of the cells in the sheet
  * 
  * it exports the following functions
- * okToAddNewDependency(currentCellLabel: string, newDependsOnCell: string, sheetMemory: SheetMemory): boolean
- * updateDependencies(sheetMemory: SheetMemory): void
- * updateComputationOrder(sheetMemory: SheetMemory): string[]
+ * evaluateSheet(sheetMemory: CellSpace): void
+ * evaluateCell(cellLabel: string, sheetMemory: CellSpace): string[]
+ * findCircularCells(sheetMemory: CellSpace): Set<string>
+ * updateDependencies(sheetMemory: CellSpace): void
+ * updateComputationOrder(sheetMemory: CellSpace): string[]
+ * getDependents(cellLabel: string): string[]
+ * 
+ * The cells are given by a CellSpace, that is a single SheetMemory or a Workbook.
+ * In a workbook every label has the name of its sheet (Summary!B2) so the
+ * dependency graph spans all the sheets.
+ * 
+ * It maintains a reverse dependency graph (the dependents of each cell) so that an edit
+ * only re-evaluates the changed cell and the cells that depend on it.
+ * 
+ * Circular references are allowed in the formulas. Every cell that is part of a cycle
+ * (a strongly connected component of the dependency graph) gets the #CIRC! error, and
+ * the error is cleared as soon as the cycle is broken.
  * 
  */
 
 import SheetMemory from "./SheetMemory";
 import Cell from "./Cell";
-import FormulaBuilder from "./FormulaBuilder";
 import FormulaEvaluator from "./NewFormulaEvaluator";
+import { ErrorMessages } from "./GlobalDefinitions";
 
+/**
+ * the cells that the calculation manager evaluates, all the labels are in the same form
+ */
+export interface CellSpace {
+    // the labels of all the cells
+    getCellLabels(): string[];
+    getCellByLabel(label: string): Cell;
+    setCellByLabel(label: string, cell: Cell): void;
+    // the labels of the cells that the formula of a cell refers to, a name counts as the cells it stands for
+    getCellReferences(label: string): string[];
+    // the sheet that the formula of a cell is evaluated on
+    getSheetForCell(label: string): SheetMemory;
+}
 
 
 export default class CalculationManager {
 
+    // the reverse dependency graph, for each cell the cells whose formula refers to it
+    // it is rebuilt by updateDependencies and maintained by evaluateCell
+    private _dependents: Map<string, Set<string>> = new Map<string, Set<string>>();
+
+    // the cells that are part of a circular reference after the last evaluation
+    private _circularCells: Set<string> = new Set<string>();
 
 
     // Update the dependency graph of the sheet
     // get the computation order
     // compute the cells in the computation order
     // update the cells in the sheet memory
-    public evaluateSheet(sheetMemory: SheetMemory): void {
+    public evaluateSheet(sheetMemory: CellSpace): void {
         // update the dependencies in the sheet
         this.updateDependencies(sheetMemory);
 
-        // compute the computation order for the sheet.
-        let computationOrder = this.updateComputationOrder(sheetMemory);
-
-        // create a new FormulaEvaluator
-        let calculator = new FormulaEvaluator(sheetMemory);
-
-        // compute the cells in the computation order
-        for (let cellLabel of computationOrder) {
-            let currentCell = sheetMemory.getCellByLabel(cellLabel);
-            let formula = currentCell.getFormula();
+        // flag the cells in a cycle, they are not evaluated
+        this._circularCells = this.findCircularCells(sheetMemory);
+        this.flagCircularCells(this._circularCells, sheetMemory);
 
-            calculator.evaluate(formula);
+        // compute the computation order for the cells that are not in a cycle
+        let cells = new Set<string>(sheetMemory.getCellLabels().filter((label) => !this._circularCells.has(label)));
+        let computationOrder = this.orderCells(cells, sheetMemory);
 
-            let value = calculator.result
-            let error = calculator.error;
+        this.evaluateCells(computationOrder, sheetMemory);
+    }
 
-            // update the cell in the sheet memory
-            currentCell.setError(error);
-            currentCell.setValue(value);
-            sheetMemory.setCellByLabel(cellLabel, currentCell);
+    /**
+     * re-evaluate a cell whose formula has changed and every cell that depends on it
+     * 
+     * @param {string} cellLabel - The label of the cell that changed
+     * @param {sheetMemory} SheetMemory - The sheet memory
+     * @returns {string[]} - The cells that were evaluated in the order they were evaluated
+     * 
+     * The dependencies of the changed cell are read from its formula and the reverse dependency
+     * graph is updated, then the changed cell and its transitive dependents are evaluated in
+     * topological order.
+     * 
+     * The edit can create or break a cycle, so the cells that joined or left a cycle are
+     * re-evaluated together with their dependents. Cells in a cycle are flagged with #CIRC!
+     * */
+    public evaluateCell(cellLabel: string, sheetMemory: CellSpace): string[] {
+        let currentCell = sheetMemory.getCellByLabel(cellLabel);
+        let newDependsOn = sheetMemory.getCellReferences(cellLabel);
+
+        this.removeDependents(cellLabel, currentCell.getDependsOn());
+        this.addDependents(cellLabel, newDependsOn);
+        currentCell.setDependsOn(newDependsOn);
+
+        // find the cells that joined or left a cycle
+        // only the edges of the changed cell moved, so a new cycle has to go through it
+        // and a broken cycle was already known, those are the only places to look
+        let circularCells = this.findCircularCellsFrom([cellLabel, ...Array.from(this._circularCells)], sheetMemory);
+        let changedCells: string[] = [cellLabel];
+        circularCells.forEach((label) => {
+            if (!this._circularCells.has(label)) {
+                changedCells.push(label);
+            }
+        });
+        this._circularCells.forEach((label) => {
+            if (!circularCells.has(label)) {
+                changedCells.push(label);
+            }
+        });
+        this._circularCells = circularCells;
+
+        // find the changed cells and everything that depends on them
+        let affectedCells: Set<string> = new Set<string>(changedCells);
+        let cellsToVisit: string[] = [...changedCells];
+        while (cellsToVisit.length > 0) {
+            let visiting = cellsToVisit.pop()!;
+            this._dependents.get(visiting)?.forEach((dependent) => {
+                if (!affectedCells.has(dependent)) {
+                    affectedCells.add(dependent);
+                    cellsToVisit.push(dependent);
+                }
+            });
         }
-    }
 
+        // the cells in a cycle are flagged and not evaluated
+        let circularAffectedCells: Set<string> = new Set<string>();
+        affectedCells.forEach((label) => {
+            if (circularCells.has(label)) {
+                circularAffectedCells.add(label);
+                affectedCells.delete(label);
+            }
+        });
+        this.flagCircularCells(circularAffectedCells, sheetMemory);
 
+        let computationOrder = this.orderCells(affectedCells, sheetMemory);
+        this.evaluateCells(computationOrder, sheetMemory);
+        return [...Array.from(circularAffectedCells), ...computationOrder];
+    }
 
     /**
-     *  checck to see if it is ok to add a cell to the formula in the current cell.
-     * 
-     * @param {string} currentCellLabel - The label of the cell
-     * @param {sheetMemory} SheetMemory - The sheet memory
+     * find the cells that are part of a circular reference
      * 
+     * @param {sheetMemory} SheetMemory - The sheet memory, the dependencies must be up to date
+     * @returns {Set<string>} - The cells in a cycle
      * 
-     * This assumes that there is no circular dependency in the current sheet and thus if 
-     * when we expand the depends on list then we will not find a circular dependency
-     * if we do find a circular dependency then we return false.
+     * A cell is in a cycle when its strongly connected component has more than one cell
+     * or when it refers to itself.
      * */
-    public okToAddNewDependency(currentCellLabel: string, newDependsOnCell: string, sheetMemory: SheetMemory): boolean {
-        // get the current cell
-        let currentCell = sheetMemory.getCellByLabel(currentCellLabel);
+    public findCircularCells(sheetMemory: CellSpace): Set<string> {
+        // a cell without dependencies cannot be part of a cycle
+        let roots: string[] = sheetMemory.getCellLabels()
+            .filter((cellLabel) => sheetMemory.getCellByLabel(cellLabel).getDependsOn().length > 0);
+        return this.findCircularCellsFrom(roots, sheetMemory);
+    }
 
+    /**
+     * find the cells in a cycle that can be reached from the roots
+     * 
+     * This is Tarjan's strongly connected components algorithm, written with an explicit
+     * stack so that long chains of references do not overflow the call stack.
+     * */
+    private findCircularCellsFrom(roots: string[], sheetMemory: CellSpace): Set<string> {
+        let circularCells: Set<string> = new Set<string>();
+        let index: Map<string, number> = new Map<string, number>();
+        let lowLink: Map<string, number> = new Map<string, number>();
+        let componentStack: string[] = [];
+        let onComponentStack: Set<string> = new Set<string>();
+        let nextIndex = 0;
+
+        const strongConnect = (root: string) => {
+            // each frame is a cell and the position of the next dependency to look at
+            let callStack: [string, number][] = [[root, 0]];
+            index.set(root, nextIndex);
+            lowLink.set(root, nextIndex);
+            nextIndex++;
+            componentStack.push(root);
+            onComponentStack.add(root);
+
+            while (callStack.length > 0) {
+                let frame = callStack[callStack.length - 1];
+                let [label, position] = frame;
+                let dependsOn = sheetMemory.getCellByLabel(label).getDependsOn();
+
+                if (position < dependsOn.length) {
+                    frame[1]++;
+                    let dependency = dependsOn[position];
+                    if (!index.has(dependency)) {
+                        index.set(dependency, nextIndex);
+                        lowLink.set(dependency, nextIndex);
+                        nextIndex++;
+                        componentStack.push(dependency);
+                        onComponentStack.add(dependency);
+                        callStack.push([dependency, 0]);
+                    } else if (onComponentStack.has(dependency)) {
+                        lowLink.set(label, Math.min(lowLink.get(label)!, index.get(dependency)!));
+                    }
+                    continue;
+                }
 
-        // the dependsOn list for the current cell is up to because we update it everyt time we render
-        const dependsOn: string[] = currentCell.getDependsOn();
-        const testDependsOn: string[] = [...dependsOn];
+                // all the dependencies have been visited
+                callStack.pop();
+                if (callStack.length > 0) {
+                    let parent = callStack[callStack.length - 1][0];
+                    lowLink.set(parent, Math.min(lowLink.get(parent)!, lowLink.get(label)!));
+                }
 
-        testDependsOn.push(newDependsOnCell);
+                // the cell is the root of a component, pop the component
+                if (lowLink.get(label) === index.get(label)) {
+                    let component: string[] = [];
+                    let member: string;
+                    do {
+                        member = componentStack.pop()!;
+                        onComponentStack.delete(member);
+                        component.push(member);
+                    } while (member !== label);
+
+                    if (component.length > 1 || dependsOn.includes(label)) {
+                        component.forEach((cell) => circularCells.add(cell));
+                    }
+                }
+            }
+        };
 
-        // We could have a formula that looks like A1 + A1 so we have already
-        // checked for a dependency for this cell and we are done
-        if (dependsOn.includes(newDependsOnCell)) {
-            return true;
+        for (let root of roots) {
+            if (!index.has(root)) {
+                strongConnect(root);
+            }
         }
+        return circularCells;
+    }
 
-        function checkForIfCircular(cellLabel: string, dependsOn: string[]): boolean {
-            if (dependsOn.includes(cellLabel)) {
-                return true;
-            }
+    // set the #CIRC! error on the cells that are part of a cycle
+    private flagCircularCells(circularCells: Set<string>, sheetMemory: CellSpace): void {
+        circularCells.forEach((label) => {
+            let cell = sheetMemory.getCellByLabel(label);
+            cell.setError(ErrorMessages.circularReference);
+            cell.setValue(0);
+            sheetMemory.setCellByLabel(label, cell);
+        });
+    }
 
-            for (let i = 0; i < dependsOn.length; i++) {
-                let currentDependency = dependsOn[i];
-                let currentCell = sheetMemory.getCellByLabel(currentDependency);
-                let currentCellDependsOn = currentCell.getDependsOn();
-                if (checkForIfCircular(cellLabel, currentCellDependsOn)) {
-                    return true;
-                }
+    /**
+     * get the cells that refer directly to a cell
+     * @param {string} cellLabel - The label of the cell
+     * @returns {string[]} - The cells whose formula refers to the cell
+     */
+    public getDependents(cellLabel: string): string[] {
+        return Array.from(this._dependents.get(cellLabel) ?? []);
+    }
+
+    private addDependents(cellLabel: string, dependsOn: string[]): void {
+        for (let dependency of dependsOn) {
+            if (!this._dependents.has(dependency)) {
+                this._dependents.set(dependency, new Set<string>());
             }
+            this._dependents.get(dependency)!.add(cellLabel);
+        }
+    }
 
-            return false;
+    private removeDependents(cellLabel: string, dependsOn: string[]): void {
+        for (let dependency of dependsOn) {
+            this._dependents.get(dependency)?.delete(cellLabel);
         }
+    }
 
-        // now we check to see if the new dependency introduces a circular dependency
-        for (let i = 0; i < testDependsOn.length; i++) {
-            let currentDependency = testDependsOn[i];
-            let currentCell = sheetMemory.getCellByLabel(currentDependency);
-            let currentCellDependsOn = currentCell.getDependsOn();
-            if (checkForIfCircular(currentCellLabel, currentCellDependsOn)) {
-                return false;
+    // compute the cells in the order given and update them in the sheet memory
+    private evaluateCells(computationOrder: string[], sheetMemory: CellSpace): void {
+        // a FormulaEvaluator for each sheet, the references without a sheet name are on the sheet of the cell
+        let calculators: Map<SheetMemory, FormulaEvaluator> = new Map<SheetMemory, FormulaEvaluator>();
+
+        // compute the cells in the computation order
+        for (let cellLabel of computationOrder) {
+            let sheet = sheetMemory.getSheetForCell(cellLabel);
+            if (!calculators.has(sheet)) {
+                calculators.set(sheet, new FormulaEvaluator(sheet));
             }
+            let calculator = calculators.get(sheet)!;
+            let currentCell = sheetMemory.getCellByLabel(cellLabel);
+            let formula = currentCell.getFormula();
+
+            calculator.evaluate(formula);
+
+            let value = calculator.result
+            let error = calculator.error;
+
+            // update the cell in the sheet memory
+            currentCell.setError(error);
+            currentCell.setValue(value);
+            sheetMemory.setCellByLabel(cellLabel, currentCell);
         }
-        return true;
     }
 
 
@@ -118,86 +300,80 @@ export default class CalculationManager {
      * @returns {void}
      * 
      * This function will update the dependencies for all cells in the sheet
-     * there are no circular dependencies in the sheet so  we just need to 
+     * 
+     * The reverse dependency graph is rebuilt at the same time
      * */
-    public updateDependencies(sheetMemory: SheetMemory) {
-        for (let column = 0; column < sheetMemory.getNumColumns(); column++) {
-            for (let row = 0; row < sheetMemory.getNumRows(); row++) {
-                const cellLabel = Cell.columnRowToCell(column, row);
-
-                let currentCell = sheetMemory.getCellByLabel(cellLabel);
-                let currentFormula = currentCell.getFormula();
+    public updateDependencies(sheetMemory: CellSpace) {
+        this._dependents = new Map<string, Set<string>>();
+        for (const cellLabel of sheetMemory.getCellLabels()) {
+            let currentCell = sheetMemory.getCellByLabel(cellLabel);
 
-                // always read the top dependencies from the formula
-                let currentDependsOn = FormulaBuilder.getCellReferences(currentFormula);
-                currentCell.setDependsOn(currentDependsOn);
+            // always read the top dependencies from the formula
+            // a range (A1:B4) is expanded so every cell in it is a dependency
+            let currentDependsOn = sheetMemory.getCellReferences(cellLabel);
+            currentCell.setDependsOn(currentDependsOn);
+            this.addDependents(cellLabel, currentDependsOn);
 
-                // update the cell in the sheet memory
-                sheetMemory.setCellByLabel(cellLabel, currentCell);
-            }
+            // update the cell in the sheet memory
+            sheetMemory.setCellByLabel(cellLabel, currentCell);
         }
     }
 
 
     /**
      * get the computation order for the sheet
-     * @param {sheetMemory} SheetMemory - The sheet memory
-     * @returns {string[]} - The computation order
-     * 
-     * We partition the cells into two sets, the independent cells and the dependent cells
-     * 
-     * the independent cells are the cells that do not depend on any other cells
-     * 
-     * we populate the computation order with the independent cells
-     * then we use topological sort to add the dependent cells to the computation order
+     * @param {sheetMemory} SheetMemory - The sheet memory, the dependencies of the cells must be up to date
+     * @returns {string[]} - The cells in the order they are computed, the cells in a cycle come last
      * 
+     * Each cell comes after the cells it depends on.  A cell in a cycle is not computed,
+     * so the cells that depend on it only wait for their other dependencies
      * */
-    public updateComputationOrder(sheetMemory: SheetMemory): string[] {
-        let resultingComputationOrder: string[] = [];
-        let independentCells: string[] = [];
-        let cellsToBeProcessed: string[] = [];
-
-
-        // first split the cells into independent and dependent cells (cellsToBeProcessed)
-        for (let column = 0; column < sheetMemory.getNumColumns(); column++) {
-            for (let row = 0; row < sheetMemory.getNumRows(); row++) {
-                let currentLabel = Cell.columnRowToCell(column, row);
-                const currentCell = sheetMemory.getCellByLabel(currentLabel);
+    public updateComputationOrder(sheetMemory: CellSpace): string[] {
+        let circularCells = this.findCircularCells(sheetMemory);
+        let cells = new Set<string>(sheetMemory.getCellLabels().filter((label) => !circularCells.has(label)));
+        return [...this.orderCells(cells, sheetMemory), ...Array.from(circularCells)];
+    }
 
-                if (currentCell.getDependsOn().length === 0) {
-                    independentCells.push(currentLabel);
-                }
-                else {
-                    cellsToBeProcessed.push(currentLabel);
+    /**
+     * order the cells so that each cell comes after the cells it depends on
+     * 
+     * This is Kahn's topological sort, only the dependencies inside the set count.
+     * A cell that still waits on a cycle in the set is left out.
+     * */
+    private orderCells(cells: Set<string>, sheetMemory: CellSpace): string[] {
+        let remainingDependencies: Map<string, number> = new Map<string, number>();
+        // the cells of the set that depend on each cell of the set
+        let dependents: Map<string, string[]> = new Map<string, string[]>();
+        let computationOrder: string[] = [];
+        cells.forEach((label) => {
+            let dependsOn = new Set<string>(sheetMemory.getCellByLabel(label).getDependsOn());
+            let count = 0;
+            dependsOn.forEach((dependency) => {
+                if (cells.has(dependency)) {
+                    count++;
+                    if (!dependents.has(dependency)) {
+                        dependents.set(dependency, []);
+                    }
+                    dependents.get(dependency)!.push(label);
                 }
+            });
+            remainingDependencies.set(label, count);
+            if (count === 0) {
+                computationOrder.push(label);
             }
-        }
-
-        // now add the independent cells to the computation order
-        resultingComputationOrder = [...independentCells];
-
-        function visit(cell: string): void {
-            let currentCell = sheetMemory.getCellByLabel(cell);
-            let currentCellDependsOn = currentCell.getDependsOn();
-
-            for (let i = 0; i < currentCellDependsOn.length; i++) {
-                let currentDependency = currentCellDependsOn[i];
-                if (cellsToBeProcessed.indexOf(currentDependency) !== -1) {
-                    visit(currentDependency);
+        });
+
+        // the order is also the queue of the cells that are ready, the head is the next one to take
+        for (let head = 0; head < computationOrder.length; head++) {
+            dependents.get(computationOrder[head])?.forEach((dependent) => {
+                let count = remainingDependencies.get(dependent)! - 1;
+                remainingDependencies.set(dependent, count);
+                if (count === 0) {
+                    computationOrder.push(dependent);
                 }
-            }
-
-            // add the cell to the resultingComputationOrder
-            if (resultingComputationOrder.indexOf(cell) === -1) {
-                resultingComputationOrder.push(cell);
-            }
-        }
-
-        for (let i = 0; i < cellsToBeProcessed.length; i++) {
-            let currentCell = cellsToBeProcessed[i];
-            visit(currentCell);
+            });
         }
-        return resultingComputationOrder;
+        return computationOrder;
     }
 
 
@@ -7,7 +7,8 @@
  * 
  * 
  */
-import { ErrorMessages } from "./GlobalDefinitions";
+import { ErrorMessages, CellValue, NumberFormatSpec } from "./GlobalDefinitions";
+import NumberFormat from "./NumberFormat";
 export class Cell {
   // private members
 
@@ -17,8 +18,8 @@ export class Cell {
   private _formula: string[] = [];
 
 
-  // the value of the cell
-  private _value: number = 0;
+  // the value of the cell, a number, text or a boolean
+  private _value: CellValue = 0;
 
   // the error message for the cell (if any)
   private _error: string = "";
@@ -32,6 +33,9 @@ export class Cell {
   // the label of the cell (A1, B2, etc.)
   private _label: string = "";
 
+  // how the number of the cell is shown, undefined for the general format
+  private _format: NumberFormatSpec | undefined = undefined;
+
 
   /**
    * constructor
@@ -49,6 +53,7 @@ export class Cell {
       this._error = cell._error.slice();
       this._displayString = cell._displayString.slice();
       this._dependsOn = [...cell._dependsOn];
+      this._format = cell._format === undefined ? undefined : { ...cell._format };
 
     } else {
       // default constructor logic
@@ -99,20 +104,20 @@ export class Cell {
 
   /**
    * get the value of the cell
-   * @returns {number} The value of the cell
+   * @returns {CellValue} The value of the cell
    *  
    * */
-  getValue(): number {
+  getValue(): CellValue {
     return this._value;
   }
 
   /**
    * set the value of the cell
-   * @param {number} value - The value of the cell
+   * @param {CellValue} value - The value of the cell
    * @returns {void}
    * 
    * */
-  setValue(value: number): void {
+  setValue(value: CellValue): void {
     this._value = value;
   }
 
@@ -124,7 +129,7 @@ export class Cell {
   getDisplayString(): string {
     // successful evaluation has occurred
     if (this._error === "" && this._formula.length > 0) {
-      return this._value.toString();
+      return Cell.formatValue(this._value, this._format);
     }
 
     // Check to see if cell is empty
@@ -138,6 +143,22 @@ export class Cell {
   }
 
 
+  /**
+   * get the format of the number of the cell
+   * @returns {NumberFormatSpec | undefined} the format, undefined for the general format
+   */
+  getFormat(): NumberFormatSpec | undefined {
+    return this._format;
+  }
+
+  /**
+   * set the format of the number of the cell, the value is not changed
+   * @param {NumberFormatSpec | undefined} format - the format, undefined or general for the general format
+   */
+  setFormat(format: NumberFormatSpec | undefined): void {
+    this._format = format === undefined || format.kind === "general" ? undefined : { ...format };
+  }
+
   /**
    * get the label of the cell
    * @returns {string} The label of the cell
@@ -204,17 +225,177 @@ export class Cell {
   //** static methods. */
 
 
+  /**
+   * convert a cell value to the string that is displayed for it
+   * @param {CellValue} value - The value of a cell
+   * @returns {string} the text of the value, booleans are shown as TRUE and FALSE
+   *
+   * */
+  public static valueToString(value: CellValue): string {
+    if (typeof value === "boolean") {
+      return value ? "TRUE" : "FALSE";
+    }
+    return value.toString();
+  }
+
+  /**
+   * convert a cell value to the string that is shown in the sheet
+   * @param {CellValue} value - The value of a cell
+   * @param {NumberFormatSpec | undefined} format - how a number is shown, undefined for the general format
+   * @returns {string} the formatted number, text and booleans are shown as they are
+   */
+  public static formatValue(value: CellValue, format?: NumberFormatSpec): string {
+    if (typeof value === "number") {
+      return NumberFormat.format(value, format);
+    }
+    return Cell.valueToString(value);
+  }
+
+
   /**
    * check if the cell name is valid
    * @param {string} cell - The cell name
    * @returns {boolean} true if the cell name is valid, false otherwise
    *  
+   * the column is one or more letters and the row starts at 1 (A1, Z99, CV1000)
+   * either part can be anchored with a $ ($A$1, A$1, $A1)
    * */
   public static isValidCellLabel(cell: string): boolean {
-    let regex = /^[A-Z][1-9][0-9]?$/;
+    let regex = /^\$?[A-Z]+\$?[1-9][0-9]*$/;
     return regex.test(cell);
   }
 
+  /**
+   * remove the $ anchors from a cell reference
+   * @param {string} cell - The cell reference ($A$1)
+   * @returns {string} the label of the cell (A1)
+   *
+   * */
+  public static removeAnchors(cell: string): string {
+    return cell.replace(/\$/g, "");
+  }
+
+  /**
+   * split a cell reference into its position and its anchors
+   * @param {string} cell - The cell reference (A$1)
+   * @returns the column, the row and whether each of them is anchored with a $
+   *
+   * */
+  public static parseReference(cell: string): { column: number, row: number, absoluteColumn: boolean, absoluteRow: boolean } {
+    const matches = cell.match(/^(\$?)([A-Z]+)(\$?)([0-9]+)$/);
+    if (matches === null) {
+      throw new Error("Invalid cell name");
+    }
+    return {
+      column: Cell.convertFromBase26ToBase10(matches[2]),
+      row: parseInt(matches[4]) - 1,
+      absoluteColumn: matches[1] === "$",
+      absoluteRow: matches[3] === "$",
+    };
+  }
+
+  /**
+   * build a cell reference from its position and its anchors
+   * @returns {string} The cell reference, the anchored parts have a $ in front
+   *
+   * */
+  public static formatReference(column: number, row: number, absoluteColumn: boolean, absoluteRow: boolean): string {
+    return (absoluteColumn ? "$" : "") + Cell.columnNumberToName(column) +
+      (absoluteRow ? "$" : "") + Cell.rowNumberToName(row);
+  }
+
+  /**
+   * check if the name can be used for a sheet
+   * @param {string} name - The sheet name
+   * @returns {boolean} true if the name is a letter or _ followed by letters, digits and _
+   *
+   * a name that is also a cell label (AB12) is refused so that a reference is never ambiguous
+   * */
+  public static isValidSheetName(name: string): boolean {
+    return /^[A-Za-z_][A-Za-z0-9_]*$/.test(name) && !Cell.isValidCellLabel(name);
+  }
+
+  /**
+   * split a reference into the sheet that it names and the cell or range on that sheet
+   * @param {string} reference - The reference (Summary!B2, Summary!A1:B4 or B2)
+   * @returns {[string, string]} the name of the sheet, "" when no sheet is named, and the rest of the reference
+   *
+   * */
+  public static splitSheetReference(reference: string): [string, string] {
+    const separator = reference.indexOf("!");
+    if (separator <= 0 || !Cell.isValidSheetName(reference.slice(0, separator))) {
+      return ["", reference];
+    }
+    return [reference.slice(0, separator), reference.slice(separator + 1)];
+  }
+
+  /**
+   * put the name of a sheet in front of a cell label or a range
+   * @returns {string} the reference to the cell on that sheet (Summary!B2)
+   *
+   * */
+  public static qualifyLabel(sheetName: string, label: string): string {
+    return sheetName + "!" + label;
+  }
+
+  /**
+   * check if the token refers to a cell, on the sheet of the formula (B2) or on a named sheet (Summary!B2)
+   * @param {string} reference - The token
+   * @returns {boolean} true if the token is a cell reference
+   *
+   * */
+  public static isValidReference(reference: string): boolean {
+    return Cell.isValidCellLabel(Cell.splitSheetReference(reference)[1]);
+  }
+
+  /**
+   * check if the token refers to a range, on the sheet of the formula (A1:B4) or on a named sheet (Summary!A1:B4)
+   * @param {string} reference - The token
+   * @returns {boolean} true if the token is a range reference
+   *
+   * */
+  public static isValidRangeReference(reference: string): boolean {
+    return Cell.isValidRangeLabel(Cell.splitSheetReference(reference)[1]);
+  }
+
+  /**
+   * check if the token is a valid range (A1:B4)
+   * @param {string} range - The range token
+   * @returns {boolean} true if both corners of the range are valid cell labels
+   *
+   * */
+  public static isValidRangeLabel(range: string): boolean {
+    const corners = range.split(":");
+    if (corners.length !== 2) {
+      return false;
+    }
+    return Cell.isValidCellLabel(corners[0]) && Cell.isValidCellLabel(corners[1]);
+  }
+
+  /**
+   * expand a range into the labels of the cells it covers
+   * @param {string} range - The range token (A1:B4)
+   * @returns {string[]} The cell labels in the range, row by row
+   *
+   * The corners can be given in any order, B4:A1 covers the same cells as A1:B4
+   * */
+  public static expandRange(range: string): string[] {
+    if (!Cell.isValidRangeLabel(range)) {
+      throw new Error("Invalid range");
+    }
+    const [start, end] = range.split(":");
+    const [startColumn, startRow] = Cell.cellToColumnRow(start);
+    const [endColumn, endRow] = Cell.cellToColumnRow(end);
+
+    let result: string[] = [];
+    for (let row = Math.min(startRow, endRow); row <= Math.max(startRow, endRow); row++) {
+      for (let column = Math.min(startColumn, endColumn); column <= Math.max(startColumn, endColumn); column++) {
+        result.push(Cell.columnRowToCell(column, row));
+      }
+    }
+    return result;
+  }
+
   static convertFromBase26ToBase10(column: string): number {
     let result = 0;
     for (let i = 0; i < column.length; i++) {
@@ -271,7 +452,8 @@ export class Cell {
     // The row is the last characters of the label (the numbers)
 
 
-    const labelREGEX = (/^([A-Z]+)([0-9]+)$/);
+    // the $ anchors of a reference do not change the cell it points at
+    const labelREGEX = (/^\$?([A-Z]+)\$?([0-9]+)$/);
     const matches = label.match(labelREGEX);
 
     if (matches === null) {
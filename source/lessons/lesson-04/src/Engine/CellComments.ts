@@ -0,0 +1,138 @@
+/**
+ * CellComments keeps the comments the users leave on the cells of a document.
+ *
+ * A comment is on a cell and has its author, the time it was written, the replies to it
+ * and a flag that is set once the discussion is resolved.  A cell can have several comments.
+ * The cells are known by their label with the name of their sheet (Sheet1!B2), the comments
+ * follow their cells when rows, columns or sheets change and go with a cell that is deleted.
+ *
+ * The comments are saved with the document
+ *
+ * { comments: [ { id, cell, author, text, time, resolved, replies: [ { author, text, time }, ... ] }, ... ] }
+ *
+ * It provides the following calls.
+ *
+ * getComments(): CommentTransport[]
+ * getComment(id: number): CommentTransport | undefined
+ * addComment(cellLabel: string, author: string, text: string, time: number): CommentTransport
+ * addReply(id: number, author: string, text: string, time: number): void
+ * setResolved(id: number, resolved: boolean): void
+ * deleteComment(id: number): void
+ * updateCellLabels(update: (cellLabel: string) => string | undefined): void
+ * commentsContainer(): CommentTransport[]
+ * createFromContainer(container: CommentTransport[] | undefined): CellComments
+ */
+import { CommentTransport } from "./GlobalDefinitions";
+
+export class CellComments {
+    private _comments: Map<number, CommentTransport> = new Map<number, CommentTransport>();
+    // the id of the next comment, an id is not given out again after its comment is deleted
+    private _nextId: number = 1;
+
+    /**
+     * @returns the comments in the order they were written
+     */
+    public getComments(): CommentTransport[] {
+        return Array.from(this._comments.values(), (comment) => CellComments._copy(comment));
+    }
+
+    /**
+     * @returns the comment with the id, undefined if there is no such comment
+     */
+    public getComment(id: number): CommentTransport | undefined {
+        const comment = this._comments.get(id);
+        return comment === undefined ? undefined : CellComments._copy(comment);
+    }
+
+    /**
+     * start a discussion on a cell
+     *
+     * @param cellLabel the cell with the name of its sheet (Sheet1!B2)
+     * @param time the time it was written in milliseconds since 1970
+     * @returns the new comment
+     */
+    public addComment(cellLabel: string, author: string, text: string, time: number = Date.now()): CommentTransport {
+        const comment: CommentTransport = {
+            id: this._nextId++,
+            cell: cellLabel,
+            author: author,
+            text: text,
+            time: time,
+            resolved: false,
+            replies: [],
+        };
+        this._comments.set(comment.id, comment);
+        return CellComments._copy(comment);
+    }
+
+    /**
+     * add a reply at the end of the discussion of a comment, it throws if there is no such comment
+     */
+    public addReply(id: number, author: string, text: string, time: number = Date.now()): void {
+        this._getComment(id).replies.push({ author: author, text: text, time: time });
+    }
+
+    /**
+     * resolve a discussion or open it again, it throws if there is no such comment
+     */
+    public setResolved(id: number, resolved: boolean): void {
+        this._getComment(id).resolved = resolved;
+    }
+
+    /**
+     * delete a comment and its replies
+     */
+    public deleteComment(id: number): void {
+        this._comments.delete(id);
+    }
+
+    /**
+     * move the comments to the new labels of their cells
+     *
+     * @param update gives the new label of a cell, undefined if the cell was deleted
+     * and its comments go with it
+     */
+    public updateCellLabels(update: (cellLabel: string) => string | undefined): void {
+        this._comments.forEach((comment, id) => {
+            const cellLabel = update(comment.cell);
+            if (cellLabel === undefined) {
+                this._comments.delete(id);
+            } else {
+                comment.cell = cellLabel;
+            }
+        });
+    }
+
+    /**
+     * @returns the comments as they are saved with the document
+     */
+    public commentsContainer(): CommentTransport[] {
+        return this.getComments();
+    }
+
+    /**
+     * load the comments of a document, a document saved before there were comments has none
+     */
+    public static createFromContainer(container: CommentTransport[] | undefined): CellComments {
+        const comments = new CellComments();
+        for (const comment of container ?? []) {
+            comments._comments.set(comment.id, CellComments._copy(comment));
+            comments._nextId = Math.max(comments._nextId, comment.id + 1);
+        }
+        return comments;
+    }
+
+    private _getComment(id: number): CommentTransport {
+        const comment = this._comments.get(id);
+        if (!comment) {
+            throw new Error(`Comment ${id} does not exist`);
+        }
+        return comment;
+    }
+
+    private static _copy(comment: CommentTransport): CommentTransport {
+        return { ...comment, replies: comment.replies.map((reply) => ({ ...reply })) };
+    }
+}
+
+export default CellComments;
@@ -0,0 +1,149 @@
+/**
+ * ChangeTracker numbers the changes of a document so a client only fetches what changed.
+ *
+ * The parts of the document are kept in groups, the cells, the users, the sheets and names.
+ * A group is either compared or marked.  The parts of a compared group are a key and the text of
+ * their contents, the tracker is given the parts as they are now and the revision goes up when a part
+ * is added, changed or removed.  The parts of a marked group are told to the tracker when they change,
+ * so they never have to be turned into text, and the whole group can be marked when too much changed
+ * to name the parts.  A part remembers the revision it changed in, a client that has a revision then
+ * only needs the parts that changed after it.
+ *
+ * This revision counts the changes that the clients see, it is not the number of a saved revision
+ * in the RevisionStore.  The revisions start at the time the tracker is made so that a revision
+ * from before the server restarted is never taken for one of this tracker.
+ *
+ * It provides the following calls.
+ *
+ * revision: number
+ * update(group: string, parts: Map<string, string>): void
+ * markChanged(group: string, keys: string[]): void
+ * markAllChanged(group: string): void
+ * changedSince(group: string, revision: number): string[]
+ * allChangedSince(group: string, revision: number): boolean
+ * isKnown(revision: number): boolean
+ */
+
+// the contents of a part, undefined once it is removed, and the revision it last changed in
+interface TrackedPart {
+    contents: string | undefined;
+    revision: number;
+}
+
+export class ChangeTracker {
+    private _firstRevision: number;
+    private _revision: number;
+    private _groups: Map<string, Map<string, TrackedPart>> = new Map<string, Map<string, TrackedPart>>();
+    // the revision each marked group was last marked as a whole in
+    private _allChanged: Map<string, number> = new Map<string, number>();
+
+    constructor(firstRevision: number = Date.now()) {
+        this._firstRevision = firstRevision;
+        this._revision = firstRevision;
+    }
+
+    /**
+     * @returns the revision of the latest change
+     */
+    public get revision(): number {
+        return this._revision;
+    }
+
+    /**
+     * compare the parts of a group with the ones seen before, the revision goes up once
+     * if any part was added, changed or removed
+     *
+     * @param group the name of the group
+     * @param parts the key and the contents of every part of the group as it is now
+     */
+    public update(group: string, parts: Map<string, string>): void {
+        const trackedParts = this._groups.get(group) ?? new Map<string, TrackedPart>();
+        this._groups.set(group, trackedParts);
+        const changedKeys: string[] = [];
+
+        parts.forEach((contents: string, key: string) => {
+            if (trackedParts.get(key)?.contents !== contents) {
+                changedKeys.push(key);
+            }
+        });
+        trackedParts.forEach((part: TrackedPart, key: string) => {
+            if (part.contents !== undefined && !parts.has(key)) {
+                changedKeys.push(key);
+            }
+        });
+        if (changedKeys.length === 0) {
+            return;
+        }
+
+        this._revision++;
+        for (const key of changedKeys) {
+            trackedParts.set(key, { contents: parts.get(key), revision: this._revision });
+        }
+    }
+
+    /**
+     * record that parts of a marked group changed, the revision goes up once if there are any
+     *
+     * @param group the name of the group
+     * @param keys the keys of the parts that changed
+     */
+    public markChanged(group: string, keys: string[]): void {
+        if (keys.length === 0) {
+            return;
+        }
+        const trackedParts = this._groups.get(group) ?? new Map<string, TrackedPart>();
+        this._groups.set(group, trackedParts);
+
+        this._revision++;
+        for (const key of keys) {
+            trackedParts.set(key, { contents: undefined, revision: this._revision });
+        }
+    }
+
+    /**
+     * record that any part of a marked group could have changed, the parts that were marked
+     * before are forgotten
+     *
+     * @param group the name of the group
+     */
+    public markAllChanged(group: string): void {
+        this._revision++;
+        this._groups.delete(group);
+        this._allChanged.set(group, this._revision);
+    }
+
+    /**
+     * @param group the name of the group
+     * @param revision the revision the client has
+     * @returns the keys of the parts that were added, changed or removed after the revision,
+     * the group could have changed as a whole since then, see allChangedSince
+     */
+    public changedSince(group: string, revision: number): string[] {
+        const keys: string[] = [];
+        this._groups.get(group)?.forEach((part: TrackedPart, key: string) => {
+            if (part.revision > revision) {
+                keys.push(key);
+            }
+        });
+        return keys;
+    }
+
+    /**
+     * @param group the name of a marked group
+     * @param revision the revision the client has
+     * @returns true if the group was marked as a whole after the revision
+     */
+    public allChangedSince(group: string, revision: number): boolean {
+        return (this._allChanged.get(group) ?? this._firstRevision) > revision;
+    }
+
+    /**
+     * @returns true if the revision was given out by this tracker, the changes after
+     * any other revision are not known
+     */
+    public isKnown(revision: number): boolean {
+        return revision >= this._firstRevision && revision <= this._revision;
+    }
+}
+
+export default ChangeTracker;
@@ -0,0 +1,265 @@
+/**
+ * ConditionalFormats keeps the conditional format rules of a document and works out
+ * how they style the cells.
+ *
+ * A rule targets a cell or a range (Sheet1!B2:B40) and checks the values of its cells
+ * once the workbook has been evaluated.  The cells that meet the condition get the style of the rule.
+ *
+ * lessThan, greaterThan, equalTo   the number of the cell compared with value
+ * between                          value <= the number of the cell <= value2
+ * top, bottom                      the largest or smallest value percent of the numbers in the range
+ * error                            the cell shows an error (#DIV/0!, #REF!, ...)
+ * colorScale                       the background goes from minColor for the smallest number
+ *                                  to maxColor for the largest
+ *
+ * The empty cells are never styled and only numbers are compared.  When several rules style
+ * the same cell the rule that was added first wins, a later rule only adds what it does not set.
+ * The ranges follow their cells when rows, columns or sheets change, a rule whose cells are all deleted
+ * goes with them.
+ *
+ * The rules are saved with the document
+ *
+ * { conditionalFormats: [ { id, range, condition, value, value2, style, minColor, maxColor }, ... ] }
+ *
+ * It provides the following calls.
+ *
+ * getRules(): ConditionalRuleTransport[]
+ * getRule(id: number): ConditionalRuleTransport | undefined
+ * addRule(rule: ConditionalRuleTransport): ConditionalRuleTransport
+ * deleteRule(id: number): void
+ * updateRanges(update: (range: string) => string | undefined): void
+ * getStyles(workbook: Workbook, sheetName: string): Map<string, CellStyle>
+ * rulesContainer(): ConditionalRuleTransport[]
+ * createFromContainer(container: ConditionalRuleTransport[] | undefined): ConditionalFormats
+ * check(rule: any): string
+ */
+import Cell from "./Cell";
+import Workbook from "./Workbook";
+import { CellStyle, ConditionalRuleTransport } from "./GlobalDefinitions";
+
+export class ConditionalFormats {
+    public static readonly conditions = ['lessThan', 'greaterThan', 'equalTo', 'between', 'top', 'bottom', 'error', 'colorScale'];
+
+    private _rules: Map<number, ConditionalRuleTransport> = new Map<number, ConditionalRuleTransport>();
+    // the id of the next rule, an id is not given out again after its rule is deleted
+    private _nextId: number = 1;
+
+    /**
+     * @returns the rules in the order they were added
+     */
+    public getRules(): ConditionalRuleTransport[] {
+        return Array.from(this._rules.values(), (rule) => ConditionalFormats._copy(rule));
+    }
+
+    /**
+     * @returns the rule with the id, undefined if there is no such rule
+     */
+    public getRule(id: number): ConditionalRuleTransport | undefined {
+        const rule = this._rules.get(id);
+        return rule === undefined ? undefined : ConditionalFormats._copy(rule);
+    }
+
+    /**
+     * add a rule after the other rules, the rule must have been checked
+     *
+     * @param rule the rule, its range has the name of its sheet (Sheet1!B2:B40), its id is given here
+     * @returns the new rule
+     */
+    public addRule(rule: ConditionalRuleTransport): ConditionalRuleTransport {
+        const newRule = ConditionalFormats._copy({ ...rule, id: this._nextId++ });
+        this._rules.set(newRule.id, newRule);
+        return ConditionalFormats._copy(newRule);
+    }
+
+    /**
+     * delete a rule, the cells it styled lose its style
+     */
+    public deleteRule(id: number): void {
+        this._rules.delete(id);
+    }
+
+    /**
+     * move the rules to the new ranges of their cells
+     *
+     * @param update gives the new range of a rule, undefined if its cells were deleted
+     * and the rule goes with them
+     */
+    public updateRanges(update: (range: string) => string | undefined): void {
+        this._rules.forEach((rule, id) => {
+            const range = update(rule.range);
+            if (range === undefined) {
+                this._rules.delete(id);
+            } else {
+                rule.range = range;
+            }
+        });
+    }
+
+    /**
+     * work out the styles of the cells of a sheet from their values, the workbook must have been evaluated
+     *
+     * @returns the style of each cell that a rule matches, the cells are labelled without the sheet
+     */
+    public getStyles(workbook: Workbook, sheetName: string): Map<string, CellStyle> {
+        const styles = new Map<string, CellStyle>();
+        this._rules.forEach((rule) => {
+            const [ruleSheet, range] = Cell.splitSheetReference(rule.range);
+            if (ruleSheet !== sheetName) {
+                return;
+            }
+            // the empty cells and the cells outside the sheet are left out
+            const cells = new Map<string, Cell>();
+            for (const label of Cell.isValidRangeLabel(range) ? Cell.expandRange(range) : [range]) {
+                const cellLabel = Cell.qualifyLabel(sheetName, label);
+                if (workbook.hasCell(cellLabel) && workbook.getCellByLabel(cellLabel).getFormula().length > 0) {
+                    cells.set(label, workbook.getCellByLabel(cellLabel));
+                }
+            }
+            ConditionalFormats._match(rule, cells).forEach((style, label) => {
+                // the rule that was added first wins
+                styles.set(label, { ...style, ...styles.get(label) });
+            });
+        });
+        return styles;
+    }
+
+    /**
+     * @returns the rules as they are saved with the document
+     */
+    public rulesContainer(): ConditionalRuleTransport[] {
+        return this.getRules();
+    }
+
+    /**
+     * load the rules of a document, a document saved before there were rules has none
+     */
+    public static createFromContainer(container: ConditionalRuleTransport[] | undefined): ConditionalFormats {
+        const formats = new ConditionalFormats();
+        for (const rule of container ?? []) {
+            formats._rules.set(rule.id, ConditionalFormats._copy(rule));
+            formats._nextId = Math.max(formats._nextId, rule.id + 1);
+        }
+        return formats;
+    }
+
+    /**
+     * @param rule a rule that was sent by a client, its range is checked against the document elsewhere
+     * @returns the reason the rule is not valid, empty if it is valid
+     */
+    public static check(rule: any): string {
+        if (typeof rule !== 'object' || rule === null || !ConditionalFormats.conditions.includes(rule.condition)) {
+            return `Invalid condition, use ${ConditionalFormats.conditions.join(', ')}`;
+        }
+        if (rule.condition !== 'error' && rule.condition !== 'colorScale' && !Number.isFinite(rule.value)) {
+            return `The ${rule.condition} condition needs a number`;
+        }
+        if (rule.condition === 'between' && !(Number.isFinite(rule.value2) && rule.value2 >= rule.value)) {
+            return 'The between condition needs a second number that is not smaller than the first';
+        }
+        if ((rule.condition === 'top' || rule.condition === 'bottom') && (rule.value <= 0 || rule.value > 100)) {
+            return 'The percent must be more than 0 and at most 100';
+        }
+        if (rule.condition === 'colorScale') {
+            return ConditionalFormats._isColor(rule.minColor) && ConditionalFormats._isColor(rule.maxColor)
+                ? '' : 'A color scale needs a color for the smallest and the largest value, use #rrggbb';
+        }
+        const style = rule.style;
+        if (typeof style !== 'object' || style === null
+            || (style.color === undefined && style.backgroundColor === undefined && style.bold === undefined)) {
+            return 'The rule needs a text color, a background color or bold';
+        }
+        if ((style.color !== undefined && !ConditionalFormats._isColor(style.color))
+            || (style.backgroundColor !== undefined && !ConditionalFormats._isColor(style.backgroundColor))) {
+            return 'Invalid color, use #rrggbb';
+        }
+        if (style.bold !== undefined && typeof style.bold !== 'boolean') {
+            return 'Bold must be on or off';
+        }
+        return '';
+    }
+
+    // the style of each cell of the range that meets the condition of the rule
+    private static _match(rule: ConditionalRuleTransport, cells: Map<string, Cell>): Map<string, CellStyle> {
+        const matched = new Map<string, CellStyle>();
+        const style: CellStyle = { ...rule.style };
+        if (rule.condition === 'error') {
+            cells.forEach((cell, label) => {
+                if (cell.getError() !== '') {
+                    matched.set(label, style);
+                }
+            });
+            return matched;
+        }
+
+        // the other conditions only look at the cells that hold a number
+        const numbers = new Map<string, number>();
+        cells.forEach((cell, label) => {
+            const value = cell.getValue();
+            if (cell.getError() === '' && typeof value === 'number') {
+                numbers.set(label, value);
+            }
+        });
+        const sorted = Array.from(numbers.values()).sort((first, second) => first - second);
+        if (sorted.length === 0) {
+            return matched;
+        }
+        const ruleValue = rule.value ?? 0;
+        // top and bottom take at least one number, the numbers equal to the last one taken are taken too
+        const taken = Math.max(1, Math.floor(sorted.length * ruleValue / 100));
+        const lowest = sorted[0];
+        const highest = sorted[sorted.length - 1];
+
+        numbers.forEach((value, label) => {
+            switch (rule.condition) {
+                case 'colorScale':
+                    const position = highest === lowest ? 0 : (value - lowest) / (highest - lowest);
+                    matched.set(label, { backgroundColor: ConditionalFormats._blend(rule.minColor!, rule.maxColor!, position) });
+                    return;
+                case 'lessThan':
+                    if (value < ruleValue) matched.set(label, style);
+                    return;
+                case 'greaterThan':
+                    if (value > ruleValue) matched.set(label, style);
+                    return;
+                case 'equalTo':
+                    if (value === ruleValue) matched.set(label, style);
+                    return;
+                case 'between':
+                    if (value >= ruleValue && value <= rule.value2!) matched.set(label, style);
+                    return;
+                case 'top':
+                    if (value >= sorted[sorted.length - taken]) matched.set(label, style);
+                    return;
+                case 'bottom':
+                    if (value <= sorted[taken - 1]) matched.set(label, style);
+                    return;
+            }
+        });
+        return matched;
+    }
+
+    // the color at the position (0 to 1) between two colors
+    private static _blend(fromColor: string, toColor: string, position: number): string {
+        let color = '#';
+        for (let channel = 1; channel < 7; channel += 2) {
+            const from = parseInt(fromColor.slice(channel, channel + 2), 16);
+            const to = parseInt(toColor.slice(channel, channel + 2), 16);
+            color += Math.round(from + (to - from) * position).toString(16).padStart(2, '0');
+        }
+        return color;
+    }
+
+    private static _isColor(color: any): boolean {
+        return typeof color === 'string' && /^#[0-9a-fA-F]{6}$/.test(color);
+    }
+
+    private static _copy(rule: ConditionalRuleTransport): ConditionalRuleTransport {
+        const copy = { ...rule };
+        if (rule.style) {
+            copy.style = { ...rule.style };
+        }
+        return copy;
+    }
+}
+
+export default ConditionalFormats;
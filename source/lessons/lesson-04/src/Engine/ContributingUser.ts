@@ -1,18 +1,53 @@
 /**
  * An editing user is a user that is currently editing a cell in a document.
  * each user has a formula builder and a cell that they are editing.
+ * a user also has a clipboard that holds the last cell they copied.
+ * the cell is on a sheet of the workbook, the user can be shown another sheet while
+ * they edit so that they can refer to its cells.
+ * the cell a user edits is leased to them, the lease is renewed while their client is open
+ * and a notice tells them when the lease ended without them releasing the cell.
+ * the times the user was last seen and last active tell the other users if they are still there.
+ * a user can filter a range to hide some of its rows, only that user has the rows hidden.
  */
 
 import { FormulaBuilder } from "./FormulaBuilder";
+import { Workbook } from "./Workbook";
+import { FilterTransport } from "./GlobalDefinitions";
+
+/**
+ * a cell that has been copied, the formula is kept as it was when it was copied
+ * the label has the name of the sheet of the cell (Sheet1!A1)
+ */
+export interface CopiedCell {
+    cellLabel: string;
+    formula: FormulaType;
+}
 
 export class ContributingUser {
     private _formulaBuilder: FormulaBuilder;
     private _cellLabel: string;
+    // the sheet of the cell
+    private _sheetName: string;
+    // the sheet that is shown to the user
+    private _viewSheet: string;
     private _isEditing: boolean = false;
+    private _clipboard: CopiedCell | undefined = undefined;
+    // the time the edit lease was last renewed in milliseconds since 1970
+    private _leaseRenewed: number = Date.now();
+    // a message for the user that is sent with the next document they get
+    private _notice: string = '';
+    // the last time their client fetched the document and the last time they made a change
+    // or moved, in milliseconds since 1970
+    private _lastSeen: number = Date.now();
+    private _lastActive: number = Date.now();
+    // the filter of the user, its range has the name of its sheet (Sheet1!A2:C40)
+    private _filter: FilterTransport | undefined = undefined;
 
-    constructor(cellLabel: string) {
+    constructor(cellLabel: string, sheetName: string = Workbook.defaultSheetName) {
         this._formulaBuilder = new FormulaBuilder();
         this._cellLabel = cellLabel;
+        this._sheetName = sheetName;
+        this._viewSheet = sheetName;
     }
 
     public get isEditing(): boolean {
@@ -31,7 +66,71 @@ export class ContributingUser {
         return this._cellLabel;
     }
 
+    public get sheetName(): string {
+        return this._sheetName;
+    }
+
+    public set sheetName(sheetName: string) {
+        this._sheetName = sheetName;
+    }
+
+    public get viewSheet(): string {
+        return this._viewSheet;
+    }
+
+    public set viewSheet(viewSheet: string) {
+        this._viewSheet = viewSheet;
+    }
+
     public get formulaBuilder(): FormulaBuilder {
         return this._formulaBuilder;
     }
+
+    public get clipboard(): CopiedCell | undefined {
+        return this._clipboard;
+    }
+
+    public set clipboard(clipboard: CopiedCell | undefined) {
+        this._clipboard = clipboard;
+    }
+
+    public get leaseRenewed(): number {
+        return this._leaseRenewed;
+    }
+
+    public renewLease(now: number = Date.now()): void {
+        this._leaseRenewed = now;
+    }
+
+    public get notice(): string {
+        return this._notice;
+    }
+
+    public set notice(notice: string) {
+        this._notice = notice;
+    }
+
+    public get lastSeen(): number {
+        return this._lastSeen;
+    }
+
+    public set lastSeen(lastSeen: number) {
+        this._lastSeen = lastSeen;
+    }
+
+    public get lastActive(): number {
+        return this._lastActive;
+    }
+
+    public set lastActive(lastActive: number) {
+        this._lastActive = lastActive;
+    }
+
+    public get filter(): FilterTransport | undefined {
+        return this._filter;
+    }
+
+    public set filter(filter: FilterTransport | undefined) {
+        this._filter = filter;
+    }
 }
@@ -0,0 +1,178 @@
+/**
+ * Read and write the cells of a sheet as delimited text, CSV with commas and TSV with tabs.
+ *
+ * The fields follow RFC 4180, a field that holds the delimiter, a double quote or a line break
+ * is wrapped in double quotes and a double quote inside it is written twice.
+ * The same quoting is used for TSV so that any text survives the round trip.
+ *
+ * A field that starts with = is a formula (=SUM(A1:A3) * 2), any other field is a number,
+ * TRUE or FALSE, or text.
+ *
+ * It provides the following calls.
+ *
+ * getDelimiter(format: string): string | undefined
+ * parse(text: string, delimiter: string): string[][]
+ * format(rows: string[][], delimiter: string): string
+ * textToFormula(text: string): FormulaType
+ * formulaToText(formula: FormulaType): string
+ */
+
+import FormulaTokenizer from "./FormulaTokenizer";
+
+export class DelimitedText {
+    // the delimiters of the formats that can be read and written
+    private static readonly _delimiters: Map<string, string> = new Map<string, string>([
+        ["csv", ","],
+        ["tsv", "\t"],
+    ]);
+
+    /**
+     * @param format csv or tsv
+     * @returns the delimiter of the format, undefined if the format is not known
+     */
+    public static getDelimiter(format: string): string | undefined {
+        return DelimitedText._delimiters.get(format.toLowerCase());
+    }
+
+    /**
+     * split delimited text into rows of fields
+     *
+     * @param text the text, the lines can end with \r\n, \n or \r
+     * @param delimiter the character between the fields
+     * @returns the rows, a line break at the end of the text does not start a new row.
+     * It throws if a quoted field is not closed
+     */
+    public static parse(text: string, delimiter: string): string[][] {
+        const rows: string[][] = [];
+        let row: string[] = [];
+        let field = "";
+        let index = 0;
+        let line = 1;
+
+        while (index < text.length) {
+            const character = text[index];
+
+            // a quoted field runs to the next quote that is not doubled
+            if (character === '"' && field === "") {
+                const start = line;
+                index++;
+                while (true) {
+                    if (index >= text.length) {
+                        throw new Error(`The quoted field on line ${start} is not closed`);
+                    }
+                    if (text[index] === '"' && text[index + 1] === '"') {
+                        field += '"';
+                        index += 2;
+                    } else if (text[index] === '"') {
+                        index++;
+                        break;
+                    } else {
+                        if (text[index] === "\n") {
+                            line++;
+                        }
+                        field += text[index];
+                        index++;
+                    }
+                }
+                continue;
+            }
+
+            if (character === delimiter) {
+                row.push(field);
+                field = "";
+                index++;
+            } else if (character === "\r" || character === "\n") {
+                row.push(field);
+                rows.push(row);
+                row = [];
+                field = "";
+                index += character === "\r" && text[index + 1] === "\n" ? 2 : 1;
+                line++;
+            } else {
+                field += character;
+                index++;
+            }
+        }
+
+        // the last row when the text does not end with a line break
+        if (field !== "" || row.length > 0) {
+            row.push(field);
+            rows.push(row);
+        }
+        return rows;
+    }
+
+    /**
+     * join rows of fields into delimited text, every row ends with \r\n
+     *
+     * @param rows the fields of each row
+     * @param delimiter the character between the fields
+     */
+    public static format(rows: string[][], delimiter: string): string {
+        return rows.map((row) => row.map((field) => DelimitedText._quote(field, delimiter)).join(delimiter) + "\r\n").join("");
+    }
+
+    /**
+     * turn the text of a field into the formula of a cell
+     *
+     * @param text the field
+     * @param names the names of the document that a formula can use
+     * @returns the tokens of the formula when the text starts with =, otherwise a number, TRUE, FALSE
+     * or a string literal. A formula that cannot be split into tokens is kept as text
+     */
+    public static textToFormula(text: string, names: string[] = []): FormulaType {
+        if (text === "") {
+            return [];
+        }
+        if (text.startsWith("=")) {
+            try {
+                const formula = FormulaTokenizer.tokenize(text, names);
+                if (formula.length > 0) {
+                    return formula;
+                }
+            } catch (error) {
+                // the text is kept so nothing in the file is lost
+            }
+        }
+        if (/^[-+]?([0-9]+\.?[0-9]*|\.[0-9]+)([eE][-+]?[0-9]+)?$/.test(text.trim())) {
+            return [text.trim()];
+        }
+        if (text.toUpperCase() === "TRUE" || text.toUpperCase() === "FALSE") {
+            return [text.toUpperCase()];
+        }
+        return ['"' + text.replace(/"/g, '""') + '"'];
+    }
+
+    /**
+     * turn the formula of a cell into the text of a field
+     *
+     * @param formula the tokens of the formula
+     * @returns a single number, boolean or text as it is, any other formula starts with =.
+     * Text that would be read back as something else (12, TRUE, =A1) is written as a formula ="12"
+     */
+    public static formulaToText(formula: FormulaType): string {
+        if (formula.length === 1) {
+            const token = formula[0];
+            const isText = token.length >= 2 && token.startsWith('"') && token.endsWith('"');
+            const text = isText ? token.slice(1, -1).replace(/""/g, '"') : token;
+            const readBack = DelimitedText.textToFormula(text);
+            if (readBack.length === 1 && readBack[0] === token) {
+                return text;
+            }
+        }
+        if (formula.length === 0) {
+            return "";
+        }
+        return "=" + formula.join(" ");
+    }
+
+    // quote a field if it holds the delimiter, a double quote or a line break
+    private static _quote(field: string, delimiter: string): string {
+        if (field.includes(delimiter) || /["\r\n]/.test(field)) {
+            return '"' + field.replace(/"/g, '""') + '"';
+        }
+        return field;
+    }
+}
+
+export default DelimitedText;
@@ -5,12 +5,69 @@
  * 
  * The document holder is called by a server to manage the documents
  * 
+ * The documents are kept in a DocumentStorage, a folder of .json files unless another storage is given.
+ * A change is written a short while after it is made so that the changes made together go in one write,
+ * each write is kept as one revision of the users who made those changes, flush writes the changes that are still waiting.  A document that cannot be read when the holder
+ * starts is quarantined and the other documents are loaded.
+ * 
  * It provides a named access to controllers for these functions
  * 
+ * flush(): Promise<void>
  * addToken(token:string):  void
  * addCell(cell:string): void
  * removeToken(): void
  * clearFormula(): void
+ * setFormula(): string
+ * undo(): void
+ * redo(): void
+ * getRevisions(): RevisionTransport[]
+ * getRevision(): RevisionTransport | undefined
+ * diffRevisions(): CellDiffTransport[] | undefined
+ * restoreRevision(): string | undefined
+ * addSheet(): string
+ * renameSheet(): string
+ * moveSheet(): string
+ * deleteSheet(): string
+ * selectSheet(): string
+ * getNames(): NameTransport[]
+ * getDocumentNamesForUser(): string[]
+ * hasAccess(): boolean
+ * getAccess(): AccessTransport[]
+ * shareDocument(): string
+ * changeAccess(): string
+ * revokeAccess(): string
+ * claimDocument(): string
+ * recordActivity(): void
+ * recordFetch(): void
+ * expireEditLeases(): string[]
+ * updatePresence(): string[]
+ * forceReleaseEditAccess(): string
+ * defineName(): string
+ * renameName(): string
+ * deleteName(): string
+ * addComment(): string
+ * replyToComment(): string
+ * resolveComment(): string
+ * deleteComment(): string
+ * insertRows(): string
+ * deleteRows(): string
+ * insertColumns(): string
+ * deleteColumns(): string
+ * copyCell(): string
+ * pasteCell(): string
+ * fillDown(): string
+ * fillRight(): string
+ * exportDocument(): string | undefined
+ * importCells(): string
+ * setFormat(): string
+ * addConditionalRule(): string
+ * deleteConditionalRule(): string
+ * sortRange(): string
+ * setFilter(): string
+ * clearFilter(): string
+ * importDocument(): boolean
+ * getDocumentDeltaJSON(): string | undefined
+ * getDocumentRevision(): number
  * getFormulaString(): string
  * getResultString(): string
  * setWorkingCellByLabel(label:string): void
@@ -22,9 +79,14 @@
  * getEditStatusString(): string
  * 
  */
-import * as fs from 'fs';
 import * as path from 'path';
 import { SpreadSheetController } from "./SpreadSheetController";
+import { RevisionStore } from "./RevisionStore";
+import { DocumentStorage } from "./DocumentStorage";
+import { FileDocumentStorage } from "./FileDocumentStorage";
+import { DelimitedText } from "./DelimitedText";
+import { SheetMemory } from "./SheetMemory";
+import { RevisionTransport, CellDiffTransport, NameTransport, AccessTransport, NumberFormatSpec, ConditionalRuleTransport, SortKey, FilterCriterion } from "./GlobalDefinitions";
 
 
 export class DocumentHolder {
@@ -33,87 +95,150 @@ export class DocumentHolder {
     // this can be changed by calling setDocumentFolder
     private _documentFolder: string;
 
-    constructor(documentDirectory: string = 'documents') {
+    // every write is also kept as a numbered revision in the storage
+    private _revisionStore: RevisionStore;
+
+    // the users who changed each document since it was last written, the next revision is theirs
+    private _pendingUsers: Map<string, string[]>;
+
+    // a cell stays leased to the user editing it for this long after their client last renewed it
+    private _editLeaseMilliseconds: number;
+
+    // where the documents are kept, the document folder unless another storage is given
+    private _storage: DocumentStorage;
+
+    // a document is written this long after its last change, the changes made in the meantime go in the same write
+    private _saveDelayMilliseconds: number;
+
+    // the timers of the documents whose changes are waiting to be written
+    private _pendingSaves: Map<string, ReturnType<typeof setTimeout>>;
+
+    // the write of each document that is under way, the next write of a document waits for it
+    private _writes: Map<string, Promise<void>>;
+
+    constructor(documentDirectory: string = 'documents', maxRevisions: number = 100, editLeaseMilliseconds: number = 60 * 1000,
+        storage?: DocumentStorage, saveDelayMilliseconds: number = 500) {
         this._documents = new Map<string, SpreadSheetController>();
+        this._editLeaseMilliseconds = editLeaseMilliseconds;
+        this._saveDelayMilliseconds = saveDelayMilliseconds;
+        this._pendingSaves = new Map<string, ReturnType<typeof setTimeout>>();
+        this._pendingUsers = new Map<string, string[]>();
+        this._writes = new Map<string, Promise<void>>();
 
         const rootPath = path.join(__dirname, '..', '..');
 
         this._documentFolder = path.join(rootPath, documentDirectory);
-        this._initializeDocumentDirectory();
+        this._storage = storage ?? new FileDocumentStorage(this._documentFolder);
+        this._revisionStore = new RevisionStore(this._storage, maxRevisions);
         this._loadDocuments();
     }
 
-    private _initializeDocumentDirectory(): void {
-        if (!fs.existsSync(this._documentFolder)) {
-            fs.mkdirSync(this._documentFolder, { recursive: true });
-        }
-    }
-
-    /** clean out all the files in the directory that start with xxx
+    /** clean out all the documents whose names start with xxx
      *  to be used in testing
      */
     private _cleanFiles(): void {
-        const files = fs.readdirSync(this._documentFolder);
-        // delete all files that start with xxx
-        files.forEach(file => {
-            if (file.startsWith('xxx')) {
-                fs.unlinkSync(path.join(this._documentFolder, file));
+        this._storage.listDocuments().forEach(name => {
+            if (name.startsWith('xxx')) {
+                this._storage.deleteDocument(name);
+                this._revisionStore.deleteRevisions(name);
             }
         });
     }
 
     private _loadDocuments(): void {
-        const files = fs.readdirSync(this._documentFolder);
-        files.forEach(file => {
-
-            const documentPath = path.join(this._documentFolder, file);
-            const documentJSON = fs.readFileSync(documentPath, 'utf8');
+        this._storage.listDocuments().forEach(name => this._loadDocument(name));
+    }
 
-            // create a new controller
-            const controller = SpreadSheetController.spreadsheetFromJSON(documentJSON)
-            // add the controller to the map this assumes all files are .json
-            this._documents.set(file.slice(0, -5), controller);
+    private _checkForNewDocuments(): void {
+        // if the document is not in the map, add it
+        this._storage.listDocuments().forEach(name => {
+            if (!this._documents.has(name)) {
+                this._loadDocument(name);
+            }
+        });
+    }
 
+    private _loadDocument(name: string): void {
+        try {
+            const controller = SpreadSheetController.spreadsheetFromJSON(this._storage.readDocument(name));
+            this._documents.set(name, controller);
+        } catch (error) {
+            // a document that is cut short or mangled is moved out of the way so that the others still load
+            console.error(`Document ${name} could not be read and was quarantined: ${(error as Error).message}`);
+            this._storage.quarantineDocument(name);
         }
-        );
     }
 
-    private _checkForNewDocuments(): void {
-        const files = fs.readdirSync(this._documentFolder);
-        // if the file is not in the map, add it
-        files.forEach(file => {
-            if (!this._documents.has(file.slice(0, -5))) {
-                const documentPath = path.join(this._documentFolder, file);
-                const documentJSON = fs.readFileSync(documentPath, 'utf8');
-
-                // create a new controller
-                const controller = SpreadSheetController.spreadsheetFromJSON(documentJSON)
-                // add the controller to the map this assumes all files are .json
-                this._documents.set(file.slice(0, -5), controller);
-
+    private _saveDocument(name: string, user: string): void {
+        let document = this._documents.get(name);
+        if (document) {
+            const users = this._pendingUsers.get(name) ?? [];
+            if (!users.includes(user)) {
+                this._pendingUsers.set(name, [...users, user]);
             }
+            this._scheduleWrite(name);
         }
-        );
     }
 
+    // the changes that come before the timer goes off are written with this one
+    private _scheduleWrite(name: string): void {
+        clearTimeout(this._pendingSaves.get(name));
+        this._pendingSaves.set(name, setTimeout(() => this._writeDocument(name), this._saveDelayMilliseconds));
+    }
 
+    // write the document as it is now, after the write of the document that is under way,
+    // the changes made since the last write become one revision
+    private _writeDocument(name: string): Promise<void> {
+        clearTimeout(this._pendingSaves.get(name));
+        this._pendingSaves.delete(name);
 
-    private _saveDocument(name: string): void {
-        let document = this._documents.get(name);
-        if (document) {
-            let documentJSON = document.sheetToJSON();
-            const documentPath = path.join(this._documentFolder, name + '.json');
-            fs.writeFileSync(documentPath, documentJSON);
+        const document = this._documents.get(name);
+        const previousWrite = this._writes.get(name) ?? Promise.resolve();
+        if (!document) {
+            return previousWrite;
+        }
+        const documentJSON = document.sheetToJSON();
+        const users = this._pendingUsers.get(name);
+        if (users) {
+            this._pendingUsers.delete(name);
+            this._revisionStore.saveRevision(name, users.join(', '), documentJSON);
         }
+        const write = previousWrite
+            .then(() => this._storage.writeDocument(name, documentJSON))
+            .catch((error) => {
+                console.error(`Document ${name} could not be saved and will be tried again: ${(error as Error).message}`);
+                // the document still has changes to write, unless a later change already wrote or scheduled them
+                if (!this._pendingSaves.has(name)) {
+                    this._scheduleWrite(name);
+                }
+            })
+            .finally(() => {
+                if (this._writes.get(name) === write) {
+                    this._writes.delete(name);
+                }
+            });
+        this._writes.set(name, write);
+        return write;
+    }
+
+    /**
+     * write the changes that are waiting to be written
+     *
+     * @returns a promise that settles once every document and revision is written
+     */
+    public async flush(): Promise<void> {
+        Array.from(this._pendingSaves.keys()).forEach(name => this._writeDocument(name));
+        await Promise.all([...Array.from(this._writes.values()), this._revisionStore.flush()]);
     }
 
     /**
      * a function for development for the tests.  thisis called in response to a /documents/reset call
      */
     /* istanbul ignore next */
-    public reset(): void {
+    public async reset(): Promise<void> {
+        // the documents are loaded again as they are stored so the waiting changes are written first
+        await this.flush();
         this._documents = new Map<string, SpreadSheetController>();
-        this._initializeDocumentDirectory();
         this._cleanFiles();
         this._loadDocuments();
     }
@@ -124,13 +249,82 @@ export class DocumentHolder {
         return documentNames;
     }
 
+    /**
+     * @returns the names of the documents the user can open
+     */
+    public getDocumentNamesForUser(user: string): string[] {
+        return this.getDocumentNames().filter((name) => this.hasAccess(name, user));
+    }
+
+    /**
+     * @returns true if the document is shared with the user or it has no owner
+     */
+    public hasAccess(docName: string, user: string): boolean {
+        return this._documents.get(docName)!.getRole(user) !== undefined;
+    }
+
+    public getAccess(docName: string): AccessTransport[] {
+        let document = this._documents.get(docName);
+
+        return document!.getAccess();
+    }
+
+    /**
+     * give a user a role in a document, the owner is the one who shares it
+     */
+    public shareDocument(docName: string, sharedUser: string, role: string, user: string): string {
+        let document = this._documents.get(docName);
+
+        document!.shareDocument(user, sharedUser, role);
+        this._saveDocument(docName, user);
+        return this.getDocumentJSON(docName, user);
+    }
+
+    public changeAccess(docName: string, sharedUser: string, role: string, user: string): string {
+        let document = this._documents.get(docName);
+
+        document!.changeAccess(user, sharedUser, role);
+        this._saveDocument(docName, user);
+        return this.getDocumentJSON(docName, user);
+    }
+
+    public revokeAccess(docName: string, sharedUser: string, user: string): string {
+        let document = this._documents.get(docName);
+
+        document!.revokeAccess(user, sharedUser);
+        this._saveDocument(docName, user);
+        return this.getDocumentJSON(docName, user);
+    }
+
+    /**
+     * make the user the owner of a document saved before it had an owner
+     */
+    public claimDocument(docName: string, user: string): string {
+        let document = this._documents.get(docName);
+
+        document!.claimOwnership(user);
+        this._saveDocument(docName, user);
+        return this.getDocumentJSON(docName, user);
+    }
+
+    /**
+     * make a new empty document, it throws if the sheet cannot have the size
+     * 
+     * @returns false if there is already a document with the name
+     */
     public createDocument(name: string, columns: number, rows: number, user: string): boolean {
         if (this._documents.has(name)) {
             return false
         }
+        // the size is checked first so that a document that cannot be made is not kept
+        const sizeProblem = SheetMemory.checkSize(columns, rows);
+        if (sizeProblem) {
+            throw new Error(sizeProblem);
+        }
         let document = new SpreadSheetController(columns, rows);
+        document.setOwner(user);
         this._documents.set(name, document);
-        this._saveDocument(name);
+        this._saveDocument(name, user);
         // by default the first cell is the cell a new document looks at
         this.requestViewAccess(name, 'A1', user);
         return true;
@@ -147,6 +341,27 @@ export class DocumentHolder {
 
 
     }
+
+    /**
+     * the document for a user who already has a revision of it
+     *
+     * @param sinceRevision the revision the user has, undefined if they have none
+     * @returns the JSON of the whole document or of the cells and editors that changed,
+     * undefined if nothing changed since the revision
+     */
+    public getDocumentDeltaJSON(name: string, userName: string, sinceRevision: number | undefined): string | undefined {
+        const document = this._documents.get(name);
+        const documentDelta = document!.documentDelta(userName, sinceRevision);
+        return documentDelta === undefined ? undefined : JSON.stringify(documentDelta);
+    }
+
+    /**
+     * @returns the revision of the document the users were last sent
+     */
+    public getDocumentRevision(name: string): number {
+        return this._documents.get(name)!.getDocumentRevision();
+    }
+
     public requestViewAccess(docName: string, cellLabel: string, user: string) {
         let document = this._documents.get(docName);
 
@@ -157,14 +372,79 @@ export class DocumentHolder {
     public requestEditAccess(docName: string, cellLabel: string, user: string): boolean {
         let document = this._documents.get(docName);
 
+        // a cell whose lease ran out can be taken even if the sweep has not released it yet
+        document!.expireEditLeases(this._editLeaseMilliseconds);
         return document!.requestEditAccess(user, cellLabel);
     }
 
+    /**
+     * the user made a change or moved, they are active and keep the cell they are editing
+     */
+    public recordActivity(docName: string, user: string): void {
+        let document = this._documents.get(docName);
+
+        document!.recordActivity(user);
+    }
+
+    /**
+     * the client of the user fetched the document, the client calls this while it is open
+     * so it keeps the cell the user is editing and the user is not away
+     */
+    public recordFetch(docName: string, user: string): void {
+        let document = this._documents.get(docName);
+
+        document!.recordFetch(user);
+    }
+
+    /**
+     * release the cells whose lease ran out in all the documents
+     *
+     * @param now the time to check the leases at
+     * @returns the names of the documents where a cell was released
+     */
+    public expireEditLeases(now: number = Date.now()): string[] {
+        const changedDocuments: string[] = [];
+        this._documents.forEach((document: SpreadSheetController, name: string) => {
+            if (document.expireEditLeases(this._editLeaseMilliseconds, now).length > 0) {
+                changedDocuments.push(name);
+            }
+        });
+        return changedDocuments;
+    }
+
+    /**
+     * look for the users who became idle or away in all the documents
+     *
+     * @param now the time to work out the state of the users at
+     * @returns the names of the documents where a user became idle or away
+     */
+    public updatePresence(now: number = Date.now()): string[] {
+        const changedDocuments: string[] = [];
+        this._documents.forEach((document: SpreadSheetController, name: string) => {
+            if (document.updatePresence(now)) {
+                changedDocuments.push(name);
+            }
+        });
+        return changedDocuments;
+    }
+
+    /**
+     * release a cell another user is editing, only the owner of the document can
+     */
+    public forceReleaseEditAccess(docName: string, cellLabel: string, user: string): string {
+        let document = this._documents.get(docName);
+
+        document!.forceReleaseEditAccess(user, cellLabel);
+        return this.getDocumentJSON(docName, user);
+    }
+
     public addToken(docName: string, token: string, user: string,): any {
         let document = this._documents.get(docName);
 
-        document!.addToken(token, user);
-        this._saveDocument(docName);
+        if (document!.checkCanEdit(user)) {
+            document!.addToken(token, user);
+            this._saveDocument(docName, user);
+        }
         // get the json string for the controler
         const documentJSON = this.getDocumentJSON(docName, user);
         return documentJSON;
@@ -175,8 +455,10 @@ export class DocumentHolder {
     public addCell(docName: string, cell: string, user: string): string {
         let document = this._documents.get(docName);
 
-        document!.addCell(cell, user);
-        this._saveDocument(docName);
+        if (document!.checkCanEdit(user)) {
+            document!.addCell(cell, user);
+            this._saveDocument(docName, user);
+        }
         // get the json string for the controler
         const documentJSON = this.getDocumentJSON(docName, user);
         return documentJSON;
@@ -186,8 +468,10 @@ export class DocumentHolder {
     public removeToken(docName: string, user: string): string {
         let document = this._documents.get(docName);
 
-        document!.removeToken(user);
-        this._saveDocument(docName);
+        if (document!.checkCanEdit(user)) {
+            document!.removeToken(user);
+            this._saveDocument(docName, user);
+        }
         // get the json string for the controler
         const documentJSON = this.getDocumentJSON(docName, user);
         return documentJSON;
@@ -197,14 +481,417 @@ export class DocumentHolder {
     public clearFormula(docName: string, user: string): string {
         let document = this._documents.get(docName);
 
-        document!.clearFormula(user);
-        this._saveDocument(docName);
+        if (document!.checkCanEdit(user)) {
+            document!.clearFormula(user);
+            this._saveDocument(docName, user);
+        }
+        // get the json string for the controler
+        const documentJSON = this.getDocumentJSON(docName, user);
+        return documentJSON;
+
+    }
+
+    public setFormula(docName: string, text: string, user: string): string {
+        let document = this._documents.get(docName);
+
+        if (document!.checkCanEdit(user)) {
+            document!.setFormula(user, text);
+            this._saveDocument(docName, user);
+        }
+        // get the json string for the controler
+        const documentJSON = this.getDocumentJSON(docName, user);
+        return documentJSON;
+
+    }
+
+    public undo(docName: string, user: string): string {
+        let document = this._documents.get(docName);
+
+        if (document!.checkCanEdit(user)) {
+            document!.undo(user);
+            this._saveDocument(docName, user);
+        }
+        // get the json string for the controler
+        const documentJSON = this.getDocumentJSON(docName, user);
+        return documentJSON;
+
+    }
+
+    public redo(docName: string, user: string): string {
+        let document = this._documents.get(docName);
+
+        if (document!.checkCanEdit(user)) {
+            document!.redo(user);
+            this._saveDocument(docName, user);
+        }
         // get the json string for the controler
         const documentJSON = this.getDocumentJSON(docName, user);
         return documentJSON;
 
     }
 
+    public insertRows(docName: string, index: number, count: number, user: string): string {
+        let document = this._documents.get(docName);
+
+        if (document!.checkCanEdit(user)) {
+            // the rows and columns change on the sheet the user is shown
+            document!.insertRows(index, count, document!.getSheetNameForUser(user));
+            this._saveDocument(docName, user);
+        }
+        return this.getDocumentJSON(docName, user);
+    }
+
+    public deleteRows(docName: string, index: number, count: number, user: string): string {
+        let document = this._documents.get(docName);
+
+        if (document!.checkCanEdit(user)) {
+            // the rows and columns change on the sheet the user is shown
+            document!.deleteRows(index, count, document!.getSheetNameForUser(user));
+            this._saveDocument(docName, user);
+        }
+        return this.getDocumentJSON(docName, user);
+    }
+
+    public insertColumns(docName: string, index: number, count: number, user: string): string {
+        let document = this._documents.get(docName);
+
+        if (document!.checkCanEdit(user)) {
+            // the rows and columns change on the sheet the user is shown
+            document!.insertColumns(index, count, document!.getSheetNameForUser(user));
+            this._saveDocument(docName, user);
+        }
+        return this.getDocumentJSON(docName, user);
+    }
+
+    public deleteColumns(docName: string, index: number, count: number, user: string): string {
+        let document = this._documents.get(docName);
+
+        if (document!.checkCanEdit(user)) {
+            // the rows and columns change on the sheet the user is shown
+            document!.deleteColumns(index, count, document!.getSheetNameForUser(user));
+            this._saveDocument(docName, user);
+        }
+        return this.getDocumentJSON(docName, user);
+    }
+
+    public addSheet(docName: string, sheetName: string, user: string): string {
+        let document = this._documents.get(docName);
+
+        if (document!.checkCanEdit(user)) {
+            document!.addSheet(sheetName);
+            this._saveDocument(docName, user);
+        }
+        return this.getDocumentJSON(docName, user);
+    }
+
+    public renameSheet(docName: string, sheetName: string, newSheetName: string, user: string): string {
+        let document = this._documents.get(docName);
+
+        if (document!.checkCanEdit(user)) {
+            document!.renameSheet(sheetName, newSheetName);
+            this._saveDocument(docName, user);
+        }
+        return this.getDocumentJSON(docName, user);
+    }
+
+    public moveSheet(docName: string, sheetName: string, index: number, user: string): string {
+        let document = this._documents.get(docName);
+
+        if (document!.checkCanEdit(user)) {
+            document!.moveSheet(sheetName, index);
+            this._saveDocument(docName, user);
+        }
+        return this.getDocumentJSON(docName, user);
+    }
+
+    public deleteSheet(docName: string, sheetName: string, user: string): string {
+        let document = this._documents.get(docName);
+
+        if (document!.checkCanEdit(user)) {
+            document!.deleteSheet(sheetName);
+            this._saveDocument(docName, user);
+        }
+        return this.getDocumentJSON(docName, user);
+    }
+
+    public selectSheet(docName: string, sheetName: string, user: string): string {
+        let document = this._documents.get(docName);
+
+        // changing the sheet that is shown does not change the document so there is nothing to save
+        document!.selectSheet(user, sheetName);
+        return this.getDocumentJSON(docName, user);
+    }
+
+    public getNames(docName: string): NameTransport[] {
+        let document = this._documents.get(docName);
+
+        return document!.getNames();
+    }
+
+    public defineName(docName: string, name: string, definition: string, user: string): string {
+        let document = this._documents.get(docName);
+
+        if (document!.checkCanEdit(user)) {
+            document!.defineName(user, name, definition);
+            this._saveDocument(docName, user);
+        }
+        return this.getDocumentJSON(docName, user);
+    }
+
+    public renameName(docName: string, name: string, newName: string, user: string): string {
+        let document = this._documents.get(docName);
+
+        if (document!.checkCanEdit(user)) {
+            document!.renameName(name, newName);
+            this._saveDocument(docName, user);
+        }
+        return this.getDocumentJSON(docName, user);
+    }
+
+    public deleteName(docName: string, name: string, user: string): string {
+        let document = this._documents.get(docName);
+
+        if (document!.checkCanEdit(user)) {
+            document!.deleteName(name);
+            this._saveDocument(docName, user);
+        }
+        return this.getDocumentJSON(docName, user);
+    }
+
+    public setFormat(docName: string, rangeLabel: string, format: NumberFormatSpec, user: string): string {
+        let document = this._documents.get(docName);
+
+        if (document!.checkCanEdit(user)) {
+            document!.setFormat(user, rangeLabel, format);
+            this._saveDocument(docName, user);
+        }
+        return this.getDocumentJSON(docName, user);
+    }
+
+    public addConditionalRule(docName: string, rule: ConditionalRuleTransport, user: string): string {
+        let document = this._documents.get(docName);
+
+        if (document!.checkCanEdit(user)) {
+            document!.addConditionalRule(user, rule);
+            this._saveDocument(docName, user);
+        }
+        return this.getDocumentJSON(docName, user);
+    }
+
+    public deleteConditionalRule(docName: string, id: number, user: string): string {
+        let document = this._documents.get(docName);
+
+        if (document!.checkCanEdit(user)) {
+            document!.deleteConditionalRule(id);
+            this._saveDocument(docName, user);
+        }
+        return this.getDocumentJSON(docName, user);
+    }
+
+    public sortRange(docName: string, rangeLabel: string, keys: SortKey[], user: string): string {
+        let document = this._documents.get(docName);
+
+        if (document!.checkCanEdit(user)) {
+            document!.sortRange(user, rangeLabel, keys);
+            this._saveDocument(docName, user);
+        }
+        return this.getDocumentJSON(docName, user);
+    }
+
+    public setFilter(docName: string, rangeLabel: string, criteria: FilterCriterion[], user: string): string {
+        let document = this._documents.get(docName);
+
+        // a filter only hides rows from the user so there is nothing to save, a viewer can filter too
+        document!.setFilter(user, rangeLabel, criteria);
+        return this.getDocumentJSON(docName, user);
+    }
+
+    public clearFilter(docName: string, user: string): string {
+        let document = this._documents.get(docName);
+
+        document!.clearFilter(user);
+        return this.getDocumentJSON(docName, user);
+    }
+
+    public addComment(docName: string, cellLabel: string, text: string, user: string): string {
+        let document = this._documents.get(docName);
+
+        if (document!.checkCanEdit(user)) {
+            document!.addComment(user, cellLabel, text);
+            this._saveDocument(docName, user);
+        }
+        return this.getDocumentJSON(docName, user);
+    }
+
+    public replyToComment(docName: string, id: number, text: string, user: string): string {
+        let document = this._documents.get(docName);
+
+        if (document!.checkCanEdit(user)) {
+            document!.replyToComment(user, id, text);
+            this._saveDocument(docName, user);
+        }
+        return this.getDocumentJSON(docName, user);
+    }
+
+    public resolveComment(docName: string, id: number, resolved: boolean, user: string): string {
+        let document = this._documents.get(docName);
+
+        if (document!.checkCanEdit(user)) {
+            document!.resolveComment(id, resolved);
+            this._saveDocument(docName, user);
+        }
+        return this.getDocumentJSON(docName, user);
+    }
+
+    public deleteComment(docName: string, id: number, user: string): string {
+        let document = this._documents.get(docName);
+
+        if (document!.checkCanEdit(user)) {
+            document!.deleteComment(user, id);
+            this._saveDocument(docName, user);
+        }
+        return this.getDocumentJSON(docName, user);
+    }
+
+    public copyCell(docName: string, user: string): string {
+        let document = this._documents.get(docName);
+
+        // copying does not change the sheet so there is nothing to save
+        document!.copyCell(user);
+        return this.getDocumentJSON(docName, user);
+    }
+
+    public pasteCell(docName: string, user: string): string {
+        let document = this._documents.get(docName);
+
+        if (document!.checkCanEdit(user)) {
+            document!.pasteCell(user);
+            this._saveDocument(docName, user);
+        }
+        return this.getDocumentJSON(docName, user);
+    }
+
+    public fillDown(docName: string, count: number, user: string): string {
+        let document = this._documents.get(docName);
+
+        if (document!.checkCanEdit(user)) {
+            document!.fillDown(user, count);
+            this._saveDocument(docName, user);
+        }
+        return this.getDocumentJSON(docName, user);
+    }
+
+    public fillRight(docName: string, count: number, user: string): string {
+        let document = this._documents.get(docName);
+
+        if (document!.checkCanEdit(user)) {
+            document!.fillRight(user, count);
+            this._saveDocument(docName, user);
+        }
+        return this.getDocumentJSON(docName, user);
+    }
+
+    /**
+     * get a sheet of a document as CSV or TSV
+     * 
+     * @param sheetName the sheet to export, the first sheet when it is not given
+     * @param contents values for what the cells show, formulas for the formulas of the cells
+     * @param delimiter the character between the fields
+     * @returns the text, or undefined if there is no such sheet
+     */
+    public exportDocument(docName: string, sheetName: string | undefined, contents: "values" | "formulas", delimiter: string): string | undefined {
+        let document = this._documents.get(docName);
+
+        const rows = document!.getSheetContents(sheetName ?? document!.getSheetNames()[0], contents);
+        if (!rows) {
+            return undefined;
+        }
+        return DelimitedText.format(rows, delimiter);
+    }
+
+    /**
+     * put CSV or TSV text into the cells of a document, it throws if the text cannot be read
+     * 
+     * @param cellLabel the top left cell, on the sheet the user is shown unless it names its sheet
+     */
+    public importCells(docName: string, text: string, delimiter: string, cellLabel: string, user: string): string {
+        let document = this._documents.get(docName);
+
+        if (document!.checkCanEdit(user)) {
+            document!.importCells(user, DelimitedText.parse(text, delimiter), cellLabel);
+            this._saveDocument(docName, user);
+        }
+        return this.getDocumentJSON(docName, user);
+    }
+
+    /**
+     * make a new document that holds CSV or TSV text, it throws if the text cannot be read
+     * 
+     * @returns false if there is already a document with the name
+     */
+    public importDocument(name: string, text: string, delimiter: string, user: string): boolean {
+        if (this._documents.has(name)) {
+            return false;
+        }
+        // the text is read first so that a broken file does not leave an empty document
+        const rows = DelimitedText.parse(text, delimiter);
+        const columns = rows.reduce((widest, row) => Math.max(widest, row.length), 1);
+        const sizeProblem = SheetMemory.checkSize(columns, Math.max(rows.length, 1));
+        if (sizeProblem) {
+            throw new Error(`The text does not fit, ${sizeProblem.charAt(0).toLowerCase()}${sizeProblem.slice(1)}`);
+        }
+        let document = new SpreadSheetController(columns, Math.max(rows.length, 1));
+        document.setOwner(user);
+        this._documents.set(name, document);
+        // by default the first cell is the cell a new document looks at
+        document.requestViewAccess(user, 'A1');
+        document.importCells(user, rows, 'A1');
+        this._saveDocument(name, user);
+        return true;
+    }
+
+    /**
+     * list the revisions of a document, oldest first
+     */
+    public getRevisions(docName: string): RevisionTransport[] {
+        return this._revisionStore.getRevisions(docName);
+    }
+
+    /**
+     * @returns the revision of the document, or undefined if it is not kept
+     */
+    public getRevision(docName: string, revision: number): RevisionTransport | undefined {
+        return this._revisionStore.getRevision(docName, revision);
+    }
+
+    /**
+     * @returns the cells that differ between two revisions, or undefined if one is not kept
+     */
+    public diffRevisions(docName: string, from: number, to: number): CellDiffTransport[] | undefined {
+        return this._revisionStore.diffRevisions(docName, from, to);
+    }
+
+    /**
+     * restore a past revision, the restored sheet is saved as a new revision
+     * 
+     * @returns the document for the user, or undefined if the revision is not kept
+     */
+    public restoreRevision(docName: string, revision: number, user: string): string | undefined {
+        let document = this._documents.get(docName);
+        const pastRevision = this._revisionStore.getRevision(docName, revision);
+        if (!document || !pastRevision) {
+            return undefined;
+        }
+
+        if (document.checkCanEdit(user)) {
+            document.restoreSheetFromJSON(JSON.stringify(pastRevision.sheet));
+            this._saveDocument(docName, user);
+        }
+        // get the json string for the controler
+        const documentJSON = this.getDocumentJSON(docName, user);
+        return documentJSON;
+    }
+
     public getFormulaString(name: string, user: string): string {
         let document = this._documents.get(name);
 
@@ -0,0 +1,83 @@
+/**
+ * DocumentStorage is where the DocumentHolder keeps the documents between runs.
+ *
+ * A document is stored under its name as the JSON of its sheets, and its revisions under its name
+ * and their numbers.  The documents are listed and read when the holder starts and when it looks
+ * for new documents, the revisions of a document when they are first asked for.  The writes are
+ * asynchronous so that a save does not hold up the server.  A write replaces the whole
+ * document or revision, a reader sees it before or after the write and never a part of it.
+ *
+ * FileDocumentStorage keeps the documents in a folder, MemoryDocumentStorage keeps them
+ * in memory for the tests.
+ *
+ * It provides the following calls.
+ *
+ * listDocuments(): string[]
+ * readDocument(name: string): string
+ * writeDocument(name: string, documentJSON: string): Promise<void>
+ * deleteDocument(name: string): void
+ * quarantineDocument(name: string): void
+ * listRevisions(name: string): number[]
+ * readRevision(name: string, revision: number): string
+ * writeRevision(name: string, revision: number, revisionJSON: string): Promise<void>
+ * deleteRevision(name: string, revision: number): Promise<void>
+ * deleteRevisions(name: string): void
+ * quarantineRevision(name: string, revision: number): void
+ */
+export interface DocumentStorage {
+    /**
+     * @returns the names of the stored documents
+     */
+    listDocuments(): string[];
+
+    /**
+     * @returns the JSON of the document, it throws if there is no such document
+     */
+    readDocument(name: string): string;
+
+    /**
+     * store the document, replacing what was stored under its name
+     */
+    writeDocument(name: string, documentJSON: string): Promise<void>;
+
+    /**
+     * remove the document, nothing happens if there is no such document
+     */
+    deleteDocument(name: string): void;
+
+    /**
+     * move a document that could not be read out of the way, it is no longer listed
+     * but it is kept so that it can be looked at and mended by hand
+     */
+    quarantineDocument(name: string): void;
+
+    /**
+     * @returns the numbers of the stored revisions of the document, in ascending order
+     */
+    listRevisions(name: string): number[];
+
+    /**
+     * @returns the JSON of the revision, it throws if there is no such revision
+     */
+    readRevision(name: string, revision: number): string;
+
+    /**
+     * store a revision of the document
+     */
+    writeRevision(name: string, revision: number, revisionJSON: string): Promise<void>;
+
+    /**
+     * remove a revision of the document, nothing happens if there is no such revision
+     */
+    deleteRevision(name: string, revision: number): Promise<void>;
+
+    /**
+     * remove all the revisions of the document
+     */
+    deleteRevisions(name: string): void;
+
+    /**
+     * move a revision that could not be read out of the way like a document
+     */
+    quarantineRevision(name: string, revision: number): void;
+}
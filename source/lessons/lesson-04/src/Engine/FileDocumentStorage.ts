@@ -0,0 +1,163 @@
+/**
+ * FileDocumentStorage keeps each document in a file <name>.json in the document folder
+ * and its revisions in files <revision>.json in the folder .revisions/<name>.
+ *
+ * A file is written to a temporary file next to it, the temporary file is flushed to the disk
+ * and then renamed over the file.  The rename is atomic so a crash in the middle of a
+ * write leaves the file as it was before the write.  The temporary files a crash leaves behind
+ * are deleted when the storage is opened, a temporary file that is not that old can still be
+ * written by another storage on the folder and is left alone.
+ *
+ * A document that could not be read is moved to the .quarantine folder of the document
+ * folder as <name>.<time>.json, a revision as <name>.revision<revision>.<time>.json,
+ * the time in milliseconds since 1970.
+ *
+ * It provides the calls of DocumentStorage.
+ */
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { DocumentStorage } from './DocumentStorage';
+
+export class FileDocumentStorage implements DocumentStorage {
+    private static readonly _documentExtension = '.json';
+    private static readonly _temporaryExtension = '.tmp';
+    // a write takes far less than this, a temporary file this old was left by a crash
+    private static readonly _staleTemporaryMilliseconds = 10 * 60 * 1000;
+
+    private _documentFolder: string;
+    private _revisionFolder: string;
+    private _quarantineFolder: string;
+
+    constructor(documentFolder: string) {
+        this._documentFolder = documentFolder;
+        this._revisionFolder = path.join(documentFolder, '.revisions');
+        this._quarantineFolder = path.join(documentFolder, '.quarantine');
+        if (!fs.existsSync(documentFolder)) {
+            fs.mkdirSync(documentFolder, { recursive: true });
+        }
+        this._removeStaleTemporaryFiles(documentFolder);
+        if (fs.existsSync(this._revisionFolder)) {
+            fs.readdirSync(this._revisionFolder, { withFileTypes: true })
+                .filter((entry) => entry.isDirectory())
+                .forEach((entry) => this._removeStaleTemporaryFiles(path.join(this._revisionFolder, entry.name)));
+        }
+    }
+
+    public listDocuments(): string[] {
+        // the revisions and the quarantine folders are skipped, only the .json files are documents
+        return FileDocumentStorage._listJSONFiles(this._documentFolder);
+    }
+
+    public readDocument(name: string): string {
+        return fs.readFileSync(this._documentPath(name), 'utf8');
+    }
+
+    public writeDocument(name: string, documentJSON: string): Promise<void> {
+        return FileDocumentStorage._writeFile(this._documentPath(name), documentJSON);
+    }
+
+    public deleteDocument(name: string): void {
+        fs.rmSync(this._documentPath(name), { force: true });
+    }
+
+    public quarantineDocument(name: string): void {
+        this._quarantine(this._documentPath(name), name);
+    }
+
+    public listRevisions(name: string): number[] {
+        const revisionFolder = this._revisionFolderOf(name);
+        if (!fs.existsSync(revisionFolder)) {
+            return [];
+        }
+        return FileDocumentStorage._listJSONFiles(revisionFolder)
+            .map((file) => parseInt(file))
+            .filter((revision) => !isNaN(revision))
+            .sort((first, second) => first - second);
+    }
+
+    public readRevision(name: string, revision: number): string {
+        return fs.readFileSync(this._revisionPath(name, revision), 'utf8');
+    }
+
+    public writeRevision(name: string, revision: number, revisionJSON: string): Promise<void> {
+        return FileDocumentStorage._writeFile(this._revisionPath(name, revision), revisionJSON);
+    }
+
+    public async deleteRevision(name: string, revision: number): Promise<void> {
+        await fs.promises.rm(this._revisionPath(name, revision), { force: true });
+    }
+
+    public deleteRevisions(name: string): void {
+        fs.rmSync(this._revisionFolderOf(name), { recursive: true, force: true });
+    }
+
+    public quarantineRevision(name: string, revision: number): void {
+        this._quarantine(this._revisionPath(name, revision), `${name}.revision${revision}`);
+    }
+
+    // write the file through a temporary file that is renamed over it
+    private static async _writeFile(filePath: string, json: string): Promise<void> {
+        // each write has its own temporary file so two writes of a file never share one
+        const temporaryPath = `${filePath}.${crypto.randomBytes(6).toString('hex')}${FileDocumentStorage._temporaryExtension}`;
+
+        await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+        const file = await fs.promises.open(temporaryPath, 'w');
+        try {
+            await file.writeFile(json, 'utf8');
+            await file.sync();
+        } finally {
+            await file.close();
+        }
+        try {
+            await fs.promises.rename(temporaryPath, filePath);
+        } catch (error) {
+            await fs.promises.rm(temporaryPath, { force: true });
+            throw error;
+        }
+    }
+
+    // the names of the .json files of a folder without their extension
+    private static _listJSONFiles(folder: string): string[] {
+        return fs.readdirSync(folder)
+            .filter((file) => file.endsWith(FileDocumentStorage._documentExtension))
+            .map((file) => file.slice(0, -FileDocumentStorage._documentExtension.length));
+    }
+
+    // a write that did not finish left its temporary file, the file itself is whole
+    private _removeStaleTemporaryFiles(folder: string): void {
+        const staleBefore = Date.now() - FileDocumentStorage._staleTemporaryMilliseconds;
+        for (const file of fs.readdirSync(folder)) {
+            const filePath = path.join(folder, file);
+            try {
+                if (file.endsWith(FileDocumentStorage._temporaryExtension) && fs.statSync(filePath).mtimeMs < staleBefore) {
+                    fs.rmSync(filePath, { force: true });
+                }
+            } catch {
+                // the write finished and renamed the file in the meantime
+            }
+        }
+    }
+
+    private _quarantine(filePath: string, quarantineName: string): void {
+        if (!fs.existsSync(this._quarantineFolder)) {
+            fs.mkdirSync(this._quarantineFolder, { recursive: true });
+        }
+        const quarantinePath = path.join(this._quarantineFolder, `${quarantineName}.${Date.now()}${FileDocumentStorage._documentExtension}`);
+        fs.renameSync(filePath, quarantinePath);
+    }
+
+    private _documentPath(name: string): string {
+        return path.join(this._documentFolder, name + FileDocumentStorage._documentExtension);
+    }
+
+    private _revisionFolderOf(name: string): string {
+        return path.join(this._revisionFolder, name);
+    }
+
+    private _revisionPath(name: string, revision: number): string {
+        return path.join(this._revisionFolderOf(name), revision + FileDocumentStorage._documentExtension);
+    }
+}
+
+export default FileDocumentStorage;
@@ -13,6 +13,7 @@
  * 
  */
 import Cell from "./Cell";
+import { ErrorMessages } from "./GlobalDefinitions";
 
 export class FormulaBuilder {
 
@@ -46,6 +47,9 @@ export class FormulaBuilder {
    * 
    * @param token
    * 
+   * If the last token in the formula is a cell reference and the input token is $ then change its anchors
+   * If the last token in the formula is a cell reference and the input token is : then start a range
+   * If the last token in the formula is the start of a range and the input token is a cell reference then close the range
    * If the last token in the formula is a number and the input token is a number then append the input token to the last token
    * If the last token in the formula is a number and the input token is . then append the input token to the last token
    * If we updated the last token then replace the last token in the formula with the updated token
@@ -65,6 +69,45 @@ export class FormulaBuilder {
     // get the last token of the formula
     let lastToken = this.formula[this.formula.length - 1];
 
+    // if the last token is a cell reference and the input token is $ then cycle the anchors
+    // A1 -> $A$1 -> A$1 -> $A1 -> A1
+    if (Cell.isValidReference(lastToken) && token === "$") {
+      const [sheetName, label] = Cell.splitSheetReference(lastToken);
+      const reference = Cell.parseReference(label);
+      const nextAnchors: { [anchors: string]: [boolean, boolean] } = {
+        "false,false": [true, true],
+        "true,true": [false, true],
+        "false,true": [true, false],
+        "true,false": [false, false],
+      };
+      const [absoluteColumn, absoluteRow] = nextAnchors[`${reference.absoluteColumn},${reference.absoluteRow}`];
+      const anchored = Cell.formatReference(reference.column, reference.row, absoluteColumn, absoluteRow);
+      this.formula[this.formula.length - 1] = sheetName === "" ? anchored : Cell.qualifyLabel(sheetName, anchored);
+      return;
+    }
+
+    // a $ that does not follow a cell reference is ignored
+    if (token === "$") {
+      return;
+    }
+
+    // if the last token is a cell reference and the input token is : then start a range (A1:)
+    if (Cell.isValidReference(lastToken) && token === ":") {
+      lastToken += token;
+      lastTokenUpdated = true;
+    }
+
+    // if the last token is the start of a range and the input token is a cell reference then close the range (A1:B4)
+    // a range on another sheet (Summary!A1:) is closed by a cell of the same sheet (Summary!B4)
+    if (lastToken.endsWith(":") && Cell.isValidReference(lastToken.slice(0, -1)) && Cell.isValidReference(token)) {
+      const [rangeSheet] = Cell.splitSheetReference(lastToken);
+      const [tokenSheet, label] = Cell.splitSheetReference(token);
+      if (tokenSheet === "" || tokenSheet === rangeSheet) {
+        lastToken += label;
+        lastTokenUpdated = true;
+      }
+    }
+
     // if the last token is a number and the input token is a number then append the input token to the last token
     if (!isNaN(Number(lastToken)) && !isNaN(Number(token))) {
       lastToken += token;
@@ -160,24 +203,174 @@ export class FormulaBuilder {
 
   /**
    * parse the formula and return a list of cell references (deduped)
-   * 
-   * @returns a list of cell references 
+   *
+   * a range token (A1:B4) contributes every cell that it covers.
+   * A reference to another sheet keeps the name of the sheet (Summary!B2)
+   *
+   * @returns a list of cell references
    * */
   public static getCellReferences(formula: string[]): string[] {
     let result: string[] = [];
     for (let i = 0; i < formula.length; i++) {
       let token = formula[i];
+      const [sheetName, reference] = Cell.splitSheetReference(token);
+      const qualify = (label: string) => sheetName === "" ? label : Cell.qualifyLabel(sheetName, label);
 
-      // if the token is a cell reference then add it to the list
+      // if the token is a cell reference then add its label to the list ($A$1 is A1)
       // and make sure it is not already in the list
-      if (Cell.isValidCellLabel(token) && !result.includes(token)) {
-        result.push(token);
+      if (Cell.isValidCellLabel(reference) && !result.includes(qualify(Cell.removeAnchors(reference)))) {
+        result.push(qualify(Cell.removeAnchors(reference)));
+      }
+
+      // if the token is a range then add every cell in the range
+      if (Cell.isValidRangeLabel(reference)) {
+        for (let cellLabel of Cell.expandRange(reference)) {
+          if (!result.includes(qualify(cellLabel))) {
+            result.push(qualify(cellLabel));
+          }
+        }
       }
     }
 
     return result;
   }
 
+  /**
+   * move the references in a formula after rows or columns are inserted or deleted
+   *
+   * @param formula the formula to rewrite
+   * @param dimension "row" or "column"
+   * @param index the first row or column that is inserted or deleted (0 based)
+   * @param count the number of rows or columns inserted, or minus the number deleted
+   * @returns the rewritten formula, a reference to a deleted cell becomes #REF!
+   *
+   * a range keeps covering the same cells, it grows when cells are inserted inside it
+   * and shrinks when some of its cells are deleted. It is #REF! when all its cells are deleted
+   *
+   * In a workbook only the references to the sheet that changed move
+   * @param sheetName the sheet where the rows or columns changed
+   * @param formulaSheet the sheet that holds the formula, its references without a sheet name are on it
+   */
+  public static adjustReferences(formula: FormulaType, dimension: "row" | "column", index: number, count: number,
+    sheetName: string = "", formulaSheet: string = ""): FormulaType {
+    // the position of a cell in the dimension that changes and a way to put it back in a label
+    const getPosition = (label: string): number => Cell.cellToColumnRow(label)[dimension === "row" ? 1 : 0];
+    // the $ anchors are kept, an absolute reference still follows the cell it points at
+    const setPosition = (label: string, position: number): string => {
+      const reference = Cell.parseReference(label);
+      if (dimension === "row") {
+        reference.row = position;
+      } else {
+        reference.column = position;
+      }
+      return Cell.formatReference(reference.column, reference.row, reference.absoluteColumn, reference.absoluteRow);
+    };
+    const lastDeleted = index - count - 1;
+
+    return formula.map((qualifiedToken) => {
+      const [tokenSheet, token] = Cell.splitSheetReference(qualifiedToken);
+      if ((tokenSheet === "" ? formulaSheet : tokenSheet) !== sheetName) {
+        return qualifiedToken;
+      }
+      // the name of the sheet is kept in front of the moved reference
+      const qualify = (label: string) => tokenSheet === "" ? label : Cell.qualifyLabel(tokenSheet, label);
+
+      if (Cell.isValidCellLabel(token)) {
+        const position = getPosition(token);
+        if (count < 0 && position >= index && position <= lastDeleted) {
+          return ErrorMessages.invalidCell;
+        }
+        return position >= index ? qualify(setPosition(token, position + count)) : qualifiedToken;
+      }
+
+      if (Cell.isValidRangeLabel(token)) {
+        let [start, end] = token.split(":");
+        if (getPosition(start) > getPosition(end)) {
+          [start, end] = [end, start];
+        }
+        let first = getPosition(start);
+        let last = getPosition(end);
+
+        if (count > 0) {
+          first = first >= index ? first + count : first;
+          last = last >= index ? last + count : last;
+        } else {
+          first = first < index ? first : Math.max(first + count, index);
+          last = last < index ? last : (last > lastDeleted ? last + count : index - 1);
+          if (first > last) {
+            return ErrorMessages.invalidCell;
+          }
+        }
+        return qualify(setPosition(start, first) + ":" + setPosition(end, last));
+      }
+      return qualifiedToken;
+    });
+  }
+
+  /**
+   * move the references in a formula that is copied to another cell
+   *
+   * @param formula the formula to copy
+   * @param columnOffset how many columns to the right the formula moves
+   * @param rowOffset how many rows down the formula moves
+   * @param columns the number of columns in the sheet
+   * @param rows the number of rows in the sheet
+   * @returns the formula for the new cell
+   *
+   * the relative parts of a reference move with the formula, the parts anchored with $ stay.
+   * A reference that would leave the sheet becomes #REF!
+   *
+   * @param sheetSize gives the columns and rows of a named sheet (Summary!B2), when it is left out
+   * the references to other sheets are checked against the size of this sheet
+   */
+  public static shiftReferences(formula: FormulaType, columnOffset: number, rowOffset: number, columns: number, rows: number,
+    sheetSize?: (sheetName: string) => [number, number]): FormulaType {
+    // shift one reference, undefined when it leaves the sheet
+    const shift = (label: string, sheetColumns: number, sheetRows: number): string | undefined => {
+      const reference = Cell.parseReference(label);
+      const column = reference.absoluteColumn ? reference.column : reference.column + columnOffset;
+      const row = reference.absoluteRow ? reference.row : reference.row + rowOffset;
+      if (column < 0 || row < 0 || column >= sheetColumns || row >= sheetRows) {
+        return undefined;
+      }
+      return Cell.formatReference(column, row, reference.absoluteColumn, reference.absoluteRow);
+    };
+
+    return formula.map((qualifiedToken) => {
+      const [sheetName, token] = Cell.splitSheetReference(qualifiedToken);
+      const [sheetColumns, sheetRows] = sheetName !== "" && sheetSize ? sheetSize(sheetName) : [columns, rows];
+      const qualify = (label: string) => sheetName === "" ? label : Cell.qualifyLabel(sheetName, label);
+
+      if (Cell.isValidCellLabel(token)) {
+        const shifted = shift(token, sheetColumns, sheetRows);
+        return shifted ? qualify(shifted) : ErrorMessages.invalidCell;
+      }
+      if (Cell.isValidRangeLabel(token)) {
+        const [start, end] = token.split(":").map((corner) => shift(corner, sheetColumns, sheetRows));
+        return start && end ? qualify(start + ":" + end) : ErrorMessages.invalidCell;
+      }
+      return qualifiedToken;
+    });
+  }
+
+  /**
+   * rewrite the references to a sheet that is renamed or deleted
+   *
+   * @param formula the formula to rewrite
+   * @param sheetName the sheet that changed
+   * @param newSheetName the new name of the sheet, undefined when the sheet is deleted
+   * @returns the rewritten formula, a reference to a deleted sheet becomes #REF!
+   */
+  public static replaceSheetReferences(formula: FormulaType, sheetName: string, newSheetName: string | undefined): FormulaType {
+    return formula.map((token) => {
+      const [tokenSheet, reference] = Cell.splitSheetReference(token);
+      if (tokenSheet !== sheetName) {
+        return token;
+      }
+      return newSheetName === undefined ? ErrorMessages.invalidCell : Cell.qualifyLabel(newSheetName, reference);
+    });
+  }
+
 }
 
 export default FormulaBuilder;
@@ -0,0 +1,274 @@
+/**
+ * Turn the text of a formula that is typed in, (A1+B2)*3.5, into the tokens the evaluator uses
+ *
+ * [ "(", "A1", "+", "B2", ")", "*", "3.5" ]
+ *
+ * The tokens are the same as the ones the key pad adds one at a time
+ *
+ * numbers 3 3.5 .5 1e3
+ * text in double quotes, a double quote inside the text is written twice "say ""hi"""
+ * cells and ranges A1 $A$1 A1:B4 Summary!B2, the letters of a cell can be typed in lower case
+ * the functions SUM AVERAGE MIN MAX COUNT PRODUCT IF AND OR NOT IFERROR, TRUE and FALSE
+ * rand, a random number between 0 and 1
+ * the postfix operators +/- sin cos tan asin acos atan sqrt sqr cube cuberoot 1/x
+ * the names of the document, TaxRate
+ * the operators + - * / % // ^ & = <> < <= > >= and ( ) ,
+ *
+ * A formula can start with = and spaces between the tokens are ignored.
+ * Text that is not a token, parentheses that do not match, two values without an operator
+ * between them, an operator without a value and a function without ( throw a FormulaSyntaxError,
+ * the position of the error is the number of the character, the first character is 1
+ *
+ * It provides the following calls.
+ *
+ * tokenize(text: string, names: string[]): FormulaType
+ * isValidName(name: string): boolean
+ */
+
+import Cell from "./Cell";
+import { ErrorMessages } from "./GlobalDefinitions";
+
+/**
+ * a formula that cannot be split into tokens
+ */
+export class FormulaSyntaxError extends Error {
+    // the number of the character where the error is, the first character is 1
+    public readonly position: number;
+
+    constructor(message: string, position: number) {
+        super(`${message} at position ${position}`);
+        this.name = "FormulaSyntaxError";
+        this.position = position;
+    }
+}
+
+export class FormulaTokenizer {
+    // the names are matched without regard to case and are stored the way the evaluator spells them
+    private static readonly _functionNames = ["SUM", "AVERAGE", "MIN", "MAX", "COUNT", "PRODUCT", "IF", "AND", "OR", "NOT", "IFERROR"];
+    private static readonly _booleans = ["TRUE", "FALSE"];
+    private static readonly _postfixNames = ["sin", "cos", "tan", "asin", "acos", "atan", "sqrt", "sqr", "cube", "cuberoot"];
+    private static readonly _valueNames = ["rand"];
+
+    // the longest operators come first so that <= is not read as < and =
+    private static readonly _operators = ["+/-", "//", "<>", "<=", ">=", "+", "-", "*", "/", "%", "^", "&", "=", "<", ">", "(", ")", ","];
+
+    private static readonly _numberPattern = /(?:[0-9]+\.?[0-9]*|\.[0-9]+)(?:[eE][-+]?[0-9]+)?/y;
+    private static readonly _namePattern = /[A-Za-z_][A-Za-z0-9_]*/y;
+    private static readonly _cellPattern = /\$?[A-Za-z]+\$?[0-9]+(?![A-Za-z0-9_])/y;
+
+    /**
+     * split the text of a formula into tokens
+     *
+     * @param text the formula as it is typed, it can start with =
+     * @param names the names of the document, they are matched without regard to case
+     * @returns the tokens, an empty formula has no tokens
+     */
+    public static tokenize(text: string, names: string[] = []): FormulaType {
+        const tokens: FormulaType = [];
+        // the ( that are not closed yet, where they are and if they hold the arguments of a function
+        const openParentheses: { position: number, isFunction: boolean }[] = [];
+        // true once a value is read, then an operator, a postfix operator, ) or , can follow
+        let afterValue = false;
+        let index = text.trimStart().startsWith("=") ? text.indexOf("=") + 1 : 0;
+
+        while (index < text.length) {
+            const character = text[index];
+            if (/\s/.test(character)) {
+                index++;
+                continue;
+            }
+
+            let token: string | undefined;
+            let length = 0;
+            if (character === '"') {
+                length = FormulaTokenizer._stringLength(text, index);
+                token = text.substring(index, index + length);
+            } else if (text.startsWith("1/x", index) && afterValue
+                && !/[A-Za-z0-9_]/.test(text[index + 3] ?? "")) {
+                token = "1/x";
+                length = 3;
+            } else if (text.startsWith(ErrorMessages.invalidCell, index)) {
+                // a reference to a cell that was deleted
+                token = ErrorMessages.invalidCell;
+                length = token.length;
+            } else if (/[0-9.]/.test(character)) {
+                token = FormulaTokenizer._match(FormulaTokenizer._numberPattern, text, index);
+                // a number has one decimal point, 1.2.3 is not two numbers
+                if (token === undefined || text[index + token.length] === ".") {
+                    const position = token === undefined ? index : index + token.length;
+                    throw new FormulaSyntaxError(`Unexpected ${text[position]}`, position + 1);
+                }
+                length = token.length;
+            } else if (/[A-Za-z_$]/.test(character)) {
+                [token, length] = FormulaTokenizer._readName(text, index, names);
+            } else {
+                const operator = FormulaTokenizer._readOperator(text, index);
+                if (operator === undefined) {
+                    throw new FormulaSyntaxError(`Unexpected ${character}`, index + 1);
+                }
+                token = operator;
+                length = operator.length;
+            }
+
+            const previous = tokens[tokens.length - 1];
+            if (previous !== undefined && FormulaTokenizer._functionNames.includes(previous) && token !== "(") {
+                throw new FormulaSyntaxError(`Expected ( after ${previous}`, index + 1);
+            }
+            if (token === "(") {
+                if (afterValue) {
+                    throw new FormulaSyntaxError("Expected an operator before (", index + 1);
+                }
+                const isFunction = previous !== undefined && FormulaTokenizer._functionNames.includes(previous);
+                openParentheses.push({ position: index + 1, isFunction: isFunction });
+            } else if (token === ")") {
+                const open = openParentheses.pop();
+                if (open === undefined) {
+                    throw new FormulaSyntaxError("Unexpected )", index + 1);
+                }
+                // a function can be called without arguments, SUM()
+                if (!afterValue && !(open.isFunction && previous === "(")) {
+                    throw new FormulaSyntaxError("Expected a value before )", index + 1);
+                }
+                afterValue = true;
+            } else if (token === ",") {
+                const open = openParentheses[openParentheses.length - 1];
+                if (open === undefined || !open.isFunction) {
+                    throw new FormulaSyntaxError("Unexpected ,", index + 1);
+                }
+                if (!afterValue) {
+                    throw new FormulaSyntaxError("Expected a value before ,", index + 1);
+                }
+                afterValue = false;
+            } else if (FormulaTokenizer._isPostfix(token)) {
+                if (!afterValue) {
+                    throw new FormulaSyntaxError(`Expected a value before ${token}`, index + 1);
+                }
+            } else if (FormulaTokenizer._operators.includes(token)) {
+                // - and + can also be the sign of the value that follows them
+                if (!afterValue && token !== "-" && token !== "+") {
+                    throw new FormulaSyntaxError(`Expected a value before ${token}`, index + 1);
+                }
+                afterValue = false;
+            } else {
+                // a value or a function
+                if (afterValue) {
+                    throw new FormulaSyntaxError(`Expected an operator before ${token}`, index + 1);
+                }
+                afterValue = !FormulaTokenizer._functionNames.includes(token);
+            }
+            tokens.push(token);
+            index += length;
+        }
+
+        if (openParentheses.length > 0) {
+            throw new FormulaSyntaxError("Missing ) for the (", openParentheses[openParentheses.length - 1].position);
+        }
+        if (tokens.length > 0 && !afterValue) {
+            throw new FormulaSyntaxError(`Expected a value after ${tokens[tokens.length - 1]}`, text.trimEnd().length + 1);
+        }
+        return tokens;
+    }
+
+    /**
+     * check that a name can be given to a cell, a range or a constant
+     *
+     * @returns true if the name is letters, digits and _, it does not start with a digit,
+     * it is not a cell (TAX2023) and it is not a function, a boolean, rand or a postfix operator
+     */
+    public static isValidName(name: string): boolean {
+        return Cell.isValidSheetName(name) && !Cell.isValidCellLabel(name.toUpperCase())
+            && !FormulaTokenizer._functionNames.includes(name.toUpperCase())
+            && !FormulaTokenizer._booleans.includes(name.toUpperCase())
+            && !FormulaTokenizer._postfixNames.includes(name.toLowerCase())
+            && !FormulaTokenizer._valueNames.includes(name.toLowerCase());
+    }
+
+    // the length of the text in double quotes that starts at the index, with the quotes
+    private static _stringLength(text: string, start: number): number {
+        let index = start + 1;
+        while (index < text.length) {
+            if (text[index] === '"' && text[index + 1] === '"') {
+                index += 2;
+            } else if (text[index] === '"') {
+                return index + 1 - start;
+            } else {
+                index++;
+            }
+        }
+        throw new FormulaSyntaxError("The text is not closed with \"", start + 1);
+    }
+
+    /**
+     * read a cell, a range, a cell on another sheet, a function, a boolean or a postfix operator
+     *
+     * @returns the token and the number of characters it takes in the text
+     */
+    private static _readName(text: string, start: number, names: string[]): [string, number] {
+        let index = start;
+        let sheetName = "";
+        const name = FormulaTokenizer._match(FormulaTokenizer._namePattern, text, index);
+
+        // a name followed by ! is the sheet of the cell that comes next
+        if (name !== undefined && text[index + name.length] === "!") {
+            sheetName = name;
+            index += name.length + 1;
+            if (FormulaTokenizer._match(FormulaTokenizer._cellPattern, text, index) === undefined) {
+                throw new FormulaSyntaxError(`Expected a cell after ${sheetName}!`, index + 1);
+            }
+        }
+
+        const cell = FormulaTokenizer._match(FormulaTokenizer._cellPattern, text, index);
+        if (cell !== undefined && Cell.isValidCellLabel(cell.toUpperCase())) {
+            index += cell.length;
+            let reference = cell.toUpperCase();
+
+            // a range is a cell, a colon and a cell, there can be spaces around the colon
+            const colon = /\s*:\s*/y;
+            colon.lastIndex = index;
+            if (colon.exec(text) !== null) {
+                const end = FormulaTokenizer._match(FormulaTokenizer._cellPattern, text, colon.lastIndex);
+                if (end === undefined || !Cell.isValidCellLabel(end.toUpperCase())) {
+                    throw new FormulaSyntaxError("Expected a cell after :", colon.lastIndex + 1);
+                }
+                reference += ":" + end.toUpperCase();
+                index = colon.lastIndex + end.length;
+            }
+            return [sheetName === "" ? reference : Cell.qualifyLabel(sheetName, reference), index - start];
+        }
+
+        if (name === undefined) {
+            throw new FormulaSyntaxError(`Unexpected ${text[start]}`, start + 1);
+        }
+        const upperCaseName = name.toUpperCase();
+        if (FormulaTokenizer._functionNames.includes(upperCaseName) || FormulaTokenizer._booleans.includes(upperCaseName)) {
+            return [upperCaseName, name.length];
+        }
+        if (FormulaTokenizer._postfixNames.includes(name.toLowerCase()) || FormulaTokenizer._valueNames.includes(name.toLowerCase())) {
+            return [name.toLowerCase(), name.length];
+        }
+        const definedName = names.find((definedName) => definedName.toUpperCase() === upperCaseName);
+        if (definedName !== undefined) {
+            return [definedName, name.length];
+        }
+        throw new FormulaSyntaxError(`Unknown name ${name}`, start + 1);
+    }
+
+    // the operator that starts at the index, undefined if there is none
+    private static _readOperator(text: string, index: number): string | undefined {
+        return FormulaTokenizer._operators.find((operator) => text.startsWith(operator, index));
+    }
+
+    // true when the token is an operator that comes after its value, A1 sin
+    private static _isPostfix(token: string): boolean {
+        return token === "+/-" || token === "1/x" || FormulaTokenizer._postfixNames.includes(token);
+    }
+
+    // the text that a sticky pattern matches at the index, undefined if it does not match
+    private static _match(pattern: RegExp, text: string, index: number): string | undefined {
+        pattern.lastIndex = index;
+        const match = pattern.exec(text);
+        return match === null ? undefined : match[0];
+    }
+}
+
+export default FormulaTokenizer;
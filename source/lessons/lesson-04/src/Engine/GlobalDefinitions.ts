@@ -6,6 +6,9 @@ export const ErrorMessages = {
   invalidFormula: "#ERR",
   invalidNumber: "#ERR",
   invalidOperator: "#ERR",
+  invalidValue: "#VALUE!",
+  circularReference: "#CIRC!",
+  invalidName: "#NAME?",
   missingParentheses: "#ERR",
   emptyFormula: "#EMPTY!", // this is not an error message but we use it to indicate that the cell is empty
 
@@ -17,14 +20,103 @@ export const ButtonNames = {
   done: "=",
   allClear: "AC",
   clear: "C",
+  text: "abc",
+  undo: "Undo",
+  redo: "Redo",
+  copy: "Copy",
+  paste: "Paste",
+  fillDown: "Fill ↓",
+  fillRight: "Fill →",
 }
 
 
+/**
+ * the value of a cell, a cell holds a number, text or a boolean
+ */
+export type CellValue = number | string | boolean;
+
+/**
+ * how the number of a cell is shown, see NumberFormat. The value of the cell keeps its full precision
+ */
+export interface NumberFormatSpec {
+  kind: 'general' | 'fixed' | 'percent' | 'currency' | 'scientific';
+  // the number of decimals, each kind has its own default
+  decimals?: number;
+  // group the thousands with commas (1,234)
+  thousands?: boolean;
+  // the currency symbol, $ by default
+  symbol?: string;
+}
+
+/**
+ * how a cell is drawn when a conditional format rule matches it, the colors are #rrggbb
+ */
+export interface CellStyle {
+  color?: string;
+  backgroundColor?: string;
+  bold?: boolean;
+}
+
+/**
+ * what a conditional format rule checks in the cells of its range, see ConditionalFormats
+ */
+export type ConditionKind = 'lessThan' | 'greaterThan' | 'equalTo' | 'between' | 'top' | 'bottom' | 'error' | 'colorScale';
+
+/**
+ * a conditional format rule of a document, the range is a cell or a range (B2:B40)
+ */
+export interface ConditionalRuleTransport {
+  id: number;
+  range: string;
+  condition: ConditionKind;
+  // the number the values are compared with, the percent of the values for top and bottom
+  value?: number;
+  // the upper bound of between
+  value2?: number;
+  // the style of the cells that meet the condition, a color scale has none
+  style?: CellStyle;
+  // the background of the smallest and the largest value of a color scale
+  minColor?: string;
+  maxColor?: string;
+}
+
+/**
+ * a column a range is sorted by, the column is named by its letter (B)
+ */
+export interface SortKey {
+  column: string;
+  descending?: boolean;
+}
+
+/**
+ * what a filter checks in a column, the rows of the range that fail a check are hidden, see SortAndFilter
+ */
+export type FilterCondition = 'equalTo' | 'notEqualTo' | 'lessThan' | 'greaterThan' | 'contains' | 'notBlank';
+
+export interface FilterCriterion {
+  column: string;
+  condition: FilterCondition;
+  // the text or the number the cells are compared with, notBlank has none
+  value?: string;
+}
+
+/**
+ * the filter of a user, only that user has their rows hidden
+ */
+export interface FilterTransport {
+  range: string;
+  criteria: FilterCriterion[];
+}
+
 export interface CellTransport {
   formula: string[];
-  value: number;
+  value: CellValue;
   error: string;
   editing: string;
+  // only a cell with a format has one
+  format?: NumberFormatSpec;
+  // only a cell that a conditional format rule matches has one
+  style?: CellStyle;
 }
 
 export interface UserEditing {
@@ -41,6 +133,12 @@ export interface CellTransportMap {
 export interface DocumentTransport {
   columns: number;
   rows: number;
+  // the names of the sheets, the sheet that is shown and the sheet of the current cell
+  sheets: string[];
+  sheet: string;
+  currentSheet: string;
+  // the names of the document and what they stand for
+  names: NameTransport[];
   cells: Map<string, CellTransport>;
   formula: string;
   result: string;
@@ -48,5 +146,106 @@ export interface DocumentTransport {
   isEditing: boolean;
   contributingUsers: UserEditing[];
   errorOccurred: string;
+  // the revision of the document, a client sends it back to fetch only what changed after it
+  revision: number;
+  // true when cells and contributingUsers only hold the cells and editors that changed
+  isDelta: boolean;
+  // in a delta, the users that are no longer editing a cell of the sheet that is shown
+  removedUsers: string[];
+  // the access of the user, a viewer cannot change the document
+  role: DocumentRole;
+  // every user who has the document open, it is always sent whole
+  presence: PresenceTransport[];
+  // the comments on the cells of the sheet that is shown, they are always sent whole
+  comments: CommentTransport[];
+  // the conditional format rules of the sheet that is shown, they are always sent whole
+  conditionalRules: ConditionalRuleTransport[];
+  // the filter of the user when it is on the sheet that is shown and the rows it hides
+  filter?: FilterTransport;
+  hiddenRows: number[];
+}
+
+/**
+ * a comment on a cell and the discussion that follows it, the times are in milliseconds since 1970
+ */
+export interface CommentTransport {
+  id: number;
+  cell: string;
+  author: string;
+  text: string;
+  time: number;
+  resolved: boolean;
+  replies: CommentReplyTransport[];
 }
 
+export interface CommentReplyTransport {
+  author: string;
+  text: string;
+  time: number;
+}
+
+/**
+ * how recently a user did something, a user is idle after a while without making a change
+ * or moving and away once their client stops fetching the document
+ */
+export type PresenceState = 'active' | 'idle' | 'away';
+
+/**
+ * a user who has the document open and the cell they are at
+ */
+export interface PresenceTransport {
+  user: string;
+  sheet: string;
+  cell: string;
+  isEditing: boolean;
+  state: PresenceState;
+  // the last time the client of the user fetched the document, in milliseconds since 1970
+  lastSeen: number;
+}
+
+/**
+ * the access a user has to a document, the owner shares it with editors and viewers
+ */
+export type DocumentRole = 'owner' | 'editor' | 'viewer';
+
+export interface AccessTransport {
+  user: string;
+  role: DocumentRole;
+}
+
+/**
+ * a name of a document and the cell, range or constant it stands for (TaxRate, Sheet1!B1)
+ */
+export interface NameTransport {
+  name: string;
+  definition: string;
+}
+
+/**
+ * the contents of a cell as they are saved in a document
+ */
+export interface CellContents {
+  formula: string[];
+  value: CellValue;
+  error: string;
+  format?: NumberFormatSpec;
+}
+
+/**
+ * a saved revision of a document, the sheet is left out when revisions are listed
+ */
+export interface RevisionTransport {
+  revision: number;
+  timestamp: string;
+  user: string;
+  sheet?: any;
+}
+
+/**
+ * a cell that differs between two revisions
+ */
+export interface CellDiffTransport {
+  cell: string;
+  from: CellContents | undefined;
+  to: CellContents | undefined;
+}
@@ -0,0 +1,91 @@
+/**
+ * MemoryDocumentStorage keeps the documents and their revisions in memory, it is used by the tests.
+ *
+ * The documents can be given when it is made, and the documents and the revisions that were
+ * quarantined are kept so that a test can look at them.
+ *
+ * It provides the calls of DocumentStorage and
+ *
+ * getQuarantined(): Map<string, string>
+ */
+import { DocumentStorage } from './DocumentStorage';
+
+export class MemoryDocumentStorage implements DocumentStorage {
+    private _documents: Map<string, string>;
+    private _revisions: Map<string, Map<number, string>> = new Map<string, Map<number, string>>();
+    private _quarantined: Map<string, string> = new Map<string, string>();
+
+    /**
+     * @param documents the JSON of the stored documents by their names
+     */
+    constructor(documents: Record<string, string> = {}) {
+        this._documents = new Map<string, string>(Object.entries(documents));
+    }
+
+    public listDocuments(): string[] {
+        return Array.from(this._documents.keys());
+    }
+
+    public readDocument(name: string): string {
+        const documentJSON = this._documents.get(name);
+        if (documentJSON === undefined) {
+            throw new Error(`Document ${name} does not exist`);
+        }
+        return documentJSON;
+    }
+
+    public async writeDocument(name: string, documentJSON: string): Promise<void> {
+        this._documents.set(name, documentJSON);
+    }
+
+    public deleteDocument(name: string): void {
+        this._documents.delete(name);
+    }
+
+    public quarantineDocument(name: string): void {
+        this._quarantined.set(name, this.readDocument(name));
+        this._documents.delete(name);
+    }
+
+    public listRevisions(name: string): number[] {
+        return Array.from(this._revisions.get(name)?.keys() ?? []).sort((first, second) => first - second);
+    }
+
+    public readRevision(name: string, revision: number): string {
+        const revisionJSON = this._revisions.get(name)?.get(revision);
+        if (revisionJSON === undefined) {
+            throw new Error(`Revision ${revision} of ${name} does not exist`);
+        }
+        return revisionJSON;
+    }
+
+    public async writeRevision(name: string, revision: number, revisionJSON: string): Promise<void> {
+        if (!this._revisions.has(name)) {
+            this._revisions.set(name, new Map<number, string>());
+        }
+        this._revisions.get(name)!.set(revision, revisionJSON);
+    }
+
+    public async deleteRevision(name: string, revision: number): Promise<void> {
+        this._revisions.get(name)?.delete(revision);
+    }
+
+    public deleteRevisions(name: string): void {
+        this._revisions.delete(name);
+    }
+
+    public quarantineRevision(name: string, revision: number): void {
+        this._quarantined.set(`${name}/${revision}`, this.readRevision(name, revision));
+        this._revisions.get(name)!.delete(revision);
+    }
+
+    /**
+     * @returns the JSON of the documents that were quarantined by their names,
+     * and of the revisions by the name of their document and their number (budget/3)
+     */
+    public getQuarantined(): Map<string, string> {
+        return new Map<string, string>(this._quarantined);
+    }
+}
+
+export default MemoryDocumentStorage;
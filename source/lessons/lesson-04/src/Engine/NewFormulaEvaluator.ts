@@ -1,16 +1,43 @@
 /** A recursive descent parser to deal with the following grammar
  * 
- * binary operators +, -, *, /
+ * binary operators +, -, *, /, %, //, ^, &
  * unary operator -
  * 
- * postfix operators % +/- sin cos tan asin acos atan sqrt pow sqr
+ * postfix operators +/- sin cos tan asin acos atan sqrt pow sqr
  * 
- * formula = expression
+ * formula = comparison
+ * comparison = concatenation { compare_op concatenation }
+ * compare_op = ["=", "<>", "<", "<=", ">", ">="]
+ * concatenation = expression { "&" expression }
  * expression = term { ("+" | "-") term }
- * term = factor { ("*" | "/") factor }
- * factor = number | "(" expression ")" | unary_op factor | factor postfix_op   
- * unary_op = "-"
+ * term = unary { ("*" | "/" | "%" | "//") unary }
+ * unary = unary_op unary | power
+ * power = factor [ "^" unary ]
+ * factor = number | string | boolean | "(" comparison ")" | factor postfix_op | function
+ * unary_op = "-" | "+"
  * postfix_op = ["+/-", "sin", "cos", "tan", "asin", "acos", "atan", "sqrt", "sqr", "cube", "1/x", "cuberoot"]
+ * function = function_name "(" [ argument { "," argument } ] ")"
+ * function_name = ["SUM", "AVERAGE", "MIN", "MAX", "COUNT", "PRODUCT", "IF", "AND", "OR", "NOT", "IFERROR"]
+ * argument = range | comparison
+ * range = cell ":" cell
+ * cell = [ sheet_name "!" ] cell_label, a cell on another sheet of the workbook is Summary!B2
+ * string = a token wrapped in double quotes, a double quote inside the string is written as ""
+ * boolean = "TRUE" | "FALSE"
+ * name = a name of the workbook, it is replaced by the cell, range or constant it stands for
+ * 
+ * "^" is right associative and binds tighter than unary minus, so - 2 ^ 2 is -4 and 2 ^ 3 ^ 2 is 512
+ * "%" is the modulo, the result has the sign of the divisor
+ * "//" is the integer division, the quotient is rounded down
+ * "&" joins the text of both sides, numbers and booleans are converted to text
+ * 
+ * The arithmetic operators treat TRUE as 1 and FALSE as 0, text in arithmetic is a #VALUE! error
+ * 
+ * The comparisons return TRUE or FALSE, text is compared without regard to case and when the
+ * kinds differ a number is less than text and text is less than a boolean
+ * 
+ * IF ( condition , when_true [ , when_false ] ) only evaluates the branch that is taken, the other
+ * branch is still parsed so that syntax errors are reported but its errors (#DIV/0! ...) are ignored.
+ * IFERROR ( value , fallback ) evaluates the fallback only when the value has an error
  * 
  * 
  * 
@@ -18,16 +45,22 @@
 
 import Cell from "./Cell"
 import SheetMemory from "./SheetMemory"
-import { ErrorMessages } from "./GlobalDefinitions";
+import { ErrorMessages, CellValue } from "./GlobalDefinitions";
 
 class FormulaEvaluator {
     private _errorOccurred: boolean = false;
     private _errorMessage: string = "";
+    // set when the error is in the structure of the formula rather than in a value
+    private _syntaxError: boolean = false;
     private _currentFormula: FormulaType = [];
-    private _lastResult: number = 0;
+    private _lastResult: CellValue = 0;
     private _sheetMemory: SheetMemory;
-    private _result: number = 0;
+    private _result: CellValue = 0;
     private _postfixOperators = ["+/-", "sin", "cos", "tan", "asin", "acos", "atan", "sqrt", "sqr", "cube", "1/x", "cuberoot"]
+    private _multiplicativeOperators = ["*", "/", "%", "//"]
+    private _aggregateFunctions = ["SUM", "AVERAGE", "MIN", "MAX", "COUNT", "PRODUCT"]
+    private _logicalFunctions = ["IF", "AND", "OR", "NOT", "IFERROR"]
+    private _comparisonOperators = ["=", "<>", "<", "<=", ">", ">="]
 
     constructor(memory: SheetMemory) {
         this._sheetMemory = memory;
@@ -35,11 +68,13 @@ class FormulaEvaluator {
 
     evaluate(formula: FormulaType) {
         this._errorOccurred = false;
+        this._syntaxError = false;
         // make a copy of the formula
         //
         // set the currentFormula to the copy of the formula
         // we do this because the parser consumes the value in currentFormula 
-        this._currentFormula = [...formula];
+        // a name of the workbook is replaced by the cell, range or constant it stands for
+        this._currentFormula = formula.map((token) => this._sheetMemory.getNameDefinition(token) ?? token);
 
         if (this._currentFormula.length === 0) {
             this._result = 0;
@@ -49,7 +84,7 @@ class FormulaEvaluator {
         }
 
         this._errorMessage = "";
-        let resultValue = this.expression();
+        let resultValue = this.comparison();
         this._result = resultValue;
 
         // if there are still tokens in the formula set the errorOccurred flag
@@ -68,22 +103,67 @@ class FormulaEvaluator {
         return this._errorMessage
     }
 
-    public get result(): number {
+    public get result(): CellValue {
         return this._result;
     }
 
+    /**
+     * 
+     * @returns The value of the comparison in the tokenized formula
+     */
+    private comparison(): CellValue {
+        let result = this.concatenation();
+        while (this._currentFormula.length > 0 && this._comparisonOperators.includes(this._currentFormula[0])) {
+            let operator = this._currentFormula.shift();
+            let right = this.concatenation();
+            let order = this.compareValues(result, right);
+            if (operator === "=") {
+                result = order === 0;
+            } else if (operator === "<>") {
+                result = order !== 0;
+            } else if (operator === "<") {
+                result = order < 0;
+            } else if (operator === "<=") {
+                result = order <= 0;
+            } else if (operator === ">") {
+                result = order > 0;
+            } else {
+                result = order >= 0;
+            }
+        }
+        this._lastResult = result;
+        return result;
+    }
+
+    /**
+     * 
+     * @returns The value of the concatenation in the tokenized formula
+     */
+    private concatenation(): CellValue {
+        let result = this.expression();
+        while (this._currentFormula.length > 0 && this._currentFormula[0] === "&") {
+            this._currentFormula.shift();
+            let right = this.expression();
+            result = Cell.valueToString(result) + Cell.valueToString(right);
+        }
+        this._lastResult = result;
+        return result;
+    }
+
     /**
      * 
      * @returns The value of the factor in the tokenized formula
      */
-    private expression(): number {
+    private expression(): CellValue {
         let result = this.term();
         while (this._currentFormula.length > 0 && (this._currentFormula[0] === "+" || this._currentFormula[0] === "-")) {
             let operator = this._currentFormula.shift();
+            let left = this.toNumber(result);
+            let right = this.toNumber(this.term());
             if (operator === "+") {
-                result += this.term();
+                result = left + right;
             } else {
-                result -= this.term();
+                result = left - right;
             }
         }
         this._lastResult = result;
@@ -94,42 +174,100 @@ class FormulaEvaluator {
      * 
      * @returns The value of the term in the tokenized formula
      */
-    private term(): number {
-        let result = this.factor();
-        while (this._currentFormula.length > 0 && (this._currentFormula[0] === "*" || this._currentFormula[0] === "/")) {
+    private term(): CellValue {
+        let result = this.unary();
+        while (this._currentFormula.length > 0 && this._multiplicativeOperators.includes(this._currentFormula[0])) {
             let operator = this._currentFormula.shift();
-            let factor = this.factor();
+            let left = this.toNumber(result);
+            let factor = this.toNumber(this.unary());
             if (operator === "*") {
-                result *= factor;
+                result = left * factor;
+                continue;
+            }
+            // check for divide by zero, this applies to /, % and //
+            // the rest of the term is still parsed so that the tokens are consumed
+            if (factor === 0) {
+                this._errorOccurred = true;
+                this._errorMessage = ErrorMessages.divideByZero;
+                result = Infinity;
+                continue;
+            }
+            // we are ok, lets divide
+            if (operator === "/") {
+                result = left / factor;
+            } else if (operator === "%") {
+                result = left - factor * Math.floor(left / factor);
             } else {
-                // check for divide by zero
-                if (factor === 0) {
-                    this._errorOccurred = true;
-                    this._errorMessage = ErrorMessages.divideByZero;
-                    this._lastResult = Infinity;
-                    return Infinity;
-                }
-                // we are ok, lets divide
-                result /= factor;
+                result = Math.floor(left / factor);
             }
         }
         this._lastResult = result;
         return result;
     }
 
+    /**
+     * 
+     * @returns The value of the unary operation in the tokenized formula
+     */
+    private unary(): CellValue {
+        if (this._currentFormula.length > 0 && this._currentFormula[0] === "-") {
+            this._currentFormula.shift();
+            return -this.toNumber(this.unary());
+        }
+        if (this._currentFormula.length > 0 && this._currentFormula[0] === "+") {
+            this._currentFormula.shift();
+            return this.toNumber(this.unary());
+        }
+        return this.power();
+    }
+
+    /**
+     * 
+     * @returns The value of the power in the tokenized formula
+     * 
+     * the exponent is parsed with unary so that 2 ^ - 1 and 2 ^ 3 ^ 2 (right associative) work
+     */
+    private power(): CellValue {
+        let result = this.factor();
+        if (this._currentFormula.length > 0 && this._currentFormula[0] === "^") {
+            this._currentFormula.shift();
+            let base = this.toNumber(result);
+            let exponent = this.toNumber(this.unary());
+            if (this._errorOccurred) {
+                return result;
+            }
+            if (base === 0 && exponent < 0) {
+                this._errorOccurred = true;
+                this._errorMessage = ErrorMessages.divideByZero;
+                this._lastResult = Infinity;
+                return Infinity;
+            }
+            result = Math.pow(base, exponent);
+            if (isNaN(result)) {
+                this._errorOccurred = true;
+                this._errorMessage = ErrorMessages.invalidNumber;
+                this._lastResult = 0;
+                return 0;
+            }
+            this._lastResult = result;
+        }
+        return result;
+    }
+
     /**
    *  
    * @returns The value of the factor in the tokenized formula
    * 
    */
-    private factor(): number {
-        let result = 0;
+    private factor(): CellValue {
+        let result: CellValue = 0;
         // if the formula is empty set errorOccurred to true 
         // and set the errorMessage to "PARTIAL"
         // and return 0
         if (this._currentFormula.length === 0) {
             this._errorOccurred = true;
             this._errorMessage = ErrorMessages.partial;
+            this._syntaxError = true;
             return result;
         }
 
@@ -144,15 +282,30 @@ class FormulaEvaluator {
             result = Number(token);
             this._lastResult = result;
 
+            // if the token is a string literal the result is the text without the quotes
+        } else if (this.isStringLiteral(token)) {
+            result = token.slice(1, -1).replace(/""/g, '"');
+            this._lastResult = result;
+
+        } else if (token === "TRUE" || token === "FALSE") {
+            result = token === "TRUE";
+            this._lastResult = result;
+
             // if the token is a "(" get the value of the expression
         } else if (token === "(") {
-            result = this.expression();
+            result = this.comparison();
             if (this._currentFormula.length === 0 || this._currentFormula.shift() !== ")") {
                 this._errorOccurred = true;
                 this._errorMessage = ErrorMessages.missingParentheses;
+                this._syntaxError = true;
                 this._lastResult = result
             }
 
+            // the reference was to a cell that has been deleted
+        } else if (token === ErrorMessages.invalidCell) {
+            this._errorOccurred = true;
+            this._errorMessage = ErrorMessages.invalidCell;
+
             // if the token is a cell reference get the value of the cell
         } else if (this.isCellReference(token)) {
             [result, this._errorMessage] = this.getCellValue(token);
@@ -163,27 +316,233 @@ class FormulaEvaluator {
                 this._lastResult = result;
             }
 
+        } else if (this._aggregateFunctions.includes(token)) {
+            result = this.aggregateFunction(token);
+
+        } else if (this._logicalFunctions.includes(token)) {
+            result = this.logicalFunction(token);
+
         } else if (token === "rand") {
             result = Math.random();
-        } else if (token === "-") {
-            result = -this.factor();
-        } else if (token === "+") {
-            result = this.factor();
+
+            // a name that is not defined, it may have been deleted
+        } else if (Cell.isValidSheetName(token)) {
+            this._errorOccurred = true;
+            this._errorMessage = ErrorMessages.invalidName;
         } else {
             this._errorOccurred = true;
             this._errorMessage = ErrorMessages.invalidFormula;
+            this._syntaxError = true;
         }
 
         result = this.postfix(result);
         return result;
     }
 
+    /**
+     * 
+     * @param functionName
+     * @returns The value of the aggregate function applied to its arguments
+     * 
+     * The opening parenthesis is required, the arguments are separated by ","
+     * each argument is either a range or an expression
+     */
+    private aggregateFunction(functionName: TokenType): CellValue {
+        let values: number[] = [];
+
+        if (!this.openParenthesis()) {
+            return 0;
+        }
+
+        // a function can be called with no arguments, SUM ( )
+        if (this._currentFormula.length > 0 && this._currentFormula[0] === ")") {
+            this._currentFormula.shift();
+            return this.applyAggregate(functionName, values);
+        }
+
+        // keep parsing after an error in a value so that the whole call is consumed
+        while (!this._syntaxError) {
+            let argument = this._currentFormula[0];
+            if (argument !== undefined && this.isRangeReference(argument)) {
+                this._currentFormula.shift();
+                // text and booleans in a range are skipped
+                for (let value of this.getRangeValues(argument)) {
+                    if (typeof value === "number") {
+                        values.push(value);
+                    }
+                }
+            } else {
+                values.push(this.toNumber(this.comparison()));
+            }
+
+            if (this._currentFormula.length === 0 || this._currentFormula[0] !== ",") {
+                break;
+            }
+            this._currentFormula.shift();
+        }
+
+        if (this._syntaxError || !this.separator(")") || this._errorOccurred) {
+            return 0;
+        }
+        return this.applyAggregate(functionName, values);
+    }
+
+    /**
+     * 
+     * @param functionName 
+     * @param values the numeric values collected from the arguments
+     * @returns the result of the aggregate
+     */
+    private applyAggregate(functionName: TokenType, values: number[]): number {
+        let result = 0;
+        if (functionName === "SUM") {
+            result = values.reduce((total, value) => total + value, 0);
+        } else if (functionName === "AVERAGE") {
+            if (values.length === 0) {
+                this._errorOccurred = true;
+                this._errorMessage = ErrorMessages.divideByZero;
+                return 0;
+            }
+            result = values.reduce((total, value) => total + value, 0) / values.length;
+        } else if (functionName === "MIN") {
+            result = values.length === 0 ? 0 : Math.min(...values);
+        } else if (functionName === "MAX") {
+            result = values.length === 0 ? 0 : Math.max(...values);
+        } else if (functionName === "COUNT") {
+            result = values.length;
+        } else if (functionName === "PRODUCT") {
+            result = values.length === 0 ? 0 : values.reduce((total, value) => total * value, 1);
+        }
+        this._lastResult = result;
+        return result;
+    }
+
+    /**
+     * 
+     * @param functionName
+     * @returns The value of the logical function applied to its arguments
+     */
+    private logicalFunction(functionName: TokenType): CellValue {
+        if (!this.openParenthesis()) {
+            return 0;
+        }
+        let result: CellValue = false;
+
+        if (functionName === "IF") {
+            let condition = this.toBoolean(this.comparison());
+            let conditionFailed = this._errorOccurred;
+            if (this._syntaxError || !this.separator(",")) {
+                return 0;
+            }
+            result = condition && !conditionFailed ? this.comparison() : this.skipBranch();
+            if (this._currentFormula.length > 0 && this._currentFormula[0] === ",") {
+                this._currentFormula.shift();
+                if (condition || conditionFailed) {
+                    this.skipBranch();
+                } else {
+                    result = this.comparison();
+                }
+            }
+        } else if (functionName === "IFERROR") {
+            result = this.comparison();
+            if (this._syntaxError || !this.separator(",")) {
+                return 0;
+            }
+            if (this._errorOccurred) {
+                this._errorOccurred = false;
+                this._errorMessage = "";
+                result = this.comparison();
+            } else {
+                this.skipBranch();
+            }
+        } else if (functionName === "NOT") {
+            result = !this.toBoolean(this.comparison());
+        } else {
+            // AND and OR take any number of arguments, a range contributes its numbers and booleans
+            let values: boolean[] = [];
+            while (!this._syntaxError) {
+                let argument = this._currentFormula[0];
+                if (argument !== undefined && this.isRangeReference(argument)) {
+                    this._currentFormula.shift();
+                    // text in a range is skipped
+                    for (let value of this.getRangeValues(argument)) {
+                        if (typeof value !== "string") {
+                            values.push(this.toBoolean(value));
+                        }
+                    }
+                } else {
+                    values.push(this.toBoolean(this.comparison()));
+                }
+
+                if (this._currentFormula.length === 0 || this._currentFormula[0] !== ",") {
+                    break;
+                }
+                this._currentFormula.shift();
+            }
+            result = functionName === "AND" ? values.every((value) => value) : values.some((value) => value);
+        }
+
+        if (this._syntaxError || !this.separator(")") || this._errorOccurred) {
+            return 0;
+        }
+        this._lastResult = result;
+        return result;
+    }
+
+    /**
+     * parse a branch that is not taken (IF, IFERROR)
+     * 
+     * the tokens are consumed so that the parser can continue, a syntax error is reported
+     * but an error in the value of the branch is discarded
+     * 
+     * @returns FALSE, the value of a branch that is not taken is never used
+     */
+    private skipBranch(): CellValue {
+        let errorOccurred = this._errorOccurred;
+        let errorMessage = this._errorMessage;
+        let lastResult = this._lastResult;
+
+        this.comparison();
+
+        if (!this._syntaxError) {
+            this._errorOccurred = errorOccurred;
+            this._errorMessage = errorMessage;
+            this._lastResult = lastResult;
+        }
+        return false;
+    }
+
+    /**
+     * consume the opening parenthesis of a function call
+     * @returns true if the next token is "("
+     */
+    private openParenthesis(): boolean {
+        return this.separator("(");
+    }
+
+    /**
+     * consume a separator in a function call, "(" "," or ")"
+     * @returns true if the next token is the separator, otherwise a syntax error is set
+     * 
+     * a syntax error replaces an error in a value
+     */
+    private separator(expected: TokenType): boolean {
+        if (this._currentFormula.length > 0 && this._currentFormula[0] === expected) {
+            this._currentFormula.shift();
+            return true;
+        }
+        this._errorOccurred = true;
+        this._errorMessage = ErrorMessages.missingParentheses;
+        this._syntaxError = true;
+        return false;
+    }
+
     /**
      * 
      * @param token 
      * @returns The value of the postfix operation
      */
-    private postfix(currentValue: number): number {
+    private postfix(currentValue: CellValue): CellValue {
         let result = currentValue;
 
         if (this._currentFormula.length === 0) {
@@ -194,7 +553,7 @@ class FormulaEvaluator {
 
         if (this._postfixOperators.includes(tokenPeek)) {
             let token = this._currentFormula.shift();
-            result = this.postfixOperation(token, result);
+            result = this.postfixOperation(token, this.toNumber(result));
 
 
         }
@@ -244,6 +603,60 @@ class FormulaEvaluator {
         return result;
     }
 
+    /**
+     * 
+     * @param value 
+     * @returns the value as a number for the arithmetic operators
+     * 
+     * TRUE is 1 and FALSE is 0, text sets the #VALUE! error (unless an error has already occurred)
+     */
+    private toNumber(value: CellValue): number {
+        if (typeof value === "number") {
+            return value;
+        }
+        if (typeof value === "boolean") {
+            return value ? 1 : 0;
+        }
+        if (!this._errorOccurred) {
+            this._errorOccurred = true;
+            this._errorMessage = ErrorMessages.invalidValue;
+            this._lastResult = 0;
+        }
+        return 0;
+    }
+
+    /**
+     * 
+     * @param value 
+     * @returns the value as a boolean for the logical functions
+     * 
+     * a number is TRUE when it is not zero, text sets the #VALUE! error
+     */
+    private toBoolean(value: CellValue): boolean {
+        if (typeof value === "string") {
+            return this.toNumber(value) !== 0;
+        }
+        return typeof value === "boolean" ? value : value !== 0;
+    }
+
+    /**
+     * 
+     * @param left
+     * @param right
+     * @returns a negative number, zero or a positive number when left is less than, equal to or greater than right
+     */
+    private compareValues(left: CellValue, right: CellValue): number {
+        const kindOrder = ["number", "string", "boolean"];
+        let kindDifference = kindOrder.indexOf(typeof left) - kindOrder.indexOf(typeof right);
+        if (kindDifference !== 0) {
+            return kindDifference;
+        }
+        if (typeof left === "string" && typeof right === "string") {
+            return left.toLowerCase().localeCompare(right.toLowerCase());
+        }
+        return Number(left) - Number(right);
+    }
+
     /**
    * 
    * @param token 
@@ -256,12 +669,68 @@ class FormulaEvaluator {
     /**
      * 
      * @param token
-     * @returns true if the token is a cell reference
+     * @returns true if the token is a string literal ("Revenue")
+     * 
+     */
+    isStringLiteral(token: TokenType): boolean {
+        return token.length >= 2 && token.startsWith('"') && token.endsWith('"');
+    }
+
+    /**
+     * 
+     * @param token
+     * @returns true if the token is a cell reference, the cell can be on another sheet (Summary!B2)
      * 
      */
     isCellReference(token: TokenType): boolean {
 
-        return Cell.isValidCellLabel(token);
+        return Cell.isValidReference(token);
+    }
+
+    /**
+     * 
+     * @param token
+     * @returns true if the token is a range reference (A1:B4 or Summary!A1:B4)
+     * 
+     */
+    isRangeReference(token: TokenType): boolean {
+
+        return Cell.isValidRangeReference(token);
+    }
+
+    /**
+     * 
+     * @param token the range
+     * @returns the values of the non empty cells in the range
+     * 
+     * empty cells are skipped, if a cell in the range has an error then the error is reported
+     * a range that is not in the workbook is #REF!
+     */
+    getRangeValues(token: TokenType): CellValue[] {
+        let values: CellValue[] = [];
+        const [sheetName, range] = Cell.splitSheetReference(token);
+        for (let cellLabel of Cell.expandRange(range)) {
+            if (sheetName !== "") {
+                cellLabel = Cell.qualifyLabel(sheetName, cellLabel);
+            }
+            if (!this._sheetMemory.hasCell(cellLabel)) {
+                this._errorOccurred = true;
+                this._errorMessage = ErrorMessages.invalidCell;
+                return [];
+            }
+            let cell = this._sheetMemory.getCellByLabel(cellLabel);
+            if (cell.getFormula().length === 0) {
+                continue;
+            }
+            let [value, error] = this.getCellValue(cellLabel);
+            if (error !== "") {
+                this._errorOccurred = true;
+                this._errorMessage = error;
+                return [];
+            }
+            values.push(value);
+        }
+        return values;
     }
 
     /**
@@ -269,10 +738,15 @@ class FormulaEvaluator {
      * @param token
      * @returns [value, ""] if the cell formula is not empty and has no error
      * @returns [0, error] if the cell has an error
-     * @returns [0, ErrorMessages.invalidCell] if the cell formula is empty
+     * @returns [0, ErrorMessages.invalidCell] if the cell formula is empty or the cell is not in the workbook
      * 
      */
-    getCellValue(token: TokenType): [number, string] {
+    getCellValue(token: TokenType): [CellValue, string] {
+
+        // the sheet may have been deleted or the cell may be outside of it
+        if (!this._sheetMemory.hasCell(token)) {
+            return [0, ErrorMessages.invalidCell];
+        }
 
         let cell = this._sheetMemory.getCellByLabel(token);
         let formula = cell.getFormula();
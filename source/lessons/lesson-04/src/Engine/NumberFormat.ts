@@ -0,0 +1,87 @@
+/**
+ * NumberFormat turns the number of a cell into the text that is shown for it.
+ *
+ * The value of the cell keeps its full precision, a format only changes how it is shown.
+ * A cell without a format is shown in the general format, with at most 15 significant digits
+ * so that 0.1 + 0.2 shows 0.3.
+ *
+ * general      1234.5
+ * fixed        1234.50 or 1,234.50, 2 decimals by default
+ * percent      12.5%, the number times 100, no decimals by default
+ * currency     $1,234.50, the thousands are grouped and there are 2 decimals by default
+ * scientific   1.23E+3, 2 decimals by default
+ *
+ * It provides the following calls.
+ *
+ * format(value: number, spec: NumberFormatSpec | undefined): string
+ * check(spec: any): string
+ */
+import { NumberFormatSpec } from "./GlobalDefinitions";
+
+export class NumberFormat {
+    public static readonly kinds = ['general', 'fixed', 'percent', 'currency', 'scientific'];
+    public static readonly maximumDecimals = 10;
+    public static readonly defaultCurrencySymbol = '$';
+
+    /**
+     * @param value the number to show
+     * @param spec the format, undefined for the general format
+     * @returns the text for the number
+     */
+    public static format(value: number, spec: NumberFormatSpec | undefined): string {
+        if (!Number.isFinite(value)) {
+            return value.toString();
+        }
+        switch (spec?.kind) {
+            case 'fixed':
+                return NumberFormat._group(value, spec.decimals ?? 2, spec.thousands ?? false);
+            case 'percent':
+                return NumberFormat._group(value * 100, spec.decimals ?? 0, spec.thousands ?? false) + '%';
+            case 'currency':
+                // the sign goes in front of the symbol, -$5.00
+                const amount = NumberFormat._group(Math.abs(value), spec.decimals ?? 2, spec.thousands ?? true);
+                const sign = value < 0 && Number(amount.replace(/,/g, '')) !== 0 ? '-' : '';
+                return sign + (spec.symbol ?? NumberFormat.defaultCurrencySymbol) + amount;
+            case 'scientific':
+                return value.toExponential(spec.decimals ?? 2).toUpperCase();
+            default:
+                return Number(value.toPrecision(15)).toString();
+        }
+    }
+
+    /**
+     * @param spec a format that was sent by a client
+     * @returns the reason the format is not valid, empty if it is valid
+     */
+    public static check(spec: any): string {
+        if (typeof spec !== 'object' || spec === null || !NumberFormat.kinds.includes(spec.kind)) {
+            return `Invalid number format, use ${NumberFormat.kinds.join(', ')}`;
+        }
+        if (spec.decimals !== undefined
+            && (!Number.isInteger(spec.decimals) || spec.decimals < 0 || spec.decimals > NumberFormat.maximumDecimals)) {
+            return `The decimals must be a whole number from 0 to ${NumberFormat.maximumDecimals}`;
+        }
+        if (spec.thousands !== undefined && typeof spec.thousands !== 'boolean') {
+            return 'The thousands separator must be on or off';
+        }
+        if (spec.symbol !== undefined && (typeof spec.symbol !== 'string' || spec.symbol.length < 1 || spec.symbol.length > 3)) {
+            return 'The currency symbol must have 1 to 3 characters';
+        }
+        return '';
+    }
+
+    // the number with a fixed number of decimals and the thousands separated by commas if asked
+    private static _group(value: number, decimals: number, thousands: boolean): string {
+        // a number that rounds to zero is shown without a sign
+        if (Math.abs(value) < 0.5 * Math.pow(10, -decimals)) {
+            value = 0;
+        }
+        return value.toLocaleString('en-US', {
+            minimumFractionDigits: decimals,
+            maximumFractionDigits: decimals,
+            useGrouping: thousands,
+        });
+    }
+}
+
+export default NumberFormat;
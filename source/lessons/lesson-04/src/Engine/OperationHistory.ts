@@ -0,0 +1,138 @@
+/**
+ * The operation history of a document.
+ *
+ * Every change to a formula is recorded as an operation for the user who made it.
+ * Each user has their own undo and redo stacks, so undoing only ever reaches back
+ * to the changes that user made.
+ *
+ * It provides the following calls.
+ *
+ * recordOperation(user: string, operation: CellOperation): void
+ * getUndoOperation(user: string): CellOperation | undefined
+ * getRedoOperation(user: string): CellOperation | undefined
+ * undo(user: string): CellOperation | undefined
+ * redo(user: string): CellOperation | undefined
+ * discardUndo(user: string): void
+ * discardRedo(user: string): void
+ * updateOperations(update: (operation: CellOperation) => CellOperation | undefined): void
+ * clear(): void
+ */
+
+/**
+ * a change to the formula of one cell
+ */
+export interface CellOperation {
+    cellLabel: string;
+    formulaBefore: FormulaType;
+    formulaAfter: FormulaType;
+}
+
+export class OperationHistory {
+    // the operations that each user can undo, the most recent is last
+    private _undoStacks: Map<string, CellOperation[]> = new Map<string, CellOperation[]>();
+
+    // the operations that each user has undone and can redo, the most recent is last
+    private _redoStacks: Map<string, CellOperation[]> = new Map<string, CellOperation[]>();
+
+    /**
+     * record an operation made by a user
+     *
+     * @param user the user who made the change
+     * @param operation the change to the cell
+     *
+     * a new change makes the operations the user had undone unreachable, so they are dropped
+     */
+    public recordOperation(user: string, operation: CellOperation): void {
+        this._getStack(this._undoStacks, user).push(operation);
+        this._redoStacks.set(user, []);
+    }
+
+    /**
+     * @returns the operation that the next undo of the user would revert
+     */
+    public getUndoOperation(user: string): CellOperation | undefined {
+        const stack = this._getStack(this._undoStacks, user);
+        return stack[stack.length - 1];
+    }
+
+    /**
+     * @returns the operation that the next redo of the user would apply again
+     */
+    public getRedoOperation(user: string): CellOperation | undefined {
+        const stack = this._getStack(this._redoStacks, user);
+        return stack[stack.length - 1];
+    }
+
+    /**
+     * move the last operation of the user from the undo stack to the redo stack
+     *
+     * @returns the operation to revert
+     */
+    public undo(user: string): CellOperation | undefined {
+        const operation = this._getStack(this._undoStacks, user).pop();
+        if (operation) {
+            this._getStack(this._redoStacks, user).push(operation);
+        }
+        return operation;
+    }
+
+    /**
+     * move the last undone operation of the user back to the undo stack
+     *
+     * @returns the operation to apply again
+     */
+    public redo(user: string): CellOperation | undefined {
+        const operation = this._getStack(this._redoStacks, user).pop();
+        if (operation) {
+            this._getStack(this._undoStacks, user).push(operation);
+        }
+        return operation;
+    }
+
+    /**
+     * drop the last operation from the undo stack of the user
+     */
+    public discardUndo(user: string): void {
+        this._getStack(this._undoStacks, user).pop();
+    }
+
+    /**
+     * drop the last operation from the redo stack of the user
+     */
+    public discardRedo(user: string): void {
+        this._getStack(this._redoStacks, user).pop();
+    }
+
+    /**
+     * rewrite the operations of all the users after their cells moved
+     *
+     * @param update gives the operation with the new label of its cell and its formulas rewritten,
+     * undefined if the cell was deleted and the operation goes with it
+     */
+    public updateOperations(update: (operation: CellOperation) => CellOperation | undefined): void {
+        for (const stacks of [this._undoStacks, this._redoStacks]) {
+            stacks.forEach((stack, user) => {
+                stacks.set(user, stack
+                    .map((operation) => update(operation))
+                    .filter((operation): operation is CellOperation => operation !== undefined));
+            });
+        }
+    }
+
+    /**
+     * forget the operations of all the users
+     */
+    public clear(): void {
+        this._undoStacks.clear();
+        this._redoStacks.clear();
+    }
+
+    private _getStack(stacks: Map<string, CellOperation[]>, user: string): CellOperation[] {
+        if (!stacks.has(user)) {
+            stacks.set(user, []);
+        }
+        return stacks.get(user)!;
+    }
+}
+
+export default OperationHistory;
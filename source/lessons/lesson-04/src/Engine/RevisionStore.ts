@@ -0,0 +1,219 @@
+/**
+ * RevisionStore keeps the numbered revisions of the documents in the DocumentStorage.
+ *
+ * A revision holds the sheet, the time it was saved and the users who made it.
+ * Only the newest revisions are kept, the older ones are deleted as new ones are added.
+ *
+ * The revisions of a document are read from the storage the first time they are needed.
+ * Then the store remembers who made each revision and when, and the sheet of the newest one,
+ * so a save does not read anything.  A revision is written in the background after it is saved
+ * and kept in memory until the write is done.  A revision that cannot be read is quarantined
+ * and left out.
+ *
+ * It provides the following calls.
+ *
+ * saveRevision(name: string, user: string, sheetJSON: string): number
+ * getRevisions(name: string): RevisionTransport[]
+ * getRevision(name: string, revision: number): RevisionTransport | undefined
+ * diffRevisions(name: string, from: number, to: number): CellDiffTransport[] | undefined
+ * deleteRevisions(name: string): void
+ * flush(): Promise<void>
+ */
+import { RevisionTransport, CellDiffTransport, CellContents } from './GlobalDefinitions';
+import { DocumentStorage } from './DocumentStorage';
+import { Workbook } from './Workbook';
+import { Cell } from './Cell';
+
+// what the store remembers of the revisions of a document
+interface RevisionIndex {
+    // the revisions without their sheets, oldest first
+    revisions: RevisionTransport[];
+    // the JSON of the sheet of the newest revision
+    latestSheetJSON: string;
+}
+
+export class RevisionStore {
+    private _storage: DocumentStorage;
+
+    // the number of revisions that are kept for each document
+    private _maxRevisions: number;
+
+    private _indexes: Map<string, RevisionIndex> = new Map<string, RevisionIndex>();
+
+    // the JSON of the revisions that are saved but not written yet, by document and revision
+    private _unwritten: Map<string, Map<number, string>> = new Map<string, Map<number, string>>();
+
+    // the writes and deletes of each document that are under way, they are done in order
+    private _writes: Map<string, Promise<void>> = new Map<string, Promise<void>>();
+
+    constructor(storage: DocumentStorage, maxRevisions: number = 100) {
+        this._storage = storage;
+        this._maxRevisions = maxRevisions;
+    }
+
+    /**
+     * save a new revision of a document
+     *
+     * @param name the name of the document
+     * @param user the users who made the changes, separated by commas
+     * @param sheetJSON the sheet as it is after the change
+     * @returns the number of the revision, if the sheet did not change no revision is added
+     * and the number of the latest revision is returned
+     */
+    public saveRevision(name: string, user: string, sheetJSON: string): number {
+        const index = this._getIndex(name);
+        const latest = index.revisions.length > 0 ? index.revisions[index.revisions.length - 1].revision : 0;
+
+        if (latest > 0 && index.latestSheetJSON === sheetJSON) {
+            return latest;
+        }
+
+        const revision: RevisionTransport = {
+            revision: latest + 1,
+            timestamp: new Date().toISOString(),
+            user: user,
+        };
+        const revisionJSON = JSON.stringify({ ...revision, sheet: JSON.parse(sheetJSON) });
+        index.revisions.push(revision);
+        index.latestSheetJSON = sheetJSON;
+        if (!this._unwritten.has(name)) {
+            this._unwritten.set(name, new Map<number, string>());
+        }
+        this._unwritten.get(name)!.set(revision.revision, revisionJSON);
+        this._queue(name, async () => {
+            await this._storage.writeRevision(name, revision.revision, revisionJSON);
+            this._unwritten.get(name)?.delete(revision.revision);
+        });
+
+        // apply the retention policy
+        while (index.revisions.length > this._maxRevisions) {
+            const oldest = index.revisions.shift()!.revision;
+            this._unwritten.get(name)?.delete(oldest);
+            this._queue(name, () => this._storage.deleteRevision(name, oldest));
+        }
+        return revision.revision;
+    }
+
+    /**
+     * list the revisions of a document, oldest first
+     *
+     * the sheets are left out, use getRevision to get one
+     */
+    public getRevisions(name: string): RevisionTransport[] {
+        return this._getIndex(name).revisions.map((revision) => ({ ...revision }));
+    }
+
+    /**
+     * @returns the revision of the document or undefined if it is not kept
+     */
+    public getRevision(name: string, revision: number): RevisionTransport | undefined {
+        if (!this._getIndex(name).revisions.some((kept) => kept.revision === revision)) {
+            return undefined;
+        }
+        const revisionJSON = this._unwritten.get(name)?.get(revision);
+        try {
+            return JSON.parse(revisionJSON ?? this._storage.readRevision(name, revision));
+        } catch (error) {
+            console.error(`Revision ${revision} of ${name} could not be read: ${(error as Error).message}`);
+            return undefined;
+        }
+    }
+
+    /**
+     * compare two revisions of a document cell by cell
+     *
+     * @returns the cells that differ with the names of their sheets (Sheet1!A1),
+     * or undefined if one of the revisions is not kept
+     *
+     * a revision saved before the workbooks is compared as a workbook with a single sheet
+     */
+    public diffRevisions(name: string, from: number, to: number): CellDiffTransport[] | undefined {
+        const fromRevision = this.getRevision(name, from);
+        const toRevision = this.getRevision(name, to);
+        if (!fromRevision || !toRevision) {
+            return undefined;
+        }
+
+        const fromCells = this._getCells(fromRevision);
+        const toCells = this._getCells(toRevision);
+        const labels = new Set<string>([...Object.keys(fromCells), ...Object.keys(toCells)]);
+
+        const differences: CellDiffTransport[] = [];
+        labels.forEach((label) => {
+            const before = fromCells[label];
+            const after = toCells[label];
+            if (JSON.stringify(before) !== JSON.stringify(after)) {
+                differences.push({ cell: label, from: before, to: after });
+            }
+        });
+        return differences;
+    }
+
+        /**
+     * delete all the revisions of a document
+     */
+    public deleteRevisions(name: string): void {
+        this._indexes.delete(name);
+        this._unwritten.delete(name);
+        this._storage.deleteRevisions(name);
+    }
+
+    /**
+     * @returns a promise that settles once the revisions that were saved are written
+     */
+    public async flush(): Promise<void> {
+        await Promise.all(Array.from(this._writes.values()));
+    }
+
+    // the cells of all the sheets of a revision, by their label with the name of the sheet
+    private _getCells(revision: RevisionTransport): { [label: string]: CellContents } {
+        const cells: { [label: string]: CellContents } = {};
+        for (const sheet of Workbook.upgradeContainer(revision.sheet).sheets) {
+            for (const label of Object.keys(sheet.cells)) {
+                cells[Cell.qualifyLabel(sheet.name, label)] = sheet.cells[label];
+            }
+        }
+        return cells;
+    }
+
+    // read who made the revisions of a document and when, the first time they are needed
+    private _getIndex(name: string): RevisionIndex {
+        let index = this._indexes.get(name);
+        if (index) {
+            return index;
+        }
+        index = { revisions: [], latestSheetJSON: '' };
+        for (const revisionNumber of this._storage.listRevisions(name)) {
+            try {
+                const revision = JSON.parse(this._storage.readRevision(name, revisionNumber));
+                if (revision === null || revision.revision !== revisionNumber || typeof revision.timestamp !== 'string'
+                    || typeof revision.user !== 'string' || typeof revision.sheet !== 'object' || revision.sheet === null) {
+                    throw new Error('it is not a revision');
+                }
+                index.revisions.push({ revision: revision.revision, timestamp: revision.timestamp, user: revision.user });
+                index.latestSheetJSON = JSON.stringify(revision.sheet);
+            } catch (error) {
+                // a revision that was cut short is moved out of the way, the others are still kept
+                console.error(`Revision ${revisionNumber} of ${name} could not be read and was quarantined: ${(error as Error).message}`);
+                this._storage.quarantineRevision(name, revisionNumber);
+            }
+        }
+        this._indexes.set(name, index);
+        return index;
+    }
+
+    // run a write of the document after the ones that are under way
+    private _queue(name: string, write: () => Promise<void>): void {
+        const queued = (this._writes.get(name) ?? Promise.resolve())
+            .then(write)
+            .catch((error) => console.error(`A revision of ${name} could not be saved: ${(error as Error).message}`))
+            .finally(() => {
+                if (this._writes.get(name) === queued) {
+                    this._writes.delete(name);
+                }
+            });
+        this._writes.set(name, queued);
+    }
+}
+
+export default RevisionStore;
@@ -20,14 +20,24 @@
  * 
  * This class provides a way to evaluate the formula for the current cell. It uses Recalc.ts to evaluate the formula.
  * 
+ * A sheet can belong to a workbook, a label with a sheet name (Summary!B2) is then
+ * looked up in the workbook so that the formulas can refer to the other sheets.
+ * 
  * 
  * 
  * 
  */
 
 import Cell from "./Cell";
+import FormulaBuilder from "./FormulaBuilder";
+import Workbook from "./Workbook";
+import { CellValue } from "./GlobalDefinitions";
 
 export class SheetMemory {
+    // every cell of a sheet is kept in memory so a sheet cannot be larger than this
+    public static readonly maximumColumns = 100;
+    public static readonly maximumRows = 1000;
+
     private _cells: Cell[][];
     private _numRows: number;
     private _numColumns = 8;
@@ -35,6 +45,9 @@ export class SheetMemory {
     private _currentRow = 0;
     private _currentColumn = 0;
 
+    // the workbook the sheet belongs to, it resolves the references to the other sheets
+    private _workbook: Workbook | undefined = undefined;
+
 
     constructor(columns: number, rows: number) {
 
@@ -52,6 +65,19 @@ export class SheetMemory {
         }
     }
 
+    /**
+     * @returns the reason a sheet cannot have the size, empty if it can
+     */
+    public static checkSize(columns: number, rows: number): string {
+        if (!Number.isInteger(columns) || columns < 1 || columns > SheetMemory.maximumColumns) {
+            return `The columns must be a whole number from 1 to ${SheetMemory.maximumColumns}`;
+        }
+        if (!Number.isInteger(rows) || rows < 1 || rows > SheetMemory.maximumRows) {
+            return `The rows must be a whole number from 1 to ${SheetMemory.maximumRows}`;
+        }
+        return '';
+    }
+
     /**
      * getter for max rows
      * 
@@ -73,6 +99,170 @@ export class SheetMemory {
     }
 
 
+    /**
+     * insert empty rows
+     * 
+     * @param index the row the new rows are inserted at, the rows from there on move down
+     * @param count the number of rows to insert
+     * 
+     * the formulas are not changed here, the controller rewrites the references
+     */
+    insertRows(index: number, count: number): void {
+        for (let column = 0; column < this._numColumns; column++) {
+            const newCells: Cell[] = [];
+            for (let i = 0; i < count; i++) {
+                newCells.push(new Cell());
+            }
+            this._cells[column].splice(index, 0, ...newCells);
+        }
+        this._numRows += count;
+        this._updateLabels();
+    }
+
+    /**
+     * delete rows
+     * 
+     * @param index the first row to delete
+     * @param count the number of rows to delete
+     */
+    deleteRows(index: number, count: number): void {
+        for (let column = 0; column < this._numColumns; column++) {
+            this._cells[column].splice(index, count);
+        }
+        this._numRows -= count;
+        this._updateLabels();
+    }
+
+    /**
+     * insert empty columns
+     * 
+     * @param index the column the new columns are inserted at, the columns from there on move right
+     * @param count the number of columns to insert
+     */
+    insertColumns(index: number, count: number): void {
+        const newColumns: Cell[][] = [];
+        for (let i = 0; i < count; i++) {
+            const newColumn: Cell[] = [];
+            for (let row = 0; row < this._numRows; row++) {
+                newColumn.push(new Cell());
+            }
+            newColumns.push(newColumn);
+        }
+        this._cells.splice(index, 0, ...newColumns);
+        this._numColumns += count;
+        this._updateLabels();
+    }
+
+    /**
+     * delete columns
+     * 
+     * @param index the first column to delete
+     * @param count the number of columns to delete
+     */
+    deleteColumns(index: number, count: number): void {
+        this._cells.splice(index, count);
+        this._numColumns -= count;
+        this._updateLabels();
+    }
+
+    /**
+     * put the rows of a block of cells in a new order, the cells keep their formulas, values and formats
+     * 
+     * @param firstColumn the first column of the block
+     * @param lastColumn the last column of the block
+     * @param order the rows of the block in their new order, the first one moves to the top of the block
+     * 
+     * the formulas are not changed here, the controller rewrites the references
+     */
+    reorderRows(firstColumn: number, lastColumn: number, order: number[]): void {
+        const firstRow = Math.min(...order);
+        for (let column = firstColumn; column <= lastColumn; column++) {
+            const movedCells = order.map((row) => this._cells[column][row]);
+            movedCells.forEach((cell, index) => {
+                this._cells[column][firstRow + index] = cell;
+            });
+        }
+        this._updateLabels();
+    }
+
+    // the cells that moved get the label of their new position
+    private _updateLabels(): void {
+        for (let column = 0; column < this._numColumns; column++) {
+            for (let row = 0; row < this._numRows; row++) {
+                this._cells[column][row].setLabel(Cell.columnRowToCell(column, row));
+            }
+        }
+    }
+
+    /**
+     * set the workbook that the sheet belongs to
+     * 
+     * @param workbook the workbook, undefined when the sheet is taken out of it
+     */
+    setWorkbook(workbook: Workbook | undefined): void {
+        this._workbook = workbook;
+    }
+
+    /**
+     * check that a label points at a cell
+     * 
+     * @param label a cell on this sheet (B2) or on a sheet of the workbook (Summary!B2)
+     * @returns true if the sheet exists and the cell is inside it
+     */
+    hasCell(label: string): boolean {
+        const [sheetName, cellLabel] = Cell.splitSheetReference(label);
+        if (sheetName !== "") {
+            return this._workbook !== undefined && this._workbook.hasCell(label);
+        }
+        if (!Cell.isValidCellLabel(cellLabel)) {
+            return false;
+        }
+        const [column, row] = Cell.cellToColumnRow(cellLabel);
+        return column < this._numColumns && row < this._numRows;
+    }
+
+    /**
+     * @returns what a name of the workbook stands for (Sheet1!B1, 0.2), undefined if the
+     * sheet has no workbook or the workbook has no such name
+     */
+    getNameDefinition(name: string): string | undefined {
+        return this._workbook?.getNameDefinition(name);
+    }
+
+    /**
+     * @returns the labels of all the cells, column by column
+     */
+    getCellLabels(): string[] {
+        const labels: string[] = [];
+        for (let column = 0; column < this._numColumns; column++) {
+            for (let row = 0; row < this._numRows; row++) {
+                labels.push(Cell.columnRowToCell(column, row));
+            }
+        }
+        return labels;
+    }
+
+    /**
+     * get the cells that the formula of a cell refers to
+     * 
+     * @param label the cell
+     * @returns the labels of the cells on this sheet that the formula refers to
+     * 
+     * the references to other sheets and to cells outside the sheet are left out,
+     * the workbook follows the references between sheets
+     */
+    getCellReferences(label: string): string[] {
+        return FormulaBuilder.getCellReferences(this.getCellByLabel(label).getFormula())
+            .filter((reference) => !reference.includes("!") && this.hasCell(reference));
+    }
+
+    /**
+     * @returns the sheet that the formula of a cell is evaluated on, that is this sheet
+     */
+    getSheetForCell(label: string): SheetMemory {
+        return this;
+    }
+
     /**
      *  get coordinates of current cell
      * returns an array of [row, column]
@@ -131,12 +321,19 @@ export class SheetMemory {
      * the first characters are the column in base 26 
      * and the last characters are the row in base 10
      * 
+     * a label with a sheet name (Summary!B2) is a cell of another sheet of the workbook
      * 
      * @param label
      * 
      */
 
     getCellByLabel(label: string): Cell {
+        if (label.includes("!")) {
+            if (this._workbook === undefined) {
+                throw new Error("The sheet is not part of a workbook");
+            }
+            return this._workbook.getCellByLabel(label);
+        }
         const [column, row] = Cell.cellToColumnRow(label);
 
         return this._cells[column][row];
@@ -169,7 +366,7 @@ export class SheetMemory {
      * @param value
      *  
      * */
-    setCurrentCellValue(value: number): void {
+    setCurrentCellValue(value: CellValue): void {
         let workingCell: Cell = this._cells[this._currentColumn][this._currentRow];
         workingCell.setValue(value);
     }
@@ -199,6 +396,8 @@ export class SheetMemory {
     /** 
      * get a json representation of the sheet We only need to store
      * the formula, value, and error for each cell
+     * 
+     * the value is a number, a string or a boolean, JSON keeps the kind of the value
      * */
     public sheetContainer(): any {
         const sheetObject: any = {
@@ -209,21 +408,49 @@ export class SheetMemory {
 
         for (let column = 0; column < this._numColumns; column++) {
             for (let row = 0; row < this._numRows; row++) {
-                const cell = this._cells[column][row];
                 const label = Cell.columnRowToCell(column, row);
+                sheetObject.cells[label] = SheetMemory._cellContents(this._cells[column][row]);
+            }
+        }
+
+        return sheetObject;
+    }
 
-                const contents = {
-                    formula: cell.getFormula(),
-                    value: cell.getValue(),
-                    error: cell.getError()
-                }
-                sheetObject.cells[label] = contents;
+    /**
+     * the container of the sheet with only some of its cells, the labels outside the sheet are left out
+     * 
+     * @param labels the cells without the sheet (A1)
+     */
+    public cellsContainer(labels: string[]): any {
+        const sheetObject: any = {
+            columns: this._numColumns,
+            rows: this._numRows,
+            cells: {}
+        };
+
+        for (const label of labels) {
+            const [column, row] = Cell.cellToColumnRow(label);
+            if (column >= 0 && column < this._numColumns && row >= 0 && row < this._numRows) {
+                sheetObject.cells[label] = SheetMemory._cellContents(this._cells[column][row]);
             }
         }
 
         return sheetObject;
     }
 
+    private static _cellContents(cell: Cell): any {
+        const contents: any = {
+            formula: cell.getFormula(),
+            value: cell.getValue(),
+            error: cell.getError()
+        }
+        // only the cells with a format have one, a sheet without formats is saved as before
+        if (cell.getFormat() !== undefined) {
+            contents.format = cell.getFormat();
+        }
+        return contents;
+    }
+
     public sheetToJSON(): string {
         const sheetObject = this.sheetContainer();
         const sheetJSON = JSON.stringify(sheetObject);
@@ -248,6 +475,7 @@ export class SheetMemory {
                 cell.setFormula(formula);
                 cell.setValue(value);
                 cell.setError(error);
+                cell.setFormat(cellObject.format);
 
                 this.setCellByLabel(label, cell);
             }
@@ -276,6 +504,7 @@ export class SheetMemory {
                 cell.setFormula(formula);
                 cell.setValue(value);
                 cell.setError(error);
+                cell.setFormat(cellObject.format);
 
                 sheet.setCellByLabel(label, cell);
             }
@@ -0,0 +1,139 @@
+/**
+ * SortAndFilter works out the order of the rows of a sorted range and the rows a filter hides.
+ *
+ * A sort compares the rows by their keys, the first key first.  In ascending order the numbers
+ * come first, then the text in alphabetical order without regard to case, then FALSE and TRUE.
+ * The descending order is the reverse.  The errors and the empty cells come last in both orders,
+ * the empty cells after the errors.  The rows that are equal keep their order.
+ *
+ * A filter keeps the rows of its range whose cells pass every criterion.
+ *
+ * equalTo, notEqualTo      the cell is (not) the number, or the text without regard to case
+ * lessThan, greaterThan    the cell holds a number that is smaller or larger than the number
+ * contains                 what the cell shows contains the text, without regard to case
+ * notBlank                 the cell is not empty
+ *
+ * It provides the following calls.
+ *
+ * sortOrder(keyCells: Cell[][], descending: boolean[]): number[]
+ * compareCells(first: Cell, second: Cell, descending: boolean): number
+ * matches(cell: Cell, criterion: FilterCriterion): boolean
+ * checkCriterion(criterion: any): string
+ */
+import Cell from "./Cell";
+import { CellValue, FilterCriterion } from "./GlobalDefinitions";
+
+export class SortAndFilter {
+    public static readonly conditions = ['equalTo', 'notEqualTo', 'lessThan', 'greaterThan', 'contains', 'notBlank'];
+
+    // numbers, text and booleans are sorted in that order, the errors and then the empty cells come after them
+    private static readonly _errorRank = 3;
+
+    /**
+     * @param keyCells the cells each row is sorted by, row by row, in the order of the keys
+     * @param descending for each key, true to sort it from the largest to the smallest
+     * @returns the indexes of the rows in their sorted order
+     */
+    public static sortOrder(keyCells: Cell[][], descending: boolean[]): number[] {
+        const order = keyCells.map((cells, index) => index);
+        // the sort is stable so the rows that are equal keep their order
+        return order.sort((first, second) => {
+            for (let key = 0; key < descending.length; key++) {
+                const result = SortAndFilter.compareCells(keyCells[first][key], keyCells[second][key], descending[key]);
+                if (result !== 0) {
+                    return result;
+                }
+            }
+            return 0;
+        });
+    }
+
+    /**
+     * @returns a negative number when the first cell comes first, a positive number when the second does
+     * and 0 when they are equal
+     */
+    public static compareCells(first: Cell, second: Cell, descending: boolean): number {
+        const firstRank = SortAndFilter._rank(first);
+        const secondRank = SortAndFilter._rank(second);
+        // the errors and the empty cells are last whatever the order
+        if (firstRank >= SortAndFilter._errorRank || secondRank >= SortAndFilter._errorRank) {
+            return firstRank - secondRank;
+        }
+        let result = firstRank - secondRank;
+        if (result === 0) {
+            result = SortAndFilter._compareValues(first.getValue(), second.getValue());
+        }
+        return descending ? -result : result;
+    }
+
+    /**
+     * @returns true if the cell passes the criterion, the criterion must have been checked
+     */
+    public static matches(cell: Cell, criterion: FilterCriterion): boolean {
+        const isBlank = cell.getFormula().length === 0;
+        const value = cell.getValue();
+        const isNumber = !isBlank && cell.getError() === '' && typeof value === 'number';
+        const text = isBlank ? '' : cell.getDisplayString().toLowerCase();
+        const criterionText = (criterion.value ?? '').trim().toLowerCase();
+        const criterionNumber = criterionText === '' ? NaN : Number(criterionText);
+
+        switch (criterion.condition) {
+            case 'notBlank':
+                return !isBlank;
+            case 'lessThan':
+                return isNumber && (value as number) < criterionNumber;
+            case 'greaterThan':
+                return isNumber && (value as number) > criterionNumber;
+            case 'contains':
+                return text.includes(criterionText);
+            default:
+                // a number is compared as a number so that 1.50 is 1.5 whatever its format
+                const isEqual = isNumber && !Number.isNaN(criterionNumber)
+                    ? value === criterionNumber
+                    : (isBlank ? '' : Cell.valueToString(value).toLowerCase()) === criterionText;
+                return criterion.condition === 'equalTo' ? isEqual : !isEqual;
+        }
+    }
+
+    /**
+     * @param criterion a criterion that was sent by a client, its column is checked against the range elsewhere
+     * @returns the reason the criterion is not valid, empty if it is valid
+     */
+    public static checkCriterion(criterion: any): string {
+        if (typeof criterion !== 'object' || criterion === null || !SortAndFilter.conditions.includes(criterion.condition)) {
+            return `Invalid filter condition, use ${SortAndFilter.conditions.join(', ')}`;
+        }
+        if (criterion.condition === 'notBlank') {
+            return '';
+        }
+        if (typeof criterion.value !== 'string') {
+            return `The ${criterion.condition} filter needs a value`;
+        }
+        if ((criterion.condition === 'lessThan' || criterion.condition === 'greaterThan')
+            && (criterion.value.trim() === '' || !Number.isFinite(Number(criterion.value)))) {
+            return `The ${criterion.condition} filter needs a number`;
+        }
+        return '';
+    }
+
+    private static _rank(cell: Cell): number {
+        if (cell.getFormula().length === 0) {
+            return SortAndFilter._errorRank + 1;
+        }
+        if (cell.getError() !== '') {
+            return SortAndFilter._errorRank;
+        }
+        const value = cell.getValue();
+        return typeof value === 'number' ? 0 : (typeof value === 'string' ? 1 : 2);
+    }
+
+    // two values of the same type
+    private static _compareValues(first: CellValue, second: CellValue): number {
+        if (typeof first === 'string' && typeof second === 'string') {
+            return first.localeCompare(second, 'en', { sensitivity: 'base' });
+        }
+        return Number(first) - Number(second);
+    }
+}
+
+export default SortAndFilter;
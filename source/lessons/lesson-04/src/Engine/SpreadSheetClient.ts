@@ -6,9 +6,18 @@
  * It provides the following calls.
  * 
  * getDocument(name: string, user: string): Promise<Document>
+ * setDocumentChangedCallback(callback: () => void): void
+ * register(userName: string, password: string): Promise<boolean>
+ * login(userName: string, password: string): Promise<boolean>
+ * 
+ * Every request carries the session token the server gave at login, the server
+ * acts as the user the token was issued to.
+ * 
+ * The server pushes the document each time it changes on a channel of Server-Sent Events,
+ * the client fetches the document every .1 seconds only when the channel fails.
  */
 
-import { DocumentTransport, CellTransport, CellTransportMap, ErrorMessages, UserEditing } from '../Engine/GlobalDefinitions';
+import { DocumentTransport, CellTransport, CellTransportMap, ErrorMessages, UserEditing, NameTransport, PresenceTransport, CommentTransport, NumberFormatSpec, CellStyle, ConditionalRuleTransport, SortKey, FilterCriterion, FilterTransport } from '../Engine/GlobalDefinitions';
 import { Cell } from '../Engine/Cell';
 
 import { PortsGlobal, LOCAL_SERVER_URL, RENDER_SERVER_URL } from '../ServerDataDefinitions';
@@ -26,16 +35,33 @@ class SpreadSheetClient {
     private _serverPort: number = PortsGlobal.serverPort;
     private _baseURL: string = `${LOCAL_SERVER_URL}:${this._serverPort}`;
     private _userName: string = '';
+    // the session token from the server, empty until the user logs in
+    private _token: string = '';
     private _documentName: string = '';
     private _document: DocumentTransport;
     private _server: string = '';
     private _documentList: string[] = [];
     private _errorCallback: (error: string) => void = (error: string) => { };
+    private _documentChangedCallback: () => void = () => { };
+
+    // the channel the server pushes the document on, undefined when it is not open
+    private _eventSource: EventSource | undefined = undefined;
+    // true while the document is fetched every .1 seconds because there is no channel
+    private _polling: boolean = false;
+    // how long to wait before the channel is opened again after the browser gave up on it,
+    // the wait doubles each time up to the maximum and starts over once the channel is open
+    private static readonly _firstReconnectMilliseconds = 1000;
+    private static readonly _maximumReconnectMilliseconds = 30 * 1000;
+    private _reconnectMilliseconds: number = SpreadSheetClient._firstReconnectMilliseconds;
+    // the cell being edited is leased on the server and a user whose client stops fetching
+    // the document is away, the document is fetched well before either happens
+    private static readonly _heartbeatMilliseconds = 15 * 1000;
 
 
     constructor(documentName: string, userName: string, errorCallback: (error: string) => void) {
         this._userName = userName;
         this._documentName = documentName;
+        this._document = this._initializeBlankDocument();
 
         const isProduction = process.env.NODE_ENV === 'production';
         if (isProduction) {
@@ -46,13 +72,12 @@ class SpreadSheetClient {
             console.log(' Running development client')
         }
 
-        this._document = this._initializeBlankDocument();
-        this._timedFetch();
 
         this._errorCallback = errorCallback;
 
         console.log(`process.env = ${JSON.stringify(process.env)}`);
         this.getDocuments(this._userName);
+        this._heartbeat();
 
     }
 
@@ -60,13 +85,26 @@ class SpreadSheetClient {
         const document: DocumentTransport = {
             columns: 5,
             rows: 8,
+            sheets: ['Sheet1'],
+            sheet: 'Sheet1',
+            currentSheet: 'Sheet1',
+            names: [],
             formula: 'holding',
             result: 'holding',
             currentCell: 'A1',
             isEditing: false,
             cells: new Map<string, CellTransport>(),
             contributingUsers: [],
-            errorOccurred: ''
+            errorOccurred: '',
+            // no revision, the first fetch gets the whole document
+            revision: 0,
+            isDelta: false,
+            removedUsers: [],
+            role: 'editor',
+            presence: [],
+            comments: [],
+            conditionalRules: [],
+            hiddenRows: []
         };
         for (let row = 0; row < document.rows; row++) {
             for (let column = 0; column < document.columns; column++) {
@@ -89,6 +127,8 @@ class SpreadSheetClient {
      * Every .1 seconds, fetch the document from the server
      * call this.getDocument(name, user) to get the document
      * and this.getDocuments(user) to get the list of documents
+     * 
+     * it stops when the channel to the server is open again
      */
 
     private async _timedFetch(): Promise<Response> {
@@ -98,6 +138,9 @@ class SpreadSheetClient {
         let documentFetchCount = 0;
         return new Promise((resolve, reject) => {
             setTimeout(() => {
+                if (!this._polling) {
+                    return;
+                }
                 this.getDocument(this._documentName, this._userName);
                 documentFetchCount++;
                 if (documentFetchCount > documentListInterval) {
@@ -109,12 +152,95 @@ class SpreadSheetClient {
         });
     }
 
+    /**
+     * Every 15 seconds, while the document comes on the channel, fetch the document,
+     * the fetch tells the server the client is open.  It renews the lease of the cell
+     * being edited and the other users do not see the user as away.
+     * 
+     * when the document is polled every fetch does this
+     */
+    private _heartbeat(): void {
+        setTimeout(() => {
+            if (this._eventSource) {
+                this.getDocument(this._documentName, this._userName);
+            }
+            this._heartbeat();
+        }, SpreadSheetClient._heartbeatMilliseconds);
+    }
+
     public get userName(): string {
         return this._userName;
     }
 
     public set userName(userName: string) {
+        if (userName === this._userName) {
+            return;
+        }
         this._userName = userName;
+        this._document = this._initializeBlankDocument();
+        this._subscribe();
+    }
+
+    public get token(): string {
+        return this._token;
+    }
+
+    public set token(token: string) {
+        if (token === this._token) {
+            return;
+        }
+        this._token = token;
+        this.getDocuments(this._userName);
+        this._subscribe();
+    }
+
+    /**
+     * make an account and log in with it
+     * 
+     * @returns true if the account was made, otherwise the error is reported
+     */
+    public register(userName: string, password: string): Promise<boolean> {
+        return this._requestSession('register', userName, password);
+    }
+
+    /**
+     * log in and keep the session token for the next requests
+     * 
+     * @returns true if the user name and the password are correct, otherwise the error is reported
+     */
+    public login(userName: string, password: string): Promise<boolean> {
+        return this._requestSession('login', userName, password);
+    }
+
+    private _requestSession(action: string, userName: string, password: string): Promise<boolean> {
+        const requestSessionURL = `${this._baseURL}/accounts/${action}`;
+        return fetch(requestSessionURL, {
+            method: 'POST',
+            headers: this._headers(),
+            body: JSON.stringify({ "userName": userName, "password": password })
+        })
+            .then(response => {
+                if (!response.ok) {
+                    return response.text().then((error: string) => {
+                        this._errorCallback(error);
+                        return false;
+                    });
+                }
+                return (response.json() as Promise<{ userName: string, token: string }>).then((session) => {
+                    this.userName = session.userName;
+                    this.token = session.token;
+                    return true;
+                });
+            });
+    }
+
+    // the headers of every request, with the session token if there is one
+    private _headers(): HeadersInit {
+        const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+        if (this._token !== '') {
+            headers['Authorization'] = `Bearer ${this._token}`;
+        }
+        return headers;
     }
 
     public get documentName(): string {
@@ -122,7 +248,93 @@ class SpreadSheetClient {
     }
 
     public set documentName(documentName: string) {
+        if (documentName === this._documentName) {
+            return;
+        }
         this._documentName = documentName;
+        this._document = this._initializeBlankDocument();
+        this._subscribe();
+    }
+
+    /**
+     * @param callback called each time a new version of the document arrives from the server
+     */
+    public setDocumentChangedCallback(callback: () => void): void {
+        this._documentChangedCallback = callback;
+    }
+
+    /**
+     * open the channel that the server pushes the document on
+     * 
+     * the document is fetched first, that creates it on the server and adds the user to it.
+     * If the browser has no EventSource the document is fetched every .1 seconds.
+     * When the channel fails the document is fetched every .1 seconds until it is open again,
+     * the browser connects again by itself and if it gives up the channel is opened again
+     * after a wait that grows each time
+     */
+    private _subscribe(): void {
+        if (this._eventSource) {
+            this._eventSource.close();
+            this._eventSource = undefined;
+        }
+        if (this._documentName === 'documents' || this._documentName === '' || this._userName === '' || this._token === '') {
+            return;
+        }
+        if (typeof EventSource === 'undefined') {
+            this._startPolling();
+            return;
+        }
+
+        const documentName = this._documentName;
+        const userName = this._userName;
+        this.getDocument(documentName, userName).then(() => {
+            // the user or the document changed while the document was fetched
+            if (documentName !== this._documentName || userName !== this._userName || this._eventSource) {
+                return;
+            }
+            // an EventSource cannot send headers so the token goes in the query
+            const eventsURL = `${this._baseURL}/document/events/${documentName}?token=${encodeURIComponent(this._token)}`;
+            const eventSource = new EventSource(eventsURL);
+            eventSource.addEventListener('open', () => {
+                this._polling = false;
+                this._reconnectMilliseconds = SpreadSheetClient._firstReconnectMilliseconds;
+            });
+            eventSource.addEventListener('document', (event: MessageEvent) => {
+                this._updateDocument(JSON.parse(event.data) as DocumentTransport);
+            });
+            eventSource.addEventListener('error', () => {
+                if (this._eventSource !== eventSource) {
+                    eventSource.close();
+                    return;
+                }
+                this._startPolling();
+                // the browser is connecting again, the open event stops the polling
+                if (eventSource.readyState !== EventSource.CLOSED) {
+                    return;
+                }
+                this._eventSource = undefined;
+                const wait = this._reconnectMilliseconds;
+                this._reconnectMilliseconds = Math.min(wait * 2, SpreadSheetClient._maximumReconnectMilliseconds);
+                setTimeout(() => {
+                    // the user or the document changed in the meantime and has its own channel
+                    if (this._eventSource || documentName !== this._documentName || userName !== this._userName) {
+                        return;
+                    }
+                    this._subscribe();
+                }, wait);
+            });
+            this._eventSource = eventSource;
+        }).catch(() => {
+            this._startPolling();
+        });
+    }
+
+    private _startPolling(): void {
+        if (this._polling) {
+            return;
+        }
+        this._polling = true;
+        this._timedFetch();
     }
 
     public getFormulaString(): string {
@@ -150,7 +362,7 @@ class SpreadSheetClient {
 
     private _getCellValue(cellTransport: CellTransport): string {
         if (cellTransport.error === '') {
-            return cellTransport.value.toString();
+            return Cell.formatValue(cellTransport.value, cellTransport.format);
         } else if (cellTransport.error === ErrorMessages.emptyFormula) {
             return '';
         } else {
@@ -195,14 +407,37 @@ class SpreadSheetClient {
         return sheetDisplayStrings;
     }
 
+    /**
+     * @returns the styles the conditional format rules give the cells of the sheet that is shown,
+     * row by row, undefined for a cell that no rule matches
+     */
+    public getSheetStylesForGUI(): (CellStyle | undefined)[][] {
+        const styles: (CellStyle | undefined)[][] = [];
+        for (let row = 0; row < this._document.rows; row++) {
+            styles[row] = [];
+            for (let column = 0; column < this._document.columns; column++) {
+                styles[row][column] = this._document.cells.get(Cell.columnRowToCell(column, row))?.style;
+            }
+        }
+        return styles;
+    }
+
     public getEditStatusString(): string {
         if (!this._document) {
             return 'no document';
         }
+        // the sheet is named once the document has more than one
+        let cell = this._document.currentCell;
+        if (this._document.sheets.length > 1) {
+            cell = `${this._document.currentSheet}!${cell}`;
+        }
         if (this._document.isEditing) {
-            return `editing: ${this._document.currentCell}`;
+            return `editing: ${cell}`;
         }
-        return `viewing: ${this._document.currentCell}`;
+        if (!this.canEdit()) {
+            return `viewing (read only): ${cell}`;
+        }
+        return `viewing: ${cell}`;
     }
 
     public getWorkingCellLabel(): string {
@@ -212,6 +447,108 @@ class SpreadSheetClient {
         return this._document.currentCell;
     }
 
+    /**
+     * @returns the names of the sheets of the document in the order of the tabs
+     */
+    public getSheetTabs(): string[] {
+        return this._document.sheets;
+    }
+
+    /**
+     * @returns the sheet that is shown
+     */
+    public getShownSheet(): string {
+        return this._document.sheet;
+    }
+
+    /**
+     * @returns the sheet of the current cell, it differs from the shown sheet while
+     * a formula on another sheet is being edited
+     */
+    public getCurrentSheet(): string {
+        return this._document.currentSheet;
+    }
+
+    /**
+     * @returns the names of the document and what they stand for
+     */
+    public getNames(): NameTransport[] {
+        return this._document.names;
+    }
+
+    /**
+     * @returns false if the user can only view the document
+     */
+    public canEdit(): boolean {
+        return this._document.role !== 'viewer';
+    }
+
+    /**
+     * @returns the format of the current cell, undefined for the general format
+     */
+    public getFormat(): NumberFormatSpec | undefined {
+        if (this._document.sheet !== this._document.currentSheet) {
+            return undefined;
+        }
+        return this._document.cells.get(this._document.currentCell)?.format;
+    }
+
+    /**
+     * set how the numbers of a cell or a range are shown
+     * 
+     * @param range a cell or a range, the current cell if it is empty
+     */
+    public setFormat(format: NumberFormatSpec, range: string = ''): void {
+        const body = {
+            "userName": this._userName,
+            "range": range === '' ? `${this._document.currentSheet}!${this._document.currentCell}` : range,
+            "format": format
+        };
+        const requestFormatURL = `${this._baseURL}/document/format/${this._documentName}`;
+        fetch(requestFormatURL, {
+            method: 'PUT',
+            headers: this._headers(),
+            body: JSON.stringify(body)
+        })
+            .then(response => {
+                return response.json() as Promise<DocumentTransport>;
+            }).then((document: DocumentTransport) => {
+                this._updateDocument(document);
+            });
+    }
+
+    /**
+     * @returns the comments on the cells of the sheet that is shown
+     */
+    public getComments(): CommentTransport[] {
+        return this._document.comments;
+    }
+
+    /**
+     * @returns the other users who have the document open, where they are and if they are active
+     */
+    public getPresence(): PresenceTransport[] {
+        return this._document.presence.filter((userPresence) => userPresence.user !== this._userName);
+    }
+
+    /**
+     * @returns true if the user owns the document
+     */
+    public isOwner(): boolean {
+        return this._document.role === 'owner';
+    }
+
+    /**
+     * @returns the other user who is editing the current cell, empty if there is none
+     */
+    public getCellEditor(): string {
+        if (this._document.sheet !== this._document.currentSheet) {
+            return '';
+        }
+        const editor = this._document.cells.get(this._document.currentCell)?.editing ?? '';
+        return editor === this._userName ? '' : editor;
+    }
+
     public getEditStatus(): boolean {
         return this._document.isEditing;
     }
@@ -223,10 +560,10 @@ class SpreadSheetClient {
      */
     public setEditStatus(isEditing: boolean): void {
 
-        // request edit status of the current cell
+        // request edit status of the current cell, it is on the sheet of the current cell
         const body = {
             "userName": this._userName,
-            "cell": this._document.currentCell
+            "cell": `${this._document.currentSheet}!${this._document.currentCell}`
         };
         let requestEditViewURL = `${this._baseURL}/document/cell/view/${this._documentName}`;
         if (isEditing) {
@@ -235,9 +572,7 @@ class SpreadSheetClient {
 
         fetch(requestEditViewURL, {
             method: 'PUT',
-            headers: {
-                'Content-Type': 'application/json'
-            },
+            headers: this._headers(),
             body: JSON.stringify(body)
         })
             .then(response => {
@@ -249,6 +584,27 @@ class SpreadSheetClient {
 
 
 
+    /**
+     * take the current cell away from the user who is editing it, only the owner can
+     */
+    public releaseCell(): void {
+        const body = {
+            "userName": this._userName,
+            "cell": `${this._document.currentSheet}!${this._document.currentCell}`
+        };
+        const requestReleaseURL = `${this._baseURL}/document/cell/release/${this._documentName}`;
+        fetch(requestReleaseURL, {
+            method: 'PUT',
+            headers: this._headers(),
+            body: JSON.stringify(body)
+        })
+            .then(response => {
+                return response.json() as Promise<DocumentTransport>;
+            }).then((document: DocumentTransport) => {
+                this._updateDocument(document);
+            });
+    }
+
     public addToken(token: string): void {
 
         const body = {
@@ -259,9 +615,7 @@ class SpreadSheetClient {
         const requestAddTokenURL = `${this._baseURL}/document/addtoken/${this._documentName}`;
         fetch(requestAddTokenURL, {
             method: 'PUT',
-            headers: {
-                'Content-Type': 'application/json'
-            },
+            headers: this._headers(),
             body: JSON.stringify(body)
         })
             .then(response => {
@@ -283,9 +637,7 @@ class SpreadSheetClient {
 
         fetch(requestAddCellURL, {
             method: 'PUT',
-            headers: {
-                'Content-Type': 'application/json'
-            },
+            headers: this._headers(),
             body: JSON.stringify(body)
         })
             .then(response => {
@@ -301,9 +653,7 @@ class SpreadSheetClient {
         const requestRemoveTokenURL = `${this._baseURL}/document/removetoken/${this._documentName}`;
         fetch(requestRemoveTokenURL, {
             method: 'PUT',
-            headers: {
-                'Content-Type': 'application/json'
-            },
+            headers: this._headers(),
             body: JSON.stringify({ "userName": this._userName })
         })
             .then(response => {
@@ -323,9 +673,7 @@ class SpreadSheetClient {
         };
         fetch(requestViewURL, {
             method: 'PUT',
-            headers: {
-                'Content-Type': 'application/json'
-            },
+            headers: this._headers(),
             body: JSON.stringify(body)
         })
             .then(response => {
@@ -339,9 +687,210 @@ class SpreadSheetClient {
         const requestClearFormulaURL = `${this._baseURL}/document/clear/formula/${this._documentName}`;
         fetch(requestClearFormulaURL, {
             method: 'PUT',
-            headers: {
-                'Content-Type': 'application/json'
-            },
+            headers: this._headers(),
+            body: JSON.stringify({ "userName": this._userName })
+        })
+            .then(response => {
+                return response.json() as Promise<DocumentTransport>;
+            }).then((document: DocumentTransport) => {
+                this._updateDocument(document);
+            });
+    }
+
+    /**
+     * replace the formula of the cell being edited with a typed formula, in one request
+     * 
+     * @param formula the formula as it is typed, (A1+B2)*3.5
+     */
+    public setFormula(formula: string): void {
+        const requestSetFormulaURL = `${this._baseURL}/document/set/formula/${this._documentName}`;
+        fetch(requestSetFormulaURL, {
+            method: 'PUT',
+            headers: this._headers(),
+            body: JSON.stringify({ "userName": this._userName, "formula": formula })
+        })
+            .then(response => {
+                return response.json() as Promise<DocumentTransport>;
+            }).then((document: DocumentTransport) => {
+                this._updateDocument(document);
+            });
+    }
+
+    /**
+     * insert or delete rows or columns
+     * 
+     * @param dimension rows or columns
+     * @param action insert or delete
+     * @param index the first row or column (0 based)
+     */
+    public changeStructure(dimension: 'rows' | 'columns', action: 'insert' | 'delete', index: number): void {
+        const requestStructureURL = `${this._baseURL}/document/${dimension}/${action}/${this._documentName}`;
+        fetch(requestStructureURL, {
+            method: 'PUT',
+            headers: this._headers(),
+            body: JSON.stringify({ "userName": this._userName, "index": index, "count": 1 })
+        })
+            .then(response => {
+                return response.json() as Promise<DocumentTransport>;
+            }).then((document: DocumentTransport) => {
+                this._updateDocument(document);
+            });
+    }
+
+    /**
+     * add, rename, move, delete or show a sheet
+     * 
+     * @param action add, rename, move, delete or select
+     * @param sheet the sheet
+     * @param details the newName for rename or the index for move
+     */
+    public changeSheet(action: 'add' | 'rename' | 'move' | 'delete' | 'select', sheet: string, details: object = {}): void {
+        const requestSheetURL = `${this._baseURL}/document/sheets/${action}/${this._documentName}`;
+        fetch(requestSheetURL, {
+            method: 'PUT',
+            headers: this._headers(),
+            body: JSON.stringify({ "userName": this._userName, "sheet": sheet, ...details })
+        })
+            .then(response => {
+                return response.json() as Promise<DocumentTransport>;
+            }).then((document: DocumentTransport) => {
+                this._updateDocument(document);
+            });
+    }
+
+    /**
+     * add, rename or delete a name
+     * 
+     * @param action add, rename or delete
+     * @param name the name
+     * @param details the definition for add or the newName for rename
+     */
+    public changeName(action: 'add' | 'rename' | 'delete', name: string, details: object = {}): void {
+        const requestNameURL = `${this._baseURL}/document/names/${action}/${this._documentName}`;
+        fetch(requestNameURL, {
+            method: 'PUT',
+            headers: this._headers(),
+            body: JSON.stringify({ "userName": this._userName, "name": name, ...details })
+        })
+            .then(response => {
+                return response.json() as Promise<DocumentTransport>;
+            }).then((document: DocumentTransport) => {
+                this._updateDocument(document);
+            });
+    }
+
+    /**
+     * @returns the conditional format rules of the sheet that is shown
+     */
+    public getConditionalRules(): ConditionalRuleTransport[] {
+        return this._document.conditionalRules;
+    }
+
+    /**
+     * add or delete a conditional format rule, a range without a sheet is on the sheet that is shown
+     * 
+     * @param details the rule to add or the id of the rule to delete
+     */
+    public changeConditionalRule(action: 'add' | 'delete', details: object): void {
+        const requestRuleURL = `${this._baseURL}/document/rules/${action}/${this._documentName}`;
+        fetch(requestRuleURL, {
+            method: 'PUT',
+            headers: this._headers(),
+            body: JSON.stringify({ "userName": this._userName, ...details })
+        })
+            .then(response => {
+                return response.json() as Promise<DocumentTransport>;
+            }).then((document: DocumentTransport) => {
+                this._updateDocument(document);
+            });
+    }
+
+    /**
+     * @returns the rows (0 based) of the sheet that is shown that the filter of the user hides
+     */
+    public getHiddenRows(): number[] {
+        return this._document.hiddenRows;
+    }
+
+    /**
+     * @returns the filter of the user when it is on the sheet that is shown
+     */
+    public getFilter(): FilterTransport | undefined {
+        return this._document.filter;
+    }
+
+    /**
+     * sort the rows of a range by its columns, a range without a sheet is on the sheet that is shown
+     */
+    public sortRange(range: string, keys: SortKey[]): void {
+        this._putDocument('sort', { "range": range, "keys": keys });
+    }
+
+    /**
+     * hide the rows of a range that do not pass the criteria, only this user has them hidden
+     */
+    public setFilter(range: string, criteria: FilterCriterion[]): void {
+        this._putDocument('filter', { "range": range, "criteria": criteria });
+    }
+
+    public clearFilter(): void {
+        this._putDocument('filter/clear', {});
+    }
+
+    // send a change of the document and show the document that comes back
+    private _putDocument(path: string, details: object): void {
+        const requestURL = `${this._baseURL}/document/${path}/${this._documentName}`;
+        fetch(requestURL, {
+            method: 'PUT',
+            headers: this._headers(),
+            body: JSON.stringify({ "userName": this._userName, ...details })
+        })
+            .then(response => {
+                return response.json() as Promise<DocumentTransport>;
+            }).then((document: DocumentTransport) => {
+                this._updateDocument(document);
+            });
+    }
+
+    /**
+     * add, reply to, resolve or delete a comment, a new comment is on the current cell
+     * 
+     * @param details the text of a new comment or a reply, the id of the comment and resolved
+     */
+    public changeComment(action: 'add' | 'reply' | 'resolve' | 'delete', details: object): void {
+        const requestCommentURL = `${this._baseURL}/document/comments/${action}/${this._documentName}`;
+        const cell = `${this._document.currentSheet}!${this._document.currentCell}`;
+        fetch(requestCommentURL, {
+            method: 'PUT',
+            headers: this._headers(),
+            body: JSON.stringify({ "userName": this._userName, "cell": cell, ...details })
+        })
+            .then(response => {
+                return response.json() as Promise<DocumentTransport>;
+            }).then((document: DocumentTransport) => {
+                this._updateDocument(document);
+            });
+    }
+
+    public copyCell(): void {
+        const requestCopyCellURL = `${this._baseURL}/document/copy/${this._documentName}`;
+        fetch(requestCopyCellURL, {
+            method: 'PUT',
+            headers: this._headers(),
+            body: JSON.stringify({ "userName": this._userName })
+        })
+            .then(response => {
+                return response.json() as Promise<DocumentTransport>;
+            }).then((document: DocumentTransport) => {
+                this._updateDocument(document);
+            });
+    }
+
+    public pasteCell(): void {
+        const requestPasteCellURL = `${this._baseURL}/document/paste/${this._documentName}`;
+        fetch(requestPasteCellURL, {
+            method: 'PUT',
+            headers: this._headers(),
             body: JSON.stringify({ "userName": this._userName })
         })
             .then(response => {
@@ -351,6 +900,132 @@ class SpreadSheetClient {
             });
     }
 
+    public fillDown(count: number): void {
+        const requestFillDownURL = `${this._baseURL}/document/fill/down/${this._documentName}`;
+        fetch(requestFillDownURL, {
+            method: 'PUT',
+            headers: this._headers(),
+            body: JSON.stringify({ "userName": this._userName, "count": count })
+        })
+            .then(response => {
+                return response.json() as Promise<DocumentTransport>;
+            }).then((document: DocumentTransport) => {
+                this._updateDocument(document);
+            });
+    }
+
+    public fillRight(count: number): void {
+        const requestFillRightURL = `${this._baseURL}/document/fill/right/${this._documentName}`;
+        fetch(requestFillRightURL, {
+            method: 'PUT',
+            headers: this._headers(),
+            body: JSON.stringify({ "userName": this._userName, "count": count })
+        })
+            .then(response => {
+                return response.json() as Promise<DocumentTransport>;
+            }).then((document: DocumentTransport) => {
+                this._updateDocument(document);
+            });
+    }
+
+    public undo(): void {
+        const requestUndoURL = `${this._baseURL}/document/undo/${this._documentName}`;
+        fetch(requestUndoURL, {
+            method: 'PUT',
+            headers: this._headers(),
+            body: JSON.stringify({ "userName": this._userName })
+        })
+            .then(response => {
+                return response.json() as Promise<DocumentTransport>;
+            }).then((document: DocumentTransport) => {
+                this._updateDocument(document);
+            });
+    }
+
+    public redo(): void {
+        const requestRedoURL = `${this._baseURL}/document/redo/${this._documentName}`;
+        fetch(requestRedoURL, {
+            method: 'PUT',
+            headers: this._headers(),
+            body: JSON.stringify({ "userName": this._userName })
+        })
+            .then(response => {
+                return response.json() as Promise<DocumentTransport>;
+            }).then((document: DocumentTransport) => {
+                this._updateDocument(document);
+            });
+    }
+
+    /**
+     * get the sheet that is shown as CSV or TSV
+     * 
+     * @param format csv or tsv
+     * @param contents values for what the cells show, formulas to read the text back in
+     * @returns the text of the file
+     */
+    public exportDocument(format: 'csv' | 'tsv', contents: 'values' | 'formulas'): Promise<string> {
+        const query = `format=${format}&contents=${contents}&sheet=${encodeURIComponent(this.getShownSheet())}`;
+        const requestExportURL = `${this._baseURL}/document/export/${this._documentName}?${query}`;
+        return fetch(requestExportURL, { headers: this._headers() })
+            .then(response => {
+                return response.text();
+            });
+    }
+
+    /**
+     * put CSV or TSV text into the sheet that is shown
+     * 
+     * @param text the text of the file
+     * @param format csv or tsv
+     * @param cell the top left cell of the imported cells
+     */
+    public importCells(text: string, format: 'csv' | 'tsv', cell: string = 'A1'): void {
+        const requestImportURL = `${this._baseURL}/document/import/${this._documentName}`;
+        fetch(requestImportURL, {
+            method: 'PUT',
+            headers: this._headers(),
+            body: JSON.stringify({ "userName": this._userName, "text": text, "format": format, "cell": cell })
+        })
+            .then(response => {
+                if (!response.ok) {
+                    return response.text().then((message: string) => {
+                        this._errorCallback(message);
+                    });
+                }
+                return (response.json() as Promise<DocumentTransport>).then((document: DocumentTransport) => {
+                    this._updateDocument(document);
+                });
+            });
+    }
+
+    /**
+     * make a new document from CSV or TSV text and open it
+     * 
+     * @param name the name of the new document
+     * @param text the text of the file
+     * @param format csv or tsv
+     */
+    public importDocument(name: string, text: string, format: 'csv' | 'tsv'): void {
+        const requestImportURL = `${this._baseURL}/documents/import/${name}`;
+        fetch(requestImportURL, {
+            method: 'POST',
+            headers: this._headers(),
+            body: JSON.stringify({ "userName": this._userName, "text": text, "format": format })
+        })
+            .then(response => {
+                if (!response.ok) {
+                    return response.text().then((message: string) => {
+                        this._errorCallback(message);
+                    });
+                }
+                return (response.json() as Promise<DocumentTransport>).then((document: DocumentTransport) => {
+                    this._documentName = name;
+                    this._updateDocument(document);
+                    this.getDocuments(this._userName);
+                });
+            });
+    }
+
 
 
     /**
@@ -359,27 +1034,40 @@ class SpreadSheetClient {
      * @param name the name of the document
      * @param user the user name
      * 
+     * the revision the client has is sent so the server only sends what changed
+     * 
      * this is client side so we use fetch
      */
-    public getDocument(name: string, user: string) {
+    public getDocument(name: string, user: string): Promise<void> {
         // put the user name in the body
         if (name === "documents") {
-            return;  // This is not ready for production but for this assignment will do
+            return Promise.resolve();  // This is not ready for production but for this assignment will do
         }
         const userName = user;
         const fetchURL = `${this._baseURL}/documents/${name}`;
-        fetch(fetchURL, {
+        return fetch(fetchURL, {
             method: 'PUT',
-            headers: {
-                'Content-Type': 'application/json'
-            },
-            body: JSON.stringify({ "userName": userName })
+            headers: this._headers(),
+            body: JSON.stringify({ "userName": userName, "revision": this._document.revision || undefined })
         })
             .then(response => {
+                // nothing changed since the revision the client has
+                if (response.status === 304) {
+                    return undefined;
+                }
+                // the session has expired or the document is not shared with the user
+                if (response.status === 401 || response.status === 403) {
+                    this._polling = false;
+                    return response.text().then((error: string) => {
+                        this._errorCallback(error);
+                        return undefined;
+                    });
+                }
                 return response.json() as Promise<DocumentTransport>;
-            }).then((document: DocumentTransport) => {
-                this._updateDocument(document);
-
+            }).then((document: DocumentTransport | undefined) => {
+                if (document) {
+                    this._updateDocument(document);
+                }
             });
 
     }
@@ -394,8 +1082,12 @@ class SpreadSheetClient {
     public getDocuments(user: string) {
         // put the user name in the body
         const userName = user;
+        // the list is only given to a user who is logged in
+        if (this._token === '') {
+            return;
+        }
         const fetchURL = `${this._baseURL}/documents/`;
-        fetch(fetchURL)
+        fetch(fetchURL, { headers: this._headers() })
             .then(response => {
                 return response.json() as Promise<string[]>;
             }).then((documents: string[]) => {
@@ -425,10 +1117,31 @@ class SpreadSheetClient {
         const currentCell = document.currentCell;
         const columns = document.columns;
         const rows = document.rows;
+        const sheets = document.sheets;
+        const sheet = document.sheet;
+        const currentSheet = document.currentSheet;
+        const names = document.names;
         const isEditing = document.isEditing;
-        const contributingUsers = document.contributingUsers;
         const errorOccurred = document.errorOccurred;
 
+        // the error is only sent once so it is shown even if the document is older than the one we have
+        if (errorOccurred !== '') {
+            this._errorCallback(errorOccurred)
+        }
+        if (document.revision < this._document.revision) {
+            return;
+        }
+
+        // a delta only holds the cells and the editors that changed, the rest is kept
+        let contributingUsers = document.contributingUsers;
+        let documentCells = new Map<string, CellTransport>();
+        if (document.isDelta) {
+            const changedUsers = document.removedUsers.concat(contributingUsers.map((editor) => editor.user));
+            contributingUsers = this._document.contributingUsers
+                .filter((editor) => !changedUsers.includes(editor.user))
+                .concat(contributingUsers);
+            documentCells = this._document.cells;
+        }
 
         // create the document
         this._document = {
@@ -438,10 +1151,23 @@ class SpreadSheetClient {
             currentCell: currentCell,
             columns: columns,
             rows: rows,
+            sheets: sheets,
+            sheet: sheet,
+            currentSheet: currentSheet,
+            names: names,
             isEditing: isEditing,
-            cells: new Map<string, CellTransport>(),
+            cells: documentCells,
             contributingUsers: contributingUsers,
-            errorOccurred: errorOccurred
+            errorOccurred: errorOccurred,
+            revision: document.revision,
+            isDelta: false,
+            removedUsers: [],
+            role: document.role,
+            presence: document.presence,
+            comments: document.comments,
+            conditionalRules: document.conditionalRules,
+            filter: document.filter,
+            hiddenRows: document.hiddenRows
         };
         // create the cells
         const cells = document.cells as unknown as CellTransportMap;
@@ -454,13 +1180,17 @@ class SpreadSheetClient {
                 formula: cellTransport.formula,
                 value: cellTransport.value,
                 error: cellTransport.error,
-                editing: this._getEditorString(contributingUsers, cellName)
+                editing: '',
+                format: cellTransport.format,
+                style: cellTransport.style
             };
             this._document!.cells.set(cellName, cell);
         }
-        if (errorOccurred !== '') {
-            this._errorCallback(errorOccurred)
-        }
+        // the editors can have moved in a delta, so every cell is marked again
+        this._document.cells.forEach((cell: CellTransport, cellName: string) => {
+            cell.editing = this._getEditorString(contributingUsers, cellName);
+        });
+        this._documentChangedCallback();
 
     }
 
@@ -477,8 +1207,9 @@ class SpreadSheetClient {
             this._baseURL = RENDER_SERVER_URL;
         }
 
-        this.getDocument(this._documentName, this._userName);
         this._server = server;
+        // the channel is opened again on the new server
+        this._subscribe();
 
     }
 }
@@ -1,9 +1,18 @@
-import SheetMemory from "./SheetMemory"
-import FormulaEvaluator from "./NewFormulaEvaluator"
+import Workbook from "./Workbook"
 import CalculationManager from "./CalculationManager"
 import FormulaBuilder from "./FormulaBuilder";
 import Cell from "./Cell";
 import { ContributingUser } from "./ContributingUser";
+import { OperationHistory } from "./OperationHistory";
+import { ErrorMessages, CellStyle, NameTransport, DocumentRole, AccessTransport, PresenceState, PresenceTransport, CommentTransport, NumberFormatSpec, ConditionalRuleTransport, SortKey, FilterCriterion } from "./GlobalDefinitions";
+import DelimitedText from "./DelimitedText";
+import { FormulaTokenizer, FormulaSyntaxError } from "./FormulaTokenizer";
+import ChangeTracker from "./ChangeTracker";
+import CellComments from "./CellComments";
+import NumberFormat from "./NumberFormat";
+import ConditionalFormats from "./ConditionalFormats";
+import SortAndFilter from "./SortAndFilter";
+import SheetMemory from "./SheetMemory";
 
 /**
  *  The main controller of the SpreadSheet
@@ -14,6 +23,60 @@ import { ContributingUser } from "./ContributingUser";
  * addCell(cell:string): void
  * removeToken(): void
  * clearFormula(): void
+ * setFormula(user:string, text:string): void
+ * undo(user:string): void
+ * redo(user:string): void
+ * addSheet(sheetName:string): void
+ * renameSheet(sheetName:string, newSheetName:string): void
+ * moveSheet(sheetName:string, index:number): void
+ * deleteSheet(sheetName:string): void
+ * selectSheet(user:string, sheetName:string): void
+ * getSheetNames(): string[]
+ * getSheetNameForUser(user:string): string
+ * defineName(user:string, name:string, definition:string): void
+ * renameName(name:string, newName:string): void
+ * deleteName(name:string): void
+ * getNames(): NameTransport[]
+ * getComments(sheetName:string): CommentTransport[]
+ * addComment(user:string, cellLabel:string, text:string): void
+ * replyToComment(user:string, id:number, text:string): void
+ * resolveComment(id:number, resolved:boolean): void
+ * deleteComment(user:string, id:number): void
+ * setOwner(user:string): void
+ * claimOwnership(user:string): void
+ * getRole(user:string): DocumentRole | undefined
+ * getAccess(): AccessTransport[]
+ * checkCanEdit(user:string): boolean
+ * shareDocument(owner:string, user:string, role:string): void
+ * changeAccess(owner:string, user:string, role:string): void
+ * revokeAccess(owner:string, user:string): void
+ * expireEditLeases(leaseMilliseconds:number, now:number): string[]
+ * forceReleaseEditAccess(owner:string, cellLabel:string): void
+ * recordActivity(user:string, now:number): void
+ * recordFetch(user:string, now:number): void
+ * getPresence(now:number): PresenceTransport[]
+ * updatePresence(now:number): boolean
+ * insertRows(index:number, count:number, sheetName:string): void
+ * deleteRows(index:number, count:number, sheetName:string): void
+ * insertColumns(index:number, count:number, sheetName:string): void
+ * deleteColumns(index:number, count:number, sheetName:string): void
+ * copyCell(user:string): void
+ * pasteCell(user:string): void
+ * fillDown(user:string, count:number): void
+ * fillRight(user:string, count:number): void
+ * setFormat(user:string, rangeLabel:string, format:NumberFormatSpec): void
+ * getConditionalRules(sheetName:string): ConditionalRuleTransport[]
+ * addConditionalRule(user:string, rule:ConditionalRuleTransport): void
+ * deleteConditionalRule(id:number): void
+ * sortRange(user:string, rangeLabel:string, keys:SortKey[]): void
+ * setFilter(user:string, rangeLabel:string, criteria:FilterCriterion[]): void
+ * clearFilter(user:string): void
+ * getHiddenRows(user:string): number[]
+ * getSheetContents(sheetName:string, contents:string): string[][]
+ * documentContainer(user:string): any
+ * documentDelta(user:string, sinceRevision:number | undefined): any | undefined
+ * getDocumentRevision(): number
+ * importCells(user:string, rows:string[][], cellLabel:string): void
  * getFormulaString(): string
  * getResultString(): string
  * setWorkingCellByLabel(label:string): void
@@ -24,12 +87,14 @@ import { ContributingUser } from "./ContributingUser";
  * setEditStatus(bool:boolean): void
  * getEditStatusString(): string
  * 
- * 
+ * The document is a workbook of named sheets. A cell label without a sheet name (B2)
+ * is on the sheet that the user is shown, inside the controller the cells are known
+ * by their label with the name of their sheet (Sheet1!B2)
  *
  */
 export class SpreadSheetController {
-  /** The memory for the sheet */
-  private _memory: SheetMemory;
+  /** The sheets of the document */
+  private _workbook: Workbook;
 
   /** the local storage for the document */
 
@@ -48,11 +113,38 @@ export class SpreadSheetController {
   // a per access error message
   private _errorOccurred: string = '';
 
+  // the formula changes made by each user, used for undo and redo
+  private _history: OperationHistory = new OperationHistory();
+
+  // the revision of what the clients are shown, so a client can fetch only what changed.
+  // The cells are marked when they change, the users are compared when a client fetches
+  private _changes: ChangeTracker = new ChangeTracker();
+
+  // the styles of the conditional formats by the cells of a sheet (A1), kept for the sheets that were
+  // sent since the workbook last changed as a whole, so the cells whose style changed can be marked
+  private _styles: Map<string, Map<string, CellStyle>> = new Map<string, Map<string, CellStyle>>();
+
+  // the role of each user the document is shared with, a document without an owner
+  // was made before there were roles, every user can edit it until a user claims it
+  private _access: Map<string, DocumentRole> = new Map<string, DocumentRole>();
+
+  // the comments on the cells and their replies
+  private _comments: CellComments = new CellComments();
+
+  // the conditional format rules, the styles they give the cells are worked out when a sheet is sent
+  private _conditionalFormats: ConditionalFormats = new ConditionalFormats();
+
+  // a user who made no change and did not move for this long is idle, a user whose client has
+  // not fetched the document for this long is away, an open client fetches it every 15 seconds
+  private static readonly _idleMilliseconds = 2 * 60 * 1000;
+  private static readonly _awayMilliseconds = 45 * 1000;
+
   /**
    * constructor
    * */
   constructor(columns: number, rows: number) {
-    this._memory = new SheetMemory(columns, rows);
+    this._workbook = new Workbook();
+    this._workbook.addSheet(Workbook.defaultSheetName, columns, rows);
     this._calculationManager = new CalculationManager();
   }
 
@@ -61,17 +153,25 @@ export class SpreadSheetController {
     let userData: ContributingUser;
 
     if (!this._contributingUsers.has(user)) {
-      userData = new ContributingUser(cellLabel)
+      userData = new ContributingUser(cellLabel, this._workbook.getSheetNames()[0])
 
     } else {
       userData = this._contributingUsers.get(user)!;
-      userData.cellLabel = cellLabel;
     }
-
+    const [sheetName, label] = this.resolveLabel(userData, cellLabel);
+    if (!this._workbook.hasSheet(sheetName)) {
+      this._errorOccurred = `Sheet ${sheetName} does not exist`;
+      return;
+    }
+    // the cell the user was editing is released before they move
     this.releaseEditAccess(user);
+    userData.cellLabel = label;
+    userData.sheetName = sheetName;
+    userData.viewSheet = sheetName;
+
     userData.isEditing = false;
     this._contributingUsers.set(user, userData);
-    userData.formulaBuilder.setFormula(this._memory.getCellByLabel(cellLabel).getFormula());
+    userData.formulaBuilder.setFormula(this._workbook.getCellByLabel(this.userCell(userData)).getFormula());
   }
 
 
@@ -84,32 +184,49 @@ export class SpreadSheetController {
       throw new Error('User is not a contributing user, this should not happen for a request to edit');
     }
 
+    // a viewer moves to the cell but cannot edit it
+    if (this.getRole(user) === 'viewer') {
+      this.requestViewAccess(user, cellLabel);
+      return this.checkCanEdit(user);
+    }
+
     // now we know that the user is a viewer for sure and this line will succeed
     let userData = this._contributingUsers.get(user);
+    const [sheetName, label] = this.resolveLabel(userData!, cellLabel);
+    if (!this._workbook.hasSheet(sheetName)) {
+      this._errorOccurred = `Sheet ${sheetName} does not exist`;
+      return false;
+    }
+    const cellKey = Cell.qualifyLabel(sheetName, label);
 
     // Is the user editing another cell? If so then release the other cell
-    if (userData!.isEditing && userData!.cellLabel !== cellLabel) {
+    if (userData!.isEditing && this.userCell(userData!) !== cellKey) {
       this.releaseEditAccess(user);
     }
 
     // at this point the user is a contributing user and is not editing another cell
     // make them a viewer of this cell
-    userData!.cellLabel = cellLabel;
+    userData!.cellLabel = label;
+    userData!.sheetName = sheetName;
+    userData!.viewSheet = sheetName;
 
     // if the cell is not being edited then we can edit it
-    if (!this._cellsBeingEdited.has(cellLabel)) {
+    if (!this._cellsBeingEdited.has(cellKey)) {
       userData!.isEditing = true;
-      this._cellsBeingEdited.set(cellLabel, user);
+      userData!.renewLease();
+      this._cellsBeingEdited.set(cellKey, user);
       return true;
     }
 
     // if the cell is being edited by this user then return true
-    if (this._cellsBeingEdited.get(cellLabel) === user) {
+    if (this._cellsBeingEdited.get(cellKey) === user) {
+      userData!.renewLease();
       return true;
     }
 
-    // at this point we cannot assign the user as an editor
-    const otherUser = this._cellsBeingEdited.get(cellLabel);
+    // at this point we cannot assign the user as an editor, they only view the cell
+    const otherUser = this._cellsBeingEdited.get(cellKey);
+    userData!.isEditing = false;
     this._errorOccurred = `Cell is being edited by ${otherUser}`;
     return false;
   }
@@ -122,9 +239,10 @@ export class SpreadSheetController {
       return;
     }
 
-    const editingCell: string | undefined = this._contributingUsers.get(user)?.cellLabel;
+    // the cell is only released when it is this user who holds it
+    const editingCell: string = this.userCell(this._contributingUsers.get(user)!);
     if (editingCell) {
-      if (this._cellsBeingEdited.has(editingCell)) {
+      if (this._cellsBeingEdited.get(editingCell) === user) {
         this._cellsBeingEdited.delete(editingCell);
       }
     }
@@ -134,6 +252,133 @@ export class SpreadSheetController {
 
   }
 
+  /**
+   * release the cells whose lease was not renewed in time, the users who were editing
+   * them are told with their next document
+   *
+   * @param leaseMilliseconds how long a lease lasts after it was last renewed
+   * @param now the time to check the leases at
+   * @returns the users who lost their cell
+   */
+  expireEditLeases(leaseMilliseconds: number, now: number = Date.now()): string[] {
+    const expiredUsers: string[] = [];
+    this._contributingUsers.forEach((userData: ContributingUser, user: string) => {
+      if (!userData.isEditing || now - userData.leaseRenewed <= leaseMilliseconds) {
+        return;
+      }
+      const cellLabel = this.displayLabel(this.userCell(userData));
+      this.stopEditing(user);
+      userData.notice = `Your edit of ${cellLabel} ended after ${Math.round(leaseMilliseconds / 1000)} seconds without activity`;
+      expiredUsers.push(user);
+    });
+    return expiredUsers;
+  }
+
+  /**
+   * the user made a change or moved, they are active and keep the cell they are editing
+   */
+  recordActivity(user: string, now: number = Date.now()): void {
+    const userData = this._contributingUsers.get(user);
+    if (!userData) {
+      return;
+    }
+    userData.lastActive = now;
+    this.recordFetch(user, now);
+  }
+
+  /**
+   * the client of the user fetched the document, it is still open and keeps the cell
+   * the user is editing
+   */
+  recordFetch(user: string, now: number = Date.now()): void {
+    const userData = this._contributingUsers.get(user);
+    if (!userData) {
+      return;
+    }
+    userData.lastSeen = now;
+    if (userData.isEditing) {
+      userData.renewLease(now);
+    }
+  }
+
+  /**
+   * @param now the time to work out the state of the users at
+   * @returns the users who have the document open and can still see it, by name
+   */
+  getPresence(now: number = Date.now()): PresenceTransport[] {
+    const presence: PresenceTransport[] = [];
+    this._contributingUsers.forEach((userData: ContributingUser, user: string) => {
+      if (this.getRole(user) === undefined) {
+        return;
+      }
+      presence.push({
+        user: user,
+        sheet: userData.sheetName,
+        cell: userData.cellLabel,
+        isEditing: userData.isEditing,
+        state: SpreadSheetController.presenceState(userData, now),
+        lastSeen: userData.lastSeen,
+      });
+    });
+    return presence.sort((a, b) => a.user.localeCompare(b.user));
+  }
+
+  /**
+   * give the presence a new revision if a user became idle or away since the last look
+   *
+   * @returns true if the presence changed
+   */
+  updatePresence(now: number = Date.now()): boolean {
+    const revision = this._changes.revision;
+    this.trackPresence(now);
+    return this._changes.revision !== revision;
+  }
+
+  private static presenceState(userData: ContributingUser, now: number): PresenceState {
+    if (now - userData.lastSeen > SpreadSheetController._awayMilliseconds) {
+      return 'away';
+    }
+    if (now - userData.lastActive > SpreadSheetController._idleMilliseconds) {
+      return 'idle';
+    }
+    return 'active';
+  }
+
+  // the lastSeen time changes with every fetch, only the place and the state of a user are tracked
+  private trackPresence(now: number): void {
+    const presenceParts = new Map<string, string>();
+    for (const userPresence of this.getPresence(now)) {
+      presenceParts.set(userPresence.user, `${userPresence.state} ${userPresence.sheet}!${userPresence.cell}`);
+    }
+    this._changes.update('presence', presenceParts);
+  }
+
+  /**
+   * release a cell that another user is editing, only the owner of the document can
+   *
+   * @param owner the owner of the document
+   * @param cellLabel the cell, a label without a sheet is on the sheet the owner is shown
+   */
+  forceReleaseEditAccess(owner: string, cellLabel: string): void {
+    this._errorOccurred = '';
+    if (this._access.get(owner) !== 'owner') {
+      this._errorOccurred = 'Only the owner can release the cells of other users';
+      return;
+    }
+    const ownerData = this._contributingUsers.get(owner) ?? new ContributingUser('A1', this._workbook.getSheetNames()[0]);
+    const [sheetName, label] = this.resolveLabel(ownerData, cellLabel);
+    const cellKey = Cell.qualifyLabel(sheetName, label);
+    const editor = this._cellsBeingEdited.get(cellKey);
+    if (editor === undefined) {
+      this._errorOccurred = `Cell ${this.displayLabel(cellKey)} is not being edited`;
+      return;
+    }
+    this.stopEditing(editor);
+    if (editor !== owner) {
+      this._contributingUsers.get(editor)!.notice = `${owner} released your edit of ${this.displayLabel(cellKey)}`;
+    }
+  }
+
 
   /**  
    *  add token to current formula, this is not a cell and thus no dependency updating is needed
@@ -153,26 +398,21 @@ export class SpreadSheetController {
 
     // add the token to the formula
     userData.formulaBuilder.addToken(token);
-    let cellBeingEdited = this._contributingUsers.get(user)?.cellLabel;
-
+    let cellBeingEdited = this.userCell(userData);
 
-    let cell = this._memory.getCellByLabel(cellBeingEdited!);
-    cell.setFormula(userData.formulaBuilder.getFormula());
-    this._memory.setCellByLabel(cellBeingEdited!, cell);
-
-    this._calculationManager.evaluateSheet(this._memory);
+    this.commitFormula(user, cellBeingEdited, userData.formulaBuilder.getFormula());
   }
 
   /**  
    *  add cell reference to current formula
    * 
    * @param cell:string
-   * returns true if the token was added to the formula
-   * returns false if a circular dependency is detected.
    * 
-   * Assuming that the dependents have been updated
-   * we will look at the dependsOn array for the cell being inserted
-   * if the current cell is in the dependsOn array then we have a circular referenceoutloo
+   * circular references are not refused here, the calculation manager
+   * flags every cell in the loop with #CIRC! until the loop is broken
+   * 
+   * a cell of the sheet the user is shown is a reference to that sheet (Summary!B2)
+   * when it is not the sheet of the cell being edited
    */
   addCell(cellReference: string, user: string): void {
     this._errorOccurred = '';
@@ -185,27 +425,13 @@ export class SpreadSheetController {
       return;
     }
 
-    // if the cell being edited is the same as the cell being inserted then do nothing
-    if (cellReference === userEditing!.cellLabel) {
-      return;
+    if (userEditing!.viewSheet !== userEditing!.sheetName && Cell.splitSheetReference(cellReference)[0] === "") {
+      cellReference = Cell.qualifyLabel(userEditing!.viewSheet, cellReference);
     }
 
     // add the cell reference to the formula
-    let currentCell: Cell = this._memory.getCellByLabel(userEditing!.cellLabel)
-    let currentLabel = userEditing!.cellLabel;
-
-    // Check to see if we would be introducing a circular dependency
-    // this function will update the dependency for the cell being inserted
-    let okToAdd = this._calculationManager.okToAddNewDependency(currentLabel, cellReference, this._memory);
-
-    // We have checked to see if this new token introduces a circular dependency
-    // if it does not then we can add the token to the formula
-    if (okToAdd) {
-      this.addToken(cellReference, user);
-      return;
-    }
-    this._errorOccurred = `Circular dependency detected, ${currentLabel} cannot depend on ${cellReference}`;
-
+    // a reference that closes a loop is accepted, the cells in the loop show #CIRC!
+    this.addToken(cellReference, user);
   }
 
 
@@ -225,13 +451,9 @@ export class SpreadSheetController {
     }
 
     userEditing!.formulaBuilder.removeToken();
-    let cellBeingEdited = this._contributingUsers.get(user)?.cellLabel;
+    let cellBeingEdited = this.userCell(userEditing!);
 
-    let cell = this._memory.getCellByLabel(cellBeingEdited!);
-    cell.setFormula(userEditing!.formulaBuilder.getFormula());
-    this._memory.setCellByLabel(cellBeingEdited!, cell);
-
-    this._calculationManager.evaluateSheet(this._memory);
+    this.commitFormula(user, cellBeingEdited, userEditing!.formulaBuilder.getFormula());
   }
 
   /**
@@ -247,118 +469,1735 @@ export class SpreadSheetController {
     }
 
     userEditing!.formulaBuilder.setFormula([]);
-    let cellBeingEdited = this._contributingUsers.get(user)?.cellLabel;
+    let cellBeingEdited = this.userCell(userEditing);
 
     // this should not empty but just in case throw error
     if (cellBeingEdited) {
-      let cell = this._memory.getCellByLabel(cellBeingEdited);
-      cell.setFormula(userEditing!.formulaBuilder.getFormula());
-      this._memory.setCellByLabel(cellBeingEdited, cell);
+      this.commitFormula(user, cellBeingEdited, userEditing!.formulaBuilder.getFormula());
     }
-    this._calculationManager.evaluateSheet(this._memory);
   }
 
   /**
+   * replace the formula the user is editing with a formula that is typed in
    * 
-   * get the formula string for the user.  
+   * @param user:string
+   * @param text the formula as text, (A1 + B2) * 3.5, it can start with =
    * 
-   * The formula string is the cell that the user is editing or watching
+   * a formula with a syntax error is not stored, the error names the position of the character
+   */
+  setFormula(user: string, text: string): void {
+    this._errorOccurred = '';
+
+    const userEditing = this._contributingUsers.get(user);
+    if (!userEditing || !userEditing.isEditing) {
+      return;
+    }
+
+    let formula: FormulaType;
+    try {
+      formula = FormulaTokenizer.tokenize(text, this._workbook.getNames());
+    } catch (error) {
+      if (!(error instanceof FormulaSyntaxError)) {
+        throw error;
+      }
+      this._errorOccurred = error.message;
+      return;
+    }
+    userEditing.formulaBuilder.setFormula(formula);
+    this.commitFormula(user, this.userCell(userEditing), formula);
+  }
+
+  /**
+   * 
+   * undo the last formula change made by the user
    * 
    * @param user:string
    * 
-   * @returns the formula as a string
+   * only the changes of this user are undone. If another user has changed the
+   * cell since then the change is dropped from the history and nothing is reverted
+   * while a cell is being edited by another user it cannot be undone
    */
-  getFormulaStringForUser(user: string): string {
-    const userData = this._contributingUsers.get(user);
+  undo(user: string): void {
+    this._errorOccurred = '';
 
-    // get the data from the cell, it is the authority
-    const cell = this._memory.getCellByLabel(userData!.cellLabel);
-    // update the formulaBuilder (if this is a watcher then it updates from the cell)
-    userData!.formulaBuilder.setFormula(cell.getFormula());
-    const formula = userData!.formulaBuilder.getFormulaString();
-    return formula;
+    const operation = this._history.getUndoOperation(user);
+    if (!operation) {
+      return;
+    }
+    if (this.isEditedByOtherUser(user, operation.cellLabel)) {
+      return;
+    }
+    if (!this.cellHoldsFormula(operation.cellLabel, operation.formulaAfter)) {
+      this._history.discardUndo(user);
+      return;
+    }
+
+    this._history.undo(user);
+    this.applyFormula(operation.cellLabel, operation.formulaBefore);
   }
 
   /**
-   * Get the result string for the user
    * 
-   * @param user:string
+   * redo the last formula change that the user has undone
    * 
-   * @returns the formula as a value:string
+   * @param user:string
    */
-  getResultStringForUser(user: string): string {
-    const userEditing = this._contributingUsers.get(user);
+  redo(user: string): void {
+    this._errorOccurred = '';
 
-    let cell = this._memory.getCellByLabel(userEditing!.cellLabel);
-    let displayString = cell.getDisplayString();
+    const operation = this._history.getRedoOperation(user);
+    if (!operation) {
+      return;
+    }
+    if (this.isEditedByOtherUser(user, operation.cellLabel)) {
+      return;
+    }
+    if (!this.cellHoldsFormula(operation.cellLabel, operation.formulaBefore)) {
+      this._history.discardRedo(user);
+      return;
+    }
 
-    return displayString;
+    this._history.redo(user);
+    this.applyFormula(operation.cellLabel, operation.formulaAfter);
   }
 
+  /**
+   * copy the formula of the cell the user is looking at to their clipboard
+   * 
+   * @param user:string
+   */
+  copyCell(user: string): void {
+    const userData = this._contributingUsers.get(user)!;
+    const formula = this._workbook.getCellByLabel(this.userCell(userData)).getFormula();
+    userData.clipboard = { cellLabel: this.userCell(userData), formula: [...formula] };
+  }
 
   /**
-   * get the current cell label
+   * paste the copied formula into the cell the user is looking at
    * 
-   * @returns the current cell label
+   * @param user:string
    * 
+   * the relative references move by the distance between the copied cell and this one,
+   * the references anchored with $ stay where they are
    */
-  getWorkingCellLabel(user: string): string {
-    const userEditing = this._contributingUsers.get(user);
+  pasteCell(user: string): void {
+    this._errorOccurred = '';
 
-    return userEditing!.cellLabel;
+    const userData = this._contributingUsers.get(user)!;
+    if (!userData.clipboard) {
+      this._errorOccurred = 'Nothing has been copied';
+      return;
+    }
+    this.copyFormula(user, userData.clipboard.cellLabel, userData.clipboard.formula, this.userCell(userData));
+  }
+
+  /**
+   * copy the formula of the cell the user is looking at into the cells below it
+   * 
+   * @param user:string
+   * @param count the number of cells to fill, it stops at the last row
+   */
+  fillDown(user: string, count: number): void {
+    this.fill(user, 0, 1, count);
+  }
 
+  /**
+   * copy the formula of the cell the user is looking at into the cells to its right
+   * 
+   * @param user:string
+   * @param count the number of cells to fill, it stops at the last column
+   */
+  fillRight(user: string, count: number): void {
+    this.fill(user, 1, 0, count);
   }
 
+  private fill(user: string, columnStep: number, rowStep: number, count: number): void {
+    this._errorOccurred = '';
+
+    const userData = this._contributingUsers.get(user)!;
+    const sheet = this._workbook.getSheet(userData.sheetName);
+    const sourceLabel = this.userCell(userData);
+    const formula = [...this._workbook.getCellByLabel(sourceLabel).getFormula()];
+    let [column, row] = Cell.cellToColumnRow(userData.cellLabel);
+
+    for (let i = 0; i < count; i++) {
+      column += columnStep;
+      row += rowStep;
+      if (column >= sheet.getNumColumns() || row >= sheet.getNumRows()) {
+        break;
+      }
+      this.copyFormula(user, sourceLabel, formula, Cell.qualifyLabel(userData.sheetName, Cell.columnRowToCell(column, row)));
+    }
+  }
 
   /**
+   * put a copy of a formula in a cell, the change is recorded for undo
    * 
-   * @param user 
-   * @returns 
+   * a cell that another user is editing is left alone and reported.
+   * The labels have the names of their sheets, the formula can be pasted on another sheet
    */
-  public documentContainer(user: string): any {
-    // get the current formula for the cell of this user
-    let container = this._memory.sheetContainer();
+  private copyFormula(user: string, sourceLabel: string, formula: FormulaType, targetLabel: string): void {
+    if (this.isEditedByOtherUser(user, targetLabel)) {
+      return;
+    }
+    const [targetSheet, targetCell] = Cell.splitSheetReference(targetLabel);
+    const [sourceColumn, sourceRow] = Cell.cellToColumnRow(Cell.splitSheetReference(sourceLabel)[1]);
+    const [targetColumn, targetRow] = Cell.cellToColumnRow(targetCell);
+    const sheet = this._workbook.getSheet(targetSheet);
+    const shiftedFormula = FormulaBuilder.shiftReferences(formula, targetColumn - sourceColumn, targetRow - sourceRow,
+      sheet.getNumColumns(), sheet.getNumRows(), (sheetName) => this.getSheetSize(sheetName));
+
+    this.commitFormula(user, targetLabel, shiftedFormula);
+  }
 
-    // if the user is not a contributing user we request view access to A1
-    if (!this._contributingUsers.has(user)) {
-      this.requestViewAccess(user, 'A1');
+  // the columns and rows of a sheet, a sheet that does not exist has no cells
+  private getSheetSize(sheetName: string): [number, number] {
+    if (!this._workbook.hasSheet(sheetName)) {
+      return [0, 0];
     }
-    let userData = this._contributingUsers.get(user)!;
-    let cellFocused = userData.cellLabel;
-    container.currentCell = cellFocused;
-    container.formula = this.getFormulaStringForUser(user);
-    container.result = this.getResultStringForUser(user);
-    container.isEditing = userData.isEditing;
+    const sheet = this._workbook.getSheet(sheetName);
+    return [sheet.getNumColumns(), sheet.getNumRows()];
+  }
 
-    // add the error message if there is one
-    container.errorOccurred = this._errorOccurred;
-    // reset the error since we only report it once
+  /**
+   * set how the numbers of a cell or a range are shown, the values keep their full precision
+   *
+   * @param user:string
+   * @param rangeLabel a cell or a range, without a sheet it is on the sheet the user is shown
+   * @param format the format, general takes the format off
+   */
+  setFormat(user: string, rangeLabel: string, format: NumberFormatSpec): void {
     this._errorOccurred = '';
+    const formatError = NumberFormat.check(format);
+    if (formatError !== '') {
+      this._errorOccurred = formatError;
+      return;
+    }
+    const userData = this._contributingUsers.get(user) ?? new ContributingUser('A1', this._workbook.getSheetNames()[0]);
+    const [sheetName, label] = this.resolveLabel(userData, rangeLabel);
+    if (!this.checkSheetExists(sheetName)) {
+      return;
+    }
+    const labels = Cell.isValidRangeLabel(label) ? Cell.expandRange(label) : [label];
+    if (!labels.every((cellLabel) => Cell.isValidCellLabel(cellLabel) && this._workbook.hasCell(Cell.qualifyLabel(sheetName, cellLabel)))) {
+      this._errorOccurred = `Invalid cell ${rangeLabel}`;
+      return;
+    }
+    for (const cellLabel of labels) {
+      this._workbook.getCellByLabel(Cell.qualifyLabel(sheetName, cellLabel)).setFormat(format);
+    }
+    this.cellsChanged(labels.map((cellLabel) => Cell.qualifyLabel(sheetName, cellLabel)));
+  }
 
-    container.contributingUsers = [];
-    this._contributingUsers.forEach((value: ContributingUser, key: string) => {
-      let user = {
-        user: key,
-        cell: value.cellLabel,
-        isEditing: value.isEditing
+  /**
+   * @returns the conditional format rules of a sheet in the order they were added,
+   * their ranges are without the sheet
+   */
+  getConditionalRules(sheetName: string): ConditionalRuleTransport[] {
+    return this._conditionalFormats.getRules()
+      .filter((rule) => Cell.splitSheetReference(rule.range)[0] === sheetName)
+      .map((rule) => {
+        return { ...rule, range: Cell.splitSheetReference(rule.range)[1] };
+      });
+  }
+
+  /**
+   * add a conditional format rule after the other rules
+   *
+   * @param user the user, a range without a sheet is on the sheet they are shown
+   * @param rule the rule, its id is given by the document
+   */
+  addConditionalRule(user: string, rule: ConditionalRuleTransport): void {
+    this._errorOccurred = '';
+    const ruleError = ConditionalFormats.check(rule);
+    if (ruleError !== '') {
+      this._errorOccurred = ruleError;
+      return;
+    }
+    const userData = this._contributingUsers.get(user) ?? new ContributingUser('A1', this._workbook.getSheetNames()[0]);
+    const rangeLabel = String(rule.range);
+    const [sheetName, label] = this.resolveLabel(userData, rangeLabel);
+    if (!this.checkSheetExists(sheetName)) {
+      return;
+    }
+    const labels = Cell.isValidRangeLabel(label) ? Cell.expandRange(label) : [label];
+    if (!labels.every((cellLabel) => Cell.isValidCellLabel(cellLabel) && this._workbook.hasCell(Cell.qualifyLabel(sheetName, cellLabel)))) {
+      this._errorOccurred = `Invalid cell ${rangeLabel}`;
+      return;
+    }
+    // only the parts of the rule its condition uses are kept
+    const newRule: ConditionalRuleTransport = { id: 0, range: Cell.qualifyLabel(sheetName, label), condition: rule.condition };
+    if (rule.condition !== 'error' && rule.condition !== 'colorScale') {
+      newRule.value = rule.value;
+    }
+    if (rule.condition === 'between') {
+      newRule.value2 = rule.value2;
+    }
+    if (rule.condition === 'colorScale') {
+      newRule.minColor = rule.minColor;
+      newRule.maxColor = rule.maxColor;
+    } else {
+      newRule.style = {};
+      if (rule.style!.color !== undefined) {
+        newRule.style.color = rule.style!.color;
       }
-      if (value.isEditing) {
-        container.contributingUsers.push(user);
+      if (rule.style!.backgroundColor !== undefined) {
+        newRule.style.backgroundColor = rule.style!.backgroundColor;
+      }
+      if (rule.style!.bold !== undefined) {
+        newRule.style.bold = rule.style!.bold;
+      }
+    }
+    this._conditionalFormats.addRule(newRule);
+    this._changes.markChanged('document', ['conditionalRules']);
+    this.cellsChanged([], sheetName);
+  }
+
+  /**
+   * delete a conditional format rule
+   */
+  deleteConditionalRule(id: number): void {
+    this._errorOccurred = '';
+    if (this._conditionalFormats.getRule(id) === undefined) {
+      this._errorOccurred = `Rule ${id} does not exist`;
+      return;
+    }
+    const [sheetName] = Cell.splitSheetReference(this._conditionalFormats.getRule(id)!.range);
+    this._conditionalFormats.deleteRule(id);
+    this._changes.markChanged('document', ['conditionalRules']);
+    this.cellsChanged([], sheetName);
+  }
+
+  /**
+   * sort the rows of a range by one or more of its columns, the errors and the empty cells go last
+   *
+   * @param user the user, a range without a sheet is on the sheet they are shown
+   * @param rangeLabel the range, only its cells move
+   * @param keys the columns to sort by, the first one first
+   *
+   * the formulas move with their rows and their relative references move with them like a paste does,
+   * the formulas outside the range are not changed
+   */
+  sortRange(user: string, rangeLabel: string, keys: SortKey[]): void {
+    this._errorOccurred = '';
+    const userData = this._contributingUsers.get(user) ?? new ContributingUser('A1', this._workbook.getSheetNames()[0]);
+    const block = this.resolveBlock(userData, rangeLabel);
+    if (block === undefined) {
+      return;
+    }
+    const [sheetName, firstColumn, firstRow, lastColumn, lastRow] = block;
+    if (keys.length === 0) {
+      this._errorOccurred = 'Choose a column to sort by';
+      return;
+    }
+    const keyColumns = this.resolveColumns(keys.map((key) => key.column), rangeLabel, firstColumn, lastColumn);
+    if (keyColumns === undefined) {
+      return;
+    }
+    const sheet = this._workbook.getSheet(sheetName);
+    const label = (column: number, row: number) => Cell.qualifyLabel(sheetName, Cell.columnRowToCell(column, row));
+    for (let row = firstRow; row <= lastRow; row++) {
+      for (let column = firstColumn; column <= lastColumn; column++) {
+        if (this.isEditedByOtherUser(user, label(column, row))) {
+          return;
+        }
+      }
+    }
+
+    const keyCells: Cell[][] = [];
+    for (let row = firstRow; row <= lastRow; row++) {
+      keyCells.push(keyColumns.map((column) => this._workbook.getCellByLabel(label(column, row))));
+    }
+    const order = SortAndFilter.sortOrder(keyCells, keys.map((key) => key.descending === true)).map((index) => firstRow + index);
+
+    // the formulas are rewritten for the row they move to before the cells move
+    order.forEach((sourceRow, index) => {
+      const rowOffset = firstRow + index - sourceRow;
+      for (let column = firstColumn; column <= lastColumn && rowOffset !== 0; column++) {
+        const cell = this._workbook.getCellByLabel(label(column, sourceRow));
+        cell.setFormula(FormulaBuilder.shiftReferences(cell.getFormula(), 0, rowOffset,
+          sheet.getNumColumns(), sheet.getNumRows(), (sheetName) => this.getSheetSize(sheetName)));
       }
     });
-    return container;
+    sheet.reorderRows(firstColumn, lastColumn, order);
+
+    // the comments move with their cells
+    const newRows = new Map<number, number>(order.map((sourceRow, index) => [sourceRow, firstRow + index]));
+    this._comments.updateCellLabels((cellLabel) => {
+      const [commentSheet, commentCell] = Cell.splitSheetReference(cellLabel);
+      const [column, row] = Cell.cellToColumnRow(commentCell);
+      if (commentSheet !== sheetName || column < firstColumn || column > lastColumn || !newRows.has(row)) {
+        return cellLabel;
+      }
+      return label(column, newRows.get(row)!);
+    });
+    const inBlock = (cellLabel: string): [number, number] | undefined => {
+      const [cellSheet, cell] = Cell.splitSheetReference(cellLabel);
+      const [column, row] = Cell.cellToColumnRow(cell);
+      return cellSheet === sheetName && column >= firstColumn && column <= lastColumn && newRows.has(row) ? [column, row] : undefined;
+    };
+    this.moveHistoryAndClipboards(
+      (cellLabel) => {
+        const cell = inBlock(cellLabel);
+        return cell === undefined ? cellLabel : label(cell[0], newRows.get(cell[1])!);
+      },
+      (formula, cellLabel) => {
+        const cell = inBlock(cellLabel);
+        return cell === undefined ? formula : FormulaBuilder.shiftReferences(formula, 0, newRows.get(cell[1])! - cell[1],
+          sheet.getNumColumns(), sheet.getNumRows(), (sheetName) => this.getSheetSize(sheetName));
+      });
+    this.updateAfterLayoutChange();
   }
 
-  public sheetToJSON(): string {
-    return this._memory.sheetToJSON();
+  /**
+   * hide the rows of a range that do not pass every criterion, only the user has the rows hidden.
+   * A new filter takes the place of the one the user had
+   *
+   * @param user the user, a range without a sheet is on the sheet they are shown
+   * @param rangeLabel the rows to filter, a header above them is not part of the range
+   * @param criteria the checks on the columns of the range
+   */
+  setFilter(user: string, rangeLabel: string, criteria: FilterCriterion[]): void {
+    this._errorOccurred = '';
+    if (!this._contributingUsers.has(user)) {
+      this.requestViewAccess(user, 'A1');
+    }
+    const userData = this._contributingUsers.get(user)!;
+    const block = this.resolveBlock(userData, rangeLabel);
+    if (block === undefined) {
+      return;
+    }
+    const [sheetName, firstColumn, firstRow, lastColumn, lastRow] = block;
+    for (const criterion of criteria) {
+      const criterionError = SortAndFilter.checkCriterion(criterion);
+      if (criterionError !== '') {
+        this._errorOccurred = criterionError;
+        return;
+      }
+    }
+    if (this.resolveColumns(criteria.map((criterion) => criterion.column), rangeLabel, firstColumn, lastColumn) === undefined) {
+      return;
+    }
+    const range = Cell.columnRowToCell(firstColumn, firstRow) + ':' + Cell.columnRowToCell(lastColumn, lastRow);
+    userData.filter = {
+      range: Cell.qualifyLabel(sheetName, range),
+      criteria: criteria.map((criterion) => {
+        const copy: FilterCriterion = { column: criterion.column.toUpperCase(), condition: criterion.condition };
+        if (criterion.condition !== 'notBlank') {
+          copy.value = criterion.value;
+        }
+        return copy;
+      }),
+    };
   }
 
-  public updateSheetFromJSON(json: string): void {
-    this._memory.updateSheetFromJSON(json);
+  /**
+   * show the rows the filter of the user hides
+   */
+  clearFilter(user: string): void {
+    this._errorOccurred = '';
+    const userData = this._contributingUsers.get(user);
+    if (userData) {
+      userData.filter = undefined;
+    }
+  }
+
+  /**
+   * @returns the rows (0 based) of the sheet the user is shown that their filter hides
+   */
+  getHiddenRows(user: string): number[] {
+    const userData = this._contributingUsers.get(user);
+    const filter = userData?.filter;
+    if (!filter || Cell.splitSheetReference(filter.range)[0] !== userData!.viewSheet) {
+      return [];
+    }
+    const [sheetName, range] = Cell.splitSheetReference(filter.range);
+    const [start, end] = range.split(':');
+    const [firstRow, lastRow] = [Cell.cellToColumnRow(start)[1], Cell.cellToColumnRow(end)[1]];
+    const hiddenRows: number[] = [];
+    for (let row = firstRow; row <= lastRow; row++) {
+      const passes = filter.criteria.every((criterion) => {
+        const cellLabel = Cell.qualifyLabel(sheetName, criterion.column + Cell.rowNumberToName(row));
+        return SortAndFilter.matches(this._workbook.getCellByLabel(cellLabel), criterion);
+      });
+      if (!passes) {
+        hiddenRows.push(row);
+      }
+    }
+    return hiddenRows;
+  }
+
+  // the sheet, the first column and row and the last column and row of a cell or a range, if it is not
+  // in the workbook it is reported
+  private resolveBlock(userData: ContributingUser, rangeLabel: string): [string, number, number, number, number] | undefined {
+    const [sheetName, label] = this.resolveLabel(userData, Cell.removeAnchors(rangeLabel));
+    if (!this.checkSheetExists(sheetName)) {
+      return undefined;
+    }
+    const [start, end] = Cell.isValidRangeLabel(label) ? label.split(':') : [label, label];
+    if (!Cell.isValidCellLabel(start) || !this._workbook.hasCell(Cell.qualifyLabel(sheetName, start))
+      || !this._workbook.hasCell(Cell.qualifyLabel(sheetName, end))) {
+      this._errorOccurred = `Invalid cell ${rangeLabel}`;
+      return undefined;
+    }
+    const [startColumn, startRow] = Cell.cellToColumnRow(start);
+    const [endColumn, endRow] = Cell.cellToColumnRow(end);
+    return [sheetName, Math.min(startColumn, endColumn), Math.min(startRow, endRow),
+      Math.max(startColumn, endColumn), Math.max(startRow, endRow)];
+  }
+
+  // the numbers of columns named by their letters (B), a column outside the range is reported
+  private resolveColumns(columnNames: string[], rangeLabel: string, firstColumn: number, lastColumn: number): number[] | undefined {
+    const columns: number[] = [];
+    for (const columnName of columnNames) {
+      const column = typeof columnName === 'string' && /^[A-Za-z]+$/.test(columnName)
+        ? Cell.cellToColumnRow(columnName.toUpperCase() + '1')[0] : -1;
+      if (column < firstColumn || column > lastColumn) {
+        this._errorOccurred = `Column ${columnName} is not in the range ${rangeLabel}`;
+        return undefined;
+      }
+      columns.push(column);
+    }
+    return columns;
+  }
+
+  /**
+   * get the text of every cell of a sheet, row by row
+   * 
+   * @param sheetName the sheet
+   * @param contents values for what the cells show, formulas for what can be read back in (=A1 + 1)
+   * @returns the text of the cells, undefined if there is no such sheet
+   */
+  getSheetContents(sheetName: string, contents: "values" | "formulas"): string[][] | undefined {
+    if (!this._workbook.hasSheet(sheetName)) {
+      return undefined;
+    }
+    const sheet = this._workbook.getSheet(sheetName);
+    const rows: string[][] = [];
+    for (let row = 0; row < sheet.getNumRows(); row++) {
+      rows.push([]);
+      for (let column = 0; column < sheet.getNumColumns(); column++) {
+        const cell = sheet.getCellByLabel(Cell.columnRowToCell(column, row));
+        rows[row].push(contents === "values" ? cell.getDisplayString() : DelimitedText.formulaToText(cell.getFormula()));
+      }
+    }
+    return rows;
+  }
+
+  /**
+   * put the fields of delimited text into the cells, the first field goes into the cell of the label
+   * 
+   * @param user:string
+   * @param rows the text of the cells row by row, a field that starts with = is a formula
+   * @param cellLabel the top left cell, a label without a sheet name is on the sheet the user is shown
+   * 
+   * the sheet grows to hold all the rows and columns, a short row empties the rest of its cells.
+   * A cell that another user is editing is left alone and reported.
+   * An import is not recorded for undo, the history is cleared like after a change to the rows
+   */
+  importCells(user: string, rows: string[][], cellLabel: string): void {
+    this._errorOccurred = '';
+
+    const userData = this._contributingUsers.get(user)!;
+    const [sheetName, label] = this.resolveLabel(userData, cellLabel);
+    if (!this.checkSheetExists(sheetName)) {
+      return;
+    }
+    if (!Cell.isValidCellLabel(label)) {
+      this._errorOccurred = `Invalid cell ${cellLabel}`;
+      return;
+    }
+    const sheet = this._workbook.getSheet(sheetName);
+    const [firstColumn, firstRow] = Cell.cellToColumnRow(Cell.removeAnchors(label));
+    const width = rows.reduce((widest, row) => Math.max(widest, row.length), 0);
+    const names = this._workbook.getNames();
+    if (SheetMemory.checkSize(Math.max(firstColumn + width, sheet.getNumColumns()), Math.max(firstRow + rows.length, sheet.getNumRows())) !== '') {
+      this._errorOccurred = `The text does not fit, a sheet can have at most ${SheetMemory.maximumColumns} columns and ${SheetMemory.maximumRows} rows`;
+      return;
+    }
+
+    // the new rows and columns are added after the last ones so no reference has to move
+    if (firstRow + rows.length > sheet.getNumRows()) {
+      sheet.insertRows(sheet.getNumRows(), firstRow + rows.length - sheet.getNumRows());
+    }
+    if (firstColumn + width > sheet.getNumColumns()) {
+      sheet.insertColumns(sheet.getNumColumns(), firstColumn + width - sheet.getNumColumns());
+    }
+
+    rows.forEach((fields, row) => {
+      for (let column = 0; column < width; column++) {
+        const targetLabel = Cell.qualifyLabel(sheetName, Cell.columnRowToCell(firstColumn + column, firstRow + row));
+        if (this.isEditedByOtherUser(user, targetLabel)) {
+          continue;
+        }
+        this._workbook.getCellByLabel(targetLabel).setFormula(DelimitedText.textToFormula(fields[column] ?? "", names));
+      }
+    });
+
+    this.updateAfterLayoutChange();
+  }
+
+  /**
+   * add an empty sheet after the last sheet, it has the size of the first sheet
+   * 
+   * @param sheetName the name of the new sheet
+   */
+  addSheet(sheetName: string): void {
+    this._errorOccurred = '';
+    if (!this.checkNewSheetName(sheetName)) {
+      return;
+    }
+    const [columns, rows] = this.getSheetSize(this._workbook.getSheetNames()[0]);
+    this._workbook.addSheet(sheetName, columns, rows);
+
+    // a formula could already refer to the new sheet
+    this._calculationManager.evaluateSheet(this._workbook);
+    this.workbookChanged();
+  }
+
+  /**
+   * rename a sheet, the formulas that refer to it follow the new name
+   * 
+   * @param sheetName the sheet to rename
+   * @param newSheetName the new name
+   */
+  renameSheet(sheetName: string, newSheetName: string): void {
+    this._errorOccurred = '';
+    if (!this.checkSheetExists(sheetName) || sheetName === newSheetName || !this.checkNewSheetName(newSheetName)) {
+      return;
+    }
+    this._workbook.renameSheet(sheetName, newSheetName);
+    this._comments.updateCellLabels((cellLabel) => {
+      const [commentSheet, label] = Cell.splitSheetReference(cellLabel);
+      return commentSheet === sheetName ? Cell.qualifyLabel(newSheetName, label) : cellLabel;
+    });
+    this._conditionalFormats.updateRanges((range) => FormulaBuilder.replaceSheetReferences([range], sheetName, newSheetName)[0]);
+
+    this._contributingUsers.forEach((userData: ContributingUser) => {
+      if (userData.sheetName === sheetName) {
+        userData.sheetName = newSheetName;
+      }
+      if (userData.viewSheet === sheetName) {
+        userData.viewSheet = newSheetName;
+      }
+      if (userData.filter) {
+        userData.filter = { ...userData.filter, range: FormulaBuilder.replaceSheetReferences([userData.filter.range], sheetName, newSheetName)[0] };
+      }
+    });
+    this.moveHistoryAndClipboards(
+      (cellLabel) => {
+        const [cellSheet, label] = Cell.splitSheetReference(cellLabel);
+        return cellSheet === sheetName ? Cell.qualifyLabel(newSheetName, label) : cellLabel;
+      },
+      (formula) => FormulaBuilder.replaceSheetReferences(formula, sheetName, newSheetName));
+    this.updateAfterLayoutChange();
+  }
+
+  /**
+   * move a sheet to another position in the tabs
+   * 
+   * @param sheetName the sheet to move
+   * @param index the position of the sheet after the move (0 based)
+   */
+  moveSheet(sheetName: string, index: number): void {
+    this._errorOccurred = '';
+    if (!this.checkSheetExists(sheetName)) {
+      return;
+    }
+    if (!Number.isInteger(index) || index < 0 || index >= this._workbook.getSheetNames().length) {
+      this._errorOccurred = `Invalid sheet position ${index}`;
+      return;
+    }
+    this._workbook.moveSheet(sheetName, index);
+    this._changes.markChanged('document', ['sheets']);
+  }
+
+  /**
+   * delete a sheet, the references to its cells become #REF!
+   * 
+   * @param sheetName the sheet to delete
+   * 
+   * the users on the sheet stop editing and look at the first cell of the first sheet
+   */
+  deleteSheet(sheetName: string): void {
+    this._errorOccurred = '';
+    if (!this.checkSheetExists(sheetName)) {
+      return;
+    }
+    if (this._workbook.getSheetNames().length === 1) {
+      this._errorOccurred = 'The document must keep at least one sheet';
+      return;
+    }
+    this._workbook.deleteSheet(sheetName);
+    this._comments.updateCellLabels((cellLabel) => Cell.splitSheetReference(cellLabel)[0] === sheetName ? undefined : cellLabel);
+    this._conditionalFormats.updateRanges((range) => Cell.splitSheetReference(range)[0] === sheetName ? undefined : range);
+
+    const firstSheet = this._workbook.getSheetNames()[0];
+    this._contributingUsers.forEach((userData: ContributingUser) => {
+      if (userData.sheetName === sheetName) {
+        userData.sheetName = firstSheet;
+        userData.cellLabel = 'A1';
+        userData.isEditing = false;
+      }
+      if (userData.viewSheet === sheetName) {
+        userData.viewSheet = userData.sheetName;
+      }
+      if (userData.filter && Cell.splitSheetReference(userData.filter.range)[0] === sheetName) {
+        userData.filter = undefined;
+      }
+    });
+    this.moveHistoryAndClipboards(
+      (cellLabel) => Cell.splitSheetReference(cellLabel)[0] === sheetName ? undefined : cellLabel,
+      (formula) => FormulaBuilder.replaceSheetReferences(formula, sheetName, undefined));
+    this.updateAfterLayoutChange();
+  }
+
+  /**
+   * show a sheet to the user
+   * 
+   * @param user:string
+   * @param sheetName the sheet to show
+   * 
+   * a user who is editing stays on their cell, the cells they click on the sheet they
+   * are shown are added to the formula as references to that sheet.
+   * A user who is not editing moves to the first cell of the sheet
+   */
+  selectSheet(user: string, sheetName: string): void {
+    this._errorOccurred = '';
+    if (!this.checkSheetExists(sheetName)) {
+      return;
+    }
+    if (!this._contributingUsers.has(user)) {
+      this.requestViewAccess(user, Cell.qualifyLabel(sheetName, 'A1'));
+      return;
+    }
+    const userData = this._contributingUsers.get(user)!;
+    if (userData.isEditing) {
+      userData.viewSheet = sheetName;
+    } else {
+      this.requestViewAccess(user, Cell.qualifyLabel(sheetName, 'A1'));
+    }
+  }
+
+  /**
+   * @returns the names of the sheets in the order of the tabs
+   */
+  getSheetNames(): string[] {
+    return this._workbook.getSheetNames();
+  }
+
+  /**
+   * @returns the sheet that the user is shown, the first sheet for a new user
+   */
+  getSheetNameForUser(user: string): string {
+    return this._contributingUsers.get(user)?.viewSheet ?? this._workbook.getSheetNames()[0];
+  }
+
+  // check that a sheet exists, if not report it
+  private checkSheetExists(sheetName: string): boolean {
+    if (!this._workbook.hasSheet(sheetName)) {
+      this._errorOccurred = `Sheet ${sheetName} does not exist`;
+      return false;
+    }
+    return true;
+  }
+
+  // check that a name can be given to a new sheet, if not report why
+  private checkNewSheetName(sheetName: string): boolean {
+    if (!Cell.isValidSheetName(sheetName)) {
+      this._errorOccurred = `Invalid sheet name ${sheetName}`;
+      return false;
+    }
+    if (this._workbook.hasSheet(sheetName)) {
+      this._errorOccurred = `Sheet ${sheetName} already exists`;
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * give a name to a cell, a range or a constant, the formulas can use the name
+   * 
+   * @param user:string
+   * @param name the name, TaxRate
+   * @param definition a cell or a range (B1, C2:C40, Summary!B2) on the sheet the user is shown
+   * unless it names its sheet, or a constant (0.2, "EU", TRUE)
+   */
+  defineName(user: string, name: string, definition: string): void {
+    this._errorOccurred = '';
+    if (!this.checkNewName(name)) {
+      return;
+    }
+    const token = this.resolveNameDefinition(this._contributingUsers.get(user)!, definition);
+    if (token === undefined) {
+      return;
+    }
+    this._workbook.defineName(name, token);
+
+    // the formulas could already use the name
+    this._calculationManager.evaluateSheet(this._workbook);
+    this.workbookChanged();
+  }
+
+  /**
+   * rename a name, the formulas that use it are rewritten to the new name
+   */
+  renameName(name: string, newName: string): void {
+    this._errorOccurred = '';
+    if (!this.checkNameExists(name)) {
+      return;
+    }
+    // the case of a name can be changed
+    if (!this.checkNewName(newName, name)) {
+      return;
+    }
+    this._workbook.renameName(name, newName);
+    this.moveHistoryAndClipboards(
+      (cellLabel) => cellLabel,
+      (formula) => formula.map((token) => token === name ? newName : token));
+    this.updateAfterLayoutChange();
+  }
+
+  /**
+   * delete a name, the formulas that use it show #NAME? until it is defined again
+   */
+  deleteName(name: string): void {
+    this._errorOccurred = '';
+    if (!this.checkNameExists(name)) {
+      return;
+    }
+    this._workbook.deleteName(name);
+    this._calculationManager.evaluateSheet(this._workbook);
+    this.workbookChanged();
+  }
+
+  /**
+   * @returns the names of the document in alphabetical order with what they stand for
+   */
+  getNames(): NameTransport[] {
+    return this._workbook.getNames().map((name) => {
+      return { name: name, definition: this.displayLabel(this._workbook.getNameDefinition(name)!) };
+    });
+  }
+
+  /**
+   * @returns the comments on the cells of a sheet, their cells are labelled without the sheet
+   */
+  getComments(sheetName: string): CommentTransport[] {
+    return this._comments.getComments()
+      .filter((comment) => Cell.splitSheetReference(comment.cell)[0] === sheetName)
+      .map((comment) => {
+        return { ...comment, cell: Cell.splitSheetReference(comment.cell)[1] };
+      });
+  }
+
+  /**
+   * start a discussion on a cell
+   *
+   * @param user the author
+   * @param cellLabel the cell, a label without a sheet is on the sheet the user is shown
+   * @param text the comment
+   */
+  addComment(user: string, cellLabel: string, text: string): void {
+    this._errorOccurred = '';
+    if (!this.checkCommentText(text)) {
+      return;
+    }
+    const userData = this._contributingUsers.get(user) ?? new ContributingUser('A1', this._workbook.getSheetNames()[0]);
+    const cellKey = Cell.qualifyLabel(...this.resolveLabel(userData, cellLabel));
+    if (!this._workbook.hasCell(cellKey)) {
+      this._errorOccurred = `Invalid cell ${cellLabel}`;
+      return;
+    }
+    this._comments.addComment(cellKey, user, text.trim());
+    this._changes.markChanged('document', ['comments']);
+  }
+
+  /**
+   * add a reply to the discussion of a comment
+   */
+  replyToComment(user: string, id: number, text: string): void {
+    this._errorOccurred = '';
+    if (!this.checkCommentExists(id) || !this.checkCommentText(text)) {
+      return;
+    }
+    this._comments.addReply(id, user, text.trim());
+    this._changes.markChanged('document', ['comments']);
+  }
+
+  /**
+   * resolve the discussion of a comment or open it again
+   */
+  resolveComment(id: number, resolved: boolean): void {
+    this._errorOccurred = '';
+    if (!this.checkCommentExists(id)) {
+      return;
+    }
+    this._comments.setResolved(id, resolved);
+    this._changes.markChanged('document', ['comments']);
+  }
+
+  /**
+   * delete a comment and its replies, only its author and the owner of the document can
+   */
+  deleteComment(user: string, id: number): void {
+    this._errorOccurred = '';
+    if (!this.checkCommentExists(id)) {
+      return;
+    }
+    if (this._comments.getComment(id)!.author !== user && this.getRole(user) !== 'owner') {
+      this._errorOccurred = 'Only the author or the owner can delete this comment';
+      return;
+    }
+    this._comments.deleteComment(id);
+    this._changes.markChanged('document', ['comments']);
+  }
+
+  // check that there is a comment with the id, if not report it
+  private checkCommentExists(id: number): boolean {
+    if (this._comments.getComment(id) === undefined) {
+      this._errorOccurred = `Comment ${id} does not exist`;
+      return false;
+    }
+    return true;
+  }
+
+  // check that a comment or a reply has some text, if not report it
+  private checkCommentText(text: string): boolean {
+    if (text.trim() === '') {
+      this._errorOccurred = 'A comment needs some text';
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * make the user the owner of a new document, no other user can open it until it is shared
+   */
+  setOwner(user: string): void {
+    this._access = new Map<string, DocumentRole>([[user, 'owner']]);
+  }
+
+  /**
+   * make the user the owner of a document that has no owner, the users who have it open
+   * keep editing it, every other user needs the owner to share it with them
+   */
+  claimOwnership(user: string): void {
+    this._errorOccurred = '';
+    if (this._access.size > 0) {
+      this._errorOccurred = 'This document already has an owner';
+      return;
+    }
+    this._access = new Map<string, DocumentRole>([[user, 'owner']]);
+    this._contributingUsers.forEach((userData: ContributingUser, contributingUser: string) => {
+      if (contributingUser !== user) {
+        this._access.set(contributingUser, 'editor');
+      }
+    });
+  }
+
+  /**
+   * @returns the role of the user, editor for every user if the document has no owner yet,
+   * undefined if the document is not shared with the user
+   */
+  getRole(user: string): DocumentRole | undefined {
+    if (this._access.size === 0) {
+      return 'editor';
+    }
+    return this._access.get(user);
+  }
+
+  /**
+   * @returns the users the document is shared with and their roles, the owner first
+   */
+  getAccess(): AccessTransport[] {
+    return Array.from(this._access, ([user, role]) => {
+      return { user: user, role: role };
+    }).sort((a, b) => (a.role === 'owner' ? -1 : b.role === 'owner' ? 1 : a.user.localeCompare(b.user)));
+  }
+
+  /**
+   * @returns true if the user can change the document, otherwise the error is reported
+   */
+  checkCanEdit(user: string): boolean {
+    const role = this.getRole(user);
+    if (role === 'owner' || role === 'editor') {
+      return true;
+    }
+    this._errorOccurred = `${user} can only view this document`;
+    return false;
+  }
+
+  /**
+   * give a user access to the document
+   *
+   * @param owner the user who shares the document, only the owner can
+   * @param user the user the document is shared with
+   * @param role editor or viewer
+   */
+  shareDocument(owner: string, user: string, role: string): void {
+    this._errorOccurred = '';
+    if (!this.checkOwner(owner) || !this.checkSharedRole(role)) {
+      return;
+    }
+    if (this._access.has(user)) {
+      this._errorOccurred = `${user} already has access to this document`;
+      return;
+    }
+    this._access.set(user, role as DocumentRole);
+  }
+
+  /**
+   * change the role of a user the document is shared with, a user who becomes a viewer stops editing
+   */
+  changeAccess(owner: string, user: string, role: string): void {
+    this._errorOccurred = '';
+    if (!this.checkOwner(owner) || !this.checkSharedUser(user) || !this.checkSharedRole(role)) {
+      return;
+    }
+    this._access.set(user, role as DocumentRole);
+    if (role === 'viewer') {
+      this.stopEditing(user);
+    }
+  }
+
+  /**
+   * stop sharing the document with a user
+   */
+  revokeAccess(owner: string, user: string): void {
+    this._errorOccurred = '';
+    if (!this.checkOwner(owner) || !this.checkSharedUser(user)) {
+      return;
+    }
+    this._access.delete(user);
+    this.stopEditing(user);
+  }
+
+  // check that the user owns the document, if not report it
+  private checkOwner(user: string): boolean {
+    if (this._access.get(user) !== 'owner') {
+      this._errorOccurred = 'Only the owner can share this document';
+      return false;
+    }
+    return true;
+  }
+
+  // check that the document is shared with the user and they are not the owner, if not report it
+  private checkSharedUser(user: string): boolean {
+    if (!this._access.has(user)) {
+      this._errorOccurred = `${user} does not have access to this document`;
+      return false;
+    }
+    if (this._access.get(user) === 'owner') {
+      this._errorOccurred = 'The owner keeps their access to this document';
+      return false;
+    }
+    return true;
+  }
+
+  // check that the role can be given when sharing, if not report it
+  private checkSharedRole(role: string): boolean {
+    if (role !== 'editor' && role !== 'viewer') {
+      this._errorOccurred = `Invalid role ${role}, use editor or viewer`;
+      return false;
+    }
+    return true;
+  }
+
+  // release the cell the user is editing, if they are using the document
+  private stopEditing(user: string): void {
+    const userData = this._contributingUsers.get(user);
+    if (userData) {
+      this.releaseEditAccess(user);
+      userData.isEditing = false;
+    }
+  }
+
+  // check that a name exists, if not report it
+  private checkNameExists(name: string): boolean {
+    if (this._workbook.getNameDefinition(name) === undefined) {
+      this._errorOccurred = `Name ${name} does not exist`;
+      return false;
+    }
+    return true;
+  }
+
+  // check that a name can be given to a new definition, the names are unique without regard to case
+  // the name that is being renamed does not count
+  private checkNewName(name: string, renamedName: string = ""): boolean {
+    if (!FormulaTokenizer.isValidName(name)) {
+      this._errorOccurred = `Invalid name ${name}`;
+      return false;
+    }
+    if (this._workbook.getNames().some((definedName) => definedName !== renamedName && definedName.toUpperCase() === name.toUpperCase())) {
+      this._errorOccurred = `Name ${name} already exists`;
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * turn the definition of a name into the token that is stored for it
+   * 
+   * @returns the reference with the name of its sheet (Sheet1!C2:C40) or the constant,
+   * undefined if the definition is not a cell, a range or a constant and the error is reported
+   */
+  private resolveNameDefinition(userData: ContributingUser, definition: string): string | undefined {
+    let tokens: FormulaType = [];
+    try {
+      tokens = FormulaTokenizer.tokenize(definition);
+    } catch (error) {
+      // reported below
+    }
+    // a negative constant is typed as a minus and a number
+    if (tokens.length === 2 && tokens[0] === "-" && !isNaN(Number(tokens[1]))) {
+      tokens = ["-" + tokens[1]];
+    }
+    const token = tokens.length === 1 ? tokens[0] : "";
+
+    if (Cell.isValidReference(token) || Cell.isValidRangeReference(token)) {
+      const [sheetName, reference] = this.resolveLabel(userData, token);
+      const cells = reference.split(":").map((label) => Cell.qualifyLabel(sheetName, Cell.removeAnchors(label)));
+      if (!cells.every((label) => this._workbook.hasCell(label))) {
+        this._errorOccurred = `Invalid definition ${definition}, the cells are not in the document`;
+        return undefined;
+      }
+      return Cell.qualifyLabel(sheetName, reference);
+    }
+    const isConstant = token !== "" && (!isNaN(Number(token)) || token === "TRUE" || token === "FALSE" || token.startsWith('"'));
+    if (!isConstant) {
+      this._errorOccurred = `Invalid definition ${definition}`;
+      return undefined;
+    }
+    return token;
+  }
+
+  /**
+   * insert empty rows
+   * 
+   * @param index the row the new rows are inserted at (0 based), the rows from there on move down
+   * @param count the number of rows to insert
+   * @param sheetName the sheet to change, the first sheet by default
+   */
+  insertRows(index: number, count: number, sheetName: string = this._workbook.getSheetNames()[0]): void {
+    this.changeStructure("row", index, count, sheetName);
+  }
+
+  /**
+   * delete rows, the references to the deleted cells become #REF!
+   * 
+   * @param index the first row to delete (0 based)
+   * @param count the number of rows to delete
+   * @param sheetName the sheet to change, the first sheet by default
+   */
+  deleteRows(index: number, count: number, sheetName: string = this._workbook.getSheetNames()[0]): void {
+    this.changeStructure("row", index, -count, sheetName);
+  }
+
+  /**
+   * insert empty columns
+   * 
+   * @param index the column the new columns are inserted at (0 based), the columns from there on move right
+   * @param count the number of columns to insert
+   * @param sheetName the sheet to change, the first sheet by default
+   */
+  insertColumns(index: number, count: number, sheetName: string = this._workbook.getSheetNames()[0]): void {
+    this.changeStructure("column", index, count, sheetName);
+  }
+
+  /**
+   * delete columns, the references to the deleted cells become #REF!
+   * 
+   * @param index the first column to delete (0 based)
+   * @param count the number of columns to delete
+   * @param sheetName the sheet to change, the first sheet by default
+   */
+  deleteColumns(index: number, count: number, sheetName: string = this._workbook.getSheetNames()[0]): void {
+    this.changeStructure("column", index, -count, sheetName);
+  }
+
+  /**
+   * insert (count > 0) or delete (count < 0) rows or columns
+   * 
+   * every formula in the workbook that points at a cell that moved is rewritten to the new address,
+   * the users move with their cells and the workbook is evaluated again
+   */
+  private changeStructure(dimension: "row" | "column", index: number, count: number, sheetName: string): void {
+    this._errorOccurred = '';
+
+    if (!this.checkSheetExists(sheetName)) {
+      return;
+    }
+    const sheet = this._workbook.getSheet(sheetName);
+    const size = dimension === "row" ? sheet.getNumRows() : sheet.getNumColumns();
+    const lastIndex = count > 0 ? size : size + count;
+    if (!Number.isInteger(index) || !Number.isInteger(count) || count === 0 || index < 0 || index > lastIndex) {
+      this._errorOccurred = `Invalid ${dimension} position ${index}`;
+      return;
+    }
+    if (size + count < 1) {
+      this._errorOccurred = `The sheet must keep at least one ${dimension}`;
+      return;
+    }
+    const maximum = dimension === "row" ? SheetMemory.maximumRows : SheetMemory.maximumColumns;
+    if (size + count > maximum) {
+      this._errorOccurred = `A sheet can have at most ${maximum} ${dimension}s`;
+      return;
+    }
+
+    if (dimension === "row" && count > 0) {
+      sheet.insertRows(index, count);
+    } else if (dimension === "row") {
+      sheet.deleteRows(index, -count);
+    } else if (count > 0) {
+      sheet.insertColumns(index, count);
+    } else {
+      sheet.deleteColumns(index, -count);
+    }
+
+    // rewrite the references to the sheet in every formula, the other sheets can refer to it
+    for (const label of this._workbook.getCellLabels()) {
+      const [formulaSheet] = Cell.splitSheetReference(label);
+      const cell = this._workbook.getCellByLabel(label);
+      cell.setFormula(FormulaBuilder.adjustReferences(cell.getFormula(), dimension, index, count, sheetName, formulaSheet));
+    }
+    this._workbook.updateNameDefinitions((definition) => FormulaBuilder.adjustReferences([definition], dimension, index, count, sheetName)[0]);
+    this._comments.updateCellLabels((cellLabel) => {
+      const [label] = FormulaBuilder.adjustReferences([cellLabel], dimension, index, count, sheetName);
+      return label === ErrorMessages.invalidCell ? undefined : label;
+    });
+    this._conditionalFormats.updateRanges((range) => {
+      const [newRange] = FormulaBuilder.adjustReferences([range], dimension, index, count, sheetName);
+      return newRange === ErrorMessages.invalidCell ? undefined : newRange;
+    });
+
+    // the filters follow their rows and columns, a filter whose rows are all deleted is dropped
+    // and so is a criterion whose column is deleted
+    this._contributingUsers.forEach((userData: ContributingUser) => {
+      const filter = userData.filter;
+      if (!filter) {
+        return;
+      }
+      const [range] = FormulaBuilder.adjustReferences([filter.range], dimension, index, count, sheetName);
+      const filterSheet = Cell.splitSheetReference(filter.range)[0];
+      const criteria: FilterCriterion[] = [];
+      for (const criterion of filter.criteria) {
+        const [label] = FormulaBuilder.adjustReferences([criterion.column + '1'], dimension, index, count, sheetName, filterSheet);
+        if (label !== ErrorMessages.invalidCell) {
+          criteria.push({ ...criterion, column: label.replace(/[0-9]+$/, '') });
+        }
+      }
+      userData.filter = range === ErrorMessages.invalidCell ? undefined : { range: range, criteria: criteria };
+    });
+
+    // the users follow their cells, a user whose cell was deleted stops editing
+    // and looks at the cell that took its place
+    this._contributingUsers.forEach((userData: ContributingUser) => {
+      if (userData.sheetName !== sheetName) {
+        return;
+      }
+      let [label] = FormulaBuilder.adjustReferences([userData.cellLabel], dimension, index, count);
+      if (label === ErrorMessages.invalidCell) {
+        let [column, row] = Cell.cellToColumnRow(userData.cellLabel);
+        column = Math.min(column, sheet.getNumColumns() - 1);
+        row = Math.min(row, sheet.getNumRows() - 1);
+        label = Cell.columnRowToCell(column, row);
+        userData.isEditing = false;
+      }
+      userData.cellLabel = label;
+    });
+
+    this.moveHistoryAndClipboards(
+      (cellLabel) => {
+        const [label] = FormulaBuilder.adjustReferences([cellLabel], dimension, index, count, sheetName);
+        return label === ErrorMessages.invalidCell ? undefined : label;
+      },
+      (formula, cellLabel) => FormulaBuilder.adjustReferences(formula, dimension, index, count, sheetName, Cell.splitSheetReference(cellLabel)[0]));
+    this.updateAfterLayoutChange();
+  }
+
+  /**
+   * move the operations in the history of every user and the cells they copied with their cells,
+   * so that a change to the layout by one user does not take the undo of the others
+   * 
+   * @param moveCell gives the new label of a cell (Sheet1!A1), undefined if the cell was deleted
+   * @param rewriteFormula rewrites a formula that was in the cell the way the formulas of the workbook were rewritten,
+   * the cell has its label from before the change
+   */
+  private moveHistoryAndClipboards(moveCell: (cellLabel: string) => string | undefined,
+    rewriteFormula: (formula: FormulaType, cellLabel: string) => FormulaType): void {
+    this._history.updateOperations((operation) => {
+      const cellLabel = moveCell(operation.cellLabel);
+      if (cellLabel === undefined) {
+        return undefined;
+      }
+      return {
+        cellLabel: cellLabel,
+        formulaBefore: rewriteFormula(operation.formulaBefore, operation.cellLabel),
+        formulaAfter: rewriteFormula(operation.formulaAfter, operation.cellLabel),
+      };
+    });
+    this._contributingUsers.forEach((userData: ContributingUser) => {
+      const clipboard = userData.clipboard;
+      if (clipboard) {
+        const cellLabel = moveCell(clipboard.cellLabel);
+        userData.clipboard = cellLabel === undefined ? undefined : { cellLabel: cellLabel, formula: rewriteFormula(clipboard.formula, clipboard.cellLabel) };
+      }
+    });
+  }
+
+  /**
+   * bring the edited cells, the formula builders and the values up to date
+   * after rows, columns, sheets or many cells have changed, the users must already be on cells that exist
+   */
+  private updateAfterLayoutChange(): void {
+    this._cellsBeingEdited.clear();
+    this._contributingUsers.forEach((userData: ContributingUser, user: string) => {
+      if (userData.isEditing) {
+        this._cellsBeingEdited.set(this.userCell(userData), user);
+      }
+      userData.formulaBuilder.setFormula(this._workbook.getCellByLabel(this.userCell(userData)).getFormula());
+    });
+
+    this._calculationManager.evaluateSheet(this._workbook);
+    this.workbookChanged();
+  }
+
+  // the label of the cell of a user with the name of its sheet (Sheet1!A1)
+  private userCell(userData: ContributingUser): string {
+    return Cell.qualifyLabel(userData.sheetName, userData.cellLabel);
+  }
+
+  // the label of a cell in a message, the sheet is only named when there is more than one
+  private displayLabel(cellLabel: string): string {
+    return this._workbook.getSheetNames().length > 1 ? cellLabel : Cell.splitSheetReference(cellLabel)[1];
+  }
+
+  // the sheet and the cell of a label, a label without a sheet name is on the sheet the user is shown
+  private resolveLabel(userData: ContributingUser, label: string): [string, string] {
+    const [sheetName, cellLabel] = Cell.splitSheetReference(label);
+    return [sheetName === "" ? userData.viewSheet : sheetName, cellLabel];
+  }
+
+  /**
+   * check if another user is editing the cell, if so report who it is
+   */
+  private isEditedByOtherUser(user: string, cellLabel: string): boolean {
+    const editor = this._cellsBeingEdited.get(cellLabel);
+    if (editor && editor !== user) {
+      this._errorOccurred = `Cell is being edited by ${editor}`;
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * check that the cell still holds the formula the user left in it
+   * 
+   * if it does not then replaying the operation would overwrite a colleague's work
+   */
+  private cellHoldsFormula(cellLabel: string, expectedFormula: FormulaType): boolean {
+    const currentFormula = this._workbook.getCellByLabel(cellLabel).getFormula();
+    if (!SpreadSheetController.sameFormula(currentFormula, expectedFormula)) {
+      this._errorOccurred = `Cell ${this.displayLabel(cellLabel)} has been changed by another user`;
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * store the new formula of the cell a user is editing and record the change for undo
+   */
+  private commitFormula(user: string, cellLabel: string, formula: FormulaType): void {
+    const formulaBefore = [...this._workbook.getCellByLabel(cellLabel).getFormula()];
+    if (SpreadSheetController.sameFormula(formulaBefore, formula)) {
+      return;
+    }
+
+    this._history.recordOperation(user, {
+      cellLabel: cellLabel,
+      formulaBefore: formulaBefore,
+      formulaAfter: [...formula],
+    });
+    this.applyFormula(cellLabel, formula);
+  }
+
+  private static sameFormula(first: FormulaType, second: FormulaType): boolean {
+    return first.length === second.length && first.every((token, index) => token === second[index]);
+  }
+
+  /**
+   * set the formula of a cell and re-evaluate it
+   * 
+   * the formula builders of the users editing the cell are kept in step with it
+   */
+  private applyFormula(cellLabel: string, formula: FormulaType): void {
+    let cell = this._workbook.getCellByLabel(cellLabel);
+    cell.setFormula(formula);
+    this._workbook.setCellByLabel(cellLabel, cell);
+
+    this._contributingUsers.forEach((userData: ContributingUser) => {
+      if (this.userCell(userData) === cellLabel) {
+        userData.formulaBuilder.setFormula(formula);
+      }
+    });
+
+    // only the edited cell and the cells that depend on it are re-evaluated
+    this.cellsChanged(this._calculationManager.evaluateCell(cellLabel, this._workbook));
+  }
+
+  /**
+   * 
+   * get the formula string for the user.  
+   * 
+   * The formula string is the cell that the user is editing or watching
+   * 
+   * @param user:string
+   * 
+   * @returns the formula as a string
+   */
+  getFormulaStringForUser(user: string): string {
+    const userData = this._contributingUsers.get(user);
+
+    // get the data from the cell, it is the authority
+    const cell = this._workbook.getCellByLabel(this.userCell(userData!));
+    // update the formulaBuilder (if this is a watcher then it updates from the cell)
+    userData!.formulaBuilder.setFormula(cell.getFormula());
+    const formula = userData!.formulaBuilder.getFormulaString();
+    return formula;
+  }
+
+  /**
+   * Get the result string for the user
+   * 
+   * @param user:string
+   * 
+   * @returns the formula as a value:string
+   */
+  getResultStringForUser(user: string): string {
+    const userEditing = this._contributingUsers.get(user);
+
+    let cell = this._workbook.getCellByLabel(this.userCell(userEditing!));
+    let displayString = cell.getDisplayString();
+
+    return displayString;
+  }
+
+
+  /**
+   * get the current cell label
+   * 
+   * @returns the current cell label
+   * 
+   */
+  getWorkingCellLabel(user: string): string {
+    const userEditing = this._contributingUsers.get(user);
+
+    return userEditing!.cellLabel;
+
+  }
+
+
+  /**
+   * the document as the user is shown it, with the revision it is at
+   *
+   * @param user the user, a new user is given view access to A1
+   * @returns the cells of the sheet the user is shown and the state of the user
+   */
+  public documentContainer(user: string): any {
+    // if the user is not a contributing user we request view access to A1
+    if (!this._contributingUsers.has(user)) {
+      this.requestViewAccess(user, 'A1');
+    }
+    this.trackUsers();
+    this.trackPresence(Date.now());
+    return this.userContainer(user, undefined);
+  }
+
+  /**
+   * the document as the user is shown it with all the cells of the sheet or only some of them,
+   * the user must have the document open and the users must be tracked
+   *
+   * @param labels the cells of the sheet that is shown to send (A1), undefined for all of them
+   */
+  private userContainer(user: string, labels: string[] | undefined): any {
+    let userData = this._contributingUsers.get(user)!;
+
+    // the cells of the sheet the user is shown, the tabs and the sheet of the current cell
+    const sheet = this._workbook.getSheet(userData.viewSheet);
+    let container = labels === undefined ? sheet.sheetContainer() : sheet.cellsContainer(labels);
+    // the styles of the conditional format rules go with the cells so a change of style is a change of the cell
+    const styles = this.getStyles(userData.viewSheet);
+    for (const label in container.cells) {
+      if (styles.has(label)) {
+        container.cells[label].style = styles.get(label);
+      }
+    }
+    container.sheets = this._workbook.getSheetNames();
+    container.sheet = userData.viewSheet;
+    container.currentSheet = userData.sheetName;
+    container.names = this.getNames();
+
+    let cellFocused = userData.cellLabel;
+    container.currentCell = cellFocused;
+    container.formula = this.getFormulaStringForUser(user);
+    container.result = this.getResultStringForUser(user);
+    container.isEditing = userData.isEditing;
+    container.role = this.getRole(user);
+
+    // add the error message if there is one, else the notice for the user
+    container.errorOccurred = this._errorOccurred;
+    if (container.errorOccurred === '') {
+      container.errorOccurred = userData.notice;
+      userData.notice = '';
+    }
+    // reset the error since we only report it once
+    this._errorOccurred = '';
+
+    // only the users editing a cell of the sheet that is shown
+    container.contributingUsers = [];
+    this._contributingUsers.forEach((value: ContributingUser, key: string) => {
+      let user = {
+        user: key,
+        cell: value.cellLabel,
+        isEditing: value.isEditing
+      }
+      if (value.isEditing && value.sheetName === userData.viewSheet) {
+        container.contributingUsers.push(user);
+      }
+    });
+
+    container.presence = this.getPresence();
+    container.comments = this.getComments(userData.viewSheet);
+    container.conditionalRules = this.getConditionalRules(userData.viewSheet);
+    container.hiddenRows = this.getHiddenRows(user);
+    if (userData.filter && Cell.splitSheetReference(userData.filter.range)[0] === userData.viewSheet) {
+      container.filter = { ...userData.filter, range: Cell.splitSheetReference(userData.filter.range)[1] };
+    }
+    container.revision = this._changes.revision;
+    container.isDelta = false;
+    container.removedUsers = [];
+    return container;
+  }
+
+  /**
+   * the parts of the document the user is shown that changed after the revision they have
+   *
+   * @param user the user
+   * @param sinceRevision the revision the user has, undefined if they have none
+   * @returns the whole document if the revision is not known or the user is shown another sheet
+   * than they were at that revision, the document with only the changed cells and editors,
+   * or undefined if nothing changed.  Only the cells that changed are looked at
+   */
+  public documentDelta(user: string, sinceRevision: number | undefined): any | undefined {
+    if (!this._contributingUsers.has(user)) {
+      this.requestViewAccess(user, 'A1');
+    }
+    const userData = this._contributingUsers.get(user)!;
+    this.trackUsers();
+    this.trackPresence(Date.now());
+    if (sinceRevision === undefined || !this._changes.isKnown(sinceRevision)
+      || this._changes.changedSince('views', sinceRevision).includes(user)
+      || this._changes.allChangedSince('cells', sinceRevision)) {
+      return this.userContainer(user, undefined);
+    }
+    // the error and the notice are only sent once
+    if (sinceRevision === this._changes.revision && this._errorOccurred === '' && userData.notice === '') {
+      return undefined;
+    }
+
+    const changedCells = this._changes.changedSince('cells', sinceRevision)
+      .map((cellLabel) => Cell.splitSheetReference(cellLabel))
+      .filter(([sheetName]) => sheetName === userData.viewSheet)
+      .map(([, label]) => label);
+    const container = this.userContainer(user, changedCells);
+
+    // the users that changed are sent again if they are editing, the others are removed
+    const changedUsers = this._changes.changedSince('users', sinceRevision);
+    container.removedUsers = changedUsers.filter((changedUser) => !container.contributingUsers.some(
+      (editor: any) => editor.user === changedUser));
+    container.contributingUsers = container.contributingUsers.filter((editor: any) => changedUsers.includes(editor.user));
+    container.isDelta = true;
+    return container;
+  }
+
+  /**
+   * @returns the revision of the latest change the clients have been shown
+   */
+  public getDocumentRevision(): number {
+    return this._changes.revision;
+  }
+
+  /**
+   * mark the cells that changed, the cells whose conditional style changed with them are marked too
+   *
+   * @param cellLabels the cells with their sheets (Sheet1!A1)
+   * @param sheetName a sheet whose styles could have changed without any of its cells changing
+   */
+  private cellsChanged(cellLabels: string[], sheetName?: string): void {
+    const sheetNames = new Set<string>(cellLabels.map((cellLabel) => Cell.splitSheetReference(cellLabel)[0]));
+    if (sheetName !== undefined) {
+      sheetNames.add(sheetName);
+    }
+    const changedCells = [...cellLabels];
+    sheetNames.forEach((changedSheet) => {
+      for (const label of this.stylesChanged(changedSheet)) {
+        changedCells.push(Cell.qualifyLabel(changedSheet, label));
+      }
+    });
+    this._changes.markChanged('cells', changedCells);
+  }
+
+  /**
+   * any cell of the workbook, the sheets, the names, the comments and the rules could have changed,
+   * every user is sent the whole document
+   */
+  private workbookChanged(): void {
+    this._styles.clear();
+    this._changes.markAllChanged('cells');
+  }
+
+  // the styles of the cells of a sheet, they are worked out when the sheet is first sent after a change to the workbook
+  private getStyles(sheetName: string): Map<string, CellStyle> {
+    let styles = this._styles.get(sheetName);
+    if (styles === undefined) {
+      styles = this._conditionalFormats.getStyles(this._workbook, sheetName);
+      this._styles.set(sheetName, styles);
+    }
+    return styles;
+  }
+
+  // the cells (A1) of a sheet whose style changed since the styles were worked out, a sheet that was
+  // not sent since the workbook changed has no styles to compare, its cells will be sent whole
+  private stylesChanged(sheetName: string): string[] {
+    const styles = this._styles.get(sheetName);
+    if (styles === undefined) {
+      return [];
+    }
+    const newStyles = this._conditionalFormats.getStyles(this._workbook, sheetName);
+    this._styles.set(sheetName, newStyles);
+    const changedLabels: string[] = [];
+    newStyles.forEach((style, label) => {
+      if (JSON.stringify(style) !== JSON.stringify(styles.get(label))) {
+        changedLabels.push(label);
+      }
+    });
+    styles.forEach((style, label) => {
+      if (!newStyles.has(label)) {
+        changedLabels.push(label);
+      }
+    });
+    return changedLabels;
+  }
+
+  /**
+   * give the changes of the users since the last look a new revision, there are only a few users
+   * and what a user is shown depends on the values of the cells so they are compared
+   */
+  private trackUsers(): void {
+    const userParts = new Map<string, string>();
+    const viewParts = new Map<string, string>();
+    this._contributingUsers.forEach((userData: ContributingUser, user: string) => {
+      userParts.set(user, JSON.stringify({
+        sheet: userData.sheetName,
+        cell: userData.cellLabel,
+        isEditing: userData.isEditing,
+        formula: this.getFormulaStringForUser(user),
+        result: this.getResultStringForUser(user),
+        role: this.getRole(user),
+        filter: userData.filter,
+      }));
+      viewParts.set(user, userData.viewSheet);
+    });
+    this._changes.update('users', userParts);
+    this._changes.update('views', viewParts);
+  }
+
+  /**
+   * @returns the workbook in the current version of the document format
+   */
+  public sheetToJSON(): string {
+    const container = this._workbook.workbookContainer();
+    // the roles are saved with the document, a document without an owner has none
+    if (this._access.size > 0) {
+      container.access = Object.fromEntries(this._access);
+    }
+    const comments = this._comments.commentsContainer();
+    if (comments.length > 0) {
+      container.comments = comments;
+    }
+    const conditionalFormats = this._conditionalFormats.rulesContainer();
+    if (conditionalFormats.length > 0) {
+      container.conditionalFormats = conditionalFormats;
+    }
+    return JSON.stringify(container);
+  }
+
+  /**
+   * replace the workbook with a saved one, a document with a single sheet from before
+   * the workbooks can be read
+   */
+  public updateSheetFromJSON(json: string): void {
+    this._workbook = Workbook.createWorkbookFromJSON(json);
+    const container = JSON.parse(json);
+    this._access = new Map<string, DocumentRole>(Object.entries(container.access ?? {}));
+    this._comments = CellComments.createFromContainer(container.comments);
+    this._conditionalFormats = ConditionalFormats.createFromContainer(container.conditionalFormats);
+    // the values are stored in the JSON, we only need to rebuild the dependency graph
+    this._calculationManager.updateDependencies(this._workbook);
+    this.workbookChanged();
+  }
+
+  /**
+   * replace the contents of the sheet, this is used to restore a revision
+   * 
+   * the workbook is evaluated again and the formula builders of the users follow their cells.
+   * The revision can have other sheets or sizes, a user whose cell is no longer in the workbook
+   * stops editing and looks at the nearest cell
+   */
+  public restoreSheetFromJSON(json: string): void {
+    this._workbook = Workbook.createWorkbookFromJSON(json);
+    this._calculationManager.evaluateSheet(this._workbook);
+    this.workbookChanged();
+    // the comments are kept, the ones on cells the revision does not have are deleted
+    this._comments.updateCellLabels((cellLabel) => this._workbook.hasCell(cellLabel) ? cellLabel : undefined);
+    // the rules are kept too, the cells of a range that the revision does not have are not styled
+    this._conditionalFormats.updateRanges((range) => this._workbook.hasSheet(Cell.splitSheetReference(range)[0]) ? range : undefined);
+
+    const firstSheet = this._workbook.getSheetNames()[0];
+    this._contributingUsers.forEach((userData: ContributingUser, user: string) => {
+      if (!this._workbook.hasSheet(userData.sheetName)) {
+        this.releaseEditAccess(user);
+        userData.isEditing = false;
+        userData.sheetName = firstSheet;
+        userData.cellLabel = 'A1';
+      }
+      if (!this._workbook.hasSheet(userData.viewSheet)) {
+        userData.viewSheet = userData.sheetName;
+      }
+      // a filter on rows the revision does not have is dropped
+      if (userData.filter) {
+        const [filterSheet, range] = Cell.splitSheetReference(userData.filter.range);
+        if (!this._workbook.hasCell(Cell.qualifyLabel(filterSheet, range.split(':')[1]))) {
+          userData.filter = undefined;
+        }
+      }
+      const sheet = this._workbook.getSheet(userData.sheetName);
+      let [column, row] = Cell.cellToColumnRow(userData.cellLabel);
+      if (column >= sheet.getNumColumns() || row >= sheet.getNumRows()) {
+        this.releaseEditAccess(user);
+        userData.isEditing = false;
+        column = Math.min(column, sheet.getNumColumns() - 1);
+        row = Math.min(row, sheet.getNumRows() - 1);
+        userData.cellLabel = Cell.columnRowToCell(column, row);
+      }
+      userData.formulaBuilder.setFormula(this._workbook.getCellByLabel(this.userCell(userData)).getFormula());
+    });
   }
 
   static spreadsheetFromJSON(json: string): SpreadSheetController {
-    let sheetObject = JSON.parse(json);
+    // the controller starts with the size of the first sheet
+    let sheetObject = Workbook.upgradeContainer(JSON.parse(json)).sheets[0];
     let columns = sheetObject.columns;
     let rows = sheetObject.rows;
     let spreadsheet = new SpreadSheetController(columns, rows);
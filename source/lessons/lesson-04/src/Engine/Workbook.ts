@@ -0,0 +1,376 @@
+/**
+ * A Workbook holds the named sheets of a document in the order they are shown.
+ *
+ * The formulas of a sheet can refer to the cells of the other sheets (Summary!B2).
+ * For the calculation manager the workbook is one space of cells where every label
+ * has the name of its sheet in front of it, so the dependency graph spans the sheets.
+ *
+ * The workbook also holds the names of the document. A name stands for a cell or a range
+ * (TaxRate is Sheet1!B1, Sales is Sheet1!C2:C40) or for a constant (0.2, "EU", TRUE), a formula
+ * can use the name where it would use the cell, the range or the value.
+ *
+ * A document is saved as version 2 of the format
+ *
+ * { version: 2, sheets: [ { name, columns, rows, cells }, ... ], names: { TaxRate: "Sheet1!B1", ... } }
+ *
+ * the names were added to version 2 later, a document without them has no names.
+ * The controller saves the roles of the users with the workbook, { access: { juancho: "owner", ... } },
+ * they are not part of the workbook and a document without them is open to every user.
+ * The comments on the cells are saved the same way, { comments: [ ... ] }, see CellComments.
+ * The conditional format rules are saved too, { conditionalFormats: [ ... ] }, see ConditionalFormats.
+ * a document saved before there were workbooks has columns, rows and cells at the top
+ * level and no version, it is read as a workbook with a single sheet.
+ *
+ * It provides the following calls.
+ *
+ * getSheetNames(): string[]
+ * hasSheet(sheetName: string): boolean
+ * getSheet(sheetName: string): SheetMemory
+ * addSheet(sheetName: string, columns: number, rows: number): SheetMemory
+ * renameSheet(sheetName: string, newSheetName: string): void
+ * moveSheet(sheetName: string, index: number): void
+ * deleteSheet(sheetName: string): void
+ * getCellLabels(): string[]
+ * getCellByLabel(label: string): Cell
+ * setCellByLabel(label: string, cell: Cell): void
+ * hasCell(label: string): boolean
+ * getCellReferences(label: string): string[]
+ * getSheetForCell(label: string): SheetMemory
+ * getNames(): string[]
+ * getNameDefinition(name: string): string | undefined
+ * defineName(name: string, definition: string): void
+ * renameName(name: string, newName: string): void
+ * deleteName(name: string): void
+ * updateNameDefinitions(update: (definition: string) => string): void
+ * workbookContainer(): any
+ * workbookToJSON(): string
+ * createWorkbookFromJSON(json: string): Workbook
+ */
+
+import Cell from "./Cell";
+import SheetMemory from "./SheetMemory";
+import FormulaBuilder from "./FormulaBuilder";
+
+export class Workbook {
+    // the version of the format that documents are saved in
+    public static readonly formatVersion = 2;
+
+    // the name of the sheet of a new document, and of the sheet of a document saved before version 2
+    public static readonly defaultSheetName = "Sheet1";
+
+    private _sheetNames: string[] = [];
+    private _sheets: Map<string, SheetMemory> = new Map<string, SheetMemory>();
+
+    // the definition of each name is a single token, a reference with the name of its sheet or a constant
+    private _names: Map<string, string> = new Map<string, string>();
+
+    /**
+     * @returns the names of the sheets in the order they are shown
+     */
+    public getSheetNames(): string[] {
+        return [...this._sheetNames];
+    }
+
+    public hasSheet(sheetName: string): boolean {
+        return this._sheets.has(sheetName);
+    }
+
+    /**
+     * @returns the sheet with the name, it throws if there is no such sheet
+     */
+    public getSheet(sheetName: string): SheetMemory {
+        const sheet = this._sheets.get(sheetName);
+        if (!sheet) {
+            throw new Error(`Sheet ${sheetName} does not exist`);
+        }
+        return sheet;
+    }
+
+    /**
+     * add an empty sheet after the last sheet
+     *
+     * @returns the new sheet
+     */
+    public addSheet(sheetName: string, columns: number, rows: number): SheetMemory {
+        const sheet = new SheetMemory(columns, rows);
+        this._insertSheet(sheetName, sheet);
+        return sheet;
+    }
+
+    /**
+     * rename a sheet, the formulas that refer to it are rewritten to the new name
+     */
+    public renameSheet(sheetName: string, newSheetName: string): void {
+        const sheet = this.getSheet(sheetName);
+        this._sheets.delete(sheetName);
+        this._sheets.set(newSheetName, sheet);
+        this._sheetNames[this._sheetNames.indexOf(sheetName)] = newSheetName;
+        this._replaceSheetReferences(sheetName, newSheetName);
+    }
+
+    /**
+     * move a sheet to a new position, the other sheets keep their order
+     *
+     * @param index the position of the sheet after the move (0 based)
+     */
+    public moveSheet(sheetName: string, index: number): void {
+        this.getSheet(sheetName);
+        this._sheetNames.splice(this._sheetNames.indexOf(sheetName), 1);
+        this._sheetNames.splice(index, 0, sheetName);
+    }
+
+    /**
+     * delete a sheet, the references to its cells become #REF!
+     */
+    public deleteSheet(sheetName: string): void {
+        this.getSheet(sheetName).setWorkbook(undefined);
+        this._sheets.delete(sheetName);
+        this._sheetNames.splice(this._sheetNames.indexOf(sheetName), 1);
+        this._replaceSheetReferences(sheetName, undefined);
+    }
+
+    /**
+     * @returns the labels of all the cells of all the sheets (Sheet1!A1)
+     */
+    public getCellLabels(): string[] {
+        const labels: string[] = [];
+        for (const sheetName of this._sheetNames) {
+            for (const label of this.getSheet(sheetName).getCellLabels()) {
+                labels.push(Cell.qualifyLabel(sheetName, label));
+            }
+        }
+        return labels;
+    }
+
+    /**
+     * @param label the cell with the name of its sheet (Sheet1!A1)
+     */
+    public getCellByLabel(label: string): Cell {
+        const [sheetName, cellLabel] = Cell.splitSheetReference(label);
+        return this.getSheet(sheetName).getCellByLabel(cellLabel);
+    }
+
+    /**
+     * @param label the cell with the name of its sheet (Sheet1!A1)
+     * @param cell the cell to set
+     */
+    public setCellByLabel(label: string, cell: Cell): void {
+        const [sheetName, cellLabel] = Cell.splitSheetReference(label);
+        this.getSheet(sheetName).setCellByLabel(cellLabel, cell);
+    }
+
+    /**
+     * @returns true if the sheet of the label exists and the cell is inside it
+     */
+    public hasCell(label: string): boolean {
+        const [sheetName, cellLabel] = Cell.splitSheetReference(label);
+        const sheet = this._sheets.get(sheetName);
+        return sheet !== undefined && sheet.hasCell(cellLabel);
+    }
+
+    /**
+     * get the cells that the formula of a cell refers to
+     *
+     * @param label the cell with the name of its sheet (Sheet1!A1)
+     * @returns the cells with the names of their sheets, a reference without a sheet name
+     * is on the sheet of the formula. The references to cells that do not exist are left out
+     */
+    public getCellReferences(label: string): string[] {
+        const [sheetName] = Cell.splitSheetReference(label);
+        const references = new Set<string>();
+        // a name depends on the cells of its definition
+        const formula = this.getCellByLabel(label).getFormula().map((token) => this._names.get(token) ?? token);
+        for (const reference of FormulaBuilder.getCellReferences(formula)) {
+            const qualifiedReference = reference.includes("!") ? reference : Cell.qualifyLabel(sheetName, reference);
+            if (this.hasCell(qualifiedReference)) {
+                references.add(qualifiedReference);
+            }
+        }
+        return Array.from(references);
+    }
+
+    /**
+     * @returns the sheet that the formula of a cell is evaluated on
+     */
+    public getSheetForCell(label: string): SheetMemory {
+        return this.getSheet(Cell.splitSheetReference(label)[0]);
+    }
+
+    /**
+     * @returns the names of the document in alphabetical order
+     */
+    public getNames(): string[] {
+        return Array.from(this._names.keys()).sort();
+    }
+
+    /**
+     * @returns the cell, range or constant that the name stands for, undefined if there is no such name
+     */
+    public getNameDefinition(name: string): string | undefined {
+        return this._names.get(name);
+    }
+
+    /**
+     * give a name to a cell, a range or a constant, a name that exists gets the new definition
+     *
+     * @param definition a reference with the name of its sheet (Sheet1!B1) or a constant token (0.2)
+     */
+    public defineName(name: string, definition: string): void {
+        this._names.set(name, definition);
+    }
+
+    /**
+     * rename a name, the formulas that use it are rewritten to the new name
+     */
+    public renameName(name: string, newName: string): void {
+        const definition = this._names.get(name);
+        if (definition === undefined) {
+            throw new Error(`Name ${name} does not exist`);
+        }
+        this._names.delete(name);
+        this._names.set(newName, definition);
+        for (const label of this.getCellLabels()) {
+            const cell = this.getCellByLabel(label);
+            cell.setFormula(cell.getFormula().map((token) => token === name ? newName : token));
+        }
+    }
+
+    /**
+     * delete a name, the formulas that use it keep it and show #NAME?
+     */
+    public deleteName(name: string): void {
+        this._names.delete(name);
+    }
+
+    /**
+     * rewrite the definition of every name, this keeps them pointing at their cells
+     * when rows, columns or sheets change
+     */
+    public updateNameDefinitions(update: (definition: string) => string): void {
+        this._names.forEach((definition, name) => {
+            this._names.set(name, update(definition));
+        });
+    }
+
+    /**
+     * @returns the object that is saved for the workbook, in the current version of the format
+     */
+    public workbookContainer(): any {
+        return {
+            version: Workbook.formatVersion,
+            sheets: this._sheetNames.map((sheetName) => {
+                return { name: sheetName, ...this.getSheet(sheetName).sheetContainer() };
+            }),
+            names: Object.fromEntries(this._names),
+        };
+    }
+
+    public workbookToJSON(): string {
+        return JSON.stringify(this.workbookContainer());
+    }
+
+    /**
+     * bring a saved workbook to the current version of the format
+     *
+     * @param container the parsed JSON of a document
+     * @returns the container in the current version, a single sheet document is put in a workbook
+     *
+     * It throws if the container is not a document, so a document that was cut short or mangled
+     * is never loaded
+     */
+    public static upgradeContainer(container: any): any {
+        if (typeof container !== 'object' || container === null || Array.isArray(container)) {
+            throw new Error('The document is not an object');
+        }
+        if (container.version === undefined) {
+            container = {
+                version: Workbook.formatVersion,
+                sheets: [{
+                    name: Workbook.defaultSheetName,
+                    columns: container.columns,
+                    rows: container.rows,
+                    cells: container.cells,
+                }],
+            };
+        }
+        if (!Number.isInteger(container.version) || container.version < 1) {
+            throw new Error(`Invalid document format version ${container.version}`);
+        }
+        if (container.version > Workbook.formatVersion) {
+            throw new Error(`The document format version ${container.version} is not supported`);
+        }
+        const problem = Workbook._checkContainer(container);
+        if (problem) {
+            throw new Error(problem);
+        }
+        return container;
+    }
+
+    /**
+     * load a workbook from its JSON, any version of the format can be read
+     */
+    public static createWorkbookFromJSON(json: string): Workbook {
+        const container = Workbook.upgradeContainer(JSON.parse(json));
+        const workbook = new Workbook();
+        for (const sheetObject of container.sheets) {
+            workbook._insertSheet(sheetObject.name, SheetMemory.createSheetFromJSON(JSON.stringify(sheetObject)));
+        }
+        for (const [name, definition] of Object.entries(container.names ?? {})) {
+            workbook.defineName(name, definition as string);
+        }
+        return workbook;
+    }
+
+    // the reason the sheets and the names of a container are not a document, empty if they are
+    private static _checkContainer(container: any): string {
+        if (!Array.isArray(container.sheets) || container.sheets.length === 0) {
+            return 'The document has no sheets';
+        }
+        const sheetNames = new Set<string>();
+        for (const sheet of container.sheets) {
+            if (typeof sheet !== 'object' || sheet === null || typeof sheet.name !== 'string' || sheet.name === '') {
+                return 'A sheet of the document has no name';
+            }
+            if (sheetNames.has(sheet.name)) {
+                return `The document has two sheets named ${sheet.name}`;
+            }
+            sheetNames.add(sheet.name);
+            const sizeProblem = SheetMemory.checkSize(sheet.columns, sheet.rows);
+            if (sizeProblem) {
+                return `Sheet ${sheet.name}: ${sizeProblem}`;
+            }
+            if (typeof sheet.cells !== 'object' || sheet.cells === null || Array.isArray(sheet.cells)) {
+                return `Sheet ${sheet.name} has no cells`;
+            }
+            for (const [label, cell] of Object.entries<any>(sheet.cells)) {
+                if (typeof cell !== 'object' || cell === null || !Array.isArray(cell.formula)) {
+                    return `Cell ${label} of sheet ${sheet.name} has no formula`;
+                }
+            }
+        }
+        if (container.names !== undefined && (typeof container.names !== 'object' || container.names === null)) {
+            return 'The names of the document are not an object';
+        }
+        return '';
+    }
+
+    private _insertSheet(sheetName: string, sheet: SheetMemory): void {
+        if (this._sheets.has(sheetName)) {
+            throw new Error(`Sheet ${sheetName} already exists`);
+        }
+        sheet.setWorkbook(this);
+        this._sheets.set(sheetName, sheet);
+        this._sheetNames.push(sheetName);
+    }
+
+    // rewrite the references to a sheet in every formula and name, undefined when the sheet is deleted
+    private _replaceSheetReferences(sheetName: string, newSheetName: string | undefined): void {
+        for (const label of this.getCellLabels()) {
+            const cell = this.getCellByLabel(label);
+            cell.setFormula(FormulaBuilder.replaceSheetReferences(cell.getFormula(), sheetName, newSheetName));
+        }
+        this.updateNameDefinitions((definition) => FormulaBuilder.replaceSheetReferences([definition], sheetName, newSheetName)[0]);
+    }
+}
+
+export default Workbook;
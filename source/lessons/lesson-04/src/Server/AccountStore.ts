@@ -0,0 +1,97 @@
+/**
+ * AccountStore keeps the accounts of the users in a file.
+ *
+ * A password is never stored.  Each account has a random salt and the scrypt hash of the
+ * password with that salt, a password is checked by hashing it again and comparing the
+ * hashes in constant time.
+ *
+ * The file is { "juancho": { "salt": "...", "hash": "..." }, ... }
+ *
+ * It provides the following calls.
+ *
+ * createAccount(userName: string, password: string): void
+ * checkPassword(userName: string, password: string): boolean
+ * hasAccount(userName: string): boolean
+ */
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+
+// the salt and the hash of the password of an account, in hex
+interface Account {
+    salt: string;
+    hash: string;
+}
+
+export class AccountStore {
+    // a user name is shown beside the cells the user edits, so it is kept short and plain
+    private static readonly _userNamePattern = /^[A-Za-z0-9_.-]{1,32}$/;
+    public static readonly minimumPasswordLength = 8;
+    private static readonly _hashLength = 64;
+
+    private _accountFile: string;
+    private _accounts: Map<string, Account>;
+
+    constructor(accountFile: string) {
+        this._accountFile = accountFile;
+        this._accounts = new Map<string, Account>();
+        if (fs.existsSync(accountFile)) {
+            const accounts = JSON.parse(fs.readFileSync(accountFile, 'utf8'));
+            this._accounts = new Map<string, Account>(Object.entries(accounts));
+        }
+    }
+
+    /**
+     * @returns true if there is an account with the user name
+     */
+    public hasAccount(userName: string): boolean {
+        return this._accounts.has(userName);
+    }
+
+    /**
+     * add an account and save the accounts
+     *
+     * It throws if the user name is not valid, it is taken or the password is too short
+     */
+    public createAccount(userName: string, password: string): void {
+        if (!AccountStore._userNamePattern.test(userName)) {
+            throw new Error(`Invalid user name ${userName}, use up to 32 letters, digits, _ . or -`);
+        }
+        if (this._accounts.has(userName)) {
+            throw new Error(`User ${userName} already exists`);
+        }
+        if (password.length < AccountStore.minimumPasswordLength) {
+            throw new Error(`The password must have at least ${AccountStore.minimumPasswordLength} characters`);
+        }
+        const salt = crypto.randomBytes(16).toString('hex');
+        this._accounts.set(userName, { salt: salt, hash: AccountStore._hash(password, salt) });
+        this._save();
+    }
+
+    /**
+     * @returns true if the user has an account and the password is theirs
+     */
+    public checkPassword(userName: string, password: string): boolean {
+        const account = this._accounts.get(userName);
+        if (!account) {
+            return false;
+        }
+        const hash = Buffer.from(AccountStore._hash(password, account.salt), 'hex');
+        return crypto.timingSafeEqual(hash, Buffer.from(account.hash, 'hex'));
+    }
+
+    private static _hash(password: string, salt: string): string {
+        return crypto.scryptSync(password, salt, AccountStore._hashLength).toString('hex');
+    }
+
+    private _save(): void {
+        const accountFolder = path.dirname(this._accountFile);
+        if (!fs.existsSync(accountFolder)) {
+            fs.mkdirSync(accountFolder, { recursive: true });
+        }
+        // only the user the server runs as can read the hashes
+        fs.writeFileSync(this._accountFile, JSON.stringify(Object.fromEntries(this._accounts)), { mode: 0o600 });
+    }
+}
+
+export default AccountStore;
@@ -0,0 +1,130 @@
+/**
+ * Push the changes of the documents to the clients with Server-Sent Events.
+ *
+ * A client opens GET /document/events/:name?token=... and keeps the response open,
+ * the user is the one the session token was issued to.
+ * Each time a document changes every user who has it open is sent the document as they see it,
+ * with the cells, the users that are editing and their current cell.
+ * The first event holds the whole document, the next ones only what changed since the last event,
+ * a user is sent nothing if their part of the document did not change.
+ * The channel of a user who loses their access to the document is closed.
+ *
+ * The changes made while a request is handled are sent once, after the request.
+ * A comment is sent every 25 seconds so that proxies do not close a quiet channel.
+ *
+ * It provides the following calls.
+ *
+ * subscribe(docName: string, userName: string, request: express.Request, response: express.Response): void
+ * documentChanged(docName: string): void
+ * getSubscriberCount(docName: string): number
+ */
+
+import express from 'express';
+
+// a user with a document open, the response is the open channel to them
+interface Subscriber {
+    userName: string;
+    response: express.Response;
+    // the revision of the document the user was last sent
+    revision: number | undefined;
+    // the timer of the comments that keep the channel open
+    keepAlive: ReturnType<typeof setInterval>;
+}
+
+// where the documents come from, the DocumentHolder
+export interface DocumentSource {
+    getDocumentDeltaJSON(docName: string, userName: string, sinceRevision: number | undefined): string | undefined;
+    getDocumentRevision(docName: string): number;
+    hasAccess(docName: string, userName: string): boolean;
+}
+
+export class DocumentEvents {
+    // the users of each document that are listening
+    private _subscribers: Map<string, Subscriber[]> = new Map<string, Subscriber[]>();
+
+    // the documents that have changed since the last push
+    private _changedDocuments: Set<string> = new Set<string>();
+
+    private _documents: DocumentSource;
+
+    private _keepAliveMilliseconds: number;
+
+    constructor(documents: DocumentSource, keepAliveMilliseconds: number = 25000) {
+        this._documents = documents;
+        this._keepAliveMilliseconds = keepAliveMilliseconds;
+    }
+
+    /**
+     * open the channel to a user, the document is sent at once and then after each change
+     *
+     * the user is removed when the connection closes
+     */
+    public subscribe(docName: string, userName: string, request: express.Request, response: express.Response): void {
+        response.writeHead(200, {
+            'Content-Type': 'text/event-stream',
+            'Cache-Control': 'no-cache',
+            'Connection': 'keep-alive',
+        });
+        const subscriber: Subscriber = {
+            userName: userName,
+            response: response,
+            revision: undefined,
+            keepAlive: setInterval(() => response.write(': keep-alive\n\n'), this._keepAliveMilliseconds),
+        };
+        const subscribers = this._subscribers.get(docName) ?? [];
+        subscribers.push(subscriber);
+        this._subscribers.set(docName, subscribers);
+        request.on('close', () => this._unsubscribe(docName, subscriber));
+        this._send(docName, subscriber);
+    }
+
+    /**
+     * tell the users of a document that it changed, the document is sent once
+     * for all the changes made before the next turn of the event loop
+     */
+    public documentChanged(docName: string): void {
+        if (this._changedDocuments.has(docName)) {
+            return;
+        }
+        this._changedDocuments.add(docName);
+        setTimeout(() => {
+            this._changedDocuments.delete(docName);
+            for (const subscriber of this._subscribers.get(docName) ?? []) {
+                this._send(docName, subscriber);
+            }
+        }, 0);
+    }
+
+    /**
+     * @returns the number of open channels to the document
+     */
+    public getSubscriberCount(docName: string): number {
+        return this._subscribers.get(docName)?.length ?? 0;
+    }
+
+    private _send(docName: string, subscriber: Subscriber): void {
+        if (!this._documents.hasAccess(docName, subscriber.userName)) {
+            this._unsubscribe(docName, subscriber);
+            subscriber.response.end();
+            return;
+        }
+        const documentJSON = this._documents.getDocumentDeltaJSON(docName, subscriber.userName, subscriber.revision);
+        subscriber.revision = this._documents.getDocumentRevision(docName);
+        if (documentJSON === undefined) {
+            return;
+        }
+        subscriber.response.write(`event: document\ndata: ${documentJSON}\n\n`);
+    }
+
+    private _unsubscribe(docName: string, subscriber: Subscriber): void {
+        clearInterval(subscriber.keepAlive);
+        const subscribers = (this._subscribers.get(docName) ?? []).filter((other) => other !== subscriber);
+        if (subscribers.length === 0) {
+            this._subscribers.delete(docName);
+        } else {
+            this._subscribers.set(docName, subscribers);
+        }
+    }
+}
+
+export default DocumentEvents;
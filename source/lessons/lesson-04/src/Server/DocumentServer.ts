@@ -1,14 +1,34 @@
 /**
  * the server for the DocumentHolder
  * 
+ * a user makes an account and logs in to get a session token, every /document and /documents
+ * route needs the token in an Authorization: Bearer header and acts as the user it was issued to.
+ * The events route takes the token in the query because an EventSource cannot send headers.
+ * A document is only open to the users it is shared with, its owner, editors and viewers.
+ * The cell a user edits is leased to them, each fetch of the document renews the lease and
+ * a lease that is not renewed for EDIT_LEASE_SECONDS (60 by default) ends.
+ * The same fetches and the changes of a user tell the others if the user is active, idle or away.
+ * The documents are saved a short while after they change and the server saves what is left
+ * when it is stopped with SIGINT or SIGTERM.
+ * POST /documents/reset deletes the test documents, it is refused unless the server is started
+ * with ALLOW_RESET=true as it is for DocumentServerTester.
+ * 
  * this is an express server that provides the following routes:
  * 
+ * POST /accounts/register
+ * 
+ * POST /accounts/login
+ * 
  * GET /documents
  * 
  * GET /documents/:name
  * 
+ * GET /document/events/:name
+ * 
  * PUT /document/request/cell/:name/:cell
  * 
+ * PUT /document/cell/release/:name
+ * 
  * PUT /document/release/token/:name/:token
  * 
  * PUT /document/add/token/:name/:token
@@ -19,6 +39,90 @@
  * 
  * PUT /document/clear/formula/:name
  * 
+ * PUT /document/set/formula/:name
+ * 
+ * PUT /document/undo/:name
+ * 
+ * PUT /document/redo/:name
+ * 
+ * GET /document/revisions/:name
+ * 
+ * GET /document/revision/:name/:revision
+ * 
+ * GET /document/revisions/diff/:name/:from/:to
+ * 
+ * PUT /document/revision/restore/:name/:revision
+ * 
+ * PUT /document/rows/insert/:name
+ * 
+ * PUT /document/rows/delete/:name
+ * 
+ * PUT /document/columns/insert/:name
+ * 
+ * PUT /document/columns/delete/:name
+ * 
+ * PUT /document/sheets/add/:name
+ * 
+ * PUT /document/sheets/rename/:name
+ * 
+ * PUT /document/sheets/move/:name
+ * 
+ * PUT /document/sheets/delete/:name
+ * 
+ * PUT /document/sheets/select/:name
+ * 
+ * GET /document/access/:name
+ * 
+ * PUT /document/access/share/:name
+ * 
+ * PUT /document/access/change/:name
+ * 
+ * PUT /document/access/revoke/:name
+ * 
+ * PUT /document/access/claim/:name
+ * 
+ * GET /document/names/:name
+ * 
+ * PUT /document/names/add/:name
+ * 
+ * PUT /document/names/rename/:name
+ * 
+ * PUT /document/names/delete/:name
+ * 
+ * PUT /document/format/:name
+ * 
+ * PUT /document/rules/add/:name
+ * 
+ * PUT /document/rules/delete/:name
+ * 
+ * PUT /document/sort/:name
+ * 
+ * PUT /document/filter/:name
+ * 
+ * PUT /document/filter/clear/:name
+ * 
+ * PUT /document/comments/add/:name
+ * 
+ * PUT /document/comments/reply/:name
+ * 
+ * PUT /document/comments/resolve/:name
+ * 
+ * PUT /document/comments/delete/:name
+ * 
+ * PUT /document/copy/:name
+ * 
+ * PUT /document/paste/:name
+ * 
+ * PUT /document/fill/down/:name
+ * 
+ * PUT /document/fill/right/:name
+ * 
+ * GET /document/export/:name
+ * 
+ * PUT /document/import/:name
+ * 
+ * POST /documents/import/:name
+ * 
  * GET /document/formula/string/:name
  * 
  * GET /document/result/string/:name
@@ -30,6 +134,12 @@ import express from 'express';
 import bodyParser from 'body-parser';
 import cors from 'cors';
 import { DocumentHolder } from '../Engine/DocumentHolder';
+import { DelimitedText } from '../Engine/DelimitedText';
+import { SheetMemory } from '../Engine/SheetMemory';
+import { DocumentEvents } from './DocumentEvents';
+import { AccountStore } from './AccountStore';
+import { SessionTokens } from './SessionTokens';
+import path from 'path';
 import { PortsGlobal } from '../ServerDataDefinitions';
 
 // define a debug flag to turn on debugging
@@ -49,12 +159,83 @@ app.use(cors());
 //     res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
 //     next();
 // });
-app.use(bodyParser.json());
+// an imported CSV file comes in the body so it can be larger than the default limit
+app.use(bodyParser.json({ limit: '10mb' }));
 
 // Add a middleware function to log incoming requests
+// the query is left out, it can hold a session token
 app.use((req, res, next) => {
     if (debug) {
-        console.log(`${req.method} ${req.url}`);
+        console.log(`${req.method} ${req.path}`);
+    }
+    next();
+});
+
+// the accounts are kept next to the documents, the folder starts with . so it is not read as a document
+const accountStore = new AccountStore(path.join(__dirname, '..', '..', 'documents', '.accounts', 'accounts.json'));
+const sessionTokens = new SessionTokens(process.env.SESSION_SECRET);
+
+// POST /accounts/register
+// the body holds the userName and the password, the new user is logged in
+app.post('/accounts/register', (req: express.Request, res: express.Response) => {
+    const userName = req.body.userName;
+    const password = req.body.password;
+    if (typeof userName !== 'string' || typeof password !== 'string') {
+        res.status(400).send('userName and password are required');
+        return;
+    }
+    if (accountStore.hasAccount(userName)) {
+        res.status(409).send(`User ${userName} already exists`);
+        return;
+    }
+    try {
+        accountStore.createAccount(userName, password);
+    } catch (error) {
+        res.status(400).send((error as Error).message);
+        return;
+    }
+    res.status(200).send({ userName: userName, token: sessionTokens.issue(userName) });
+});
+
+// POST /accounts/login
+// the body holds the userName and the password
+app.post('/accounts/login', (req: express.Request, res: express.Response) => {
+    const userName = req.body.userName;
+    const password = req.body.password;
+    if (typeof userName !== 'string' || typeof password !== 'string') {
+        res.status(400).send('userName and password are required');
+        return;
+    }
+    if (!accountStore.checkPassword(userName, password)) {
+        res.status(401).send('The user name or the password is not correct');
+        return;
+    }
+    res.status(200).send({ userName: userName, token: sessionTokens.issue(userName) });
+});
+
+// the document routes act as the user of the session token, a request without a valid token is refused
+app.use(['/document', '/documents'], (req: express.Request, res: express.Response, next: express.NextFunction) => {
+    const authorization = req.headers.authorization ?? '';
+    const token = authorization.startsWith('Bearer ') ? authorization.slice('Bearer '.length) : req.query.token;
+    const userName = typeof token === 'string' ? sessionTokens.verify(token) : undefined;
+    if (!userName) {
+        res.status(401).send('Please log in, the session token is missing or has expired');
+        return;
+    }
+    res.locals.userName = userName;
+    next();
+});
+
+// a document that is not shared with the user is refused on every route that names it
+app.param('name', (req: express.Request, res: express.Response, next: express.NextFunction, name: string) => {
+    if (documentHolder.getDocumentNames().indexOf(name) !== -1 && !documentHolder.hasAccess(name, res.locals.userName)) {
+        res.status(403).send(`Document ${name} is not shared with ${res.locals.userName}`);
+        return;
+    }
+    // the requests that change the document or move the user show that they are active,
+    // the fetches of the document only show that their client is open
+    if (req.method === 'PUT' && req.path.startsWith('/document/') && documentHolder.getDocumentNames().indexOf(name) !== -1) {
+        documentHolder.recordActivity(name, res.locals.userName);
     }
     next();
 });
@@ -62,27 +243,34 @@ app.use((req, res, next) => {
 
 
 
-const documentHolder = new DocumentHolder();
+const editLeaseSeconds = Number(process.env.EDIT_LEASE_SECONDS ?? 60);
+const documentHolder = new DocumentHolder('documents', 100, editLeaseSeconds * 1000);
+
+// the routes that change a document tell the users who have it open
+const documentEvents = new DocumentEvents(documentHolder);
+
+// the cells whose lease ran out are released, the users of the document are sent the change
+// and the user who lost the cell is told why.  The users are also sent who became idle or away
+setInterval(() => {
+    documentHolder.expireEditLeases().forEach((name: string) => documentEvents.documentChanged(name));
+    documentHolder.updatePresence().forEach((name: string) => documentEvents.documentChanged(name));
+}, 5 * 1000);
 
 // GET /documents
+// only the documents the user can open
 app.get('/documents', (req: express.Request, res: express.Response) => {
-    const documentNames = documentHolder.getDocumentNames();
+    const documentNames = documentHolder.getDocumentNamesForUser(res.locals.userName);
     res.send(documentNames);
 });
 
 // PUT /documents/:name
-// userName is in the document body
+// the body holds the revision the client has if it has one
+// a client with a revision is sent only the cells and editors that changed, or 304 if nothing changed
 app.put('/documents/:name', (req: express.Request, res: express.Response) => {
     console.log('PUT /documents/:name');
     const name = req.params.name;
-    // get the userName from the body
     console.log(`PUT /documents/:name ${name}`);
-    const userName = req.body.userName;
-    if (!userName) {
-        res.status(400).send('userName is required');
-        return;
-    }
-
+    const userName = res.locals.userName;
 
     // is this name valid?
     const documentNames = documentHolder.getDocumentNames();
@@ -93,12 +281,41 @@ app.put('/documents/:name', (req: express.Request, res: express.Response) => {
         documentHolder.createDocument(name, 5, 8, userName);
     }
 
+    // the client fetches the document while it is open, that keeps the cell it edits
+    // and shows the user is still there
+    const revisionBefore = documentHolder.getDocumentRevision(name);
+    documentHolder.recordFetch(name, userName);
+
     // get the document
-    const document = documentHolder.getDocumentJSON(name, userName);
+    const revision = req.body.revision === undefined ? undefined : Number(req.body.revision);
+    const document = documentHolder.getDocumentDeltaJSON(name, userName, revision);
+    if (document === undefined) {
+        res.status(304).end();
+        return;
+    }
 
+    // the others are only sent the document when the fetch changed what they see,
+    // a new user or the place or state of this one
+    if (documentHolder.getDocumentRevision(name) !== revisionBefore) {
+        documentEvents.documentChanged(name);
+    }
     res.status(200).send(document);
 });
 
+// GET /document/events/:name?token=...
+// a stream of Server-Sent Events, the document is sent as a document event each time it changes
+app.get('/document/events/:name', (req: express.Request, res: express.Response) => {
+    const name = req.params.name;
+    // is this name valid?
+    const documentNames = documentHolder.getDocumentNames();
+    if (documentNames.indexOf(name) === -1) {
+        res.status(404).send(`Document ${name} not found`);
+        return;
+    }
+    const userName = res.locals.userName;
+    documentEvents.subscribe(name, userName, req, res);
+});
+
 app.get('/debug', (req: express.Request, res: express.Response) => {
     debug = !debug
     console.log(`debug is ${debug}`);
@@ -106,25 +323,42 @@ app.get('/debug', (req: express.Request, res: express.Response) => {
 
 });
 
+// POST /documents/reset
+// only for the tests, a server that was not started with ALLOW_RESET=true refuses it
+const allowReset = process.env.ALLOW_RESET === 'true';
 app.post('/documents/reset', (req: express.Request, res: express.Response) => {
-    documentHolder.reset();
-    res.status(200).send('reset');
+    if (!allowReset) {
+        res.status(403).send('Reset is only allowed on a server started for testing');
+        return;
+    }
+    documentHolder.reset()
+        .then(() => res.status(200).send('reset'))
+        .catch((error) => res.status(500).send(`The documents could not be reset: ${(error as Error).message}`));
 });
 
 app.post('/documents/create/:name', (req: express.Request, res: express.Response) => {
     const name = req.params.name;
 
-    // get the userName from the body
-    const userName = req.body.userName;
+    const userName = res.locals.userName;
+
+    // the size of the new document can be given in the body, it can be changed later
+    const columns = req.body.columns === undefined ? 5 : Number(req.body.columns);
+    const rows = req.body.rows === undefined ? 8 : Number(req.body.rows);
 
     // is this name valid?
     const documentNames = documentHolder.getDocumentNames();
     if (documentNames.indexOf(name) === -1) {
-        const documentOK = documentHolder.createDocument(name, 5, 8, userName);
+        const sizeProblem = SheetMemory.checkSize(columns, rows);
+        if (sizeProblem) {
+            res.status(400).send(sizeProblem);
+            return;
+        }
+        documentHolder.createDocument(name, columns, rows, userName);
     }
     documentHolder.requestViewAccess(name, 'A1', userName);
     const documentJSON = documentHolder.getDocumentJSON(name, userName);
 
+    documentEvents.documentChanged(name);
     res.status(200).send(documentJSON);
 
 });
@@ -140,18 +374,14 @@ app.put('/document/cell/edit/:name', (req: express.Request, res: express.Respons
         res.status(404).send(`Document ${name} not found`);
         return;
     }
-    // get the user name from the body
     // get the cell from the body
-    const userName = req.body.userName;
+    const userName = res.locals.userName;
     const cell = req.body.cell;
-    if (!userName) {
-        res.status(400).send('userName is required');
-        return;
-    }
     // request access to the cell
     const result = documentHolder.requestEditAccess(name, cell, userName);
     const documentJSON = documentHolder.getDocumentJSON(name, userName);
 
+    documentEvents.documentChanged(name);
     res.status(200).send(documentJSON);
 });
 
@@ -164,40 +394,56 @@ app.put('/document/cell/view/:name', (req: express.Request, res: express.Respons
         res.status(404).send(`Document ${name} not found`);
         return;
     }
-    // get the user name from the body
-    const userName = req.body.userName;
+    const userName = res.locals.userName;
     const cell = req.body.cell;
-    if (!userName) {
-        res.status(400).send('userName is required');
-        return;
-    }
     // request access to the cell
     const result = documentHolder.requestViewAccess(name, cell, userName);
 
     const documentJSON = documentHolder.getDocumentJSON(name, userName);
 
+    documentEvents.documentChanged(name);
     res.status(200).send(documentJSON);
 });
 
-app.put('/document/addtoken/:name', (req: express.Request, res: express.Response) => {
+// PUT /document/cell/release/:name
+// the body holds the cell, the owner takes it away from the user who is editing it
+app.put('/document/cell/release/:name', (req: express.Request, res: express.Response) => {
     const name = req.params.name;
+
     // is this name valid?
     const documentNames = documentHolder.getDocumentNames();
     if (documentNames.indexOf(name) === -1) {
         res.status(404).send(`Document ${name} not found`);
         return;
     }
-    // get the user name from the body, and get the token from the body
-    const userName = req.body.userName;
-    const token = req.body.token;
-    if (!userName) {
-        res.status(400).send('userName is required');
+    const userName = res.locals.userName;
+    const cell = req.body.cell;
+    if (typeof cell !== 'string') {
+        res.status(400).send('cell is required');
+        return;
+    }
+    const documentJSON = documentHolder.forceReleaseEditAccess(name, cell, userName);
+
+    documentEvents.documentChanged(name);
+    res.status(200).send(documentJSON);
+});
+
+app.put('/document/addtoken/:name', (req: express.Request, res: express.Response) => {
+    const name = req.params.name;
+    // is this name valid?
+    const documentNames = documentHolder.getDocumentNames();
+    if (documentNames.indexOf(name) === -1) {
+        res.status(404).send(`Document ${name} not found`);
         return;
     }
+    // get the token from the body
+    const userName = res.locals.userName;
+    const token = req.body.token;
     // add the
     const resultJSON = documentHolder.addToken(name, token, userName);
 
 
+    documentEvents.documentChanged(name);
     res.status(200).send(resultJSON);
 });
 
@@ -212,16 +458,13 @@ app.put('/document/addcell/:name', (req: express.Request, res: express.Response)
         return;
     }
     // get the user name  and the cell from the body
-    const userName = req.body.userName;
+    const userName = res.locals.userName;
     const cell = req.body.cell;
-    if (!userName) {
-        res.status(400).send('userName is required');
-        return;
-    }
     // add the token
     const resultJSON = documentHolder.addCell(name, cell, userName);
 
 
+    documentEvents.documentChanged(name);
     res.status(200).send(resultJSON);
 });
 
@@ -233,16 +476,12 @@ app.put('/document/removetoken/:name', (req: express.Request, res: express.Respo
         res.status(404).send(`Document ${name} not found`);
         return;
     }
-    // get the user name from the body
-    const userName = req.body.userName;
-    if (!userName) {
-        res.status(400).send('userName is required');
-        return;
-    }
+    const userName = res.locals.userName;
     // remove the tokenn
     const resultJSON = documentHolder.removeToken(name, userName);
 
 
+    documentEvents.documentChanged(name);
     res.status(200).send(resultJSON);
 });
 
@@ -255,21 +494,996 @@ app.put('/document/clear/formula/:name', (req: express.Request, res: express.Res
         res.status(404).send(`Document ${name} not found`);
         return;
     }
-    // get the user name from the body
-    const userName = req.body.userName;
-    if (!userName) {
-        res.status(400).send('userName is required');
-        return;
-    }
+    const userName = res.locals.userName;
     // clear the formula
     const resultJSON = documentHolder.clearFormula(name, userName);
 
+    documentEvents.documentChanged(name);
     res.status(200).send(resultJSON);
 });
 
-// get the port we should be using
-const port = PortsGlobal.serverPort;
-// start the app and test it
-app.listen(port, () => {
-    console.log(`listening on port ${port}`);
+// PUT /document/set/formula/:name
+// the body holds the formula as it is typed, (A1+B2)*3.5
+app.put('/document/set/formula/:name', (req: express.Request, res: express.Response) => {
+    const name = req.params.name;
+    // is this name valid?
+    const documentNames = documentHolder.getDocumentNames();
+    if (documentNames.indexOf(name) === -1) {
+        res.status(404).send(`Document ${name} not found`);
+        return;
+    }
+    const userName = res.locals.userName;
+    const formula = req.body.formula;
+    if (typeof formula !== 'string') {
+        res.status(400).send('formula is required');
+        return;
+    }
+    // a syntax error is reported in the errorOccurred of the document
+    const resultJSON = documentHolder.setFormula(name, formula, userName);
+
+    documentEvents.documentChanged(name);
+    res.status(200).send(resultJSON);
+});
+
+// PUT /document/undo/:name
+app.put('/document/undo/:name', (req: express.Request, res: express.Response) => {
+    const name = req.params.name;
+    // is this name valid?
+    const documentNames = documentHolder.getDocumentNames();
+    if (documentNames.indexOf(name) === -1) {
+        res.status(404).send(`Document ${name} not found`);
+        return;
+    }
+    const userName = res.locals.userName;
+    // undo the last change of this user
+    const resultJSON = documentHolder.undo(name, userName);
+
+    documentEvents.documentChanged(name);
+    res.status(200).send(resultJSON);
+});
+
+// PUT /document/redo/:name
+app.put('/document/redo/:name', (req: express.Request, res: express.Response) => {
+    const name = req.params.name;
+    // is this name valid?
+    const documentNames = documentHolder.getDocumentNames();
+    if (documentNames.indexOf(name) === -1) {
+        res.status(404).send(`Document ${name} not found`);
+        return;
+    }
+    const userName = res.locals.userName;
+    // redo the last change this user undid
+    const resultJSON = documentHolder.redo(name, userName);
+
+    documentEvents.documentChanged(name);
+    res.status(200).send(resultJSON);
+});
+
+// GET /document/revisions/:name
+app.get('/document/revisions/:name', (req: express.Request, res: express.Response) => {
+    const name = req.params.name;
+    // is this name valid?
+    const documentNames = documentHolder.getDocumentNames();
+    if (documentNames.indexOf(name) === -1) {
+        res.status(404).send(`Document ${name} not found`);
+        return;
+    }
+    res.status(200).send(documentHolder.getRevisions(name));
+});
+
+// GET /document/revision/:name/:revision
+app.get('/document/revision/:name/:revision', (req: express.Request, res: express.Response) => {
+    const name = req.params.name;
+    const revisionNumber = Number(req.params.revision);
+    // is this name valid?
+    const documentNames = documentHolder.getDocumentNames();
+    if (documentNames.indexOf(name) === -1) {
+        res.status(404).send(`Document ${name} not found`);
+        return;
+    }
+    const revision = documentHolder.getRevision(name, revisionNumber);
+    if (!revision) {
+        res.status(404).send(`Revision ${req.params.revision} of ${name} not found`);
+        return;
+    }
+    res.status(200).send(revision);
+});
+
+// GET /document/revisions/diff/:name/:from/:to
+app.get('/document/revisions/diff/:name/:from/:to', (req: express.Request, res: express.Response) => {
+    const name = req.params.name;
+    // is this name valid?
+    const documentNames = documentHolder.getDocumentNames();
+    if (documentNames.indexOf(name) === -1) {
+        res.status(404).send(`Document ${name} not found`);
+        return;
+    }
+    const differences = documentHolder.diffRevisions(name, Number(req.params.from), Number(req.params.to));
+    if (!differences) {
+        res.status(404).send(`Revisions ${req.params.from} and ${req.params.to} of ${name} not found`);
+        return;
+    }
+    res.status(200).send(differences);
+});
+
+// PUT /document/revision/restore/:name/:revision
+app.put('/document/revision/restore/:name/:revision', (req: express.Request, res: express.Response) => {
+    const name = req.params.name;
+    // is this name valid?
+    const documentNames = documentHolder.getDocumentNames();
+    if (documentNames.indexOf(name) === -1) {
+        res.status(404).send(`Document ${name} not found`);
+        return;
+    }
+    const userName = res.locals.userName;
+    // the restored sheet becomes the newest revision
+    const resultJSON = documentHolder.restoreRevision(name, Number(req.params.revision), userName);
+    if (!resultJSON) {
+        res.status(404).send(`Revision ${req.params.revision} of ${name} not found`);
+        return;
+    }
+
+    documentEvents.documentChanged(name);
+    res.status(200).send(resultJSON);
+});
+
+// PUT /document/rows/insert/:name
+// the body holds the index of the first row and the count (default 1)
+app.put('/document/rows/insert/:name', (req: express.Request, res: express.Response) => {
+    const name = req.params.name;
+    // is this name valid?
+    const documentNames = documentHolder.getDocumentNames();
+    if (documentNames.indexOf(name) === -1) {
+        res.status(404).send(`Document ${name} not found`);
+        return;
+    }
+    const userName = res.locals.userName;
+    const index = Number(req.body.index);
+    const count = req.body.count === undefined ? 1 : Number(req.body.count);
+    if (isNaN(index) || isNaN(count)) {
+        res.status(400).send('index and count must be numbers');
+        return;
+    }
+    // insert the rows
+    const resultJSON = documentHolder.insertRows(name, index, count, userName);
+
+    documentEvents.documentChanged(name);
+    res.status(200).send(resultJSON);
+});
+
+// PUT /document/rows/delete/:name
+// the body holds the index of the first row and the count (default 1)
+app.put('/document/rows/delete/:name', (req: express.Request, res: express.Response) => {
+    const name = req.params.name;
+    // is this name valid?
+    const documentNames = documentHolder.getDocumentNames();
+    if (documentNames.indexOf(name) === -1) {
+        res.status(404).send(`Document ${name} not found`);
+        return;
+    }
+    const userName = res.locals.userName;
+    const index = Number(req.body.index);
+    const count = req.body.count === undefined ? 1 : Number(req.body.count);
+    if (isNaN(index) || isNaN(count)) {
+        res.status(400).send('index and count must be numbers');
+        return;
+    }
+    // delete the rows
+    const resultJSON = documentHolder.deleteRows(name, index, count, userName);
+
+    documentEvents.documentChanged(name);
+    res.status(200).send(resultJSON);
+});
+
+// PUT /document/columns/insert/:name
+// the body holds the index of the first column and the count (default 1)
+app.put('/document/columns/insert/:name', (req: express.Request, res: express.Response) => {
+    const name = req.params.name;
+    // is this name valid?
+    const documentNames = documentHolder.getDocumentNames();
+    if (documentNames.indexOf(name) === -1) {
+        res.status(404).send(`Document ${name} not found`);
+        return;
+    }
+    const userName = res.locals.userName;
+    const index = Number(req.body.index);
+    const count = req.body.count === undefined ? 1 : Number(req.body.count);
+    if (isNaN(index) || isNaN(count)) {
+        res.status(400).send('index and count must be numbers');
+        return;
+    }
+    // insert the columns
+    const resultJSON = documentHolder.insertColumns(name, index, count, userName);
+
+    documentEvents.documentChanged(name);
+    res.status(200).send(resultJSON);
+});
+
+// PUT /document/columns/delete/:name
+// the body holds the index of the first column and the count (default 1)
+app.put('/document/columns/delete/:name', (req: express.Request, res: express.Response) => {
+    const name = req.params.name;
+    // is this name valid?
+    const documentNames = documentHolder.getDocumentNames();
+    if (documentNames.indexOf(name) === -1) {
+        res.status(404).send(`Document ${name} not found`);
+        return;
+    }
+    const userName = res.locals.userName;
+    const index = Number(req.body.index);
+    const count = req.body.count === undefined ? 1 : Number(req.body.count);
+    if (isNaN(index) || isNaN(count)) {
+        res.status(400).send('index and count must be numbers');
+        return;
+    }
+    // delete the columns
+    const resultJSON = documentHolder.deleteColumns(name, index, count, userName);
+
+    documentEvents.documentChanged(name);
+    res.status(200).send(resultJSON);
+});
+
+// PUT /document/sheets/add/:name
+// the body holds the name of the new sheet
+app.put('/document/sheets/add/:name', (req: express.Request, res: express.Response) => {
+    const name = req.params.name;
+    // is this name valid?
+    const documentNames = documentHolder.getDocumentNames();
+    if (documentNames.indexOf(name) === -1) {
+        res.status(404).send(`Document ${name} not found`);
+        return;
+    }
+    const userName = res.locals.userName;
+    const sheet = req.body.sheet;
+    if (!sheet) {
+        res.status(400).send('sheet is required');
+        return;
+    }
+    // add the sheet
+    const resultJSON = documentHolder.addSheet(name, sheet, userName);
+
+    documentEvents.documentChanged(name);
+    res.status(200).send(resultJSON);
+});
+
+// PUT /document/sheets/rename/:name
+// the body holds the sheet and its newName
+app.put('/document/sheets/rename/:name', (req: express.Request, res: express.Response) => {
+    const name = req.params.name;
+    // is this name valid?
+    const documentNames = documentHolder.getDocumentNames();
+    if (documentNames.indexOf(name) === -1) {
+        res.status(404).send(`Document ${name} not found`);
+        return;
+    }
+    const userName = res.locals.userName;
+    const sheet = req.body.sheet;
+    if (!sheet) {
+        res.status(400).send('sheet is required');
+        return;
+    }
+    const newName = req.body.newName;
+    if (!newName) {
+        res.status(400).send('newName is required');
+        return;
+    }
+    // rename the sheet
+    const resultJSON = documentHolder.renameSheet(name, sheet, newName, userName);
+
+    documentEvents.documentChanged(name);
+    res.status(200).send(resultJSON);
+});
+
+// PUT /document/sheets/move/:name
+// the body holds the sheet and the index it moves to (0 based)
+app.put('/document/sheets/move/:name', (req: express.Request, res: express.Response) => {
+    const name = req.params.name;
+    // is this name valid?
+    const documentNames = documentHolder.getDocumentNames();
+    if (documentNames.indexOf(name) === -1) {
+        res.status(404).send(`Document ${name} not found`);
+        return;
+    }
+    const userName = res.locals.userName;
+    const sheet = req.body.sheet;
+    if (!sheet) {
+        res.status(400).send('sheet is required');
+        return;
+    }
+    const index = Number(req.body.index);
+    if (isNaN(index)) {
+        res.status(400).send('index must be a number');
+        return;
+    }
+    // move the sheet
+    const resultJSON = documentHolder.moveSheet(name, sheet, index, userName);
+
+    documentEvents.documentChanged(name);
+    res.status(200).send(resultJSON);
+});
+
+// PUT /document/sheets/delete/:name
+// the body holds the sheet to delete
+app.put('/document/sheets/delete/:name', (req: express.Request, res: express.Response) => {
+    const name = req.params.name;
+    // is this name valid?
+    const documentNames = documentHolder.getDocumentNames();
+    if (documentNames.indexOf(name) === -1) {
+        res.status(404).send(`Document ${name} not found`);
+        return;
+    }
+    const userName = res.locals.userName;
+    const sheet = req.body.sheet;
+    if (!sheet) {
+        res.status(400).send('sheet is required');
+        return;
+    }
+    // delete the sheet
+    const resultJSON = documentHolder.deleteSheet(name, sheet, userName);
+
+    documentEvents.documentChanged(name);
+    res.status(200).send(resultJSON);
+});
+
+// PUT /document/sheets/select/:name
+// the body holds the sheet to show to the user
+app.put('/document/sheets/select/:name', (req: express.Request, res: express.Response) => {
+    const name = req.params.name;
+    // is this name valid?
+    const documentNames = documentHolder.getDocumentNames();
+    if (documentNames.indexOf(name) === -1) {
+        res.status(404).send(`Document ${name} not found`);
+        return;
+    }
+    const userName = res.locals.userName;
+    const sheet = req.body.sheet;
+    if (!sheet) {
+        res.status(400).send('sheet is required');
+        return;
+    }
+    // show the sheet
+    const resultJSON = documentHolder.selectSheet(name, sheet, userName);
+
+    documentEvents.documentChanged(name);
+    res.status(200).send(resultJSON);
+});
+
+// GET /document/access/:name
+app.get('/document/access/:name', (req: express.Request, res: express.Response) => {
+    const name = req.params.name;
+    // is this name valid?
+    const documentNames = documentHolder.getDocumentNames();
+    if (documentNames.indexOf(name) === -1) {
+        res.status(404).send(`Document ${name} not found`);
+        return;
+    }
+    res.status(200).send(documentHolder.getAccess(name));
+});
+
+// PUT /document/access/share/:name
+// the body holds the user to share the document with and their role, editor or viewer
+app.put('/document/access/share/:name', (req: express.Request, res: express.Response) => {
+    const name = req.params.name;
+    // is this name valid?
+    const documentNames = documentHolder.getDocumentNames();
+    if (documentNames.indexOf(name) === -1) {
+        res.status(404).send(`Document ${name} not found`);
+        return;
+    }
+    const userName = res.locals.userName;
+    const sharedUser = req.body.user;
+    if (!sharedUser) {
+        res.status(400).send('user is required');
+        return;
+    }
+    if (!accountStore.hasAccount(String(sharedUser))) {
+        res.status(404).send(`User ${sharedUser} not found`);
+        return;
+    }
+    const role = req.body.role;
+    if (!role) {
+        res.status(400).send('role is required');
+        return;
+    }
+    // only the owner can share the document
+    const resultJSON = documentHolder.shareDocument(name, String(sharedUser), String(role), userName);
+
+    documentEvents.documentChanged(name);
+    res.status(200).send(resultJSON);
+});
+
+// PUT /document/access/change/:name
+// the body holds the user and their new role, editor or viewer
+app.put('/document/access/change/:name', (req: express.Request, res: express.Response) => {
+    const name = req.params.name;
+    // is this name valid?
+    const documentNames = documentHolder.getDocumentNames();
+    if (documentNames.indexOf(name) === -1) {
+        res.status(404).send(`Document ${name} not found`);
+        return;
+    }
+    const userName = res.locals.userName;
+    const sharedUser = req.body.user;
+    if (!sharedUser) {
+        res.status(400).send('user is required');
+        return;
+    }
+    const role = req.body.role;
+    if (!role) {
+        res.status(400).send('role is required');
+        return;
+    }
+    // only the owner can change the role, a user who becomes a viewer stops editing
+    const resultJSON = documentHolder.changeAccess(name, String(sharedUser), String(role), userName);
+
+    documentEvents.documentChanged(name);
+    res.status(200).send(resultJSON);
+});
+
+// PUT /document/access/revoke/:name
+// the body holds the user who loses their access
+app.put('/document/access/revoke/:name', (req: express.Request, res: express.Response) => {
+    const name = req.params.name;
+    // is this name valid?
+    const documentNames = documentHolder.getDocumentNames();
+    if (documentNames.indexOf(name) === -1) {
+        res.status(404).send(`Document ${name} not found`);
+        return;
+    }
+    const userName = res.locals.userName;
+    const sharedUser = req.body.user;
+    if (!sharedUser) {
+        res.status(400).send('user is required');
+        return;
+    }
+    // only the owner can revoke the access, the owner keeps theirs
+    const resultJSON = documentHolder.revokeAccess(name, String(sharedUser), userName);
+
+    documentEvents.documentChanged(name);
+    res.status(200).send(resultJSON);
+});
+
+// PUT /document/access/claim/:name
+// the user becomes the owner of a document saved before it had an owner
+app.put('/document/access/claim/:name', (req: express.Request, res: express.Response) => {
+    const name = req.params.name;
+    // is this name valid?
+    const documentNames = documentHolder.getDocumentNames();
+    if (documentNames.indexOf(name) === -1) {
+        res.status(404).send(`Document ${name} not found`);
+        return;
+    }
+    const userName = res.locals.userName;
+    const resultJSON = documentHolder.claimDocument(name, userName);
+
+    documentEvents.documentChanged(name);
+    res.status(200).send(resultJSON);
+});
+
+// GET /document/names/:name
+app.get('/document/names/:name', (req: express.Request, res: express.Response) => {
+    const name = req.params.name;
+    // is this name valid?
+    const documentNames = documentHolder.getDocumentNames();
+    if (documentNames.indexOf(name) === -1) {
+        res.status(404).send(`Document ${name} not found`);
+        return;
+    }
+    res.status(200).send(documentHolder.getNames(name));
+});
+
+// PUT /document/names/add/:name
+// the body holds the name and the definition, a cell, a range or a constant
+app.put('/document/names/add/:name', (req: express.Request, res: express.Response) => {
+    const name = req.params.name;
+    // is this name valid?
+    const documentNames = documentHolder.getDocumentNames();
+    if (documentNames.indexOf(name) === -1) {
+        res.status(404).send(`Document ${name} not found`);
+        return;
+    }
+    const userName = res.locals.userName;
+    const definedName = req.body.name;
+    if (!definedName) {
+        res.status(400).send('name is required');
+        return;
+    }
+    const definition = req.body.definition;
+    if (!definition) {
+        res.status(400).send('definition is required');
+        return;
+    }
+    // give the name to the cell, range or constant
+    const resultJSON = documentHolder.defineName(name, definedName, String(definition), userName);
+
+    documentEvents.documentChanged(name);
+    res.status(200).send(resultJSON);
+});
+
+// PUT /document/names/rename/:name
+// the body holds the name and its newName
+app.put('/document/names/rename/:name', (req: express.Request, res: express.Response) => {
+    const name = req.params.name;
+    // is this name valid?
+    const documentNames = documentHolder.getDocumentNames();
+    if (documentNames.indexOf(name) === -1) {
+        res.status(404).send(`Document ${name} not found`);
+        return;
+    }
+    const userName = res.locals.userName;
+    const definedName = req.body.name;
+    if (!definedName) {
+        res.status(400).send('name is required');
+        return;
+    }
+    const newName = req.body.newName;
+    if (!newName) {
+        res.status(400).send('newName is required');
+        return;
+    }
+    // rename the name and the formulas that use it
+    const resultJSON = documentHolder.renameName(name, definedName, newName, userName);
+
+    documentEvents.documentChanged(name);
+    res.status(200).send(resultJSON);
+});
+
+// PUT /document/names/delete/:name
+// the body holds the name
+app.put('/document/names/delete/:name', (req: express.Request, res: express.Response) => {
+    const name = req.params.name;
+    // is this name valid?
+    const documentNames = documentHolder.getDocumentNames();
+    if (documentNames.indexOf(name) === -1) {
+        res.status(404).send(`Document ${name} not found`);
+        return;
+    }
+    const userName = res.locals.userName;
+    const definedName = req.body.name;
+    if (!definedName) {
+        res.status(400).send('name is required');
+        return;
+    }
+    // delete the name, the formulas that use it show #NAME?
+    const resultJSON = documentHolder.deleteName(name, definedName, userName);
+
+    documentEvents.documentChanged(name);
+    res.status(200).send(resultJSON);
+});
+
+// PUT /document/format/:name
+// the body holds the range, a cell or a range of cells, and the format
+app.put('/document/format/:name', (req: express.Request, res: express.Response) => {
+    const name = req.params.name;
+    // is this name valid?
+    const documentNames = documentHolder.getDocumentNames();
+    if (documentNames.indexOf(name) === -1) {
+        res.status(404).send(`Document ${name} not found`);
+        return;
+    }
+    const userName = res.locals.userName;
+    const range = req.body.range;
+    if (typeof range !== 'string') {
+        res.status(400).send('range is required');
+        return;
+    }
+    const format = req.body.format;
+    if (!format) {
+        res.status(400).send('format is required');
+        return;
+    }
+    // the numbers are shown in the format, their values do not change
+    const resultJSON = documentHolder.setFormat(name, range, format, userName);
+
+    documentEvents.documentChanged(name);
+    res.status(200).send(resultJSON);
+});
+
+// PUT /document/rules/add/:name
+// the body holds the conditional format rule, its range, its condition and its style
+app.put('/document/rules/add/:name', (req: express.Request, res: express.Response) => {
+    const name = req.params.name;
+    // is this name valid?
+    const documentNames = documentHolder.getDocumentNames();
+    if (documentNames.indexOf(name) === -1) {
+        res.status(404).send(`Document ${name} not found`);
+        return;
+    }
+    const userName = res.locals.userName;
+    const rule = req.body.rule;
+    if (!rule || typeof rule.range !== 'string') {
+        res.status(400).send('rule with a range is required');
+        return;
+    }
+    // the rule is added after the other rules of the document
+    const resultJSON = documentHolder.addConditionalRule(name, rule, userName);
+
+    documentEvents.documentChanged(name);
+    res.status(200).send(resultJSON);
+});
+
+// PUT /document/rules/delete/:name
+// the body holds the id of the rule
+app.put('/document/rules/delete/:name', (req: express.Request, res: express.Response) => {
+    const name = req.params.name;
+    // is this name valid?
+    const documentNames = documentHolder.getDocumentNames();
+    if (documentNames.indexOf(name) === -1) {
+        res.status(404).send(`Document ${name} not found`);
+        return;
+    }
+    const userName = res.locals.userName;
+    const id = Number(req.body.id);
+    if (!Number.isInteger(id)) {
+        res.status(400).send('id is required');
+        return;
+    }
+    const resultJSON = documentHolder.deleteConditionalRule(name, id, userName);
+
+    documentEvents.documentChanged(name);
+    res.status(200).send(resultJSON);
+});
+
+// PUT /document/sort/:name
+// the body holds the range and the keys, the columns to sort by with their order
+app.put('/document/sort/:name', (req: express.Request, res: express.Response) => {
+    const name = req.params.name;
+    // is this name valid?
+    const documentNames = documentHolder.getDocumentNames();
+    if (documentNames.indexOf(name) === -1) {
+        res.status(404).send(`Document ${name} not found`);
+        return;
+    }
+    const userName = res.locals.userName;
+    const range = req.body.range;
+    if (typeof range !== 'string') {
+        res.status(400).send('range is required');
+        return;
+    }
+    const keys = req.body.keys;
+    if (!Array.isArray(keys) || !keys.every((key) => key && typeof key.column === 'string')) {
+        res.status(400).send('keys with a column are required');
+        return;
+    }
+    // the rows of the range move, the formulas move with them
+    const resultJSON = documentHolder.sortRange(name, range, keys, userName);
+
+    documentEvents.documentChanged(name);
+    res.status(200).send(resultJSON);
+});
+
+// PUT /document/filter/:name
+// the body holds the range and the criteria, only the user has the rows hidden
+app.put('/document/filter/:name', (req: express.Request, res: express.Response) => {
+    const name = req.params.name;
+    // is this name valid?
+    const documentNames = documentHolder.getDocumentNames();
+    if (documentNames.indexOf(name) === -1) {
+        res.status(404).send(`Document ${name} not found`);
+        return;
+    }
+    const userName = res.locals.userName;
+    const range = req.body.range;
+    if (typeof range !== 'string') {
+        res.status(400).send('range is required');
+        return;
+    }
+    const criteria = req.body.criteria;
+    if (!Array.isArray(criteria) || !criteria.every((criterion) => criterion && typeof criterion.column === 'string')) {
+        res.status(400).send('criteria with a column are required');
+        return;
+    }
+    const resultJSON = documentHolder.setFilter(name, range, criteria, userName);
+
+    res.status(200).send(resultJSON);
+});
+
+// PUT /document/filter/clear/:name
+app.put('/document/filter/clear/:name', (req: express.Request, res: express.Response) => {
+    const name = req.params.name;
+    // is this name valid?
+    const documentNames = documentHolder.getDocumentNames();
+    if (documentNames.indexOf(name) === -1) {
+        res.status(404).send(`Document ${name} not found`);
+        return;
+    }
+    const userName = res.locals.userName;
+    const resultJSON = documentHolder.clearFilter(name, userName);
+
+    res.status(200).send(resultJSON);
+});
+
+// PUT /document/comments/add/:name
+// the body holds the cell and the text of the comment
+app.put('/document/comments/add/:name', (req: express.Request, res: express.Response) => {
+    const name = req.params.name;
+    // is this name valid?
+    const documentNames = documentHolder.getDocumentNames();
+    if (documentNames.indexOf(name) === -1) {
+        res.status(404).send(`Document ${name} not found`);
+        return;
+    }
+    const userName = res.locals.userName;
+    const cell = req.body.cell;
+    if (typeof cell !== 'string') {
+        res.status(400).send('cell is required');
+        return;
+    }
+    const text = req.body.text;
+    if (typeof text !== 'string') {
+        res.status(400).send('text is required');
+        return;
+    }
+    // start a discussion on the cell
+    const resultJSON = documentHolder.addComment(name, cell, text, userName);
+
+    documentEvents.documentChanged(name);
+    res.status(200).send(resultJSON);
+});
+
+// PUT /document/comments/reply/:name
+// the body holds the id of the comment and the text of the reply
+app.put('/document/comments/reply/:name', (req: express.Request, res: express.Response) => {
+    const name = req.params.name;
+    // is this name valid?
+    const documentNames = documentHolder.getDocumentNames();
+    if (documentNames.indexOf(name) === -1) {
+        res.status(404).send(`Document ${name} not found`);
+        return;
+    }
+    const userName = res.locals.userName;
+    const id = Number(req.body.id);
+    if (!Number.isInteger(id)) {
+        res.status(400).send('id is required');
+        return;
+    }
+    const text = req.body.text;
+    if (typeof text !== 'string') {
+        res.status(400).send('text is required');
+        return;
+    }
+    // the reply goes at the end of the discussion
+    const resultJSON = documentHolder.replyToComment(name, id, text, userName);
+
+    documentEvents.documentChanged(name);
+    res.status(200).send(resultJSON);
+});
+
+// PUT /document/comments/resolve/:name
+// the body holds the id of the comment and resolved, false opens the discussion again
+app.put('/document/comments/resolve/:name', (req: express.Request, res: express.Response) => {
+    const name = req.params.name;
+    // is this name valid?
+    const documentNames = documentHolder.getDocumentNames();
+    if (documentNames.indexOf(name) === -1) {
+        res.status(404).send(`Document ${name} not found`);
+        return;
+    }
+    const userName = res.locals.userName;
+    const id = Number(req.body.id);
+    if (!Number.isInteger(id)) {
+        res.status(400).send('id is required');
+        return;
+    }
+    const resolved = req.body.resolved ?? true;
+    if (typeof resolved !== 'boolean') {
+        res.status(400).send('resolved must be true or false');
+        return;
+    }
+    // resolve the discussion or open it again
+    const resultJSON = documentHolder.resolveComment(name, id, resolved, userName);
+
+    documentEvents.documentChanged(name);
+    res.status(200).send(resultJSON);
+});
+
+// PUT /document/comments/delete/:name
+// the body holds the id of the comment
+app.put('/document/comments/delete/:name', (req: express.Request, res: express.Response) => {
+    const name = req.params.name;
+    // is this name valid?
+    const documentNames = documentHolder.getDocumentNames();
+    if (documentNames.indexOf(name) === -1) {
+        res.status(404).send(`Document ${name} not found`);
+        return;
+    }
+    const userName = res.locals.userName;
+    const id = Number(req.body.id);
+    if (!Number.isInteger(id)) {
+        res.status(400).send('id is required');
+        return;
+    }
+    // only the author and the owner can delete the comment
+    const resultJSON = documentHolder.deleteComment(name, id, userName);
+
+    documentEvents.documentChanged(name);
+    res.status(200).send(resultJSON);
+});
+
+// PUT /document/copy/:name
+app.put('/document/copy/:name', (req: express.Request, res: express.Response) => {
+    const name = req.params.name;
+    // is this name valid?
+    const documentNames = documentHolder.getDocumentNames();
+    if (documentNames.indexOf(name) === -1) {
+        res.status(404).send(`Document ${name} not found`);
+        return;
+    }
+    const userName = res.locals.userName;
+    // copy the cell the user is looking at
+    const resultJSON = documentHolder.copyCell(name, userName);
+
+    res.status(200).send(resultJSON);
+});
+
+// PUT /document/paste/:name
+app.put('/document/paste/:name', (req: express.Request, res: express.Response) => {
+    const name = req.params.name;
+    // is this name valid?
+    const documentNames = documentHolder.getDocumentNames();
+    if (documentNames.indexOf(name) === -1) {
+        res.status(404).send(`Document ${name} not found`);
+        return;
+    }
+    const userName = res.locals.userName;
+    // paste into the cell the user is looking at
+    const resultJSON = documentHolder.pasteCell(name, userName);
+
+    documentEvents.documentChanged(name);
+    res.status(200).send(resultJSON);
+});
+
+// PUT /document/fill/down/:name
+// the body holds the number of cells to fill (default 1)
+app.put('/document/fill/down/:name', (req: express.Request, res: express.Response) => {
+    const name = req.params.name;
+    // is this name valid?
+    const documentNames = documentHolder.getDocumentNames();
+    if (documentNames.indexOf(name) === -1) {
+        res.status(404).send(`Document ${name} not found`);
+        return;
+    }
+    const userName = res.locals.userName;
+    const count = req.body.count === undefined ? 1 : Number(req.body.count);
+    if (isNaN(count)) {
+        res.status(400).send('count must be a number');
+        return;
+    }
+    // copy the cell the user is looking at into the cells below it
+    const resultJSON = documentHolder.fillDown(name, count, userName);
+
+    documentEvents.documentChanged(name);
+    res.status(200).send(resultJSON);
+});
+
+// PUT /document/fill/right/:name
+// the body holds the number of cells to fill (default 1)
+app.put('/document/fill/right/:name', (req: express.Request, res: express.Response) => {
+    const name = req.params.name;
+    // is this name valid?
+    const documentNames = documentHolder.getDocumentNames();
+    if (documentNames.indexOf(name) === -1) {
+        res.status(404).send(`Document ${name} not found`);
+        return;
+    }
+    const userName = res.locals.userName;
+    const count = req.body.count === undefined ? 1 : Number(req.body.count);
+    if (isNaN(count)) {
+        res.status(400).send('count must be a number');
+        return;
+    }
+    // copy the cell the user is looking at into the cells to the right of it
+    const resultJSON = documentHolder.fillRight(name, count, userName);
+
+    documentEvents.documentChanged(name);
+    res.status(200).send(resultJSON);
+});
+
+// GET /document/export/:name?format=csv&contents=values&sheet=Sheet1
+// the format is csv (default) or tsv, the contents are values (default) or formulas,
+// the sheet is the first sheet by default
+app.get('/document/export/:name', (req: express.Request, res: express.Response) => {
+    const name = req.params.name;
+    // is this name valid?
+    const documentNames = documentHolder.getDocumentNames();
+    if (documentNames.indexOf(name) === -1) {
+        res.status(404).send(`Document ${name} not found`);
+        return;
+    }
+    const format = String(req.query.format ?? 'csv');
+    const delimiter = DelimitedText.getDelimiter(format);
+    if (!delimiter) {
+        res.status(400).send('format must be csv or tsv');
+        return;
+    }
+    const contents = String(req.query.contents ?? 'values');
+    if (contents !== 'values' && contents !== 'formulas') {
+        res.status(400).send('contents must be values or formulas');
+        return;
+    }
+    const sheetName = req.query.sheet === undefined ? undefined : String(req.query.sheet);
+    const text = documentHolder.exportDocument(name, sheetName, contents, delimiter);
+    if (text === undefined) {
+        res.status(404).send(`Sheet ${sheetName} of ${name} not found`);
+        return;
+    }
+    res.status(200).type(format.toLowerCase() === 'csv' ? 'text/csv' : 'text/tab-separated-values').send(text);
+});
+
+// PUT /document/import/:name
+// the body holds the text, the format (csv or tsv, default csv)
+// and the top left cell (default A1 of the sheet the user is shown)
+app.put('/document/import/:name', (req: express.Request, res: express.Response) => {
+    const name = req.params.name;
+    // is this name valid?
+    const documentNames = documentHolder.getDocumentNames();
+    if (documentNames.indexOf(name) === -1) {
+        res.status(404).send(`Document ${name} not found`);
+        return;
+    }
+    const userName = res.locals.userName;
+    const text = req.body.text;
+    if (typeof text !== 'string') {
+        res.status(400).send('text is required');
+        return;
+    }
+    const delimiter = DelimitedText.getDelimiter(String(req.body.format ?? 'csv'));
+    if (!delimiter) {
+        res.status(400).send('format must be csv or tsv');
+        return;
+    }
+    const cell = req.body.cell === undefined ? 'A1' : String(req.body.cell);
+    try {
+        const resultJSON = documentHolder.importCells(name, text, delimiter, cell, userName);
+        documentEvents.documentChanged(name);
+        res.status(200).send(resultJSON);
+    } catch (error) {
+        res.status(400).send((error as Error).message);
+    }
+});
+
+// POST /documents/import/:name
+// the body holds the text and the format (csv or tsv, default csv)
+// the new document is as large as the text
+app.post('/documents/import/:name', (req: express.Request, res: express.Response) => {
+    const name = req.params.name;
+    const userName = res.locals.userName;
+    const text = req.body.text;
+    if (typeof text !== 'string') {
+        res.status(400).send('text is required');
+        return;
+    }
+    const delimiter = DelimitedText.getDelimiter(String(req.body.format ?? 'csv'));
+    if (!delimiter) {
+        res.status(400).send('format must be csv or tsv');
+        return;
+    }
+    // is this name free?
+    const documentNames = documentHolder.getDocumentNames();
+    if (documentNames.indexOf(name) !== -1) {
+        res.status(409).send(`Document ${name} already exists`);
+        return;
+    }
+    try {
+        documentHolder.importDocument(name, text, delimiter, userName);
+    } catch (error) {
+        res.status(400).send((error as Error).message);
+        return;
+    }
+    documentEvents.documentChanged(name);
+    res.status(200).send(documentHolder.getDocumentJSON(name, userName));
+});
+
+// get the port we should be using
+const port = PortsGlobal.serverPort;
+// start the app and test it
+app.listen(port, () => {
+    console.log(`listening on port ${port}`);
+});
+
+// the changes that are waiting to be written are saved before the server stops
+['SIGINT', 'SIGTERM'].forEach((signal) => {
+    process.on(signal, () => {
+        documentHolder.flush().then(() => process.exit(0));
+    });
 });
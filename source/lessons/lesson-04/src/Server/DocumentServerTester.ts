@@ -7,6 +7,7 @@ import { DocumentTransport, CellTransport } from '../Engine/GlobalDefinitions';
 // this will run a bunch of tests against the server.
 
 // the server should be running on theport in PortsGlobal.ts
+// and started with ALLOW_RESET=true so that the tests can delete their documents
 
 import * as PortsGlobal from '../ServerDataDefinitions';
 import e from 'express';
@@ -15,10 +16,30 @@ const serverPort = PortsGlobal.PortsGlobal.serverPort;
 
 const baseURL = `http://localhost:${serverPort}`;
 
+// every user registers the first time the tests run and logs in after that
+const testPassword = 'testPassword';
+const testerName = 'tester';
+const sessionTokens = new Map<string, string>();
+
+// the request config with the session token of the user
+function authorize(user: string): Promise<{ headers: { Authorization: string } }> {
+    const token = sessionTokens.get(user);
+    if (token) {
+        return Promise.resolve({ headers: { Authorization: `Bearer ${token}` } });
+    }
+    const credentials = { "userName": user, "password": testPassword };
+    return axios.post(`${baseURL}/accounts/login`, credentials)
+        .catch(() => axios.post(`${baseURL}/accounts/register`, credentials))
+        .then(response => {
+            sessionTokens.set(user, response.data.token);
+            return { headers: { Authorization: `Bearer ${response.data.token}` } };
+        });
+}
+
 
 
 function cleanFiles() {
-    return axios.post(`${baseURL}/documents/reset`)
+    return authorize(testerName).then(config => axios.post(`${baseURL}/documents/reset`, {}, config))
         .then(response => {
             const result = response.data;
             return result;
@@ -26,7 +47,7 @@ function cleanFiles() {
 }
 
 function getDocuments() {
-    return axios.get(`${baseURL}/documents`)
+    return authorize(testerName).then(config => axios.get(`${baseURL}/documents`, config))
         .then(response => {
             const result = response.data;
             return result;
@@ -37,7 +58,7 @@ function createDocument(name: string, user: string): Promise<DocumentTransport>
     // put the user name in the body
     const userName = user;
 
-    return axios.post(`${baseURL}/documents/create/${name}`, { "userName": userName })
+    return authorize(userName).then(config => axios.post(`${baseURL}/documents/create/${name}`, { "userName": userName }, config))
         .then(response => {
             const result = response.data;
             return result;
@@ -48,7 +69,7 @@ function getDocument(name: string, userName: string): Promise<DocumentTransport>
     const body = {
         "userName": userName,
     }
-    return axios.put(`${baseURL}/documents/${name}`, body)
+    return authorize(userName).then(config => axios.put(`${baseURL}/documents/${name}`, body, config))
         .then(response => {
             const result = response.data;
             return result;
@@ -62,7 +83,7 @@ function clearFormula(docName: string, user: string): Promise<DocumentTransport>
         "userName": userName,
     }
 
-    return axios.put(`${baseURL}/document/clear/formula/${docName}`, body)
+    return authorize(userName).then(config => axios.put(`${baseURL}/document/clear/formula/${docName}`, body, config))
         .then(response => {
             const result = response.data;
             return result;
@@ -78,7 +99,7 @@ function addToken(docName: string, token: string, user: string): Promise<Documen
         "token": token
     }
 
-    return axios.put(`${baseURL}/document/addtoken/${docName}`, body)
+    return authorize(userName).then(config => axios.put(`${baseURL}/document/addtoken/${docName}`, body, config))
         .then(response => {
             const result = response.data;
             return result;
@@ -92,7 +113,7 @@ function addCell(docName: string, cell: string, user: string): Promise<DocumentT
         "userName": userName,
         "cell": cell
     }
-    return axios.put(`${baseURL}/document/addcell/${docName}`, body)
+    return authorize(userName).then(config => axios.put(`${baseURL}/document/addcell/${docName}`, body, config))
         .then(response => {
             const result = response.data;
             return result as DocumentTransport;
@@ -105,7 +126,7 @@ function removeToken(docName: string, user: string): Promise<DocumentTransport>
     const body = {
         "userName": userName,
     }
-    return axios.put(`${baseURL}/document/removetoken/${docName}`, body)
+    return authorize(userName).then(config => axios.put(`${baseURL}/document/removetoken/${docName}`, body, config))
         .then(response => {
             const result = response.data;
             return result;
@@ -119,7 +140,7 @@ function requestEditCell(docName: string, cell: string, user: string): Promise<D
         "userName": userName,
         "cell": cell
     }
-    return axios.put(`${baseURL}/document/cell/edit/${docName}`, body)
+    return authorize(userName).then(config => axios.put(`${baseURL}/document/cell/edit/${docName}`, body, config))
         .then(response => {
             const result = response.data;
             return result;
@@ -133,7 +154,7 @@ function requestViewCell(docName: string, cell: string, user: string): Promise<D
         "userName": userName,
         "cell": cell
     }
-    return axios.put(`${baseURL}/document/cell/view/${docName}`, body)
+    return authorize(userName).then(config => axios.put(`${baseURL}/document/cell/view/${docName}`, body, config))
         .then(response => {
             const result = response.data;
             return result;
@@ -385,7 +406,8 @@ async function runTests() {
     resultDocument = await requestViewCell(testDocument3, cellB2, userJose);
     resultDocument = await requestEditCell(testDocument3, cellB2, userJose);
     resultDocument = await addCell(testDocument3, cellA1, userJose);
-    checkErrorOccured(resultDocument, 'Circular dependency detected, A1 cannot depend on B2');
+    checkErrorOccured(resultDocument, '');
+    checkFormulaAndDisplay(resultDocument, 'A1', '#CIRC!');
 
 
 
@@ -0,0 +1,67 @@
+/**
+ * SessionTokens issues the tokens that tell the server who is making a request.
+ *
+ * A token is the user name and the time it expires, signed with HMAC-SHA256 and a secret
+ * that only the server knows.  A token that was changed or that has expired is refused.
+ *
+ * The secret comes from the SESSION_SECRET environment variable.  Without it a random secret
+ * is made when the server starts, and the users log in again after a restart.
+ *
+ * It provides the following calls.
+ *
+ * issue(userName: string): string
+ * verify(token: string): string | undefined
+ */
+import * as crypto from 'crypto';
+
+// what a token says, the user and the time it expires in milliseconds since 1970
+interface SessionClaims {
+    user: string;
+    expires: number;
+}
+
+export class SessionTokens {
+    private _secret: string;
+    private _lifetimeMilliseconds: number;
+
+    constructor(secret: string = crypto.randomBytes(32).toString('hex'), lifetimeMilliseconds: number = 12 * 60 * 60 * 1000) {
+        this._secret = secret;
+        this._lifetimeMilliseconds = lifetimeMilliseconds;
+    }
+
+    /**
+     * @returns a token for the user, it is the claims and the signature in base64url joined by a dot
+     */
+    public issue(userName: string): string {
+        const claims: SessionClaims = { user: userName, expires: Date.now() + this._lifetimeMilliseconds };
+        const payload = Buffer.from(JSON.stringify(claims)).toString('base64url');
+        return `${payload}.${this._sign(payload)}`;
+    }
+
+    /**
+     * @returns the user the token was issued to, or undefined if the token is not valid or has expired
+     */
+    public verify(token: string): string | undefined {
+        const [payload, signature, extra] = token.split('.');
+        if (!payload || !signature || extra !== undefined) {
+            return undefined;
+        }
+        const expected = Buffer.from(this._sign(payload));
+        const given = Buffer.from(signature);
+        if (expected.length !== given.length || !crypto.timingSafeEqual(expected, given)) {
+            return undefined;
+        }
+
+        const claims: SessionClaims = JSON.parse(Buffer.from(payload, 'base64url').toString());
+        if (typeof claims.user !== 'string' || !(claims.expires > Date.now())) {
+            return undefined;
+        }
+        return claims.user;
+    }
+
+    private _sign(payload: string): string {
+        return crypto.createHmac('sha256', this._secret).update(payload).digest('base64url');
+    }
+}
+
+export default SessionTokens;
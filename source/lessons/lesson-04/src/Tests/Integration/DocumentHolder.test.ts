@@ -1,29 +1,47 @@
 import fs from 'fs';
+import os from 'os';
 import path from 'path';
 
 import { DocumentHolder } from '../../Engine/DocumentHolder';
+import { MemoryDocumentStorage } from '../../Engine/MemoryDocumentStorage';
+import SheetMemory from '../../Engine/SheetMemory';
 
 let documentHolder: DocumentHolder;
 
-const documentTestPath = 'documents';
-const documentTestPathFull = path.join(__dirname, '..', '..', '..', documentTestPath);
+// the holders the tests make, their changes are written before the next test starts
+const holders: DocumentHolder[] = [];
+
+function createHolder(...holderArguments: ConstructorParameters<typeof DocumentHolder>): DocumentHolder {
+    const holder = new DocumentHolder(...holderArguments);
+    holders.push(holder);
+    return holder;
+}
+
+// the documents of the tests go in a folder of their own that is removed when the tests are done,
+// the holder takes the folder relative to the root of the project
+const documentTestPathFull = fs.mkdtempSync(path.join(os.tmpdir(), 'documents-'));
+const documentTestPath = path.relative(path.join(__dirname, '..', '..', '..'), documentTestPathFull);
 
 beforeAll(() => {
-    // remove the test documents folder if it exists
-    if (fs.existsSync(documentTestPathFull)) {
-        fs.rmdirSync(documentTestPathFull, { recursive: true });
-    }
-    documentHolder = new DocumentHolder("documents");
+    documentHolder = createHolder(documentTestPath);
 
 });
 
+afterEach(async () => {
+    await Promise.all(holders.map((holder) => holder.flush()));
+});
+
+afterAll(() => {
+    fs.rmSync(documentTestPathFull, { recursive: true, force: true });
+});
+
 
 
 
 describe('DocumentHolder', () => {
     describe('constructor', () => {
         it('should create a document holder', () => {
-            const documentHolder = new DocumentHolder(documentTestPath);
+            const documentHolder = createHolder(documentTestPath);
             // the document should be in the right folder
 
             const result = fs.existsSync(documentTestPathFull);
@@ -38,19 +56,36 @@ describe('DocumentHolder', () => {
         it('should create a document', () => {
             const sheetTestName = 'test' + 1
             const userName = 'testUser';
-            const documentHolder = new DocumentHolder(documentTestPath);
+            const documentHolder = createHolder(documentTestPath);
             documentHolder.createDocument('test1', 2, 2, userName);
 
 
             expect(documentHolder).toBeDefined();
         });
+
+        it('should not keep a document whose size is not valid', () => {
+            const documentHolder = createHolder(documentTestPath);
+            expect(() => documentHolder.createDocument('xxxNegative', -3, 2, 'owner')).toThrow('The columns must be a whole number from 1 to 100');
+            expect(() => documentHolder.createDocument('xxxFraction', 2.5, 2, 'owner')).toThrow('The columns must be a whole number from 1 to 100');
+            expect(() => documentHolder.createDocument('xxxHuge', 2, 1e8, 'owner')).toThrow('The rows must be a whole number from 1 to 1000');
+            expect(documentHolder.getDocumentNames()).not.toContain('xxxNegative');
+            expect(documentHolder.getDocumentNames()).not.toContain('xxxFraction');
+
+            documentHolder.createDocument('xxxGrow', 2, 2, 'owner');
+            let document = JSON.parse(documentHolder.insertRows('xxxGrow', 0, 1e8, 'owner'));
+            expect(document.errorOccurred).toEqual('A sheet can have at most 1000 rows');
+            expect(document.rows).toEqual(2);
+            document = JSON.parse(documentHolder.insertColumns('xxxGrow', 0, 98, 'owner'));
+            expect(document.errorOccurred).toEqual('');
+            expect(document.columns).toEqual(100);
+        });
     });
 
     describe('getDocument', () => {
         it('should get a document', () => {
             const sheetTestName = 'test' + 2
             const userName = 'testUser';
-            const documentHolder = new DocumentHolder(documentTestPath);
+            const documentHolder = createHolder(documentTestPath);
             documentHolder.createDocument(sheetTestName, 2, 2, userName);
 
             documentHolder.requestViewAccess(sheetTestName, 'A1', userName);
@@ -92,7 +127,7 @@ describe('DocumentHolder', () => {
     it('should not add a new document if the document already exists', () => {
         const sheetTestName = 'test' + 3.55
         const userName = 'testUser';
-        const documentHolder = new DocumentHolder(documentTestPath);
+        const documentHolder = createHolder(documentTestPath);
         let result = documentHolder.createDocument(sheetTestName, 2, 2, userName);
         expect(result).toBeTruthy();
         result = documentHolder.createDocument(sheetTestName, 2, 2, userName);
@@ -104,7 +139,7 @@ describe('DocumentHolder', () => {
     it(' add a new controller when a new document is created', () => {
         const sheetTestName = 'NewFiletest' + 3.1
         const userName = 'testUser';
-        const documentHolder = new DocumentHolder(documentTestPath);
+        const documentHolder = createHolder(documentTestPath);
         const file1 = path.join(documentTestPathFull, sheetTestName + '.json');
         fs.writeFileSync(file1, '{"columns":2,"rows":2,"cells":{"A1":{"formula":[],"value":0,"error":"#EMPTY!"},"A2":{"formula":[],"value":0,"error":"#EMPTY!"},"B1":{"formula":[],"value":0,"error":"#EMPTY!"},"B2":{"formula":[],"value":0,"error":"#EMPTY!"}}}');
 
@@ -124,7 +159,7 @@ describe('DocumentHolder', () => {
             it('should add a token to the current formula', () => {
                 const sheetTestName = 'test' + 3
                 const userName = 'testUser';
-                const documentHolder = new DocumentHolder(documentTestPath);
+                const documentHolder = createHolder(documentTestPath);
                 let result = documentHolder.createDocument(sheetTestName, 2, 2, userName);
 
 
@@ -147,7 +182,7 @@ describe('DocumentHolder', () => {
             it('should add a second token to the current formula', () => {
                 const sheetTestName = 'test' + 4
                 const userName = 'testUser';
-                const documentHolder = new DocumentHolder(documentTestPath);
+                const documentHolder = createHolder(documentTestPath);
                 let result = documentHolder.createDocument(sheetTestName, 2, 2, userName);
 
                 const accessOK = documentHolder.requestEditAccess(sheetTestName, 'A1', userName);
@@ -165,9 +200,9 @@ describe('DocumentHolder', () => {
                 expect(formula).toEqual(["1", "+"]);
             });
 
-            it('should not add a cell that references to itself', () => {
+            it('should show #CIRC! for a cell that references itself', () => {
                 const sheetTestName = 'test' + 5
-                const documentHolder = new DocumentHolder(documentTestPath);
+                const documentHolder = createHolder(documentTestPath);
 
                 const userName = 'testUser';
                 let result = documentHolder.createDocument(sheetTestName, 2, 2, userName);
@@ -184,14 +219,15 @@ describe('DocumentHolder', () => {
                 const cell = document.cells["A1"]
                 // get the formula from the cell
                 const formula = cell.formula;
-                // the formula should be 1
-                expect(formula).toEqual([]);
+                // the reference is kept and the cell shows the circular reference
+                expect(formula).toEqual(["A1"]);
+                expect(cell.error).toEqual("#CIRC!");
             });
 
             it('should add a cell that references another cell', () => {
                 const sheetTestName = 'test' + 6
                 const userName = 'testUser';
-                const documentHolder = new DocumentHolder(documentTestPath);
+                const documentHolder = createHolder(documentTestPath);
                 let result = documentHolder.createDocument(sheetTestName, 2, 2, userName);
 
 
@@ -218,7 +254,7 @@ describe('DocumentHolder', () => {
 
             it('should be able to edit A1 and A2', () => {
                 const sheetTestName = 'test' + 7
-                const documentHolder = new DocumentHolder(documentTestPath);
+                const documentHolder = createHolder(documentTestPath);
                 const userName = 'testUser';
                 let result = documentHolder.createDocument(sheetTestName, 2, 2, userName);
 
@@ -261,7 +297,7 @@ describe('DocumentHolder', () => {
 
             it('should not allow a user to edit a cell that is being edited by another user', () => {
                 const sheetTestName = 'test' + 7.1
-                const documentHolder = new DocumentHolder(documentTestPath);
+                const documentHolder = createHolder(documentTestPath);
                 const userName = 'testUser';
                 const otherUserName = 'otherUser';
                 let result = documentHolder.createDocument(sheetTestName, 2, 2, userName);
@@ -290,7 +326,7 @@ describe('DocumentHolder', () => {
             it('should remove a token from the formula', () => {
                 const sheetTestName = 'test' + 8
                 const userName = 'testUser';
-                const documentHolder = new DocumentHolder(documentTestPath);
+                const documentHolder = createHolder(documentTestPath);
                 let result = documentHolder.createDocument(sheetTestName, 2, 2, userName);
 
                 let accessOK = documentHolder.requestEditAccess(sheetTestName, 'A1', userName);
@@ -328,10 +364,10 @@ describe('DocumentHolder', () => {
 
             });
 
-            it('should not add a cell that makes a loop', () => {
+            it('should show #CIRC! for a cell that makes a loop', () => {
                 const sheetTestName = 'test' + 9
                 const userName = 'testUser';
-                const documentHolder = new DocumentHolder(documentTestPath);
+                const documentHolder = createHolder(documentTestPath);
                 let result = documentHolder.createDocument(sheetTestName, 2, 2, userName);
                 let viewAccess = documentHolder.requestViewAccess(sheetTestName, 'A1', userName);
                 let accessOK = documentHolder.requestEditAccess(sheetTestName, 'A1', userName);
@@ -355,18 +391,19 @@ describe('DocumentHolder', () => {
                 const cell = document.cells["B1"]
                 // get the formula from the cell
                 const formula = cell.formula;
-                // the formula should be [""] and the error "#EMPTY!"
-                expect(formula).toEqual([]);
+                // the formula keeps the reference and every cell in the loop shows the error
+                expect(formula).toEqual(["A1"]);
 
                 const error = cell.error;
-                expect(error).toEqual("#EMPTY!");
+                expect(error).toEqual("#CIRC!");
+                expect(document.cells["A1"].error).toEqual("#CIRC!");
 
             });
 
             it('should clear the formula', () => {
                 const sheetTestName = 'test' + 10
                 const userName = 'testUser';
-                const documentHolder = new DocumentHolder(documentTestPath);
+                const documentHolder = createHolder(documentTestPath);
                 let result = documentHolder.createDocument(sheetTestName, 2, 2, userName);
 
                 let accessOK = documentHolder.requestEditAccess(sheetTestName, 'A1', userName);
@@ -407,7 +444,7 @@ describe('DocumentHolder', () => {
                 const sheetTestName = 'test' + 10.1
                 const userName = 'testUser';
                 const otherUserName = 'otherUser';
-                const documentHolder = new DocumentHolder(documentTestPath);
+                const documentHolder = createHolder(documentTestPath);
                 let result = documentHolder.createDocument(sheetTestName, 2, 2, userName);
 
                 let accessOK = documentHolder.requestEditAccess(sheetTestName, 'A1', userName);
@@ -447,7 +484,7 @@ describe('DocumentHolder', () => {
             it('should return the FormulaString for the controler', () => {
                 const sheetTestName = 'test' + 11
                 const userName = 'testUser';
-                const documentHolder = new DocumentHolder(documentTestPath);
+                const documentHolder = createHolder(documentTestPath);
                 let result = documentHolder.createDocument(sheetTestName, 2, 2, userName);
 
                 let accessOK = documentHolder.requestEditAccess(sheetTestName, 'A1', userName);
@@ -468,7 +505,7 @@ describe('DocumentHolder', () => {
             it('should return the working cell label when it is set to A2', () => {
                 const sheetTestName = 'test' + 12
                 const userName = 'testUser';
-                const documentHolder = new DocumentHolder(documentTestPath);
+                const documentHolder = createHolder(documentTestPath);
                 let result = documentHolder.createDocument(sheetTestName, 2, 2, userName);
 
 
@@ -498,7 +535,7 @@ describe('DocumentHolder', () => {
             it('should return true if the user has edit access then they request view Access', () => {
                 const sheetTestName = 'test' + 14
                 const userName = 'testUser';
-                const documentHolder = new DocumentHolder(documentTestPath);
+                const documentHolder = createHolder(documentTestPath);
                 let result = documentHolder.createDocument(sheetTestName, 2, 2, userName);
 
                 let accessOK = documentHolder.requestEditAccess(sheetTestName, 'A2', userName);
@@ -513,7 +550,7 @@ describe('DocumentHolder', () => {
                 const sheetTestName = 'test' + 15
                 const userName = 'testUser';
                 const otherUserName = 'otherUser';
-                const documentHolder = new DocumentHolder(documentTestPath);
+                const documentHolder = createHolder(documentTestPath);
                 let result = documentHolder.createDocument(sheetTestName, 2, 2, otherUserName);
 
                 let accessOK = documentHolder.requestEditAccess(sheetTestName, 'A2', otherUserName);
@@ -528,7 +565,7 @@ describe('DocumentHolder', () => {
                 const sheetTestName = 'test' + 16
                 const userName = 'testUser';
 
-                const documentHolder = new DocumentHolder(documentTestPath);
+                const documentHolder = createHolder(documentTestPath);
                 let result = documentHolder.createDocument(sheetTestName, 4, 4, userName);
 
                 let accessOK = documentHolder.requestEditAccess(sheetTestName, 'A2', userName);
@@ -543,7 +580,7 @@ describe('DocumentHolder', () => {
             it('should return true if the user has edit access then they request edit Access', () => {
                 const sheetTestName = 'test' + 17
                 const userName = 'testUser';
-                const documentHolder = new DocumentHolder(documentTestPath);
+                const documentHolder = createHolder(documentTestPath);
                 let result = documentHolder.createDocument(sheetTestName, 2, 2, userName);
 
                 let accessOK = documentHolder.requestEditAccess(sheetTestName, 'A2', userName);
@@ -559,7 +596,7 @@ describe('DocumentHolder', () => {
             it('should return the formula string for the selected cell even if it cannot edit', () => {
                 const sheetTestName = 'test' + 18
                 const userName = 'testUser';
-                const documentHolder = new DocumentHolder(documentTestPath);
+                const documentHolder = createHolder(documentTestPath);
                 let result = documentHolder.createDocument(sheetTestName, 2, 2, userName);
 
                 const otherUserName = 'otherUser';
@@ -582,7 +619,7 @@ describe('DocumentHolder', () => {
             it('Should not add a cell reference if the user is not editing', () => {
                 const sheetTestName = 'test' + 19
                 const userName = 'testUser';
-                const documentHolder = new DocumentHolder(documentTestPath);
+                const documentHolder = createHolder(documentTestPath);
                 let result = documentHolder.createDocument(sheetTestName, 2, 2, userName);
 
                 let accessOK = documentHolder.requestViewAccess(sheetTestName, 'A1', userName);
@@ -594,7 +631,903 @@ describe('DocumentHolder', () => {
 
 
             });
+
+            it('should save and reload text values', async () => {
+                const sheetTestName = 'xxxText'
+                const userName = 'testUser';
+                const documentHolder = createHolder(documentTestPath);
+                documentHolder.createDocument(sheetTestName, 2, 2, userName);
+
+                documentHolder.requestEditAccess(sheetTestName, 'A1', userName);
+                documentHolder.addToken(sheetTestName, '"Revenue"', userName);
+                documentHolder.addToken(sheetTestName, '&', userName);
+                documentHolder.addToken(sheetTestName, '1', userName);
+
+                // a second holder reads the document back from the file
+                await documentHolder.flush();
+                const reloadedHolder = createHolder(documentTestPath);
+                const document = JSON.parse(reloadedHolder.getDocumentJSON(sheetTestName, userName));
+                expect(document.cells["A1"].value).toEqual("Revenue1");
+                expect(document.cells["A1"].error).toEqual("");
+            });
+        });
+    });
+
+    describe('revisions', () => {
+        it('should number the revisions and record who made them', async () => {
+            const sheetTestName = 'xxxRevisions1';
+            const documentHolder = createHolder(documentTestPath);
+            documentHolder.createDocument(sheetTestName, 2, 2, 'juancho');
+            await documentHolder.flush();
+            documentHolder.requestEditAccess(sheetTestName, 'A1', 'juancho');
+            documentHolder.addToken(sheetTestName, '1', 'juancho');
+            await documentHolder.flush();
+            // a change that leaves the sheet as it was does not add a revision
+            documentHolder.requestViewAccess(sheetTestName, 'A1', 'juancho');
+            documentHolder.addCell(sheetTestName, 'B1', 'juancho');
+            await documentHolder.flush();
+
+            const revisions = documentHolder.getRevisions(sheetTestName);
+            expect(revisions.map(revision => revision.revision)).toEqual([1, 2]);
+            expect(revisions[1].user).toEqual('juancho');
+            expect(revisions[1].sheet).toBeUndefined();
+            expect(Date.parse(revisions[1].timestamp)).not.toBeNaN();
+        });
+
+        it('should keep the changes made before a write as one revision of the users who made them', async () => {
+            const sheetTestName = 'xxxRevisions5';
+            const documentHolder = createHolder(documentTestPath);
+            documentHolder.createDocument(sheetTestName, 2, 2, 'juancho');
+            documentHolder.shareDocument(sheetTestName, 'maria', 'editor', 'juancho');
+            await documentHolder.flush();
+            documentHolder.requestEditAccess(sheetTestName, 'A1', 'juancho');
+            documentHolder.addToken(sheetTestName, '1', 'juancho');
+            documentHolder.addToken(sheetTestName, '2', 'juancho');
+            documentHolder.requestViewAccess(sheetTestName, 'B1', 'maria');
+            documentHolder.requestEditAccess(sheetTestName, 'B1', 'maria');
+            documentHolder.addToken(sheetTestName, '3', 'maria');
+            documentHolder.addToken(sheetTestName, '+', 'juancho');
+            expect(documentHolder.getRevisions(sheetTestName).map(revision => revision.revision)).toEqual([1]);
+            await documentHolder.flush();
+
+            const revisions = documentHolder.getRevisions(sheetTestName);
+            expect(revisions.map(revision => revision.revision)).toEqual([1, 2]);
+            expect(revisions[1].user).toEqual('juancho, maria');
+            const sheet = documentHolder.getRevision(sheetTestName, 2)!.sheet.sheets[0];
+            expect(sheet.cells["A1"].formula).toEqual(["12", "+"]);
+            expect(sheet.cells["B1"].formula).toEqual(["3"]);
+        });
+
+        it('should return a past revision and the cells that changed since', async () => {
+            const sheetTestName = 'xxxRevisions2';
+            const userName = 'testUser';
+            const documentHolder = createHolder(documentTestPath);
+            documentHolder.createDocument(sheetTestName, 2, 2, userName);
+            await documentHolder.flush();
+            documentHolder.requestEditAccess(sheetTestName, 'A1', userName);
+            documentHolder.addToken(sheetTestName, '4', userName);
+            await documentHolder.flush();
+            documentHolder.addToken(sheetTestName, '2', userName);
+            await documentHolder.flush();
+
+            const revision = documentHolder.getRevision(sheetTestName, 2);
+            expect(revision!.sheet.sheets[0].cells["A1"].formula).toEqual(["4"]);
+
+            const differences = documentHolder.diffRevisions(sheetTestName, 1, 3);
+            expect(differences).toEqual([{
+                cell: 'Sheet1!A1',
+                from: { formula: [], value: 0, error: '#EMPTY!' },
+                to: { formula: ['42'], value: 42, error: '' },
+            }]);
+            expect(documentHolder.diffRevisions(sheetTestName, 1, 99)).toBeUndefined();
+        });
+
+        it('should restore a revision as the new head', async () => {
+            const sheetTestName = 'xxxRevisions3';
+            const userName = 'testUser';
+            const documentHolder = createHolder(documentTestPath);
+            documentHolder.createDocument(sheetTestName, 2, 2, userName);
+            await documentHolder.flush();
+            documentHolder.requestEditAccess(sheetTestName, 'A1', userName);
+            documentHolder.addToken(sheetTestName, '7', userName);
+            await documentHolder.flush();
+            documentHolder.clearFormula(sheetTestName, userName);
+            await documentHolder.flush();
+
+            const documentJSON = documentHolder.restoreRevision(sheetTestName, 2, userName);
+            const document = JSON.parse(documentJSON!);
+            expect(document.cells["A1"].formula).toEqual(["7"]);
+            expect(document.formula).toEqual("7");
+            await documentHolder.flush();
+
+            const revisions = documentHolder.getRevisions(sheetTestName);
+            expect(revisions.map(revision => revision.revision)).toEqual([1, 2, 3, 4]);
+            expect(documentHolder.restoreRevision(sheetTestName, 99, userName)).toBeUndefined();
+        });
+
+        it('should only keep the newest revisions', async () => {
+            const sheetTestName = 'xxxRevisions4';
+            const userName = 'testUser';
+            const documentHolder = createHolder(documentTestPath, 3);
+            documentHolder.createDocument(sheetTestName, 2, 2, userName);
+            await documentHolder.flush();
+            documentHolder.requestEditAccess(sheetTestName, 'A1', userName);
+            for (const token of ['1', '+', '2']) {
+                documentHolder.addToken(sheetTestName, token, userName);
+                await documentHolder.flush();
+            }
+
+            const revisions = documentHolder.getRevisions(sheetTestName);
+            expect(revisions.map(revision => revision.revision)).toEqual([2, 3, 4]);
+            expect(documentHolder.getRevision(sheetTestName, 1)).toBeUndefined();
         });
     });
 
-});
\ No newline at end of file
+    describe('sheets', () => {
+        it('should load a document saved with a single sheet and save it with all its sheets', async () => {
+            const sheetTestName = 'xxxSingleSheet';
+            const userName = 'testUser';
+            fs.writeFileSync(path.join(documentTestPathFull, sheetTestName + '.json'), JSON.stringify({
+                columns: 2,
+                rows: 2,
+                cells: { A1: { formula: ['6'], value: 6, error: '' } },
+            }));
+            const documentHolder = createHolder(documentTestPath);
+
+            documentHolder.addSheet(sheetTestName, 'Summary', userName);
+            documentHolder.selectSheet(sheetTestName, 'Summary', userName);
+            documentHolder.requestEditAccess(sheetTestName, 'B1', userName);
+            const document = JSON.parse(documentHolder.addToken(sheetTestName, 'Sheet1!A1', userName));
+            expect(document.sheets).toEqual(['Sheet1', 'Summary']);
+            expect(document.sheet).toEqual('Summary');
+            expect(document.cells['B1'].value).toEqual(6);
+
+            await documentHolder.flush();
+            const savedDocument = JSON.parse(fs.readFileSync(path.join(documentTestPathFull, sheetTestName + '.json'), 'utf8'));
+            expect(savedDocument.version).toEqual(2);
+            expect(savedDocument.sheets[1].cells['B1'].formula).toEqual(['Sheet1!A1']);
+        });
+
+        it('should change the rows of the sheet the user is shown', () => {
+            const sheetTestName = 'xxxSheetRows';
+            const userName = 'testUser';
+            const documentHolder = createHolder(documentTestPath);
+            documentHolder.createDocument(sheetTestName, 2, 2, userName);
+            documentHolder.addSheet(sheetTestName, 'Summary', userName);
+            documentHolder.selectSheet(sheetTestName, 'Summary', userName);
+
+            const document = JSON.parse(documentHolder.insertRows(sheetTestName, 0, 1, userName));
+            expect(document.rows).toEqual(3);
+            documentHolder.selectSheet(sheetTestName, 'Sheet1', userName);
+            expect(JSON.parse(documentHolder.getDocumentJSON(sheetTestName, userName)).rows).toEqual(2);
+        });
+    });
+
+
+    describe('names', () => {
+        it('should save the names with the document', async () => {
+            const namesTestName = 'xxxNames';
+            const userName = 'testUser';
+            const documentHolder = createHolder(documentTestPath);
+            documentHolder.createDocument(namesTestName, 2, 2, userName);
+
+            const document = JSON.parse(documentHolder.defineName(namesTestName, 'TaxRate', 'B1', userName));
+            expect(document.names).toEqual([{ name: 'TaxRate', definition: 'B1' }]);
+
+            await documentHolder.flush();
+            const reloadedHolder = createHolder(documentTestPath);
+            expect(reloadedHolder.getNames(namesTestName)).toEqual([{ name: 'TaxRate', definition: 'B1' }]);
+            const savedDocument = JSON.parse(fs.readFileSync(path.join(documentTestPathFull, namesTestName + '.json'), 'utf8'));
+            expect(savedDocument.names).toEqual({ TaxRate: 'Sheet1!B1' });
+        });
+    });
+
+    describe('import and export', () => {
+        it('should make a new document from CSV and export it as TSV', () => {
+            const importTestName = 'xxxImport';
+            const userName = 'testUser';
+            const documentHolder = createHolder(documentTestPath);
+
+            expect(documentHolder.importDocument(importTestName, 'Item,Amount\r\n"Rent, March",500\r\nTotal,=SUM(B2:B2)\r\n', ',', userName)).toEqual(true);
+            expect(documentHolder.importDocument(importTestName, '', ',', userName)).toEqual(false);
+            const document = JSON.parse(documentHolder.getDocumentJSON(importTestName, userName));
+            expect(document.columns).toEqual(2);
+            expect(document.rows).toEqual(3);
+
+            expect(documentHolder.exportDocument(importTestName, undefined, 'values', '\t')).toEqual('Item\tAmount\r\nRent, March\t500\r\nTotal\t500\r\n');
+            expect(documentHolder.exportDocument(importTestName, 'Sheet1', 'formulas', ',')).toEqual('Item,Amount\r\n"Rent, March",500\r\nTotal,=SUM ( B2:B2 )\r\n');
+            expect(documentHolder.exportDocument(importTestName, 'Summary', 'values', ',')).toBeUndefined();
+        });
+
+        it('should not make a document from a broken file', () => {
+            const documentHolder = createHolder(documentTestPath);
+
+            expect(() => documentHolder.importDocument('xxxBrokenImport', 'a,"b', ',', 'testUser')).toThrow();
+            expect(documentHolder.getDocumentNames()).not.toContain('xxxBrokenImport');
+        });
+    });
+
+    describe('delta sync', () => {
+        it('should send only the cells and editors that changed since a revision', () => {
+            const deltaTestName = 'xxxDelta';
+            const documentHolder = createHolder(documentTestPath);
+            documentHolder.createDocument(deltaTestName, 3, 3, 'user1');
+            documentHolder.shareDocument(deltaTestName, 'user2', 'editor', 'user1');
+
+            const document = JSON.parse(documentHolder.getDocumentJSON(deltaTestName, 'user1'));
+            expect(document.isDelta).toEqual(false);
+            expect(Object.keys(document.cells).length).toEqual(9);
+            expect(documentHolder.getDocumentDeltaJSON(deltaTestName, 'user1', document.revision)).toBeUndefined();
+
+            documentHolder.requestViewAccess(deltaTestName, 'A1', 'user2');
+            documentHolder.requestEditAccess(deltaTestName, 'B2', 'user2');
+            documentHolder.setFormula(deltaTestName, '=3 + 4', 'user2');
+            const delta = JSON.parse(documentHolder.getDocumentDeltaJSON(deltaTestName, 'user1', document.revision)!);
+            expect(delta.isDelta).toEqual(true);
+            expect(delta.revision).toBeGreaterThan(document.revision);
+            expect(Object.keys(delta.cells)).toEqual(['B2']);
+            expect(delta.cells.B2.value).toEqual(7);
+            expect(delta.contributingUsers).toEqual([{ user: 'user2', cell: 'B2', isEditing: true }]);
+            expect(delta.removedUsers).toEqual([]);
+
+            documentHolder.requestViewAccess(deltaTestName, 'C3', 'user2');
+            const nextDelta = JSON.parse(documentHolder.getDocumentDeltaJSON(deltaTestName, 'user1', delta.revision)!);
+            expect(nextDelta.cells).toEqual({});
+            expect(nextDelta.removedUsers).toEqual(['user2']);
+            expect(documentHolder.getDocumentDeltaJSON(deltaTestName, 'user1', nextDelta.revision)).toBeUndefined();
+            expect(documentHolder.getDocumentRevision(deltaTestName)).toEqual(nextDelta.revision);
+        });
+
+        it('should send the whole document for a revision it does not know or another sheet', () => {
+            const deltaTestName = 'xxxDeltaSheets';
+            const documentHolder = createHolder(documentTestPath);
+            documentHolder.createDocument(deltaTestName, 2, 2, 'user1');
+            const document = JSON.parse(documentHolder.getDocumentJSON(deltaTestName, 'user1'));
+
+            const unknown = JSON.parse(documentHolder.getDocumentDeltaJSON(deltaTestName, 'user1', 12)!);
+            expect(unknown.isDelta).toEqual(false);
+            expect(Object.keys(unknown.cells).length).toEqual(4);
+
+            documentHolder.addSheet(deltaTestName, 'Summary', 'user1');
+            documentHolder.selectSheet(deltaTestName, 'Summary', 'user1');
+            const otherSheet = JSON.parse(documentHolder.getDocumentDeltaJSON(deltaTestName, 'user1', document.revision)!);
+            expect(otherSheet.isDelta).toEqual(false);
+            expect(otherSheet.sheet).toEqual('Summary');
+        });
+
+        it('should only look at the cells that changed and the cells whose style changed with them', () => {
+            const deltaTestName = 'xxxDeltaStyles';
+            const documentHolder = createHolder(documentTestPath);
+            documentHolder.createDocument(deltaTestName, 2, 3, 'user1');
+            documentHolder.requestEditAccess(deltaTestName, 'A1', 'user1');
+            documentHolder.setFormula(deltaTestName, '1', 'user1');
+            documentHolder.requestEditAccess(deltaTestName, 'A2', 'user1');
+            documentHolder.setFormula(deltaTestName, '2', 'user1');
+            documentHolder.addConditionalRule(deltaTestName,
+                { id: 0, range: 'A1:A3', condition: 'top', value: 1, style: { bold: true } }, 'user1');
+            const document = JSON.parse(documentHolder.getDocumentJSON(deltaTestName, 'user1'));
+            expect(document.cells.A2.style).toEqual({ bold: true });
+
+            // the new top value takes the style from A2
+            documentHolder.requestEditAccess(deltaTestName, 'A3', 'user1');
+            documentHolder.setFormula(deltaTestName, '3', 'user1');
+
+            // the whole sheet is not built for a fetch
+            const sheetContainer = jest.spyOn(SheetMemory.prototype, 'sheetContainer');
+            const delta = JSON.parse(documentHolder.getDocumentDeltaJSON(deltaTestName, 'user1', document.revision)!);
+            expect(documentHolder.getDocumentDeltaJSON(deltaTestName, 'user1', delta.revision)).toBeUndefined();
+            expect(sheetContainer).not.toHaveBeenCalled();
+            sheetContainer.mockRestore();
+            expect(delta.isDelta).toEqual(true);
+            expect(Object.keys(delta.cells).sort()).toEqual(['A2', 'A3']);
+            expect(delta.cells.A2.style).toBeUndefined();
+            expect(delta.cells.A3.style).toEqual({ bold: true });
+
+            // a change to the rows changes every cell, the whole sheet is sent
+            documentHolder.insertRows(deltaTestName, 0, 1, 'user1');
+            const whole = JSON.parse(documentHolder.getDocumentDeltaJSON(deltaTestName, 'user1', delta.revision)!);
+            expect(whole.isDelta).toEqual(false);
+            expect(whole.cells.A4.style).toEqual({ bold: true });
+        });
+    });
+
+    describe('access', () => {
+        it('should make the user who creates a document its owner', () => {
+            const accessTestName = 'xxxAccessOwner';
+            const documentHolder = createHolder(documentTestPath);
+            documentHolder.createDocument(accessTestName, 2, 2, 'owner');
+
+            expect(documentHolder.getAccess(accessTestName)).toEqual([{ user: 'owner', role: 'owner' }]);
+            expect(documentHolder.hasAccess(accessTestName, 'owner')).toEqual(true);
+            expect(documentHolder.hasAccess(accessTestName, 'stranger')).toEqual(false);
+            expect(documentHolder.getDocumentNamesForUser('owner')).toContain(accessTestName);
+            expect(documentHolder.getDocumentNamesForUser('stranger')).not.toContain(accessTestName);
+            expect(JSON.parse(documentHolder.getDocumentJSON(accessTestName, 'owner')).role).toEqual('owner');
+        });
+
+        it('should let editors change the document and viewers only look at it', () => {
+            const accessTestName = 'xxxAccessRoles';
+            const documentHolder = createHolder(documentTestPath);
+            documentHolder.createDocument(accessTestName, 2, 2, 'owner');
+            documentHolder.shareDocument(accessTestName, 'editor', 'editor', 'owner');
+            documentHolder.shareDocument(accessTestName, 'viewer', 'viewer', 'owner');
+
+            documentHolder.requestViewAccess(accessTestName, 'A1', 'editor');
+            expect(documentHolder.requestEditAccess(accessTestName, 'A1', 'editor')).toEqual(true);
+            documentHolder.addToken(accessTestName, '5', 'editor');
+
+            documentHolder.requestViewAccess(accessTestName, 'A1', 'viewer');
+            expect(documentHolder.requestEditAccess(accessTestName, 'B2', 'viewer')).toEqual(false);
+            let document = JSON.parse(documentHolder.getDocumentJSON(accessTestName, 'viewer'));
+            expect(document.role).toEqual('viewer');
+            expect(document.currentCell).toEqual('B2');
+            expect(document.isEditing).toEqual(false);
+            expect(document.errorOccurred).toEqual('viewer can only view this document');
+
+            document = JSON.parse(documentHolder.insertRows(accessTestName, 0, 1, 'viewer'));
+            expect(document.errorOccurred).toEqual('viewer can only view this document');
+            expect(document.rows).toEqual(2);
+            expect(document.cells.A1.value).toEqual(5);
+        });
+
+        it('should change and revoke the access and save it with the document', async () => {
+            const accessTestName = 'xxxAccessChange';
+            const documentHolder = createHolder(documentTestPath);
+            documentHolder.createDocument(accessTestName, 2, 2, 'owner');
+            documentHolder.shareDocument(accessTestName, 'alex', 'editor', 'owner');
+
+            documentHolder.requestViewAccess(accessTestName, 'A1', 'alex');
+            documentHolder.requestEditAccess(accessTestName, 'A1', 'alex');
+            let document = JSON.parse(documentHolder.changeAccess(accessTestName, 'alex', 'viewer', 'owner'));
+            expect(document.errorOccurred).toEqual('');
+            expect(JSON.parse(documentHolder.getDocumentJSON(accessTestName, 'alex')).isEditing).toEqual(false);
+
+            document = JSON.parse(documentHolder.shareDocument(accessTestName, 'jose', 'editor', 'alex'));
+            expect(document.errorOccurred).toEqual('Only the owner can share this document');
+            document = JSON.parse(documentHolder.shareDocument(accessTestName, 'jose', 'owner', 'owner'));
+            expect(document.errorOccurred).toEqual('Invalid role owner, use editor or viewer');
+            document = JSON.parse(documentHolder.revokeAccess(accessTestName, 'owner', 'owner'));
+            expect(document.errorOccurred).toEqual('The owner keeps their access to this document');
+
+            await documentHolder.flush();
+            const reloadedHolder = createHolder(documentTestPath);
+            expect(reloadedHolder.getAccess(accessTestName)).toEqual([{ user: 'owner', role: 'owner' }, { user: 'alex', role: 'viewer' }]);
+
+            documentHolder.revokeAccess(accessTestName, 'alex', 'owner');
+            expect(documentHolder.hasAccess(accessTestName, 'alex')).toEqual(false);
+        });
+
+        it('should let every user edit a document saved before it had an owner', () => {
+            const accessTestName = 'xxxAccessLegacy';
+            fs.writeFileSync(path.join(documentTestPathFull, accessTestName + '.json'), JSON.stringify({ version: 2, sheets: [{ name: 'Sheet1', columns: 1, rows: 1, cells: {} }] }));
+            const documentHolder = createHolder(documentTestPath);
+
+            expect(documentHolder.hasAccess(accessTestName, 'anyone')).toEqual(true);
+            expect(documentHolder.getAccess(accessTestName)).toEqual([]);
+            expect(JSON.parse(documentHolder.getDocumentJSON(accessTestName, 'anyone')).role).toEqual('editor');
+        });
+
+        it('should let a user claim a document without an owner and keep the users who have it open', async () => {
+            const accessTestName = 'xxxAccessClaim';
+            fs.writeFileSync(path.join(documentTestPathFull, accessTestName + '.json'), JSON.stringify({ version: 2, sheets: [{ name: 'Sheet1', columns: 1, rows: 1, cells: {} }] }));
+            const documentHolder = createHolder(documentTestPath);
+
+            // a change does not claim the document
+            documentHolder.requestViewAccess(accessTestName, 'A1', 'first');
+            documentHolder.requestViewAccess(accessTestName, 'A1', 'second');
+            expect(documentHolder.requestEditAccess(accessTestName, 'A1', 'first')).toEqual(true);
+            documentHolder.addToken(accessTestName, '5', 'first');
+            expect(documentHolder.getAccess(accessTestName)).toEqual([]);
+
+            let document = JSON.parse(documentHolder.claimDocument(accessTestName, 'first'));
+            expect(document.errorOccurred).toEqual('');
+            expect(document.role).toEqual('owner');
+            expect(documentHolder.getAccess(accessTestName)).toEqual([{ user: 'first', role: 'owner' }, { user: 'second', role: 'editor' }]);
+            expect(documentHolder.hasAccess(accessTestName, 'stranger')).toEqual(false);
+            document = JSON.parse(documentHolder.claimDocument(accessTestName, 'second'));
+            expect(document.errorOccurred).toEqual('This document already has an owner');
+
+            await documentHolder.flush();
+            const reloadedHolder = createHolder(documentTestPath);
+            expect(reloadedHolder.getAccess(accessTestName)).toEqual([{ user: 'first', role: 'owner' }, { user: 'second', role: 'editor' }]);
+        });
+    });
+
+    describe('edit leases', () => {
+        const leaseMilliseconds = 30 * 1000;
+
+        it('should release a cell whose lease was not renewed and tell its editor', () => {
+            const leaseTestName = 'xxxLeaseExpire';
+            const documentHolder = createHolder(documentTestPath, 100, leaseMilliseconds);
+            documentHolder.createDocument(leaseTestName, 2, 2, 'owner');
+            documentHolder.shareDocument(leaseTestName, 'alex', 'editor', 'owner');
+            documentHolder.requestViewAccess(leaseTestName, 'A1', 'alex');
+            documentHolder.requestEditAccess(leaseTestName, 'A1', 'alex');
+            documentHolder.getDocumentJSON(leaseTestName, 'alex');
+
+            expect(documentHolder.expireEditLeases(Date.now() + leaseMilliseconds / 2)).toEqual([]);
+            expect(documentHolder.expireEditLeases(Date.now() + leaseMilliseconds * 2)).toEqual([leaseTestName]);
+
+            let document = JSON.parse(documentHolder.getDocumentJSON(leaseTestName, 'alex'));
+            expect(document.isEditing).toEqual(false);
+            expect(document.errorOccurred).toEqual('Your edit of A1 ended after 30 seconds without activity');
+            document = JSON.parse(documentHolder.getDocumentJSON(leaseTestName, 'alex'));
+            expect(document.errorOccurred).toEqual('');
+
+            documentHolder.requestViewAccess(leaseTestName, 'A1', 'owner');
+            expect(documentHolder.requestEditAccess(leaseTestName, 'A1', 'owner')).toEqual(true);
+        });
+
+        it('should not let a user who was refused a cell change it or release it when their lease ends', () => {
+            const leaseTestName = 'xxxLeaseRefused';
+            const documentHolder = createHolder(documentTestPath, 100, leaseMilliseconds);
+            documentHolder.createDocument(leaseTestName, 2, 2, 'owner');
+            documentHolder.shareDocument(leaseTestName, 'alice', 'editor', 'owner');
+            documentHolder.shareDocument(leaseTestName, 'bob', 'editor', 'owner');
+            const start = Date.now();
+            documentHolder.requestViewAccess(leaseTestName, 'B1', 'bob');
+            expect(documentHolder.requestEditAccess(leaseTestName, 'B1', 'bob')).toEqual(true);
+            // alice takes A1 later, her lease lasts longer than the one bob had for B1
+            jest.spyOn(Date, 'now').mockReturnValue(start + leaseMilliseconds);
+            documentHolder.requestViewAccess(leaseTestName, 'A1', 'alice');
+            expect(documentHolder.requestEditAccess(leaseTestName, 'A1', 'alice')).toEqual(true);
+
+            expect(documentHolder.requestEditAccess(leaseTestName, 'A1', 'bob')).toEqual(false);
+            let document = JSON.parse(documentHolder.addToken(leaseTestName, '7', 'bob'));
+            expect(document.isEditing).toEqual(false);
+            expect(document.cells.A1.formula).toEqual([]);
+
+            // bob's lease would have ended, he edits nothing so alice keeps A1
+            expect(documentHolder.expireEditLeases(start + leaseMilliseconds * 3 / 2)).toEqual([]);
+            documentHolder.requestViewAccess(leaseTestName, 'A1', 'owner');
+            expect(documentHolder.requestEditAccess(leaseTestName, 'A1', 'owner')).toEqual(false);
+            expect(JSON.parse(documentHolder.getDocumentJSON(leaseTestName, 'alice')).isEditing).toEqual(true);
+        });
+
+        it('should keep a cell whose lease is renewed', () => {
+            const leaseTestName = 'xxxLeaseRenew';
+            const documentHolder = createHolder(documentTestPath, 100, leaseMilliseconds);
+            documentHolder.createDocument(leaseTestName, 2, 2, 'owner');
+            documentHolder.requestEditAccess(leaseTestName, 'B1', 'owner');
+
+            const start = Date.now();
+            documentHolder.recordFetch(leaseTestName, 'owner');
+            expect(documentHolder.expireEditLeases(start + leaseMilliseconds / 2)).toEqual([]);
+            expect(JSON.parse(documentHolder.getDocumentJSON(leaseTestName, 'owner')).isEditing).toEqual(true);
+        });
+
+        it('should let only the owner release a cell that another user is editing', () => {
+            const leaseTestName = 'xxxLeaseRelease';
+            const documentHolder = createHolder(documentTestPath, 100, leaseMilliseconds);
+            documentHolder.createDocument(leaseTestName, 2, 2, 'owner');
+            documentHolder.shareDocument(leaseTestName, 'alex', 'editor', 'owner');
+            documentHolder.shareDocument(leaseTestName, 'jose', 'editor', 'owner');
+            documentHolder.requestViewAccess(leaseTestName, 'B2', 'alex');
+            documentHolder.requestEditAccess(leaseTestName, 'B2', 'alex');
+            documentHolder.getDocumentJSON(leaseTestName, 'alex');
+
+            let document = JSON.parse(documentHolder.forceReleaseEditAccess(leaseTestName, 'B2', 'jose'));
+            expect(document.errorOccurred).toEqual('Only the owner can release the cells of other users');
+            document = JSON.parse(documentHolder.forceReleaseEditAccess(leaseTestName, 'A2', 'owner'));
+            expect(document.errorOccurred).toEqual('Cell A2 is not being edited');
+
+            document = JSON.parse(documentHolder.forceReleaseEditAccess(leaseTestName, 'B2', 'owner'));
+            expect(document.errorOccurred).toEqual('');
+            expect(document.contributingUsers).toEqual([]);
+            document = JSON.parse(documentHolder.getDocumentJSON(leaseTestName, 'alex'));
+            expect(document.isEditing).toEqual(false);
+            expect(document.errorOccurred).toEqual('owner released your edit of B2');
+        });
+    });
+
+    describe('presence', () => {
+        afterEach(() => {
+            jest.restoreAllMocks();
+        });
+
+        it('should send where every user with the document open is', () => {
+            const presenceTestName = 'xxxPresence';
+            const documentHolder = createHolder(documentTestPath);
+            documentHolder.createDocument(presenceTestName, 3, 3, 'owner');
+            documentHolder.shareDocument(presenceTestName, 'alex', 'viewer', 'owner');
+            documentHolder.requestViewAccess(presenceTestName, 'C3', 'alex');
+            documentHolder.requestEditAccess(presenceTestName, 'B2', 'owner');
+
+            const document = JSON.parse(documentHolder.getDocumentJSON(presenceTestName, 'alex'));
+            expect(document.presence.map((userPresence: any) => [userPresence.user, userPresence.cell, userPresence.isEditing, userPresence.state]))
+                .toEqual([['alex', 'C3', false, 'active'], ['owner', 'B2', true, 'active']]);
+
+            documentHolder.revokeAccess(presenceTestName, 'alex', 'owner');
+            const ownerDocument = JSON.parse(documentHolder.getDocumentJSON(presenceTestName, 'owner'));
+            expect(ownerDocument.presence.map((userPresence: any) => userPresence.user)).toEqual(['owner']);
+        });
+
+        it('should only change the revision when a fetch changes what the others see', () => {
+            const presenceTestName = 'xxxPresenceFetch';
+            const documentHolder = createHolder(documentTestPath);
+            documentHolder.createDocument(presenceTestName, 3, 3, 'owner');
+            documentHolder.shareDocument(presenceTestName, 'alex', 'viewer', 'owner');
+            const revision = JSON.parse(documentHolder.getDocumentJSON(presenceTestName, 'owner')).revision;
+
+            // the fetches of a client that has the document open change nothing
+            documentHolder.recordFetch(presenceTestName, 'owner');
+            expect(documentHolder.getDocumentDeltaJSON(presenceTestName, 'owner', revision)).toBeUndefined();
+            expect(documentHolder.getDocumentRevision(presenceTestName)).toEqual(revision);
+
+            // a user who opens the document is news to the others
+            documentHolder.requestViewAccess(presenceTestName, 'B2', 'alex');
+            documentHolder.getDocumentDeltaJSON(presenceTestName, 'alex', undefined);
+            expect(documentHolder.getDocumentRevision(presenceTestName)).toBeGreaterThan(revision);
+        });
+
+        it('should show a user as idle without activity and away without fetches', () => {
+            const presenceTestName = 'xxxPresenceState';
+            const documentHolder = createHolder(documentTestPath);
+            documentHolder.createDocument(presenceTestName, 3, 3, 'owner');
+            documentHolder.shareDocument(presenceTestName, 'alex', 'editor', 'owner');
+            documentHolder.requestViewAccess(presenceTestName, 'A2', 'alex');
+            const start = Date.now();
+            const revision = JSON.parse(documentHolder.getDocumentJSON(presenceTestName, 'owner')).revision;
+
+            expect(documentHolder.updatePresence(start + 10 * 1000)).toEqual([]);
+            jest.spyOn(Date, 'now').mockReturnValue(start + 60 * 1000);
+            expect(documentHolder.updatePresence()).toEqual([presenceTestName]);
+            expect(documentHolder.updatePresence()).toEqual([]);
+            const delta = JSON.parse(documentHolder.getDocumentDeltaJSON(presenceTestName, 'owner', revision)!);
+            expect(delta.presence.find((userPresence: any) => userPresence.user === 'alex').state).toEqual('away');
+
+            // a client that keeps fetching shows the user is there but idle until they do something
+            jest.spyOn(Date, 'now').mockReturnValue(start + 3 * 60 * 1000);
+            documentHolder.recordFetch(presenceTestName, 'alex');
+            let presence = documentHolder.getDocumentJSON(presenceTestName, 'alex');
+            expect(JSON.parse(presence).presence.find((userPresence: any) => userPresence.user === 'alex').state).toEqual('idle');
+            documentHolder.recordActivity(presenceTestName, 'alex');
+            presence = documentHolder.getDocumentJSON(presenceTestName, 'alex');
+            expect(JSON.parse(presence).presence.find((userPresence: any) => userPresence.user === 'alex').state).toEqual('active');
+        });
+    });
+
+    describe('comments', () => {
+        it('should save the discussions on the cells with the document', async () => {
+            const commentTestName = 'xxxComments';
+            const documentHolder = createHolder(documentTestPath);
+            documentHolder.createDocument(commentTestName, 3, 3, 'owner');
+            documentHolder.shareDocument(commentTestName, 'alex', 'editor', 'owner');
+            documentHolder.requestViewAccess(commentTestName, 'A1', 'alex');
+
+            let document = JSON.parse(documentHolder.addComment(commentTestName, 'B2', 'Where does this come from?', 'owner'));
+            expect(document.comments.map((comment: any) => [comment.cell, comment.author, comment.text])).toEqual([['B2', 'owner', 'Where does this come from?']]);
+            const id = document.comments[0].id;
+            documentHolder.replyToComment(commentTestName, id, 'From the budget', 'alex');
+            document = JSON.parse(documentHolder.resolveComment(commentTestName, id, true, 'alex'));
+            expect(document.comments[0].resolved).toEqual(true);
+            expect(document.comments[0].replies.map((reply: any) => [reply.author, reply.text])).toEqual([['alex', 'From the budget']]);
+
+            await documentHolder.flush();
+            const savedJSON = JSON.parse(fs.readFileSync(path.join(documentTestPathFull, commentTestName + '.json'), 'utf8'));
+            expect(savedJSON.comments[0].cell).toEqual('Sheet1!B2');
+            const reloadedHolder = createHolder(documentTestPath);
+            expect(JSON.parse(reloadedHolder.getDocumentJSON(commentTestName, 'owner')).comments[0].replies.length).toEqual(1);
+        });
+
+        it('should report comments without text, on missing cells and deleted by other users', () => {
+            const commentTestName = 'xxxCommentErrors';
+            const documentHolder = createHolder(documentTestPath);
+            documentHolder.createDocument(commentTestName, 3, 3, 'owner');
+            documentHolder.shareDocument(commentTestName, 'alex', 'editor', 'owner');
+            documentHolder.shareDocument(commentTestName, 'jose', 'editor', 'owner');
+
+            let document = JSON.parse(documentHolder.addComment(commentTestName, 'A1', '  ', 'alex'));
+            expect(document.errorOccurred).toEqual('A comment needs some text');
+            document = JSON.parse(documentHolder.addComment(commentTestName, 'Z9', 'Hello', 'alex'));
+            expect(document.errorOccurred).toEqual('Invalid cell Z9');
+            document = JSON.parse(documentHolder.replyToComment(commentTestName, 42, 'Hello', 'alex'));
+            expect(document.errorOccurred).toEqual('Comment 42 does not exist');
+
+            document = JSON.parse(documentHolder.addComment(commentTestName, 'A1', 'Mine', 'alex'));
+            const id = document.comments[0].id;
+            document = JSON.parse(documentHolder.deleteComment(commentTestName, id, 'jose'));
+            expect(document.errorOccurred).toEqual('Only the author or the owner can delete this comment');
+            document = JSON.parse(documentHolder.deleteComment(commentTestName, id, 'owner'));
+            expect(document.errorOccurred).toEqual('');
+            expect(document.comments).toEqual([]);
+        });
+
+        it('should move the comments with their cells', () => {
+            const commentTestName = 'xxxCommentMove';
+            const documentHolder = createHolder(documentTestPath);
+            documentHolder.createDocument(commentTestName, 3, 3, 'owner');
+            documentHolder.addComment(commentTestName, 'A2', 'Moves down', 'owner');
+            documentHolder.addComment(commentTestName, 'A1', 'Deleted with its row', 'owner');
+            documentHolder.addSheet(commentTestName, 'Other', 'owner');
+
+            documentHolder.insertRows(commentTestName, 1, 2, 'owner');
+            documentHolder.deleteRows(commentTestName, 0, 1, 'owner');
+            let document = JSON.parse(documentHolder.getDocumentJSON(commentTestName, 'owner'));
+            expect(document.comments.map((comment: any) => [comment.cell, comment.text])).toEqual([['A3', 'Moves down']]);
+
+            documentHolder.renameSheet(commentTestName, 'Sheet1', 'Budget', 'owner');
+            document = JSON.parse(documentHolder.getDocumentJSON(commentTestName, 'owner'));
+            expect(document.sheet).toEqual('Budget');
+            expect(document.comments.length).toEqual(1);
+            documentHolder.selectSheet(commentTestName, 'Other', 'owner');
+            expect(JSON.parse(documentHolder.getDocumentJSON(commentTestName, 'owner')).comments).toEqual([]);
+        });
+    });
+
+    describe('number formats', () => {
+        it('should show the cells of a range in their format and keep their values', async () => {
+            const formatTestName = 'xxxFormats';
+            const documentHolder = createHolder(documentTestPath);
+            documentHolder.createDocument(formatTestName, 3, 3, 'owner');
+            documentHolder.requestEditAccess(formatTestName, 'B1', 'owner');
+            documentHolder.setFormula(formatTestName, '1234.5678', 'owner');
+
+            let document = JSON.parse(documentHolder.setFormat(formatTestName, 'A1:B2', { kind: 'currency' }, 'owner'));
+            expect(document.errorOccurred).toEqual('');
+            expect(document.cells['B1'].format).toEqual({ kind: 'currency' });
+            expect(document.cells['B1'].value).toEqual(1234.5678);
+            expect(document.cells['C1'].format).toBeUndefined();
+            expect(documentHolder.exportDocument(formatTestName, undefined, 'values', ',')).toEqual(',"$1,234.57",\r\n,,\r\n,,\r\n');
+
+            documentHolder.insertRows(formatTestName, 0, 1, 'owner');
+            document = JSON.parse(documentHolder.getDocumentJSON(formatTestName, 'owner'));
+            expect(document.cells['B2'].format).toEqual({ kind: 'currency' });
+            expect(document.cells['B1'].format).toBeUndefined();
+
+            document = JSON.parse(documentHolder.setFormat(formatTestName, 'B2', { kind: 'general' }, 'owner'));
+            expect(document.cells['B2'].format).toBeUndefined();
+            await documentHolder.flush();
+            const reloadedHolder = createHolder(documentTestPath);
+            expect(JSON.parse(reloadedHolder.getDocumentJSON(formatTestName, 'owner')).cells['A2'].format).toEqual({ kind: 'currency' });
+        });
+
+        it('should report formats that are not valid and missing cells', () => {
+            const formatTestName = 'xxxFormatErrors';
+            const documentHolder = createHolder(documentTestPath);
+            documentHolder.createDocument(formatTestName, 3, 3, 'owner');
+
+            let document = JSON.parse(documentHolder.setFormat(formatTestName, 'A1', { kind: 'fixed', decimals: 20 }, 'owner'));
+            expect(document.errorOccurred).toEqual('The decimals must be a whole number from 0 to 10');
+            document = JSON.parse(documentHolder.setFormat(formatTestName, 'Z9', { kind: 'fixed' }, 'owner'));
+            expect(document.errorOccurred).toEqual('Invalid cell Z9');
+        });
+    });
+
+    describe('conditional formats', () => {
+        it('should send the styles of the rules with the cells and save the rules', async () => {
+            const ruleTestName = 'xxxRules';
+            const documentHolder = createHolder(documentTestPath);
+            documentHolder.createDocument(ruleTestName, 3, 3, 'owner');
+            documentHolder.requestEditAccess(ruleTestName, 'A2', 'owner');
+            documentHolder.setFormula(ruleTestName, '-5', 'owner');
+
+            let document = JSON.parse(documentHolder.addConditionalRule(ruleTestName,
+                { id: 0, range: 'A1:A3', condition: 'lessThan', value: 0, style: { color: '#ff0000' } }, 'owner'));
+            expect(document.errorOccurred).toEqual('');
+            expect(document.conditionalRules).toEqual([{ id: 1, range: 'A1:A3', condition: 'lessThan', value: 0, style: { color: '#ff0000' } }]);
+            expect(document.cells['A2'].style).toEqual({ color: '#ff0000' });
+            expect(document.cells['A1'].style).toBeUndefined();
+
+            // the style follows the value of the cell
+            const revision = document.revision;
+            documentHolder.setFormula(ruleTestName, '5', 'owner');
+            document = JSON.parse(documentHolder.getDocumentDeltaJSON(ruleTestName, 'owner', revision)!);
+            expect(document.cells['A2'].style).toBeUndefined();
+            documentHolder.setFormula(ruleTestName, '-1', 'owner');
+
+            documentHolder.insertRows(ruleTestName, 0, 1, 'owner');
+            await documentHolder.flush();
+            const reloadedHolder = createHolder(documentTestPath);
+            document = JSON.parse(reloadedHolder.getDocumentJSON(ruleTestName, 'owner'));
+            expect(document.conditionalRules[0].range).toEqual('A2:A4');
+            expect(document.cells['A3'].style).toEqual({ color: '#ff0000' });
+
+            document = JSON.parse(reloadedHolder.deleteConditionalRule(ruleTestName, 1, 'owner'));
+            expect(document.conditionalRules).toEqual([]);
+            expect(document.cells['A3'].style).toBeUndefined();
+        });
+
+        it('should report rules that are not valid, missing cells and missing rules', () => {
+            const ruleTestName = 'xxxRuleErrors';
+            const documentHolder = createHolder(documentTestPath);
+            documentHolder.createDocument(ruleTestName, 3, 3, 'owner');
+
+            let document = JSON.parse(documentHolder.addConditionalRule(ruleTestName,
+                { id: 0, range: 'A1', condition: 'top', value: 120, style: { bold: true } }, 'owner'));
+            expect(document.errorOccurred).toEqual('The percent must be more than 0 and at most 100');
+            document = JSON.parse(documentHolder.addConditionalRule(ruleTestName,
+                { id: 0, range: 'A1:Z9', condition: 'error', style: { bold: true } }, 'owner'));
+            expect(document.errorOccurred).toEqual('Invalid cell A1:Z9');
+            document = JSON.parse(documentHolder.deleteConditionalRule(ruleTestName, 4, 'owner'));
+            expect(document.errorOccurred).toEqual('Rule 4 does not exist');
+        });
+    });
+
+    describe('sort and filter', () => {
+        // put the formulas in the cells, one cell at a time
+        function setCells(documentHolder: DocumentHolder, docName: string, user: string, formulas: [string, string][]): void {
+            for (const [cellLabel, formula] of formulas) {
+                documentHolder.requestEditAccess(docName, cellLabel, user);
+                documentHolder.setFormula(docName, formula, user);
+            }
+            documentHolder.requestViewAccess(docName, 'A1', user);
+        }
+
+        it('should sort the rows of a range and move the formulas with them', async () => {
+            const sortTestName = 'xxxSort';
+            const documentHolder = createHolder(documentTestPath);
+            documentHolder.createDocument(sortTestName, 3, 5, 'owner');
+            setCells(documentHolder, sortTestName, 'owner', [
+                ['A1', '"Item"'], ['A2', '30'], ['A3', '10'], ['A4', '20'],
+                ['B2', 'A2*2'], ['B3', 'A3*2'], ['B4', 'A4*2'], ['C1', 'SUM(B2:B4)'],
+            ]);
+            documentHolder.addComment(sortTestName, 'A2', 'The largest', 'owner');
+
+            let document = JSON.parse(documentHolder.sortRange(sortTestName, 'A2:B4', [{ column: 'A' }], 'owner'));
+            expect(document.errorOccurred).toEqual('');
+            expect(['A2', 'A3', 'A4'].map((label) => document.cells[label].value)).toEqual([10, 20, 30]);
+            expect(document.cells['B2'].formula).toEqual(['A2', '*', '2']);
+            expect(document.cells['B4'].value).toEqual(60);
+            expect(document.cells['A1'].value).toEqual('Item');
+            expect(document.cells['C1'].value).toEqual(120);
+            expect(document.comments[0].cell).toEqual('A4');
+
+            document = JSON.parse(documentHolder.sortRange(sortTestName, 'A2:B4', [{ column: 'B', descending: true }], 'owner'));
+            expect(['A2', 'A3', 'A4'].map((label) => document.cells[label].value)).toEqual([30, 20, 10]);
+            await documentHolder.flush();
+            const reloadedHolder = createHolder(documentTestPath);
+            expect(JSON.parse(reloadedHolder.getDocumentJSON(sortTestName, 'owner')).cells['B2'].value).toEqual(60);
+        });
+
+        it('should report sorts of missing cells, columns outside the range and cells being edited', () => {
+            const sortTestName = 'xxxSortErrors';
+            const documentHolder = createHolder(documentTestPath);
+            documentHolder.createDocument(sortTestName, 3, 3, 'owner');
+            documentHolder.shareDocument(sortTestName, 'alex', 'editor', 'owner');
+
+            let document = JSON.parse(documentHolder.sortRange(sortTestName, 'A1:D9', [{ column: 'A' }], 'owner'));
+            expect(document.errorOccurred).toEqual('Invalid cell A1:D9');
+            document = JSON.parse(documentHolder.sortRange(sortTestName, 'A1:B3', [{ column: 'C' }], 'owner'));
+            expect(document.errorOccurred).toEqual('Column C is not in the range A1:B3');
+            documentHolder.requestViewAccess(sortTestName, 'A1', 'alex');
+            documentHolder.requestEditAccess(sortTestName, 'B2', 'alex');
+            document = JSON.parse(documentHolder.sortRange(sortTestName, 'A1:B3', [{ column: 'A' }], 'owner'));
+            expect(document.errorOccurred).toEqual('Cell is being edited by alex');
+        });
+
+        it('should hide the rows only from the user who filters them', () => {
+            const filterTestName = 'xxxFilter';
+            const documentHolder = createHolder(documentTestPath);
+            documentHolder.createDocument(filterTestName, 2, 4, 'owner');
+            documentHolder.shareDocument(filterTestName, 'alex', 'viewer', 'owner');
+            setCells(documentHolder, filterTestName, 'owner', [['A1', '"Amount"'], ['A2', '5'], ['A3', '-7'], ['A4', '12']]);
+
+            let document = JSON.parse(documentHolder.setFilter(filterTestName, 'A2:B4', [{ column: 'a', condition: 'greaterThan', value: '0' }], 'alex'));
+            expect(document.errorOccurred).toEqual('');
+            expect(document.hiddenRows).toEqual([2]);
+            expect(document.filter).toEqual({ range: 'A2:B4', criteria: [{ column: 'A', condition: 'greaterThan', value: '0' }] });
+            expect(JSON.parse(documentHolder.getDocumentJSON(filterTestName, 'owner')).hiddenRows).toEqual([]);
+
+            // the filter follows its rows and the values
+            documentHolder.insertRows(filterTestName, 0, 1, 'owner');
+            document = JSON.parse(documentHolder.getDocumentJSON(filterTestName, 'alex'));
+            expect(document.filter.range).toEqual('A3:B5');
+            expect(document.hiddenRows).toEqual([3]);
+
+            document = JSON.parse(documentHolder.setFilter(filterTestName, 'A3:B5', [{ column: 'C', condition: 'notBlank' }], 'alex'));
+            expect(document.errorOccurred).toEqual('Column C is not in the range A3:B5');
+            document = JSON.parse(documentHolder.clearFilter(filterTestName, 'alex'));
+            expect(document.hiddenRows).toEqual([]);
+            expect(document.filter).toBeUndefined();
+        });
+    });
+
+    describe('storage', () => {
+        afterEach(() => {
+            jest.restoreAllMocks();
+        });
+
+        it('should write the changes together after a while and when it is flushed', async () => {
+            const storageTestName = 'xxxStorage';
+            const storage = new MemoryDocumentStorage();
+            const writeDocument = jest.spyOn(storage, 'writeDocument');
+            const documentHolder = createHolder(documentTestPath, 100, 60 * 1000, storage, 20);
+            documentHolder.createDocument(storageTestName, 2, 2, 'owner');
+            documentHolder.requestViewAccess(storageTestName, 'A1', 'owner');
+            documentHolder.requestEditAccess(storageTestName, 'A1', 'owner');
+            documentHolder.addToken(storageTestName, '7', 'owner');
+            expect(writeDocument).not.toHaveBeenCalled();
+
+            await new Promise((resolve) => setTimeout(resolve, 100));
+            expect(writeDocument).toHaveBeenCalledTimes(1);
+            expect(JSON.parse(storage.readDocument(storageTestName)).sheets[0].cells['A1'].formula).toEqual(['7']);
+
+            documentHolder.addToken(storageTestName, '1', 'owner');
+            await documentHolder.flush();
+            expect(writeDocument).toHaveBeenCalledTimes(2);
+            const reloadedHolder = createHolder(documentTestPath, 100, 60 * 1000, storage);
+            expect(JSON.parse(reloadedHolder.getDocumentJSON(storageTestName, 'owner')).cells['A1'].value).toEqual(71);
+
+            // the revisions are kept in the storage too
+            expect(storage.listRevisions(storageTestName)).toEqual([1, 2]);
+            expect(reloadedHolder.getRevision(storageTestName, 2)!.sheet.sheets[0].cells['A1'].formula).toEqual(['71']);
+            expect(fs.existsSync(path.join(documentTestPathFull, '.revisions', storageTestName))).toBe(false);
+        });
+
+        it('should quarantine a revision that cannot be read and keep saving revisions', async () => {
+            const revisionTestName = 'xxxStorageRevisions';
+            const storage = new MemoryDocumentStorage();
+            const documentHolder = createHolder(documentTestPath, 100, 60 * 1000, storage);
+            documentHolder.createDocument(revisionTestName, 2, 2, 'owner');
+            await documentHolder.flush();
+            documentHolder.requestViewAccess(revisionTestName, 'A1', 'owner');
+            documentHolder.requestEditAccess(revisionTestName, 'A1', 'owner');
+            documentHolder.addToken(revisionTestName, '7', 'owner');
+            await documentHolder.flush();
+            await storage.writeRevision(revisionTestName, 2, storage.readRevision(revisionTestName, 2).slice(0, 40));
+            const consoleError = jest.spyOn(console, 'error').mockImplementation(() => { });
+
+            const reloadedHolder = createHolder(documentTestPath, 100, 60 * 1000, storage);
+            expect(reloadedHolder.getRevisions(revisionTestName).map((revision) => revision.revision)).toEqual([1]);
+            expect(Array.from(storage.getQuarantined().keys())).toEqual([`${revisionTestName}/2`]);
+            expect(consoleError).toHaveBeenCalledTimes(1);
+
+            reloadedHolder.requestViewAccess(revisionTestName, 'A1', 'owner');
+            reloadedHolder.requestEditAccess(revisionTestName, 'A1', 'owner');
+            const document = JSON.parse(reloadedHolder.addToken(revisionTestName, '1', 'owner'));
+            expect(document.cells['A1'].value).toEqual(71);
+            await reloadedHolder.flush();
+            expect(storage.listRevisions(revisionTestName)).toEqual([1, 2]);
+        });
+
+        it('should try a write that failed again', async () => {
+            const retryTestName = 'xxxStorageRetry';
+            const storage = new MemoryDocumentStorage();
+            const writeDocument = jest.spyOn(storage, 'writeDocument').mockRejectedValueOnce(new Error('disk full'));
+            const consoleError = jest.spyOn(console, 'error').mockImplementation(() => { });
+            const documentHolder = createHolder(documentTestPath, 100, 60 * 1000, storage, 20);
+            documentHolder.createDocument(retryTestName, 2, 2, 'owner');
+
+            await documentHolder.flush();
+            expect(consoleError).toHaveBeenCalledTimes(1);
+            expect(storage.listDocuments()).toEqual([]);
+
+            await new Promise((resolve) => setTimeout(resolve, 100));
+            expect(writeDocument).toHaveBeenCalledTimes(2);
+            expect(storage.listDocuments()).toEqual([retryTestName]);
+        });
+
+        it('should quarantine a document that cannot be read and load the others', async () => {
+            const goodTestName = 'xxxStorageGood';
+            const brokenTestName = 'xxxStorageBroken';
+            const storage = new MemoryDocumentStorage();
+            const documentHolder = createHolder(documentTestPath, 100, 60 * 1000, storage);
+            documentHolder.createDocument(goodTestName, 2, 2, 'owner');
+            documentHolder.createDocument(brokenTestName, 2, 2, 'owner');
+            await documentHolder.flush();
+
+            // the write of the document was cut short
+            const brokenJSON = storage.readDocument(brokenTestName).slice(0, 40);
+            await storage.writeDocument(brokenTestName, brokenJSON);
+            const consoleError = jest.spyOn(console, 'error').mockImplementation(() => { });
+
+            // the files that are JSON but not a document
+            const badDocuments: Record<string, string> = {
+                xxxStorageEmpty: '{}',
+                xxxStorageArray: '[]',
+                xxxStorageSize: storage.readDocument(goodTestName).replace('"columns":2', '"columns":-1'),
+            };
+            for (const [name, documentJSON] of Object.entries(badDocuments)) {
+                await storage.writeDocument(name, documentJSON);
+            }
+
+            const reloadedHolder = createHolder(documentTestPath, 100, 60 * 1000, storage);
+            expect(reloadedHolder.getDocumentNames()).toEqual([goodTestName]);
+            expect(storage.listDocuments()).toEqual([goodTestName]);
+            expect(storage.getQuarantined().get(brokenTestName)).toEqual(brokenJSON);
+            expect(Array.from(storage.getQuarantined().keys()).sort()).toEqual([brokenTestName, ...Object.keys(badDocuments)].sort());
+            expect(consoleError).toHaveBeenCalledTimes(4);
+        });
+    });
+});
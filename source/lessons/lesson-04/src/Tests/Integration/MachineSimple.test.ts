@@ -72,6 +72,33 @@ describe("SpreadSheetController", () => {
 
     });
 
+    it("should take a typed formula in one step and keep it for undo", () => {
+      const machine = new SpreadSheetController(5, 5);
+      machine.requestViewAccess("user1", "A1");
+      machine.requestEditAccess("user1", "A1");
+      machine.addToken("2", "user1");
+
+      machine.requestViewAccess("user1", "B1");
+      machine.requestEditAccess("user1", "B1");
+      machine.setFormula("user1", "=(a1+1)*3.5");
+      expect(machine.getFormulaStringForUser("user1")).toEqual("( A1 + 1 ) * 3.5");
+      expect(machine.getResultStringForUser("user1")).toEqual("10.5");
+
+      machine.undo("user1");
+      expect(machine.getFormulaStringForUser("user1")).toEqual("");
+    });
+
+    it("should report a typed formula with a syntax error and keep the formula", () => {
+      const machine = new SpreadSheetController(5, 5);
+      machine.requestViewAccess("user1", "A1");
+      machine.requestEditAccess("user1", "A1");
+      machine.addToken("1", "user1");
+
+      machine.setFormula("user1", "SUM(A2:A3");
+      expect(machine.documentContainer("user1").errorOccurred).toEqual("Missing ) for the ( at position 4");
+      expect(machine.getFormulaStringForUser("user1")).toEqual("1");
+    });
+
     it("should ignore requests to update cell from non user", () => {
       const machine = new SpreadSheetController(5, 5);
       machine.requestViewAccess("user1", "A1");
@@ -138,7 +165,7 @@ describe("SpreadSheetController", () => {
       expect(user2Result).toEqual("8");
     });
 
-    it("should not add a cell that could produce a circular reference", () => {
+    it("should show #CIRC! when a cell produces a circular reference", () => {
       const machine = new SpreadSheetController(5, 5);
       machine.requestViewAccess("user1", "A1");
       machine.requestEditAccess("user1", "A1");
@@ -158,12 +185,49 @@ describe("SpreadSheetController", () => {
       const user1Result = machine.getResultStringForUser("user1");
       const user2Result = machine.getResultStringForUser("user2");
       expect(user1Formula).toEqual("1 + A2");
-      expect(user2Formula).toEqual("1 +");
-      expect(user1Result).toEqual("#ERR");
-      expect(user2Result).toEqual("#ERR");
+      expect(user2Formula).toEqual("1 + A1");
+      expect(user1Result).toEqual("#CIRC!");
+      expect(user2Result).toEqual("#CIRC!");
+    });
+
+    it("should sum a range built from cell clicks", () => {
+      const machine = new SpreadSheetController(5, 5);
+      machine.requestViewAccess("user1", "A1");
+      machine.requestEditAccess("user1", "A1");
+      machine.addToken("2", "user1");
+      machine.requestViewAccess("user1", "A2");
+      machine.requestEditAccess("user1", "A2");
+      machine.addToken("3", "user1");
+
+      machine.requestViewAccess("user1", "B1");
+      machine.requestEditAccess("user1", "B1");
+      machine.addToken("SUM", "user1");
+      machine.addToken("(", "user1");
+      machine.addCell("A1", "user1");
+      machine.addToken(":", "user1");
+      machine.addCell("A3", "user1");
+      machine.addToken(")", "user1");
+
+      expect(machine.getFormulaStringForUser("user1")).toEqual("SUM ( A1:A3 )");
+      expect(machine.getResultStringForUser("user1")).toEqual("5");
+    });
+
+    it("should show #CIRC! for a range that contains the cell being edited", () => {
+      const machine = new SpreadSheetController(5, 5);
+      machine.requestViewAccess("user1", "A3");
+      machine.requestEditAccess("user1", "A3");
+      machine.addToken("SUM", "user1");
+      machine.addToken("(", "user1");
+      machine.addCell("A1", "user1");
+      machine.addToken(":", "user1");
+      machine.addCell("A4", "user1");
+      machine.addToken(")", "user1");
+
+      expect(machine.getFormulaStringForUser("user1")).toEqual("SUM ( A1:A4 )");
+      expect(machine.getResultStringForUser("user1")).toEqual("#CIRC!");
     });
 
-    it("should not add a cell after the offending cell is removed.", () => {
+    it("should clear the circular reference after the offending cell is removed.", () => {
       const machine = new SpreadSheetController(5, 5);
       let view = machine.requestViewAccess("user1", "A1");
       machine.requestEditAccess("user1", "A1");
@@ -182,9 +246,9 @@ describe("SpreadSheetController", () => {
       let user1Result = machine.getResultStringForUser("user1");
       let user2Result = machine.getResultStringForUser("user2");
       expect(user1Formula).toEqual("1 + A2");
-      expect(user2Formula).toEqual("1 +");
-      expect(user1Result).toEqual("#ERR");
-      expect(user2Result).toEqual("#ERR");
+      expect(user2Formula).toEqual("1 + A1");
+      expect(user1Result).toEqual("#CIRC!");
+      expect(user2Result).toEqual("#CIRC!");
 
       machine.removeToken("user1");
       machine.addCell("B3", "user1");
@@ -193,7 +257,6 @@ describe("SpreadSheetController", () => {
       machine.addToken("1", "user1");
       machine.addToken("7", "user1");
 
-      machine.addCell("A1", "user2");
       view = machine.requestViewAccess("user1", "A1");
       machine.requestEditAccess("user1", "A1");
       user1Formula = machine.getFormulaStringForUser("user1");
@@ -208,6 +271,473 @@ describe("SpreadSheetController", () => {
 
     });
   });
+
+  describe("insert and delete rows and columns", () => {
+    it("should rewrite the references when a row is inserted", () => {
+      const machine = new SpreadSheetController(2, 3);
+      machine.requestViewAccess("user1", "A2");
+      machine.requestEditAccess("user1", "A2");
+      machine.addToken("5", "user1");
+      machine.requestViewAccess("user1", "B1");
+      machine.requestEditAccess("user1", "B1");
+      machine.addCell("A2", "user1");
+      machine.addToken("*", "user1");
+      machine.addToken("2", "user1");
+
+      machine.insertRows(0, 1);
+
+      expect(machine.getWorkingCellLabel("user1")).toEqual("B2");
+      expect(machine.getFormulaStringForUser("user1")).toEqual("A3 * 2");
+      expect(machine.getResultStringForUser("user1")).toEqual("10");
+
+      // the user keeps editing the cell that moved
+      machine.addToken("+", "user1");
+      machine.addToken("1", "user1");
+      expect(machine.getResultStringForUser("user1")).toEqual("11");
+    });
+
+    it("should show #REF! for a reference to a deleted column", () => {
+      const machine = new SpreadSheetController(3, 2);
+      machine.requestViewAccess("user1", "A1");
+      machine.requestEditAccess("user1", "A1");
+      machine.addToken("4", "user1");
+      machine.requestViewAccess("user1", "C1");
+      machine.requestEditAccess("user1", "C1");
+      machine.addCell("A1", "user1");
+      machine.addToken("+", "user1");
+      machine.addToken("1", "user1");
+
+      machine.deleteColumns(0, 1);
+
+      expect(machine.getWorkingCellLabel("user1")).toEqual("B1");
+      expect(machine.getFormulaStringForUser("user1")).toEqual("#REF! + 1");
+      expect(machine.getResultStringForUser("user1")).toEqual(ErrorMessages.invalidCell);
+    });
+
+    it("should move a user whose cell was deleted and stop their editing", () => {
+      const machine = new SpreadSheetController(2, 3);
+      machine.requestViewAccess("user1", "A3");
+      machine.requestEditAccess("user1", "A3");
+
+      machine.deleteRows(1, 2);
+
+      expect(machine.getWorkingCellLabel("user1")).toEqual("A1");
+      expect(machine.documentContainer("user1").isEditing).toEqual(false);
+    });
+
+    it("should refuse to delete every row", () => {
+      const machine = new SpreadSheetController(2, 2);
+      machine.requestViewAccess("user1", "A1");
+      machine.deleteRows(0, 2);
+
+      const container = machine.documentContainer("user1");
+      expect(container.rows).toEqual(2);
+      expect(container.errorOccurred).toEqual("The sheet must keep at least one row");
+    });
+  });
+
+  describe("worksheets", () => {
+    it("should evaluate references to another sheet and follow their changes", () => {
+      const machine = new SpreadSheetController(3, 3);
+      machine.addSheet("Summary");
+      machine.requestViewAccess("user1", "Summary!B2");
+      machine.requestEditAccess("user1", "B2");
+      machine.addToken("5", "user1");
+
+      machine.requestViewAccess("user1", "Sheet1!A1");
+      machine.requestEditAccess("user1", "A1");
+      machine.addCell("Summary!B2", "user1");
+      machine.addToken("*", "user1");
+      machine.addToken("2", "user1");
+      expect(machine.getFormulaStringForUser("user1")).toEqual("Summary!B2 * 2");
+      expect(machine.getResultStringForUser("user1")).toEqual("10");
+
+      machine.requestViewAccess("user2", "Summary!B2");
+      machine.requestEditAccess("user2", "B2");
+      machine.clearFormula("user2");
+      machine.addToken("7", "user2");
+      expect(machine.getResultStringForUser("user1")).toEqual("14");
+    });
+
+    it("should add a cell of the sheet that is shown as a reference to that sheet", () => {
+      const machine = new SpreadSheetController(3, 3);
+      machine.addSheet("Summary");
+      machine.requestViewAccess("user1", "A1");
+      machine.requestEditAccess("user1", "A1");
+
+      // the user stays on their cell while they are shown another sheet
+      machine.selectSheet("user1", "Summary");
+      machine.addCell("B2", "user1");
+
+      const container = machine.documentContainer("user1");
+      expect(container.sheets).toEqual(["Sheet1", "Summary"]);
+      expect(container.sheet).toEqual("Summary");
+      expect(container.currentSheet).toEqual("Sheet1");
+      expect(container.currentCell).toEqual("A1");
+      expect(container.formula).toEqual("Summary!B2");
+    });
+
+    it("should rewrite the references when a sheet is renamed and show #REF! when it is deleted", () => {
+      const machine = new SpreadSheetController(3, 3);
+      machine.addSheet("Data");
+      machine.requestViewAccess("user1", "A1");
+      machine.requestEditAccess("user1", "A1");
+      machine.addToken("Data!A1:B2", "user1");
+      machine.addToken("+", "user1");
+      machine.addToken("1", "user1");
+
+      machine.renameSheet("Data", "Input");
+      expect(machine.getSheetNames()).toEqual(["Sheet1", "Input"]);
+      expect(machine.getFormulaStringForUser("user1")).toEqual("Input!A1:B2 + 1");
+
+      machine.deleteSheet("Input");
+      expect(machine.getSheetNames()).toEqual(["Sheet1"]);
+      expect(machine.getFormulaStringForUser("user1")).toEqual("#REF! + 1");
+      expect(machine.getResultStringForUser("user1")).toEqual(ErrorMessages.invalidCell);
+    });
+
+    it("should move the references to a sheet when its rows change", () => {
+      const machine = new SpreadSheetController(3, 3);
+      machine.addSheet("Summary");
+      machine.requestViewAccess("user1", "A1");
+      machine.requestEditAccess("user1", "A1");
+      machine.addToken("Summary!B2", "user1");
+      machine.addToken("+", "user1");
+      machine.addToken("B2", "user1");
+
+      machine.insertRows(0, 1, "Summary");
+
+      expect(machine.getWorkingCellLabel("user1")).toEqual("A1");
+      expect(machine.getFormulaStringForUser("user1")).toEqual("Summary!B3 + B2");
+    });
+
+    it("should refuse invalid sheet changes", () => {
+      const machine = new SpreadSheetController(2, 2);
+      machine.requestViewAccess("user1", "A1");
+
+      machine.addSheet("A1");
+      expect(machine.documentContainer("user1").errorOccurred).toEqual("Invalid sheet name A1");
+      machine.addSheet("Sheet1");
+      expect(machine.documentContainer("user1").errorOccurred).toEqual("Sheet Sheet1 already exists");
+      machine.renameSheet("Missing", "Other");
+      expect(machine.documentContainer("user1").errorOccurred).toEqual("Sheet Missing does not exist");
+      machine.deleteSheet("Sheet1");
+      expect(machine.documentContainer("user1").errorOccurred).toEqual("The document must keep at least one sheet");
+      machine.moveSheet("Sheet1", 1);
+      expect(machine.documentContainer("user1").errorOccurred).toEqual("Invalid sheet position 1");
+    });
+
+    it("should reorder the sheets", () => {
+      const machine = new SpreadSheetController(2, 2);
+      machine.addSheet("Second");
+      machine.addSheet("Third");
+
+      machine.moveSheet("Third", 0);
+
+      expect(machine.getSheetNames()).toEqual(["Third", "Sheet1", "Second"]);
+    });
+
+    it("should save every sheet and load a document saved with a single sheet", () => {
+      const machine = new SpreadSheetController(2, 2);
+      machine.addSheet("Summary");
+      machine.requestViewAccess("user1", "Summary!A1");
+      machine.requestEditAccess("user1", "A1");
+      machine.addToken("3", "user1");
+      machine.requestViewAccess("user1", "Sheet1!B2");
+      machine.requestEditAccess("user1", "B2");
+      machine.addToken("Summary!A1", "user1");
+
+      const sheetObject = JSON.parse(machine.sheetToJSON());
+      expect(sheetObject.version).toEqual(2);
+      expect(sheetObject.sheets.map((sheet: any) => sheet.name)).toEqual(["Sheet1", "Summary"]);
+
+      const copy = SpreadSheetController.spreadsheetFromJSON(machine.sheetToJSON());
+      copy.requestViewAccess("user2", "B2");
+      expect(copy.getResultStringForUser("user2")).toEqual("3");
+
+      // the format before version 2 has the cells of the only sheet at the top level
+      const singleSheet = JSON.stringify({ columns: 2, rows: 2, cells: sheetObject.sheets[1].cells });
+      const loaded = SpreadSheetController.spreadsheetFromJSON(singleSheet);
+      expect(loaded.getSheetNames()).toEqual(["Sheet1"]);
+      loaded.requestViewAccess("user2", "A1");
+      expect(loaded.getResultStringForUser("user2")).toEqual("3");
+    });
+  });
+
+  describe("names", () => {
+    it("should use names for cells, ranges and constants in formulas", () => {
+      const machine = new SpreadSheetController(3, 4);
+      machine.requestViewAccess("user1", "A1");
+      machine.importCells("user1", [["10"], ["20"], ["30"]], "A1");
+      machine.defineName("user1", "Sales", "a1:a3");
+      machine.defineName("user1", "TaxRate", "0.5");
+      expect(machine.getNames()).toEqual([{ name: "Sales", definition: "A1:A3" }, { name: "TaxRate", definition: "0.5" }]);
+
+      machine.requestViewAccess("user1", "B1");
+      machine.requestEditAccess("user1", "B1");
+      machine.setFormula("user1", "sum(sales) * taxrate");
+      expect(machine.getFormulaStringForUser("user1")).toEqual("SUM ( Sales ) * TaxRate");
+      expect(machine.getResultStringForUser("user1")).toEqual("30");
+
+      // the rows inserted inside the range grow it
+      machine.insertRows(1, 1);
+      expect(machine.getNames()[0].definition).toEqual("A1:A4");
+      machine.importCells("user1", [["40"]], "A2");
+      expect(machine.getResultStringForUser("user1")).toEqual("50");
+    });
+
+    it("should rename and delete names", () => {
+      const machine = new SpreadSheetController(2, 2);
+      machine.requestViewAccess("user1", "A1");
+      machine.requestEditAccess("user1", "A1");
+      machine.defineName("user1", "Rate", "2");
+      machine.setFormula("user1", "Rate * 3");
+
+      machine.renameName("Rate", "Factor");
+      expect(machine.getFormulaStringForUser("user1")).toEqual("Factor * 3");
+      expect(machine.getResultStringForUser("user1")).toEqual("6");
+
+      machine.deleteName("Factor");
+      expect(machine.getResultStringForUser("user1")).toEqual("#NAME?");
+      machine.defineName("user1", "Factor", "4");
+      expect(machine.getResultStringForUser("user1")).toEqual("12");
+    });
+
+    it("should report names and definitions that cannot be used", () => {
+      const machine = new SpreadSheetController(2, 2);
+      machine.requestViewAccess("user1", "A1");
+      machine.defineName("user1", "B2", "1");
+      expect(machine.documentContainer("user1").errorOccurred).toEqual("Invalid name B2");
+      machine.defineName("user1", "Rate", "1 + 2");
+      expect(machine.documentContainer("user1").errorOccurred).toEqual("Invalid definition 1 + 2");
+      machine.defineName("user1", "Rate", "C3");
+      expect(machine.documentContainer("user1").errorOccurred).toEqual("Invalid definition C3, the cells are not in the document");
+      machine.defineName("user1", "Rate", "-1.5");
+      machine.defineName("user1", "rate", "1");
+      expect(machine.documentContainer("user1").errorOccurred).toEqual("Name rate already exists");
+      machine.renameName("Missing", "Other");
+      expect(machine.documentContainer("user1").errorOccurred).toEqual("Name Missing does not exist");
+    });
+  });
+
+  describe("import and export", () => {
+    it("should import text and formulas and grow the sheet to hold them", () => {
+      const machine = new SpreadSheetController(2, 2);
+      machine.requestViewAccess("user1", "A1");
+      machine.importCells("user1", [["Price", "Count", "Total"], ["1.5", "4", "=B3 * C3"], ["2", "3", "=B4 * C4"]], "B2");
+
+      expect(machine.getSheetContents("Sheet1", "values")).toEqual([
+        ["", "", "", ""],
+        ["", "Price", "Count", "Total"],
+        ["", "1.5", "4", "6"],
+        ["", "2", "3", "6"],
+      ]);
+      expect(machine.getSheetContents("Sheet1", "formulas")![2][3]).toEqual("=B3 * C3");
+      expect(machine.getSheetContents("Summary", "values")).toBeUndefined();
+    });
+
+    it("should read back the formulas it exports", () => {
+      const machine = new SpreadSheetController(3, 2);
+      machine.requestViewAccess("user1", "A1");
+      machine.importCells("user1", [["10", "12 apples", "=A1 + 1"], ["TRUE", "=\"12\"", ""]], "A1");
+      const formulas = machine.getSheetContents("Sheet1", "formulas")!;
+
+      const copy = new SpreadSheetController(3, 2);
+      copy.requestViewAccess("user1", "A1");
+      copy.importCells("user1", formulas, "A1");
+      expect(copy.sheetToJSON()).toEqual(machine.sheetToJSON());
+      expect(copy.getSheetContents("Sheet1", "values")).toEqual([["10", "12 apples", "11"], ["TRUE", "12", ""]]);
+    });
+
+    it("should leave the cells that another user is editing", () => {
+      const machine = new SpreadSheetController(2, 2);
+      machine.requestViewAccess("user1", "A1");
+      machine.requestViewAccess("user2", "B1");
+      machine.requestEditAccess("user2", "B1");
+      machine.addToken("7", "user2");
+
+      machine.importCells("user1", [["1", "2"]], "A1");
+      expect(machine.getSheetContents("Sheet1", "values")![0]).toEqual(["1", "7"]);
+      expect(machine.documentContainer("user1").errorOccurred).toEqual("Cell is being edited by user2");
+    });
+  });
+
+  describe("copy, paste and fill", () => {
+    it("should paste a formula with its relative references moved", () => {
+      const machine = new SpreadSheetController(3, 3);
+      machine.requestViewAccess("user1", "A1");
+      machine.requestEditAccess("user1", "A1");
+      machine.addToken("2", "user1");
+      machine.requestViewAccess("user1", "A2");
+      machine.requestEditAccess("user1", "A2");
+      machine.addToken("3", "user1");
+      machine.requestViewAccess("user1", "B1");
+      machine.requestEditAccess("user1", "B1");
+      machine.addCell("A1", "user1");
+      machine.addToken("*", "user1");
+      machine.addCell("A1", "user1");
+      machine.addToken("$", "user1");
+      machine.copyCell("user1");
+
+      machine.requestViewAccess("user1", "B2");
+      machine.pasteCell("user1");
+
+      expect(machine.getFormulaStringForUser("user1")).toEqual("A2 * $A$1");
+      expect(machine.getResultStringForUser("user1")).toEqual("6");
+    });
+
+    it("should fill down and right until the edge of the sheet", () => {
+      const machine = new SpreadSheetController(3, 3);
+      machine.requestViewAccess("user1", "A1");
+      machine.requestEditAccess("user1", "A1");
+      machine.addToken("1", "user1");
+      machine.requestViewAccess("user1", "A2");
+      machine.requestEditAccess("user1", "A2");
+      machine.addCell("A1", "user1");
+      machine.addToken("+", "user1");
+      machine.addToken("1", "user1");
+      machine.requestViewAccess("user1", "A2");
+
+      machine.fillDown("user1", 5);
+      machine.requestViewAccess("user1", "A3");
+      expect(machine.getFormulaStringForUser("user1")).toEqual("A2 + 1");
+      expect(machine.getResultStringForUser("user1")).toEqual("3");
+
+      machine.requestViewAccess("user1", "A1");
+      machine.fillRight("user1", 1);
+      machine.requestViewAccess("user1", "B1");
+      expect(machine.getFormulaStringForUser("user1")).toEqual("1");
+    });
+
+    it("should report a paste with nothing copied", () => {
+      const machine = new SpreadSheetController(3, 3);
+      machine.requestViewAccess("user1", "A1");
+      machine.pasteCell("user1");
+      expect(machine.documentContainer("user1").errorOccurred).toEqual("Nothing has been copied");
+    });
+
+    it("should undo a paste", () => {
+      const machine = new SpreadSheetController(3, 3);
+      machine.requestViewAccess("user1", "A1");
+      machine.requestEditAccess("user1", "A1");
+      machine.addToken("4", "user1");
+      machine.copyCell("user1");
+      machine.requestViewAccess("user1", "C3");
+      machine.pasteCell("user1");
+      expect(machine.getFormulaStringForUser("user1")).toEqual("4");
+
+      machine.undo("user1");
+      expect(machine.getFormulaStringForUser("user1")).toEqual("");
+    });
+  });
+
+  describe("undo and redo", () => {
+    it("should undo and redo the changes of a user", () => {
+      const machine = new SpreadSheetController(5, 5);
+      machine.requestViewAccess("user1", "A1");
+      machine.requestEditAccess("user1", "A1");
+      machine.addToken("1", "user1");
+      machine.addToken("+", "user1");
+      machine.addToken("2", "user1");
+      expect(machine.getResultStringForUser("user1")).toEqual("3");
+
+      machine.undo("user1");
+      expect(machine.getFormulaStringForUser("user1")).toEqual("1 +");
+      machine.undo("user1");
+      expect(machine.getFormulaStringForUser("user1")).toEqual("1");
+      expect(machine.getResultStringForUser("user1")).toEqual("1");
+
+      machine.redo("user1");
+      machine.redo("user1");
+      expect(machine.getFormulaStringForUser("user1")).toEqual("1 + 2");
+      expect(machine.getResultStringForUser("user1")).toEqual("3");
+    });
+
+    it("should keep editing from the undone formula", () => {
+      const machine = new SpreadSheetController(5, 5);
+      machine.requestViewAccess("user1", "A1");
+      machine.requestEditAccess("user1", "A1");
+      machine.addToken("1", "user1");
+      machine.addToken("+", "user1");
+      machine.undo("user1");
+      machine.addToken("*", "user1");
+      machine.addToken("3", "user1");
+
+      expect(machine.getFormulaStringForUser("user1")).toEqual("1 * 3");
+      machine.redo("user1");
+      expect(machine.getFormulaStringForUser("user1")).toEqual("1 * 3");
+    });
+
+    it("should only undo the changes of the user who asks", () => {
+      const machine = new SpreadSheetController(5, 5);
+      machine.requestViewAccess("user1", "A1");
+      machine.requestEditAccess("user1", "A1");
+      machine.addToken("1", "user1");
+
+      machine.requestViewAccess("user2", "B1");
+      machine.requestEditAccess("user2", "B1");
+      machine.addToken("2", "user2");
+      machine.addToken("+", "user2");
+
+      machine.undo("user1");
+      expect(machine.getFormulaStringForUser("user1")).toEqual("");
+      expect(machine.getFormulaStringForUser("user2")).toEqual("2 +");
+    });
+
+    it("should not revert a cell that a colleague has changed since", () => {
+      const machine = new SpreadSheetController(5, 5);
+      machine.requestViewAccess("user1", "A1");
+      machine.requestEditAccess("user1", "A1");
+      machine.addToken("1", "user1");
+      machine.requestEditAccess("user1", "B1");
+
+      machine.requestViewAccess("user2", "A1");
+      machine.requestEditAccess("user2", "A1");
+      machine.addToken("5", "user2");
+
+      machine.undo("user1");
+      expect(machine.getFormulaStringForUser("user2")).toEqual("15");
+      expect(machine.documentContainer("user1").errorOccurred).toEqual("Cell is being edited by user2");
+
+      machine.requestViewAccess("user2", "A1");
+      machine.undo("user1");
+      expect(machine.getFormulaStringForUser("user2")).toEqual("15");
+      expect(machine.documentContainer("user1").errorOccurred).toEqual("Cell A1 has been changed by another user");
+
+      // the stale change has been dropped from the history
+      machine.undo("user1");
+      expect(machine.getFormulaStringForUser("user2")).toEqual("15");
+      expect(machine.documentContainer("user1").errorOccurred).toEqual("");
+    });
+
+    it("should keep the changes of a user to undo when another user changes the layout", () => {
+      const machine = new SpreadSheetController(3, 3);
+      machine.requestViewAccess("user1", "A2");
+      machine.requestEditAccess("user1", "A2");
+      machine.addToken("5", "user1");
+      machine.requestViewAccess("user1", "B2");
+      machine.requestEditAccess("user1", "B2");
+      machine.addCell("A2", "user1");
+      machine.addToken("*", "user1");
+      machine.copyCell("user1");
+
+      machine.insertRows(0, 1);
+      machine.renameSheet("Sheet1", "Data");
+
+      expect(machine.getWorkingCellLabel("user1")).toEqual("B3");
+      machine.undo("user1");
+      expect(machine.documentContainer("user1").errorOccurred).toEqual("");
+      expect(machine.getFormulaStringForUser("user1")).toEqual("A3");
+      machine.redo("user1");
+      expect(machine.getFormulaStringForUser("user1")).toEqual("A3 *");
+
+      // the copied cell moved too, so the paste moves the references from where it is now
+      machine.requestViewAccess("user1", "C4");
+      machine.requestEditAccess("user1", "C4");
+      machine.pasteCell("user1");
+      expect(machine.getFormulaStringForUser("user1")).toEqual("B4 *");
+    });
+  });
 });
 
 // describe("Machine", () => {
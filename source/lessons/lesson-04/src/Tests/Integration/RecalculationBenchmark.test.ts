@@ -0,0 +1,69 @@
+import CalculationManager from "../../Engine/CalculationManager";
+import SheetMemory from "../../Engine/SheetMemory";
+import Cell from "../../Engine/Cell";
+import FormulaEvaluator from "../../Engine/NewFormulaEvaluator";
+
+/**
+ * A benchmark for the incremental recalculation
+ *
+ * The sheet has 100 columns and 1000 rows.
+ * Column A holds numbers, column B doubles column A and C1 is the SUM of column B
+ *
+ * Editing one number with evaluateCell should only evaluate A, B and C1
+ * instead of the 100000 cells that evaluateSheet evaluates
+ *
+ * The speedup is checked by counting the formulas that each call evaluates, not by timing them,
+ * so the test does not depend on the speed of the machine
+ */
+
+const columns = 100;
+const rows = 1000;
+
+function setFormula(sheetMemory: SheetMemory, label: string, formula: string[]): void {
+  const cell = sheetMemory.getCellByLabel(label);
+  cell.setFormula(formula);
+  sheetMemory.setCellByLabel(label, cell);
+}
+
+describe("Recalculation benchmark on a 100x1000 sheet", () => {
+  it("should only evaluate the edited cell and its dependents", () => {
+    const sheetMemory = new SheetMemory(columns, rows);
+    const calculationManager = new CalculationManager();
+
+    for (let row = 0; row < rows; row++) {
+      const a = Cell.columnRowToCell(0, row);
+      const b = Cell.columnRowToCell(1, row);
+      setFormula(sheetMemory, a, [(row + 1).toString()]);
+      setFormula(sheetMemory, b, [a, "*", "2"]);
+    }
+    setFormula(sheetMemory, "C1", ["SUM", "(", "B1:B" + rows, ")"]);
+
+    const evaluate = jest.spyOn(FormulaEvaluator.prototype, "evaluate");
+    calculationManager.evaluateSheet(sheetMemory);
+    const sheetEvaluations = evaluate.mock.calls.length;
+
+    expect(sheetMemory.getCellByLabel("C1").getValue()).toEqual(rows * (rows + 1));
+    expect(sheetEvaluations).toEqual(columns * rows);
+
+    // change A5 from 5 to 105, B5 goes up by 200
+    evaluate.mockClear();
+    setFormula(sheetMemory, "A5", ["105"]);
+    let evaluated = calculationManager.evaluateCell("A5", sheetMemory);
+
+    expect(evaluated).toEqual(["A5", "B5", "C1"]);
+    expect(evaluate).toHaveBeenCalledTimes(3);
+    evaluate.mockRestore();
+    expect(sheetMemory.getCellByLabel("B5").getValue()).toEqual(210);
+    expect(sheetMemory.getCellByLabel("C1").getValue()).toEqual(rows * (rows + 1) + 200);
+    // the cells that do not depend on A5 keep their values
+    expect(sheetMemory.getCellByLabel("B4").getValue()).toEqual(8);
+    expect(sheetMemory.getCellByLabel("B6").getValue()).toEqual(12);
+
+    // a cell that nothing depends on is evaluated on its own
+    setFormula(sheetMemory, "D1", ["C1", "+", "1"]);
+    evaluated = calculationManager.evaluateCell("D1", sheetMemory);
+
+    expect(evaluated).toEqual(["D1"]);
+    expect(sheetMemory.getCellByLabel("D1").getValue()).toEqual(rows * (rows + 1) + 201);
+  }, 60000);
+});
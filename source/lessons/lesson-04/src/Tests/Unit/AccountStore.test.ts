@@ -0,0 +1,59 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { AccountStore } from '../../Server/AccountStore';
+
+describe('AccountStore', () => {
+    let accountFolder: string;
+    let accountFile: string;
+
+    beforeEach(() => {
+        accountFolder = fs.mkdtempSync(path.join(os.tmpdir(), 'accounts-'));
+        accountFile = path.join(accountFolder, 'accounts.json');
+    });
+
+    afterEach(() => {
+        fs.rmSync(accountFolder, { recursive: true, force: true });
+    });
+
+    it('should check the password of an account and keep only a salted hash', () => {
+        const accounts = new AccountStore(accountFile);
+        accounts.createAccount('juancho', 'correct horse');
+
+        expect(accounts.hasAccount('juancho')).toEqual(true);
+        expect(accounts.checkPassword('juancho', 'correct horse')).toEqual(true);
+        expect(accounts.checkPassword('juancho', 'wrong horse')).toEqual(false);
+        expect(accounts.checkPassword('yvonne', 'correct horse')).toEqual(false);
+
+        const saved = fs.readFileSync(accountFile, 'utf8');
+        expect(saved).not.toContain('correct horse');
+        expect(Object.keys(JSON.parse(saved).juancho)).toEqual(['salt', 'hash']);
+    });
+
+    it('should give the same password a different hash for each account', () => {
+        const accounts = new AccountStore(accountFile);
+        accounts.createAccount('juancho', 'same password');
+        accounts.createAccount('yvonne', 'same password');
+
+        const saved = JSON.parse(fs.readFileSync(accountFile, 'utf8'));
+        expect(saved.juancho.hash).not.toEqual(saved.yvonne.hash);
+    });
+
+    it('should read the accounts that were saved', () => {
+        new AccountStore(accountFile).createAccount('juancho', 'correct horse');
+
+        const accounts = new AccountStore(accountFile);
+        expect(accounts.checkPassword('juancho', 'correct horse')).toEqual(true);
+    });
+
+    it('should refuse a user name that is taken or not valid and a short password', () => {
+        const accounts = new AccountStore(accountFile);
+        accounts.createAccount('juancho', 'correct horse');
+
+        expect(() => accounts.createAccount('juancho', 'another password')).toThrow('User juancho already exists');
+        expect(() => accounts.createAccount('juan|cho', 'correct horse')).toThrow('Invalid user name juan|cho');
+        expect(() => accounts.createAccount('', 'correct horse')).toThrow('Invalid user name');
+        expect(() => accounts.createAccount('yvonne', 'short')).toThrow('The password must have at least 8 characters');
+        expect(accounts.hasAccount('yvonne')).toEqual(false);
+    });
+});
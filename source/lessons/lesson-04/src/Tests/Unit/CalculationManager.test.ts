@@ -4,6 +4,7 @@
 import CalculationManager from "../../Engine/CalculationManager";
 import SheetMemory from "../../Engine/SheetMemory";
 import Cell from "../../Engine/Cell";
+import { ErrorMessages } from "../../Engine/GlobalDefinitions";
 import { get } from "http";
 import e from "cors";
 
@@ -53,9 +54,8 @@ describe("RecalcDependency", () => {
       testMemory.setWorkingCellByCoordinates(0, 0);
       testMemory.setCurrentCell(cellA1);
       calculationManager.updateDependencies(testMemory);
-      let okToAdd = calculationManager.okToAddNewDependency("A1", "A2", testMemory);
 
-      expect(okToAdd).toEqual(true);
+      expect(calculationManager.findCircularCells(testMemory).size).toEqual(0);
 
 
 
@@ -66,21 +66,20 @@ describe("RecalcDependency", () => {
       testMemory.setWorkingCellByCoordinates(0, 1);
       testMemory.setCurrentCell(cellA2);
       calculationManager.updateDependencies(testMemory);
-      okToAdd = calculationManager.okToAddNewDependency("A2", "A3", testMemory);
 
-      expect(okToAdd).toEqual(true);
+      expect(calculationManager.findCircularCells(testMemory).size).toEqual(0);
 
 
       let cellA3: Cell = new Cell();
-      cellA3.setFormula([]);
+      cellA3.setFormula(["A1"]);
       cellA3.setValue(0);
       cellA3.setError("");
       testMemory.setWorkingCellByCoordinates(0, 2);
       testMemory.setCurrentCell(cellA3);
       calculationManager.updateDependencies(testMemory);
-      okToAdd = calculationManager.okToAddNewDependency("A3", "A1", testMemory);
+      const circularCells = calculationManager.findCircularCells(testMemory);
 
-      expect(okToAdd).toEqual(false);
+      expect(Array.from(circularCells).sort()).toEqual(["A1", "A2", "A3"]);
 
 
 
@@ -97,6 +96,24 @@ describe("RecalcDependency", () => {
       expect(lastCell).toEqual("A3");
       expect(penultimateCell).toEqual("A1");
     });
+
+    it("should order a long chain of references without running out of stack", () => {
+      // each cell refers to the cell after it, so the last cell is computed first
+      let chainMemory: SheetMemory = new SheetMemory(20, 1000);
+      let labels: string[] = [];
+      for (let column = 19; column >= 0; column--) {
+        for (let row = 999; row >= 0; row--) {
+          let label = Cell.columnRowToCell(column, row);
+          let cell = chainMemory.getCellByLabel(label);
+          cell.setFormula(labels.length === 0 ? ["1"] : [labels[labels.length - 1], "+", "1"]);
+          chainMemory.setCellByLabel(label, cell);
+          labels.push(label);
+        }
+      }
+      calculationManager.updateDependencies(chainMemory);
+
+      expect(calculationManager.updateComputationOrder(chainMemory)).toEqual(labels);
+    });
   });
 
 
@@ -104,8 +121,8 @@ describe("RecalcDependency", () => {
 
 
 
-  describe("attempting to add a circular dependency", () => {
-    it("should return false", () => {
+  describe("adding a circular dependency", () => {
+    it("should flag only the cells in the loop with #CIRC!", () => {
       let testMemory: SheetMemory = new SheetMemory(5, 5);
       let A1Cell = new Cell();
       A1Cell.setFormula(["B1", "+", "C1"]);
@@ -134,8 +151,20 @@ describe("RecalcDependency", () => {
       let calculationManager = new CalculationManager();
       calculationManager.updateDependencies(testMemory);
 
-      let okToAdd = calculationManager.okToAddNewDependency("D1", "A1", testMemory);
-      expect(okToAdd).toEqual(false);
+      let D1Cell = new Cell();
+      D1Cell.setFormula(["A1"]);
+      D1Cell.setValue(0);
+      D1Cell.setError("");
+      testMemory.setWorkingCellByCoordinates(3, 0);
+      testMemory.setCurrentCell(D1Cell);
+      calculationManager.evaluateSheet(testMemory);
+
+      const circularCells = calculationManager.findCircularCells(testMemory);
+      expect(Array.from(circularCells).sort()).toEqual(["A1", "B1", "D1"]);
+      expect(testMemory.getCellByLabel("A1").getDisplayString()).toEqual(ErrorMessages.circularReference);
+      expect(testMemory.getCellByLabel("B1").getDisplayString()).toEqual(ErrorMessages.circularReference);
+      expect(testMemory.getCellByLabel("D1").getDisplayString()).toEqual(ErrorMessages.circularReference);
+      expect(testMemory.getCellByLabel("C1").getError()).not.toEqual(ErrorMessages.circularReference);
     });
   });
 
@@ -152,8 +181,6 @@ describe("RecalcDependency", () => {
 
       testMemoryInt.setWorkingCellByCoordinates(0, 0);
       testMemoryInt.setCurrentCell(A1Cell);
-      let okToAdd = calculationManager.okToAddNewDependency("A1", "A2", testMemoryInt);
-      expect(okToAdd).toEqual(true);
 
       let A2Cell = new Cell();
       A2Cell.setFormula(["B1"]);
@@ -163,8 +190,6 @@ describe("RecalcDependency", () => {
 
       testMemoryInt.setWorkingCellByCoordinates(0, 1);
       testMemoryInt.setCurrentCell(A2Cell);
-      okToAdd = calculationManager.okToAddNewDependency("A2", "B1", testMemoryInt);
-      expect(okToAdd).toEqual(true);
 
       let B1Cell = new Cell();
       B1Cell.setFormula(["B2"]);
@@ -174,8 +199,6 @@ describe("RecalcDependency", () => {
 
       testMemoryInt.setWorkingCellByCoordinates(1, 0);
       testMemoryInt.setCurrentCell(B1Cell);
-      okToAdd = calculationManager.okToAddNewDependency("B1", "B2", testMemoryInt);
-      expect(okToAdd).toEqual(true);
 
       let B2Cell = new Cell();
       B2Cell.setFormula(["2"]);
@@ -192,6 +215,7 @@ describe("RecalcDependency", () => {
       expect(resultingA1Cell.getDependsOn()).toEqual(["A2"]);
       expect(resultingA2Cell.getDependsOn()).toEqual(["B1"]);
       expect(resultingB1Cell.getDependsOn()).toEqual(["B2"]);
+      expect(calculationManager.findCircularCells(testMemoryInt).size).toEqual(0);
 
     });
   });
@@ -215,6 +239,19 @@ describe("RecalcDependency", () => {
     });
   });
 
+  describe("A cell with an IF formula", () => {
+    it("should depend on the cells in both branches", () => {
+      let testMemory: SheetMemory = new SheetMemory(3, 3);
+      let cellA1: Cell = new Cell();
+      cellA1.setFormula(["IF", "(", "B1", ">", "0", ",", "B2", ",", "1", "/", "B3", ")"]);
+      testMemory.setCellByLabel("A1", cellA1);
+
+      calculationManager.updateDependencies(testMemory);
+      let A1DependsOnSet = new Set(testMemory.getCellByLabel("A1").getDependsOn());
+      expect(A1DependsOnSet).toEqual(new Set(["B1", "B2", "B3"]));
+    });
+  });
+
   describe("A 3 by 3 sheet with all the cells (exept for the first one) to contain the formula A1", () => {
     it("should result in each other cell having A1 in their dependsOn array", () => {
       let testMemory: SheetMemory = new SheetMemory(3, 3);
@@ -366,5 +403,69 @@ describe("RecalcDependency", () => {
   });
 
 
+  describe("evaluateCell", () => {
+    it("should evaluate the changed cell and its dependents in order", () => {
+      let testMemory: SheetMemory = new SheetMemory(3, 3);
+      testMemory.getCellByLabel("A1").setFormula(["1"]);
+      testMemory.getCellByLabel("B1").setFormula(["A1", "+", "1"]);
+      testMemory.getCellByLabel("C1").setFormula(["A1", "+", "B1"]);
+      testMemory.getCellByLabel("C3").setFormula(["7"]);
+      calculationManager.evaluateSheet(testMemory);
+
+      testMemory.getCellByLabel("A1").setFormula(["10"]);
+      let evaluated = calculationManager.evaluateCell("A1", testMemory);
+
+      expect(evaluated).toEqual(["A1", "B1", "C1"]);
+      expect(testMemory.getCellByLabel("C1").getValue()).toEqual(21);
+    });
+
+    it("should update the dependents when the formula changes", () => {
+      let testMemory: SheetMemory = new SheetMemory(3, 3);
+      testMemory.getCellByLabel("A1").setFormula(["1"]);
+      testMemory.getCellByLabel("A2").setFormula(["2"]);
+      testMemory.getCellByLabel("B1").setFormula(["A1"]);
+      calculationManager.evaluateSheet(testMemory);
+      expect(calculationManager.getDependents("A1")).toEqual(["B1"]);
+
+      testMemory.getCellByLabel("B1").setFormula(["A2"]);
+      calculationManager.evaluateCell("B1", testMemory);
+
+      expect(calculationManager.getDependents("A1")).toEqual([]);
+      expect(calculationManager.getDependents("A2")).toEqual(["B1"]);
+      expect(testMemory.getCellByLabel("B1").getValue()).toEqual(2);
+    });
+
+    it("should flag a loop when it is closed and clear it when it is broken", () => {
+      let testMemory: SheetMemory = new SheetMemory(3, 3);
+      testMemory.getCellByLabel("A1").setFormula(["B1"]);
+      testMemory.getCellByLabel("B1").setFormula(["5"]);
+      testMemory.getCellByLabel("C1").setFormula(["A1", "+", "1"]);
+      calculationManager.evaluateSheet(testMemory);
+      expect(testMemory.getCellByLabel("C1").getValue()).toEqual(6);
+
+      testMemory.getCellByLabel("B1").setFormula(["A1"]);
+      calculationManager.evaluateCell("B1", testMemory);
+
+      expect(testMemory.getCellByLabel("A1").getError()).toEqual(ErrorMessages.circularReference);
+      expect(testMemory.getCellByLabel("B1").getError()).toEqual(ErrorMessages.circularReference);
+      expect(testMemory.getCellByLabel("C1").getError()).toEqual(ErrorMessages.circularReference);
+
+      testMemory.getCellByLabel("B1").setFormula(["3"]);
+      calculationManager.evaluateCell("B1", testMemory);
+
+      expect(testMemory.getCellByLabel("A1").getError()).toEqual("");
+      expect(testMemory.getCellByLabel("A1").getValue()).toEqual(3);
+      expect(testMemory.getCellByLabel("C1").getValue()).toEqual(4);
+    });
+
+    it("should flag a cell that refers to itself", () => {
+      let testMemory: SheetMemory = new SheetMemory(3, 3);
+      testMemory.getCellByLabel("A1").setFormula(["A1", "+", "1"]);
+      calculationManager.evaluateCell("A1", testMemory);
+
+      expect(testMemory.getCellByLabel("A1").getDisplayString()).toEqual(ErrorMessages.circularReference);
+    });
+  });
+
 });
 
@@ -121,6 +121,26 @@ describe("Cell", () => {
   }
   );
 
+  describe("getDisplayString with text and booleans", () => {
+    it("should return the text of the value", () => {
+      const cell = new Cell();
+      cell.setFormula(['"Revenue"']);
+      cell.setValue("Revenue");
+      cell.setError("");
+      expect(cell.getDisplayString()).toEqual("Revenue");
+    });
+    it("should return TRUE and FALSE for booleans", () => {
+      const cell = new Cell();
+      cell.setFormula(["TRUE"]);
+      cell.setValue(true);
+      cell.setError("");
+      expect(cell.getDisplayString()).toEqual("TRUE");
+      cell.setValue(false);
+      expect(cell.getDisplayString()).toEqual("FALSE");
+    });
+  }
+  );
+
   describe("setFormula with error", () => {
     it("should set the formula", () => {
       const cell = new Cell();
@@ -133,6 +153,24 @@ describe("Cell", () => {
   }
   );
 
+  describe("format", () => {
+    it("should show the value in the format of the cell and keep its value", () => {
+      const cell = new Cell();
+      cell.setFormula(["0.125"]);
+      cell.setValue(0.125);
+      cell.setError("");
+      cell.setFormat({ kind: "percent", decimals: 1 });
+      expect(cell.getDisplayString()).toEqual("12.5%");
+      expect(cell.getValue()).toEqual(0.125);
+      expect(new Cell(cell).getFormat()).toEqual({ kind: "percent", decimals: 1 });
+
+      cell.setFormat({ kind: "general" });
+      expect(cell.getFormat()).toBeUndefined();
+      expect(cell.getDisplayString()).toEqual("0.125");
+    });
+  }
+  );
+
   describe("Static Methods", () => {
     describe(" cellToColumnRow should throw an error if the cell is invalid", () => {
       expect(() => Cell.cellToColumnRow("A")).toThrow();
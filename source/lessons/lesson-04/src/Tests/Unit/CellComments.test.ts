@@ -0,0 +1,55 @@
+import { CellComments } from '../../Engine/CellComments';
+
+describe('CellComments', () => {
+    let comments: CellComments;
+
+    beforeEach(() => {
+        comments = new CellComments();
+    });
+
+    it('should keep a discussion with its replies and resolved flag', () => {
+        const comment = comments.addComment('Sheet1!B2', 'juancho', 'Is this the total?', 1000);
+        comments.addReply(comment.id, 'alex', 'It is the subtotal', 2000);
+        comments.setResolved(comment.id, true);
+
+        expect(comments.getComment(comment.id)).toEqual({
+            id: 1, cell: 'Sheet1!B2', author: 'juancho', text: 'Is this the total?', time: 1000, resolved: true,
+            replies: [{ author: 'alex', text: 'It is the subtotal', time: 2000 }],
+        });
+        expect(() => comments.addReply(7, 'alex', 'Hello')).toThrow('Comment 7 does not exist');
+    });
+
+    it('should not change when a copy it gave out is changed', () => {
+        const comment = comments.addComment('Sheet1!A1', 'juancho', 'Check this');
+        comment.replies.push({ author: 'alex', text: 'Sneaky', time: 0 });
+        comments.getComments()[0].resolved = true;
+
+        expect(comments.getComment(comment.id)!.replies).toEqual([]);
+        expect(comments.getComment(comment.id)!.resolved).toEqual(false);
+    });
+
+    it('should move the comments with their cells and delete the comments of deleted cells', () => {
+        comments.addComment('Sheet1!A1', 'juancho', 'Stays');
+        comments.addComment('Sheet1!A2', 'juancho', 'Moves');
+        comments.addComment('Sheet1!A3', 'juancho', 'Goes');
+
+        comments.updateCellLabels((cellLabel) => {
+            if (cellLabel === 'Sheet1!A3') {
+                return undefined;
+            }
+            return cellLabel === 'Sheet1!A2' ? 'Sheet1!A5' : cellLabel;
+        });
+        expect(comments.getComments().map((comment) => [comment.cell, comment.text])).toEqual([['Sheet1!A1', 'Stays'], ['Sheet1!A5', 'Moves']]);
+    });
+
+    it('should load the saved comments and not give out their ids again', () => {
+        comments.addComment('Sheet1!A1', 'juancho', 'First');
+        comments.addComment('Sheet1!A2', 'juancho', 'Second');
+        comments.deleteComment(1);
+
+        const loaded = CellComments.createFromContainer(JSON.parse(JSON.stringify(comments.commentsContainer())));
+        expect(loaded.getComments().map((comment) => comment.id)).toEqual([2]);
+        expect(loaded.addComment('Sheet1!A3', 'alex', 'Third').id).toEqual(3);
+        expect(CellComments.createFromContainer(undefined).getComments()).toEqual([]);
+    });
+});
@@ -19,6 +19,43 @@ describe("Cell", () => {
         const valid = Cell.isValidCellLabel("A0");
         expect(valid).toEqual(false);
       });
+      it("should return true for long columns and rows", () => {
+        expect(Cell.isValidCellLabel("CV1000")).toEqual(true);
+        expect(Cell.isValidCellLabel(Cell.columnRowToCell(99, 999))).toEqual(true);
+      });
+      it("should accept $ anchors in front of the column and the row", () => {
+        expect(Cell.isValidCellLabel("$A$1")).toEqual(true);
+        expect(Cell.isValidCellLabel("A$1")).toEqual(true);
+        expect(Cell.isValidCellLabel("$A1")).toEqual(true);
+        expect(Cell.isValidCellLabel("A1$")).toEqual(false);
+      });
+    });
+
+    describe("parseReference and formatReference", () => {
+      it("should keep the anchors of a reference", () => {
+        expect(Cell.parseReference("$B3")).toEqual({ column: 1, row: 2, absoluteColumn: true, absoluteRow: false });
+        expect(Cell.formatReference(1, 2, false, true)).toEqual("B$3");
+        expect(Cell.cellToColumnRow("$B$3")).toEqual([1, 2]);
+      });
+    });
+
+    describe("isValidRangeLabel", () => {
+      it("should return true if the range is valid", () => {
+        expect(Cell.isValidRangeLabel("A1:B4")).toEqual(true);
+      });
+      it("should return false if a corner is invalid", () => {
+        expect(Cell.isValidRangeLabel("A1:B0")).toEqual(false);
+        expect(Cell.isValidRangeLabel("A1")).toEqual(false);
+      });
+    });
+
+    describe("expandRange", () => {
+      it("should return the cells in the range row by row", () => {
+        expect(Cell.expandRange("A1:B2")).toEqual(["A1", "B1", "A2", "B2"]);
+      });
+      it("should accept the corners in any order", () => {
+        expect(Cell.expandRange("B2:A1")).toEqual(["A1", "B1", "A2", "B2"]);
+      });
     });
 
     describe("columnRowToCell", () => {
@@ -0,0 +1,62 @@
+import { ChangeTracker } from '../../Engine/ChangeTracker';
+
+describe('ChangeTracker', () => {
+    let tracker: ChangeTracker;
+
+    beforeEach(() => {
+        tracker = new ChangeTracker(100);
+    });
+
+    it('should give a new revision to the parts that are added, changed or removed', () => {
+        tracker.update('cells', new Map([['A1', '1'], ['A2', '2']]));
+        expect(tracker.revision).toEqual(101);
+        expect(tracker.changedSince('cells', 100)).toEqual(['A1', 'A2']);
+
+        tracker.update('cells', new Map([['A1', '1'], ['A2', '3']]));
+        expect(tracker.revision).toEqual(102);
+        expect(tracker.changedSince('cells', 101)).toEqual(['A2']);
+
+        tracker.update('cells', new Map([['A2', '3']]));
+        expect(tracker.revision).toEqual(103);
+        expect(tracker.changedSince('cells', 102)).toEqual(['A1']);
+        expect(tracker.changedSince('cells', 100)).toEqual(['A1', 'A2']);
+    });
+
+    it('should keep the revision when nothing changed', () => {
+        tracker.update('cells', new Map([['A1', '1']]));
+        tracker.update('cells', new Map([['A1', '1']]));
+        tracker.update('users', new Map());
+        expect(tracker.revision).toEqual(101);
+        expect(tracker.changedSince('cells', 101)).toEqual([]);
+        expect(tracker.changedSince('sheets', 100)).toEqual([]);
+    });
+
+    it('should give a new revision to the parts that are marked', () => {
+        tracker.markChanged('cells', ['Sheet1!A1', 'Sheet1!A2']);
+        expect(tracker.revision).toEqual(101);
+        tracker.markChanged('cells', []);
+        expect(tracker.revision).toEqual(101);
+        tracker.markChanged('cells', ['Sheet1!A2']);
+        expect(tracker.revision).toEqual(102);
+        expect(tracker.changedSince('cells', 101)).toEqual(['Sheet1!A2']);
+        expect(tracker.changedSince('cells', 100)).toEqual(['Sheet1!A1', 'Sheet1!A2']);
+    });
+
+    it('should tell when a group changed as a whole and forget its parts', () => {
+        tracker.markChanged('cells', ['Sheet1!A1']);
+        expect(tracker.allChangedSince('cells', 100)).toEqual(false);
+        tracker.markAllChanged('cells');
+        expect(tracker.revision).toEqual(102);
+        expect(tracker.allChangedSince('cells', 101)).toEqual(true);
+        expect(tracker.allChangedSince('cells', 102)).toEqual(false);
+        expect(tracker.changedSince('cells', 100)).toEqual([]);
+    });
+
+    it('should only know the revisions it gave out', () => {
+        tracker.update('cells', new Map([['A1', '1']]));
+        expect(tracker.isKnown(100)).toEqual(true);
+        expect(tracker.isKnown(101)).toEqual(true);
+        expect(tracker.isKnown(99)).toEqual(false);
+        expect(tracker.isKnown(102)).toEqual(false);
+    });
+});
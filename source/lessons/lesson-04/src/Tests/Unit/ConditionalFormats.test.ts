@@ -0,0 +1,78 @@
+import { ConditionalFormats } from '../../Engine/ConditionalFormats';
+import { Workbook } from '../../Engine/Workbook';
+import CalculationManager from '../../Engine/CalculationManager';
+
+describe('ConditionalFormats', () => {
+    let workbook: Workbook;
+    let formats: ConditionalFormats;
+
+    // put the formulas in the first column of Sheet1 and evaluate them
+    function setColumn(formulas: string[][]): void {
+        formulas.forEach((formula, row) => {
+            const label = `Sheet1!A${row + 1}`;
+            const cell = workbook.getCellByLabel(label);
+            cell.setFormula(formula);
+            workbook.setCellByLabel(label, cell);
+        });
+        new CalculationManager().evaluateSheet(workbook);
+    }
+
+    beforeEach(() => {
+        workbook = new Workbook();
+        workbook.addSheet('Sheet1', 2, 10);
+        formats = new ConditionalFormats();
+    });
+
+    it('should style the numbers that meet a comparison and leave out the empty cells', () => {
+        setColumn([['-5'], ['0'], ['12'], ['"text"']]);
+        formats.addRule({ id: 0, range: 'Sheet1!A1:A10', condition: 'lessThan', value: 1, style: { color: '#ff0000' } });
+        formats.addRule({ id: 0, range: 'Sheet1!A1:A10', condition: 'between', value: -10, value2: 0, style: { color: '#0000ff', bold: true } });
+
+        const styles = formats.getStyles(workbook, 'Sheet1');
+        // the first rule wins, the second only adds bold
+        expect(styles.get('A1')).toEqual({ color: '#ff0000', bold: true });
+        expect(styles.get('A2')).toEqual({ color: '#ff0000', bold: true });
+        expect(styles.has('A3')).toBe(false);
+        expect(styles.has('A4')).toBe(false);
+        expect(styles.has('A5')).toBe(false);
+        expect(formats.getStyles(workbook, 'Summary').size).toEqual(0);
+    });
+
+    it('should style the top values, the errors and a color scale', () => {
+        setColumn([['1'], ['2'], ['3'], ['4'], ['5'], ['6'], ['7'], ['8'], ['9'], ['1', '/', '0']]);
+        formats.addRule({ id: 0, range: 'Sheet1!A1:A10', condition: 'top', value: 20, style: { bold: true } });
+        formats.addRule({ id: 0, range: 'Sheet1!A1:A10', condition: 'error', style: { backgroundColor: '#ffff00' } });
+        formats.addRule({ id: 0, range: 'Sheet1!A1:A9', condition: 'colorScale', minColor: '#000000', maxColor: '#ffffff' });
+
+        const styles = formats.getStyles(workbook, 'Sheet1');
+        // 20% of 9 numbers is one number
+        expect(styles.get('A9')).toEqual({ bold: true, backgroundColor: '#ffffff' });
+        expect(styles.get('A5')).toEqual({ backgroundColor: '#808080' });
+        expect(styles.get('A1')).toEqual({ backgroundColor: '#000000' });
+        expect(styles.get('A10')).toEqual({ backgroundColor: '#ffff00' });
+    });
+
+    it('should move the ranges and drop the rules whose cells are gone', () => {
+        formats.addRule({ id: 0, range: 'Sheet1!B2:B4', condition: 'error', style: { color: '#ff0000' } });
+        const kept = formats.addRule({ id: 0, range: 'Summary!A1', condition: 'error', style: { color: '#ff0000' } });
+        formats.updateRanges((range) => range.startsWith('Sheet1') ? undefined : 'Totals!A1');
+
+        expect(formats.getRules()).toEqual([{ id: kept.id, range: 'Totals!A1', condition: 'error', style: { color: '#ff0000' } }]);
+        const reloaded = ConditionalFormats.createFromContainer(formats.rulesContainer());
+        expect(reloaded.addRule({ id: 0, range: 'Totals!A2', condition: 'error', style: { bold: true } }).id).toEqual(3);
+    });
+
+    it('should report the rules that are not valid', () => {
+        expect(ConditionalFormats.check({ condition: 'lessThan', value: 0, style: { color: '#ff0000' } })).toEqual('');
+        expect(ConditionalFormats.check({ condition: 'colorScale', minColor: '#ffffff', maxColor: '#00ff00' })).toEqual('');
+        expect(ConditionalFormats.check({ condition: 'odd' })).toEqual('Invalid condition, use lessThan, greaterThan, equalTo, between, top, bottom, error, colorScale');
+        expect(ConditionalFormats.check({ condition: 'greaterThan', style: { color: '#ff0000' } })).toEqual('The greaterThan condition needs a number');
+        expect(ConditionalFormats.check({ condition: 'between', value: 5, value2: 1, style: { bold: true } }))
+            .toEqual('The between condition needs a second number that is not smaller than the first');
+        expect(ConditionalFormats.check({ condition: 'top', value: 0, style: { bold: true } })).toEqual('The percent must be more than 0 and at most 100');
+        expect(ConditionalFormats.check({ condition: 'colorScale', minColor: 'red', maxColor: '#00ff00' }))
+            .toEqual('A color scale needs a color for the smallest and the largest value, use #rrggbb');
+        expect(ConditionalFormats.check({ condition: 'error', style: {} })).toEqual('The rule needs a text color, a background color or bold');
+        expect(ConditionalFormats.check({ condition: 'error', style: { color: 'red' } })).toEqual('Invalid color, use #rrggbb');
+    });
+});
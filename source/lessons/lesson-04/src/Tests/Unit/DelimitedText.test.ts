@@ -0,0 +1,66 @@
+import { DelimitedText } from '../../Engine/DelimitedText';
+
+describe('DelimitedText', () => {
+    describe('parse', () => {
+        it('should split the lines and the fields', () => {
+            expect(DelimitedText.parse('a,b,c\r\n1,2,3\r\n', ',')).toEqual([['a', 'b', 'c'], ['1', '2', '3']]);
+            expect(DelimitedText.parse('a\tb\n1\t2', '\t')).toEqual([['a', 'b'], ['1', '2']]);
+            expect(DelimitedText.parse('', ',')).toEqual([]);
+        });
+
+        it('should keep the empty fields', () => {
+            expect(DelimitedText.parse(',a,\n\n', ',')).toEqual([['', 'a', ''], ['']]);
+        });
+
+        it('should read quoted fields with delimiters, quotes and line breaks', () => {
+            expect(DelimitedText.parse('"a,b","say ""hi""","two\r\nlines"\r\n', ',')).toEqual([['a,b', 'say "hi"', 'two\r\nlines']]);
+        });
+
+        it('should throw when a quoted field is not closed', () => {
+            expect(() => DelimitedText.parse('a\n"b,c', ',')).toThrow('The quoted field on line 2 is not closed');
+        });
+    });
+
+    describe('format', () => {
+        it('should quote only the fields that need it', () => {
+            const rows = [['a,b', 'say "hi"', 'plain'], ['two\nlines', '', '1']];
+            const text = DelimitedText.format(rows, ',');
+            expect(text).toEqual('"a,b","say ""hi""",plain\r\n"two\nlines",,1\r\n');
+            expect(DelimitedText.parse(text, ',')).toEqual(rows);
+        });
+
+        it('should quote the tabs of a TSV field', () => {
+            expect(DelimitedText.format([['a\tb', 'a,b']], '\t')).toEqual('"a\tb"\ta,b\r\n');
+        });
+    });
+
+    describe('cell contents', () => {
+        it('should read numbers, booleans and text', () => {
+            expect(DelimitedText.textToFormula('')).toEqual([]);
+            expect(DelimitedText.textToFormula('-1.5')).toEqual(['-1.5']);
+            expect(DelimitedText.textToFormula('true')).toEqual(['TRUE']);
+            expect(DelimitedText.textToFormula('0x10')).toEqual(['"0x10"']);
+            expect(DelimitedText.textToFormula('say "hi"')).toEqual(['"say ""hi"""']);
+        });
+
+        it('should tokenize the fields that start with =', () => {
+            expect(DelimitedText.textToFormula('=SUM(A1:B2)*2')).toEqual(['SUM', '(', 'A1:B2', ')', '*', '2']);
+            expect(DelimitedText.textToFormula('= Summary!$B$2 >= 1.5 & "a b"')).toEqual(['Summary!$B$2', '>=', '1.5', '&', '"a b"']);
+            expect(DelimitedText.textToFormula('=A1 +/- + 3 1/x')).toEqual(['A1', '+/-', '+', '3', '1/x']);
+        });
+
+        it('should keep a formula that cannot be tokenized as text', () => {
+            expect(DelimitedText.textToFormula('=A1 ~ 2')).toEqual(['"=A1 ~ 2"']);
+            expect(DelimitedText.textToFormula('=')).toEqual(['"="']);
+        });
+
+        it('should write formulas that read back the same', () => {
+            const formulas = [[], ['12'], ['FALSE'], ['"text"'], ['"12"'], ['"=A1"'], ['A1', '+', '1'], ['SUM', '(', 'A1:B2', ')']];
+            for (const formula of formulas) {
+                expect(DelimitedText.textToFormula(DelimitedText.formulaToText(formula))).toEqual(formula);
+            }
+            expect(DelimitedText.formulaToText(['"12"'])).toEqual('="12"');
+            expect(DelimitedText.formulaToText(['A1', '+', '1'])).toEqual('=A1 + 1');
+        });
+    });
+});
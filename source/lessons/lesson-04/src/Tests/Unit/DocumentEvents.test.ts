@@ -0,0 +1,125 @@
+import { EventEmitter } from 'events';
+import express from 'express';
+import { DocumentEvents } from '../../Server/DocumentEvents';
+
+// a response that keeps what is written to it
+class TestResponse {
+    public headers: any = {};
+    public written: string[] = [];
+    public ended: boolean = false;
+
+    writeHead(status: number, headers: any) {
+        this.headers = headers;
+    }
+
+    write(text: string) {
+        this.written.push(text);
+    }
+
+    end() {
+        this.ended = true;
+    }
+}
+
+function waitForPush(): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, 10));
+}
+
+describe('DocumentEvents', () => {
+    let documentEvents: DocumentEvents;
+    let sent: string[];
+    let revision: number;
+    let revokedUsers: string[];
+
+    beforeEach(() => {
+        sent = [];
+        revision = 1;
+        revokedUsers = [];
+        // the document is sent unless the user already has the latest revision
+        documentEvents = new DocumentEvents({
+            getDocumentDeltaJSON: (docName: string, userName: string, sinceRevision: number | undefined) => {
+                if (sinceRevision === revision) {
+                    return undefined;
+                }
+                sent.push(`${docName} ${userName}`);
+                return JSON.stringify({ docName: docName, userName: userName });
+            },
+            getDocumentRevision: (docName: string) => revision,
+            hasAccess: (docName: string, userName: string) => !revokedUsers.includes(userName),
+        });
+    });
+
+    function subscribe(docName: string, userName: string): [EventEmitter, TestResponse] {
+        const request = new EventEmitter();
+        const response = new TestResponse();
+        documentEvents.subscribe(docName, userName, request as unknown as express.Request, response as unknown as express.Response);
+        return [request, response];
+    }
+
+    it('should send the document when a user subscribes', () => {
+        const [request, response] = subscribe('test', 'juancho');
+        expect(response.headers['Content-Type']).toEqual('text/event-stream');
+        expect(response.written).toEqual(['event: document\ndata: {"docName":"test","userName":"juancho"}\n\n']);
+        request.emit('close');
+    });
+
+    it('should send the document to each user once for the changes of a request', async () => {
+        const [request1, response1] = subscribe('test', 'juancho');
+        const [request2, response2] = subscribe('test', 'alex');
+        const [request3, response3] = subscribe('other', 'juancho');
+        sent = [];
+
+        revision++;
+        documentEvents.documentChanged('test');
+        documentEvents.documentChanged('test');
+        await waitForPush();
+
+        expect(sent).toEqual(['test juancho', 'test alex']);
+        expect(response1.written.length).toEqual(2);
+        expect(response2.written.length).toEqual(2);
+        expect(response3.written.length).toEqual(1);
+        request1.emit('close');
+        request2.emit('close');
+        request3.emit('close');
+    });
+
+    it('should stop sending to a user whose connection closed', async () => {
+        const [request1] = subscribe('test', 'juancho');
+        const [request2] = subscribe('test', 'alex');
+        expect(documentEvents.getSubscriberCount('test')).toEqual(2);
+
+        request1.emit('close');
+        expect(documentEvents.getSubscriberCount('test')).toEqual(1);
+        sent = [];
+        revision++;
+        documentEvents.documentChanged('test');
+        await waitForPush();
+        expect(sent).toEqual(['test alex']);
+
+        request2.emit('close');
+        expect(documentEvents.getSubscriberCount('test')).toEqual(0);
+    });
+
+    it('should not send the document to a user who has the latest revision', async () => {
+        const [request, response] = subscribe('test', 'juancho');
+        documentEvents.documentChanged('test');
+        await waitForPush();
+        expect(response.written.length).toEqual(1);
+        request.emit('close');
+    });
+
+    it('should close the channel of a user who lost their access', async () => {
+        const [, response1] = subscribe('test', 'juancho');
+        const [request2, response2] = subscribe('test', 'alex');
+
+        revokedUsers.push('juancho');
+        revision++;
+        documentEvents.documentChanged('test');
+        await waitForPush();
+        expect(response1.ended).toEqual(true);
+        expect(response1.written.length).toEqual(1);
+        expect(response2.written.length).toEqual(2);
+        expect(documentEvents.getSubscriberCount('test')).toEqual(1);
+        request2.emit('close');
+    });
+});
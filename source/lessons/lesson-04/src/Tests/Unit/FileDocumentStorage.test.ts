@@ -0,0 +1,73 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { FileDocumentStorage } from '../../Engine/FileDocumentStorage';
+
+describe('FileDocumentStorage', () => {
+    let documentFolder: string;
+
+    beforeEach(() => {
+        documentFolder = fs.mkdtempSync(path.join(os.tmpdir(), 'documents-'));
+    });
+
+    afterEach(() => {
+        fs.rmSync(documentFolder, { recursive: true, force: true });
+    });
+
+    it('should replace a document with a whole new file and leave no temporary file', async () => {
+        const storage = new FileDocumentStorage(documentFolder);
+        await storage.writeDocument('budget', '{"version":1}');
+        await Promise.all([storage.writeDocument('budget', '{"version":2}'), storage.writeDocument('sales', '{}')]);
+
+        expect(storage.listDocuments().sort()).toEqual(['budget', 'sales']);
+        expect(storage.readDocument('budget')).toEqual('{"version":2}');
+        expect(fs.readdirSync(documentFolder).sort()).toEqual(['budget.json', 'sales.json']);
+
+        storage.deleteDocument('sales');
+        expect(storage.listDocuments()).toEqual(['budget']);
+    });
+
+    it('should keep the revisions of a document in their own folder', async () => {
+        const storage = new FileDocumentStorage(documentFolder);
+        await Promise.all([10, 2, 1].map((revision) => storage.writeRevision('budget', revision, `{"revision":${revision}}`)));
+
+        expect(storage.listRevisions('budget')).toEqual([1, 2, 10]);
+        expect(storage.listRevisions('sales')).toEqual([]);
+        expect(storage.readRevision('budget', 2)).toEqual('{"revision":2}');
+        expect(fs.readdirSync(path.join(documentFolder, '.revisions', 'budget')).sort()).toEqual(['1.json', '10.json', '2.json']);
+
+        await storage.deleteRevision('budget', 1);
+        expect(storage.listRevisions('budget')).toEqual([2, 10]);
+        storage.quarantineRevision('budget', 2);
+        expect(storage.listRevisions('budget')).toEqual([10]);
+        expect(fs.readdirSync(path.join(documentFolder, '.quarantine'))[0]).toMatch(/^budget\.revision2\.\d+\.json$/);
+        storage.deleteRevisions('budget');
+        expect(storage.listRevisions('budget')).toEqual([]);
+    });
+
+    it('should delete the old temporary files of unfinished writes and quarantine a document', () => {
+        fs.writeFileSync(path.join(documentFolder, 'budget.json'), '{"version":1}');
+        fs.writeFileSync(path.join(documentFolder, 'budget.json.0a1b2c.tmp'), '{"ver');
+        fs.mkdirSync(path.join(documentFolder, '.revisions', 'budget'), { recursive: true });
+        fs.writeFileSync(path.join(documentFolder, '.revisions', 'budget', '3.json.0a1b2c.tmp'), '{"rev');
+        // a write that another storage on the folder is doing now
+        fs.writeFileSync(path.join(documentFolder, 'budget.json.3d4e5f.tmp'), '{"version":2');
+        fs.writeFileSync(path.join(documentFolder, 'broken.json'), '{"sheets": [');
+        const anHourAgo = new Date(Date.now() - 60 * 60 * 1000);
+        fs.utimesSync(path.join(documentFolder, 'budget.json.0a1b2c.tmp'), anHourAgo, anHourAgo);
+        fs.utimesSync(path.join(documentFolder, '.revisions', 'budget', '3.json.0a1b2c.tmp'), anHourAgo, anHourAgo);
+
+        const storage = new FileDocumentStorage(documentFolder);
+        expect(fs.existsSync(path.join(documentFolder, 'budget.json.0a1b2c.tmp'))).toBe(false);
+        expect(fs.existsSync(path.join(documentFolder, '.revisions', 'budget', '3.json.0a1b2c.tmp'))).toBe(false);
+        expect(fs.existsSync(path.join(documentFolder, 'budget.json.3d4e5f.tmp'))).toBe(true);
+        expect(storage.readDocument('budget')).toEqual('{"version":1}');
+
+        storage.quarantineDocument('broken');
+        expect(storage.listDocuments()).toEqual(['budget']);
+        const quarantined = fs.readdirSync(path.join(documentFolder, '.quarantine'));
+        expect(quarantined).toHaveLength(1);
+        expect(quarantined[0]).toMatch(/^broken\.\d+\.json$/);
+        expect(fs.readFileSync(path.join(documentFolder, '.quarantine', quarantined[0]), 'utf8')).toEqual('{"sheets": [');
+    });
+});
@@ -0,0 +1,101 @@
+import { FormulaTokenizer, FormulaSyntaxError } from '../../Engine/FormulaTokenizer';
+
+describe('FormulaTokenizer', () => {
+    describe('tokenize', () => {
+        it('should split numbers, operators and parentheses', () => {
+            expect(FormulaTokenizer.tokenize('(A1+B2)*3.5')).toEqual(['(', 'A1', '+', 'B2', ')', '*', '3.5']);
+            expect(FormulaTokenizer.tokenize('= .5 // 2 % 1e3 ^ -2')).toEqual(['.5', '//', '2', '%', '1e3', '^', '-', '2']);
+            expect(FormulaTokenizer.tokenize('  ')).toEqual([]);
+        });
+
+        it('should read the comparisons and the text', () => {
+            expect(FormulaTokenizer.tokenize('A1<=2&"say ""hi"""<>B1')).toEqual(['A1', '<=', '2', '&', '"say ""hi"""', '<>', 'B1']);
+        });
+
+        it('should read functions, ranges and references in any case', () => {
+            expect(FormulaTokenizer.tokenize('sum(a1:$b$4, Summary!c2 : d3)')).toEqual(['SUM', '(', 'A1:$B$4', ',', 'Summary!C2:D3', ')']);
+            expect(FormulaTokenizer.tokenize('IF(true, 1, 2)')).toEqual(['IF', '(', 'TRUE', ',', '1', ',', '2', ')']);
+        });
+
+        it('should read the postfix operators', () => {
+            expect(FormulaTokenizer.tokenize('A1 SIN +/- 1/x')).toEqual(['A1', 'sin', '+/-', '1/x']);
+            expect(FormulaTokenizer.tokenize('2 1/x')).toEqual(['2', '1/x']);
+        });
+
+        it('should read rand in any case', () => {
+            expect(FormulaTokenizer.tokenize('=RAND * 10 + rand')).toEqual(['rand', '*', '10', '+', 'rand']);
+            expect(FormulaTokenizer.tokenize('Rand sqrt')).toEqual(['rand', 'sqrt']);
+            expect(FormulaTokenizer.isValidName('Rand')).toBe(false);
+        });
+
+        it('should read the names of the document in any case', () => {
+            expect(FormulaTokenizer.tokenize('taxrate * SUM(Sales)', ['TaxRate', 'Sales'])).toEqual(['TaxRate', '*', 'SUM', '(', 'Sales', ')']);
+            expect(FormulaTokenizer.isValidName('TaxRate')).toBe(true);
+            expect(FormulaTokenizer.isValidName('tax2023')).toBe(false);
+            expect(FormulaTokenizer.isValidName('sum')).toBe(false);
+            expect(FormulaTokenizer.isValidName('2Rate')).toBe(false);
+        });
+
+        it('should keep the references to deleted cells', () => {
+            expect(FormulaTokenizer.tokenize('#REF! + 1')).toEqual(['#REF!', '+', '1']);
+        });
+    });
+
+    describe('syntax errors', () => {
+        const errorOf = (text: string): FormulaSyntaxError => {
+            try {
+                FormulaTokenizer.tokenize(text);
+            } catch (error) {
+                return error as FormulaSyntaxError;
+            }
+            throw new Error(`${text} has no syntax error`);
+        };
+
+        it('should report the position of a character that is not a token', () => {
+            const error = errorOf('A1 + ~2');
+            expect(error).toBeInstanceOf(FormulaSyntaxError);
+            expect(error.position).toEqual(6);
+            expect(error.message).toEqual('Unexpected ~ at position 6');
+        });
+
+        it('should report parentheses that do not match', () => {
+            expect(errorOf('(1 + (2)').message).toEqual('Missing ) for the ( at position 1');
+            expect(errorOf('1 + 2)').message).toEqual('Unexpected ) at position 6');
+        });
+
+        it('should report unknown names, open text and broken references', () => {
+            expect(errorOf('FOO(1)').message).toEqual('Unknown name FOO at position 1');
+            expect(errorOf('1 & "abc').message).toEqual('The text is not closed with " at position 5');
+            expect(errorOf('Summary!+1').message).toEqual('Expected a cell after Summary! at position 9');
+            expect(errorOf('A1:').message).toEqual('Expected a cell after : at position 4');
+        });
+
+        it('should report a number with two decimal points', () => {
+            expect(errorOf('=1.2.3').message).toEqual('Unexpected . at position 5');
+            expect(errorOf('1 + .').message).toEqual('Unexpected . at position 5');
+        });
+
+        it('should report two values without an operator between them', () => {
+            expect(errorOf('=1 2').message).toEqual('Expected an operator before 2 at position 4');
+            expect(errorOf('A1 SUM(1)').message).toEqual('Expected an operator before SUM at position 4');
+            expect(errorOf('(1)(2)').message).toEqual('Expected an operator before ( at position 4');
+        });
+
+        it('should report an operator without a value', () => {
+            expect(errorOf('=*+').message).toEqual('Expected a value before * at position 2');
+            expect(errorOf('1 + * 2').message).toEqual('Expected a value before * at position 5');
+            expect(errorOf('sin 2').message).toEqual('Expected a value before sin at position 1');
+            expect(errorOf('1 +').message).toEqual('Expected a value after + at position 4');
+            expect(errorOf('( )').message).toEqual('Expected a value before ) at position 3');
+        });
+
+        it('should report the commas and parentheses of a function that are out of place', () => {
+            expect(errorOf('=SUM(,)').message).toEqual('Expected a value before , at position 6');
+            expect(errorOf('SUM(1,)').message).toEqual('Expected a value before ) at position 7');
+            expect(errorOf('1, 2').message).toEqual('Unexpected , at position 2');
+            expect(errorOf('SUM 1').message).toEqual('Expected ( after SUM at position 5');
+            expect(FormulaTokenizer.tokenize('SUM() + -(-1) + IF(NOT(FALSE), 1, 2)')).toEqual(
+                ['SUM', '(', ')', '+', '-', '(', '-', '1', ')', '+', 'IF', '(', 'NOT', '(', 'FALSE', ')', ',', '1', ',', '2', ')']);
+        });
+    });
+});
@@ -372,7 +372,7 @@ describe("FormulaEvaluator", () => {
 
                 recalc.evaluate(formula);
 
-                let result = recalc.result;
+                let result = recalc.result as number;
                 let error = recalc.error;
 
                 expect(Math.abs(result)).toBeLessThan(0.000000000000001);
@@ -386,7 +386,7 @@ describe("FormulaEvaluator", () => {
 
                 recalc.evaluate(formula);
 
-                let result = recalc.result;
+                let result = recalc.result as number;
                 let error = recalc.error;
                 let delta = Math.abs(result - 1);
                 expect(delta).toBeLessThan(0.000000000000001);
@@ -578,5 +578,633 @@ describe("FormulaEvaluator", () => {
 
 
 
+        describe("when the formula is SUM ( A1:A3 )", () => {
+            it("returns the sum of the cells in the range", () => {
+                const formula: FormulaType = ["SUM", "(", "A1:A3", ")"];
+                recalc.evaluate(formula);
+
+                expect(recalc.result).toEqual(6);
+                expect(recalc.error).toEqual("");
+            });
+        });
+
+        describe("when the formula is SUM ( A1:B5 ) and the range has empty cells", () => {
+            it("skips the empty cells", () => {
+                const formula: FormulaType = ["SUM", "(", "A1:B5", ")"];
+                recalc.evaluate(formula);
+
+                expect(recalc.result).toEqual(6);
+                expect(recalc.error).toEqual("");
+            });
+        });
+
+        describe("when the formula is SUM ( A1:A2 , 10 , A3 * 2 )", () => {
+            it("returns the sum of all the arguments", () => {
+                const formula: FormulaType = ["SUM", "(", "A1:A2", ",", "10", ",", "A3", "*", "2", ")"];
+                recalc.evaluate(formula);
+
+                expect(recalc.result).toEqual(19);
+                expect(recalc.error).toEqual("");
+            });
+        });
+
+        describe("when the formula is AVERAGE ( A1:A3 )", () => {
+            it("returns the average of the cells in the range", () => {
+                const formula: FormulaType = ["AVERAGE", "(", "A1:A3", ")"];
+                recalc.evaluate(formula);
+
+                expect(recalc.result).toEqual(2);
+                expect(recalc.error).toEqual("");
+            });
+        });
+
+        describe("when the formula is AVERAGE ( B1:B3 ) and the range is empty", () => {
+            it("returns a divide by zero error", () => {
+                const formula: FormulaType = ["AVERAGE", "(", "B1:B3", ")"];
+                recalc.evaluate(formula);
+
+                expect(recalc.error).toEqual(ErrorMessages.divideByZero);
+            });
+        });
+
+        describe("when the formula is MIN ( A1:A3 ) + MAX ( A1:A3 )", () => {
+            it("returns the sum of the minimum and the maximum", () => {
+                const formula: FormulaType = ["MIN", "(", "A1:A3", ")", "+", "MAX", "(", "A1:A3", ")"];
+                recalc.evaluate(formula);
+
+                expect(recalc.result).toEqual(4);
+                expect(recalc.error).toEqual("");
+            });
+        });
+
+        describe("when the formula is COUNT ( A1:C3 )", () => {
+            it("returns the number of non empty cells", () => {
+                const formula: FormulaType = ["COUNT", "(", "A1:C3", ")"];
+                recalc.evaluate(formula);
+
+                expect(recalc.result).toEqual(3);
+                expect(recalc.error).toEqual("");
+            });
+        });
+
+        describe("when the formula is PRODUCT ( A3:A1 )", () => {
+            it("returns the product of the cells in the range", () => {
+                const formula: FormulaType = ["PRODUCT", "(", "A3:A1", ")"];
+                recalc.evaluate(formula);
+
+                expect(recalc.result).toEqual(6);
+                expect(recalc.error).toEqual("");
+            });
+        });
+
+        describe("when the formula is SUM ( A1:A3", () => {
+            it("returns a missing parentheses error", () => {
+                const formula: FormulaType = ["SUM", "(", "A1:A3"];
+                recalc.evaluate(formula);
+
+                expect(recalc.error).toEqual(ErrorMessages.missingParentheses);
+            });
+        });
+
+        describe("when the formula is SUM A1:A3", () => {
+            it("returns a missing parentheses error", () => {
+                const formula: FormulaType = ["SUM", "A1:A3"];
+                recalc.evaluate(formula);
+
+                expect(recalc.error).toEqual(ErrorMessages.missingParentheses);
+            });
+        });
+
+        describe("when the range contains a cell with an error", () => {
+            it("returns the error of the cell", () => {
+                const cellB1 = new Cell();
+                cellB1.setFormula(["1", "/", "0"]);
+                cellB1.setError(ErrorMessages.divideByZero);
+                testMemory.setCellByLabel("B1", cellB1);
+
+                const formula: FormulaType = ["SUM", "(", "A1:B3", ")"];
+                recalc.evaluate(formula);
+
+                expect(recalc.error).toEqual(ErrorMessages.divideByZero);
+            });
+        });
+
+        describe("when the formula is a range without a function", () => {
+            it("returns an invalid formula error", () => {
+                const formula: FormulaType = ["A1:A3"];
+                recalc.evaluate(formula);
+
+                expect(recalc.error).toEqual(ErrorMessages.invalidFormula);
+            });
+        });
+
+        describe("when the formula is 2 ^ 3", () => {
+            it("returns two to the power of three", () => {
+                const formula: FormulaType = ["2", "^", "3"];
+                recalc.evaluate(formula);
+
+                expect(recalc.result).toBeCloseTo(8);
+                expect(recalc.error).toEqual("");
+            });
+        });
+
+        describe("when the formula is 2 ^ 3 ^ 2", () => {
+            it("is right associative", () => {
+                const formula: FormulaType = ["2", "^", "3", "^", "2"];
+                recalc.evaluate(formula);
+
+                expect(recalc.result).toBeCloseTo(512);
+                expect(recalc.error).toEqual("");
+            });
+        });
+
+        describe("when the formula is - 2 ^ 2", () => {
+            it("applies the power before the unary minus", () => {
+                const formula: FormulaType = ["-", "2", "^", "2"];
+                recalc.evaluate(formula);
+
+                expect(recalc.result).toBeCloseTo(-4);
+                expect(recalc.error).toEqual("");
+            });
+        });
+
+        describe("when the formula is 2 ^ - 1", () => {
+            it("allows a negative exponent", () => {
+                const formula: FormulaType = ["2", "^", "-", "1"];
+                recalc.evaluate(formula);
+
+                expect(recalc.result).toBeCloseTo(0.5);
+                expect(recalc.error).toEqual("");
+            });
+        });
+
+        describe("when the formula is 3 * 2 ^ 2", () => {
+            it("applies the power before the multiplication", () => {
+                const formula: FormulaType = ["3", "*", "2", "^", "2"];
+                recalc.evaluate(formula);
+
+                expect(recalc.result).toBeCloseTo(12);
+                expect(recalc.error).toEqual("");
+            });
+        });
+
+        describe("when the formula is A3 ^ 0.5 ^ 2", () => {
+            it("accepts cell references and decimals", () => {
+                const formula: FormulaType = ["A3", "^", "0.5", "^", "2"];
+                recalc.evaluate(formula);
+
+                expect(recalc.result).toBeCloseTo(Math.pow(3, 0.25));
+                expect(recalc.error).toEqual("");
+            });
+        });
+
+        describe("when the formula is 0 ^ - 1", () => {
+            it("returns a divide by zero error", () => {
+                const formula: FormulaType = ["0", "^", "-", "1"];
+                recalc.evaluate(formula);
+
+                expect(recalc.error).toEqual(ErrorMessages.divideByZero);
+            });
+        });
+
+        describe("when the formula is - 8 ^ 0.5", () => {
+            it("returns an invalid number error", () => {
+                const formula: FormulaType = ["(", "-", "8", ")", "^", "0.5"];
+                recalc.evaluate(formula);
+
+                expect(recalc.error).toEqual(ErrorMessages.invalidNumber);
+            });
+        });
+
+        describe("when the formula is 7 % 3", () => {
+            it("returns the remainder", () => {
+                const formula: FormulaType = ["7", "%", "3"];
+                recalc.evaluate(formula);
+
+                expect(recalc.result).toBeCloseTo(1);
+                expect(recalc.error).toEqual("");
+            });
+        });
+
+        describe("when the formula is - 7 % 3", () => {
+            it("returns a remainder with the sign of the divisor", () => {
+                const formula: FormulaType = ["-", "7", "%", "3"];
+                recalc.evaluate(formula);
+
+                expect(recalc.result).toBeCloseTo(2);
+                expect(recalc.error).toEqual("");
+            });
+        });
+
+        describe("when the formula is 7 % 0", () => {
+            it("returns a divide by zero error", () => {
+                const formula: FormulaType = ["7", "%", "0"];
+                recalc.evaluate(formula);
+
+                expect(recalc.error).toEqual(ErrorMessages.divideByZero);
+            });
+        });
+
+        describe("when the formula is 7 // 2", () => {
+            it("returns the integer quotient", () => {
+                const formula: FormulaType = ["7", "//", "2"];
+                recalc.evaluate(formula);
+
+                expect(recalc.result).toBeCloseTo(3);
+                expect(recalc.error).toEqual("");
+            });
+        });
+
+        describe("when the formula is - 7 // 2", () => {
+            it("rounds the quotient down", () => {
+                const formula: FormulaType = ["-", "7", "//", "2"];
+                recalc.evaluate(formula);
+
+                expect(recalc.result).toBeCloseTo(-4);
+                expect(recalc.error).toEqual("");
+            });
+        });
+
+        describe("when the formula is 1 + 7 // 2 * 2", () => {
+            it("has the same precedence as multiplication", () => {
+                const formula: FormulaType = ["1", "+", "7", "//", "2", "*", "2"];
+                recalc.evaluate(formula);
+
+                expect(recalc.result).toBeCloseTo(7);
+                expect(recalc.error).toEqual("");
+            });
+        });
+
+        describe("when the formula is 7 // 0", () => {
+            it("returns a divide by zero error", () => {
+                const formula: FormulaType = ["7", "//", "0"];
+                recalc.evaluate(formula);
+
+                expect(recalc.error).toEqual(ErrorMessages.divideByZero);
+            });
+        });
+
+        describe("when the formula is \"Revenue\"", () => {
+            it("returns the text", () => {
+                const formula: FormulaType = ['"Revenue"'];
+                recalc.evaluate(formula);
+
+                expect(recalc.result).toEqual("Revenue");
+                expect(recalc.error).toEqual("");
+            });
+        });
+
+        describe("when the formula is \"say \"\"hi\"\"\"", () => {
+            it("keeps the quotes inside the text", () => {
+                const formula: FormulaType = ['"say ""hi"""'];
+                recalc.evaluate(formula);
+
+                expect(recalc.result).toEqual('say "hi"');
+                expect(recalc.error).toEqual("");
+            });
+        });
+
+        describe("when the formula is TRUE", () => {
+            it("returns a boolean", () => {
+                const formula: FormulaType = ["TRUE"];
+                recalc.evaluate(formula);
+
+                expect(recalc.result).toEqual(true);
+                expect(recalc.error).toEqual("");
+            });
+        });
+
+        describe("when the formula is \"Total: \" & A1 + A2", () => {
+            it("joins the text with the number", () => {
+                const formula: FormulaType = ['"Total: "', "&", "A1", "+", "A2"];
+                recalc.evaluate(formula);
+
+                expect(recalc.result).toEqual("Total: 3");
+                expect(recalc.error).toEqual("");
+            });
+        });
+
+        describe("when the formula is \"a\" & ( \"b\" & \"c\" )", () => {
+            it("joins all of the text", () => {
+                const formula: FormulaType = ['"a"', "&", "(", '"b"', "&", '"c"', ")"];
+                recalc.evaluate(formula);
+
+                expect(recalc.result).toEqual("abc");
+                expect(recalc.error).toEqual("");
+            });
+        });
+
+        describe("when the formula is FALSE & 1", () => {
+            it("converts the boolean to text", () => {
+                const formula: FormulaType = ["FALSE", "&", "1"];
+                recalc.evaluate(formula);
+
+                expect(recalc.result).toEqual("FALSE1");
+                expect(recalc.error).toEqual("");
+            });
+        });
+
+        describe("when the formula is TRUE + 1", () => {
+            it("treats TRUE as 1", () => {
+                const formula: FormulaType = ["TRUE", "+", "1"];
+                recalc.evaluate(formula);
+
+                expect(recalc.result).toEqual(2);
+                expect(recalc.error).toEqual("");
+            });
+        });
+
+        describe("when the formula is \"abc\" + 1", () => {
+            it("returns a value error", () => {
+                const formula: FormulaType = ['"abc"', "+", "1"];
+                recalc.evaluate(formula);
+
+                expect(recalc.error).toEqual(ErrorMessages.invalidValue);
+            });
+        });
+
+        describe("when the formula is - \"abc\"", () => {
+            it("returns a value error", () => {
+                const formula: FormulaType = ["-", '"abc"'];
+                recalc.evaluate(formula);
+
+                expect(recalc.error).toEqual(ErrorMessages.invalidValue);
+            });
+        });
+
+        describe("when the formula is \"abc\" sqr", () => {
+            it("returns a value error", () => {
+                const formula: FormulaType = ['"abc"', "sqr"];
+                recalc.evaluate(formula);
+
+                expect(recalc.error).toEqual(ErrorMessages.invalidValue);
+            });
+        });
+
+        describe("when the formula is SUM ( \"abc\" )", () => {
+            it("returns a value error", () => {
+                const formula: FormulaType = ["SUM", "(", '"abc"', ")"];
+                recalc.evaluate(formula);
+
+                expect(recalc.error).toEqual(ErrorMessages.invalidValue);
+            });
+        });
+
+        describe("when a cell in a range holds text", () => {
+            it("skips the text in SUM and COUNT", () => {
+                const cellB1 = new Cell();
+                cellB1.setFormula(['"Revenue"']);
+                cellB1.setValue("Revenue");
+                cellB1.setError("");
+                testMemory.setCellByLabel("B1", cellB1);
+
+                recalc.evaluate(["SUM", "(", "A1:B3", ")", "+", "COUNT", "(", "A1:B3", ")"]);
+
+                expect(recalc.result).toEqual(9);
+                expect(recalc.error).toEqual("");
+            });
+        });
+
+        describe("when the formula references a cell that holds text", () => {
+            it("returns the text of the cell", () => {
+                const cellB1 = new Cell();
+                cellB1.setFormula(['"Revenue"']);
+                cellB1.setValue("Revenue");
+                cellB1.setError("");
+                testMemory.setCellByLabel("B1", cellB1);
+
+                recalc.evaluate(["B1"]);
+
+                expect(recalc.result).toEqual("Revenue");
+                expect(recalc.error).toEqual("");
+            });
+        });
+
+        describe("when the formula is A1 < A2", () => {
+            it("returns TRUE", () => {
+                const formula: FormulaType = ["A1", "<", "A2"];
+                recalc.evaluate(formula);
+
+                expect(recalc.result).toEqual(true);
+                expect(recalc.error).toEqual("");
+            });
+        });
+
+        describe("when the formula is A1 + A2 = A3", () => {
+            it("compares after the arithmetic", () => {
+                const formula: FormulaType = ["A1", "+", "A2", "=", "A3"];
+                recalc.evaluate(formula);
+
+                expect(recalc.result).toEqual(true);
+                expect(recalc.error).toEqual("");
+            });
+        });
+
+        describe("when the formula is A1 <> 1", () => {
+            it("returns FALSE", () => {
+                const formula: FormulaType = ["A1", "<>", "1"];
+                recalc.evaluate(formula);
+
+                expect(recalc.result).toEqual(false);
+                expect(recalc.error).toEqual("");
+            });
+        });
+
+        describe("when the formula is A3 >= 3", () => {
+            it("returns TRUE", () => {
+                const formula: FormulaType = ["A3", ">=", "3"];
+                recalc.evaluate(formula);
+
+                expect(recalc.result).toEqual(true);
+                expect(recalc.error).toEqual("");
+            });
+        });
+
+        describe("when the formula is A3 <= 2", () => {
+            it("returns FALSE", () => {
+                const formula: FormulaType = ["A3", "<=", "2"];
+                recalc.evaluate(formula);
+
+                expect(recalc.result).toEqual(false);
+                expect(recalc.error).toEqual("");
+            });
+        });
+
+        describe("when the formula is A3 > 2", () => {
+            it("returns TRUE", () => {
+                const formula: FormulaType = ["A3", ">", "2"];
+                recalc.evaluate(formula);
+
+                expect(recalc.result).toEqual(true);
+                expect(recalc.error).toEqual("");
+            });
+        });
+
+        describe("when the formula is \"abc\" = \"ABC\"", () => {
+            it("compares text without regard to case", () => {
+                const formula: FormulaType = ['"abc"', "=", '"ABC"'];
+                recalc.evaluate(formula);
+
+                expect(recalc.result).toEqual(true);
+                expect(recalc.error).toEqual("");
+            });
+        });
+
+        describe("when the formula is \"abc\" > 100", () => {
+            it("orders numbers before text", () => {
+                const formula: FormulaType = ['"abc"', ">", "100"];
+                recalc.evaluate(formula);
+
+                expect(recalc.result).toEqual(true);
+                expect(recalc.error).toEqual("");
+            });
+        });
+
+        describe("when the formula is IF ( A1 > 0 , \"yes\" , \"no\" )", () => {
+            it("returns the true branch", () => {
+                const formula: FormulaType = ["IF", "(", "A1", ">", "0", ",", '"yes"', ",", '"no"', ")"];
+                recalc.evaluate(formula);
+
+                expect(recalc.result).toEqual("yes");
+                expect(recalc.error).toEqual("");
+            });
+        });
+
+        describe("when the formula is IF ( A1 > 5 , \"yes\" , \"no\" )", () => {
+            it("returns the false branch", () => {
+                const formula: FormulaType = ["IF", "(", "A1", ">", "5", ",", '"yes"', ",", '"no"', ")"];
+                recalc.evaluate(formula);
+
+                expect(recalc.result).toEqual("no");
+                expect(recalc.error).toEqual("");
+            });
+        });
+
+        describe("when the formula is IF ( FALSE , 1 )", () => {
+            it("returns FALSE when there is no false branch", () => {
+                const formula: FormulaType = ["IF", "(", "FALSE", ",", "1", ")"];
+                recalc.evaluate(formula);
+
+                expect(recalc.result).toEqual(false);
+                expect(recalc.error).toEqual("");
+            });
+        });
+
+        describe("when the formula is IF ( A1 = 0 , 1 / 0 * 2 , 7 )", () => {
+            it("does not raise an error in the branch that is not taken", () => {
+                const formula: FormulaType = ["IF", "(", "A1", "=", "0", ",", "1", "/", "0", "*", "2", ",", "7", ")"];
+                recalc.evaluate(formula);
+
+                expect(recalc.result).toEqual(7);
+                expect(recalc.error).toEqual("");
+            });
+        });
+
+        describe("when the formula is IF ( A1 = 1 , 7 , SUM ( 1 / 0 , 2 ) )", () => {
+            it("does not raise an error in a function in the branch that is not taken", () => {
+                const formula: FormulaType = ["IF", "(", "A1", "=", "1", ",", "7", ",", "SUM", "(", "1", "/", "0", ",", "2", ")", ")"];
+                recalc.evaluate(formula);
+
+                expect(recalc.result).toEqual(7);
+                expect(recalc.error).toEqual("");
+            });
+        });
+
+        describe("when the formula is IF ( A1 = 1 , 1 / 0 , 7 )", () => {
+            it("raises the error in the branch that is taken", () => {
+                const formula: FormulaType = ["IF", "(", "A1", "=", "1", ",", "1", "/", "0", ",", "7", ")"];
+                recalc.evaluate(formula);
+
+                expect(recalc.error).toEqual(ErrorMessages.divideByZero);
+            });
+        });
+
+        describe("when the formula is IF ( A1 = 0 , 1 ( , 7 )", () => {
+            it("reports a syntax error in the branch that is not taken", () => {
+                const formula: FormulaType = ["IF", "(", "A1", "=", "0", ",", "1", "(", ",", "7", ")"];
+                recalc.evaluate(formula);
+
+                expect(recalc.error).toEqual(ErrorMessages.invalidFormula);
+            });
+        });
+
+        describe("when the formula is IF ( \"abc\" , 1 , 2 )", () => {
+            it("returns a value error for a text condition", () => {
+                const formula: FormulaType = ["IF", "(", '"abc"', ",", "1", ",", "2", ")"];
+                recalc.evaluate(formula);
+
+                expect(recalc.error).toEqual(ErrorMessages.invalidValue);
+            });
+        });
+
+        describe("when the formula is AND ( A1 > 0 , A2 > 0 , TRUE )", () => {
+            it("returns TRUE when all arguments are TRUE", () => {
+                const formula: FormulaType = ["AND", "(", "A1", ">", "0", ",", "A2", ">", "0", ",", "TRUE", ")"];
+                recalc.evaluate(formula);
+
+                expect(recalc.result).toEqual(true);
+                expect(recalc.error).toEqual("");
+            });
+        });
+
+        describe("when the formula is AND ( A1:A3 , 0 )", () => {
+            it("returns FALSE when an argument is FALSE", () => {
+                const formula: FormulaType = ["AND", "(", "A1:A3", ",", "0", ")"];
+                recalc.evaluate(formula);
+
+                expect(recalc.result).toEqual(false);
+                expect(recalc.error).toEqual("");
+            });
+        });
+
+        describe("when the formula is OR ( A1 > 5 , A3 > 2 )", () => {
+            it("returns TRUE when any argument is TRUE", () => {
+                const formula: FormulaType = ["OR", "(", "A1", ">", "5", ",", "A3", ">", "2", ")"];
+                recalc.evaluate(formula);
+
+                expect(recalc.result).toEqual(true);
+                expect(recalc.error).toEqual("");
+            });
+        });
+
+        describe("when the formula is NOT ( A1 > 5 )", () => {
+            it("returns the opposite", () => {
+                const formula: FormulaType = ["NOT", "(", "A1", ">", "5", ")"];
+                recalc.evaluate(formula);
+
+                expect(recalc.result).toEqual(true);
+                expect(recalc.error).toEqual("");
+            });
+        });
+
+        describe("when the formula is IFERROR ( 1 / 0 , \"none\" )", () => {
+            it("returns the fallback for an error", () => {
+                const formula: FormulaType = ["IFERROR", "(", "1", "/", "0", ",", '"none"', ")"];
+                recalc.evaluate(formula);
+
+                expect(recalc.result).toEqual("none");
+                expect(recalc.error).toEqual("");
+            });
+        });
+
+        describe("when the formula is IFERROR ( A3 , 1 / 0 )", () => {
+            it("returns the value when there is no error", () => {
+                const formula: FormulaType = ["IFERROR", "(", "A3", ",", "1", "/", "0", ")"];
+                recalc.evaluate(formula);
+
+                expect(recalc.result).toEqual(3);
+                expect(recalc.error).toEqual("");
+            });
+        });
+
+        describe("when the formula is IFERROR ( 1 / 0 )", () => {
+            it("returns a syntax error when the fallback is missing", () => {
+                const formula: FormulaType = ["IFERROR", "(", "1", "/", "0", ")"];
+                recalc.evaluate(formula);
+
+                expect(recalc.error).toEqual(ErrorMessages.missingParentheses);
+            });
+        });
+
     });
 });
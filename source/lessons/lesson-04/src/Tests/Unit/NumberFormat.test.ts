@@ -0,0 +1,29 @@
+import { NumberFormat } from '../../Engine/NumberFormat';
+
+describe('NumberFormat', () => {
+    it('should show a number without a format with at most 15 digits', () => {
+        expect(NumberFormat.format(0.1 + 0.2, undefined)).toEqual('0.3');
+        expect(NumberFormat.format(1234.5, { kind: 'general' })).toEqual('1234.5');
+        expect(NumberFormat.format(1 / 3, undefined)).toEqual('0.333333333333333');
+    });
+
+    it('should show the numbers in each kind of format', () => {
+        expect(NumberFormat.format(1234.5, { kind: 'fixed' })).toEqual('1234.50');
+        expect(NumberFormat.format(1234.5, { kind: 'fixed', decimals: 0, thousands: true })).toEqual('1,235');
+        expect(NumberFormat.format(0.125, { kind: 'percent', decimals: 1 })).toEqual('12.5%');
+        expect(NumberFormat.format(1234.5, { kind: 'currency' })).toEqual('$1,234.50');
+        expect(NumberFormat.format(-5, { kind: 'currency', symbol: '€' })).toEqual('-€5.00');
+        expect(NumberFormat.format(-0.001, { kind: 'currency' })).toEqual('$0.00');
+        expect(NumberFormat.format(1234.5, { kind: 'scientific' })).toEqual('1.23E+3');
+    });
+
+    it('should report the formats that are not valid', () => {
+        expect(NumberFormat.check({ kind: 'fixed', decimals: 3, thousands: true })).toEqual('');
+        expect(NumberFormat.check({ kind: 'date' })).toEqual('Invalid number format, use general, fixed, percent, currency, scientific');
+        expect(NumberFormat.check(undefined)).toEqual('Invalid number format, use general, fixed, percent, currency, scientific');
+        expect(NumberFormat.check({ kind: 'fixed', decimals: 11 })).toEqual('The decimals must be a whole number from 0 to 10');
+        expect(NumberFormat.check({ kind: 'fixed', decimals: 1.5 })).toEqual('The decimals must be a whole number from 0 to 10');
+        expect(NumberFormat.check({ kind: 'fixed', thousands: 'yes' })).toEqual('The thousands separator must be on or off');
+        expect(NumberFormat.check({ kind: 'currency', symbol: '' })).toEqual('The currency symbol must have 1 to 3 characters');
+    });
+});
@@ -0,0 +1,57 @@
+import { OperationHistory, CellOperation } from '../../Engine/OperationHistory';
+
+describe('OperationHistory', () => {
+    let history: OperationHistory;
+    const firstOperation: CellOperation = { cellLabel: 'A1', formulaBefore: [], formulaAfter: ['1'] };
+    const secondOperation: CellOperation = { cellLabel: 'A1', formulaBefore: ['1'], formulaAfter: ['1', '+'] };
+
+    beforeEach(() => {
+        history = new OperationHistory();
+    });
+
+    it('should undo the operations of a user in reverse order', () => {
+        history.recordOperation('user1', firstOperation);
+        history.recordOperation('user1', secondOperation);
+
+        expect(history.undo('user1')).toEqual(secondOperation);
+        expect(history.undo('user1')).toEqual(firstOperation);
+        expect(history.undo('user1')).toBeUndefined();
+    });
+
+    it('should redo the operations that were undone', () => {
+        history.recordOperation('user1', firstOperation);
+        history.undo('user1');
+
+        expect(history.getRedoOperation('user1')).toEqual(firstOperation);
+        expect(history.redo('user1')).toEqual(firstOperation);
+        expect(history.getUndoOperation('user1')).toEqual(firstOperation);
+    });
+
+    it('should drop the redo operations when a new operation is recorded', () => {
+        history.recordOperation('user1', firstOperation);
+        history.undo('user1');
+        history.recordOperation('user1', secondOperation);
+
+        expect(history.redo('user1')).toBeUndefined();
+    });
+
+    it('should keep the operations of each user apart', () => {
+        history.recordOperation('user1', firstOperation);
+        history.recordOperation('user2', secondOperation);
+
+        expect(history.undo('user1')).toEqual(firstOperation);
+        expect(history.getUndoOperation('user1')).toBeUndefined();
+        expect(history.getUndoOperation('user2')).toEqual(secondOperation);
+    });
+
+    it('should move the operations with their cells and drop the ones whose cells are deleted', () => {
+        history.recordOperation('user1', firstOperation);
+        history.recordOperation('user2', { cellLabel: 'B1', formulaBefore: [], formulaAfter: ['A1'] });
+        history.undo('user2');
+
+        history.updateOperations((operation) => operation.cellLabel === 'A1' ? undefined
+            : { ...operation, cellLabel: 'B2', formulaAfter: ['A2'] });
+        expect(history.getUndoOperation('user1')).toBeUndefined();
+        expect(history.redo('user2')).toEqual({ cellLabel: 'B2', formulaBefore: [], formulaAfter: ['A2'] });
+    });
+});
@@ -0,0 +1,33 @@
+import { SessionTokens } from '../../Server/SessionTokens';
+
+describe('SessionTokens', () => {
+    it('should give back the user a token was issued to', () => {
+        const sessionTokens = new SessionTokens('secret');
+        const token = sessionTokens.issue('juancho');
+
+        expect(sessionTokens.verify(token)).toEqual('juancho');
+    });
+
+    it('should refuse a token that was changed', () => {
+        const sessionTokens = new SessionTokens('secret');
+        const [, signature] = sessionTokens.issue('juancho').split('.');
+        const payload = Buffer.from(JSON.stringify({ user: 'yvonne', expires: Date.now() + 60000 })).toString('base64url');
+
+        expect(sessionTokens.verify(`${payload}.${signature}`)).toBeUndefined();
+        expect(sessionTokens.verify('not a token')).toBeUndefined();
+        expect(sessionTokens.verify('')).toBeUndefined();
+    });
+
+    it('should refuse a token signed with another secret', () => {
+        const token = new SessionTokens('secret').issue('juancho');
+
+        expect(new SessionTokens('another secret').verify(token)).toBeUndefined();
+    });
+
+    it('should refuse a token that has expired', () => {
+        const sessionTokens = new SessionTokens('secret', -1);
+        const token = sessionTokens.issue('juancho');
+
+        expect(sessionTokens.verify(token)).toBeUndefined();
+    });
+});
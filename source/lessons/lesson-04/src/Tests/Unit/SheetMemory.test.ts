@@ -34,6 +34,14 @@ describe('SheetMemory', () => {
         });
       });
     });
+
+    it('should only allow a whole number of columns and rows up to the maximum', () => {
+      expect(SheetMemory.checkSize(SheetMemory.maximumColumns, SheetMemory.maximumRows)).toEqual('');
+      expect(SheetMemory.checkSize(0, 1)).toEqual('The columns must be a whole number from 1 to 100');
+      expect(SheetMemory.checkSize(2.5, 1)).toEqual('The columns must be a whole number from 1 to 100');
+      expect(SheetMemory.checkSize(1, SheetMemory.maximumRows + 1)).toEqual('The rows must be a whole number from 1 to 1000');
+      expect(SheetMemory.checkSize(1, NaN)).toEqual('The rows must be a whole number from 1 to 1000');
+    });
   });
 
   describe("getCellByLabel", () => {
@@ -246,6 +254,26 @@ describe('SheetMemory', () => {
       });
     });
 
+    describe("createSheetFromJSON with text and booleans", () => {
+      it("should keep the kind of each value", () => {
+        const sheet = new SheetMemory(2, 2);
+        let cell = sheet.getCellByLabel("A1");
+        cell.setFormula(['"Revenue"']);
+        cell.setValue("Revenue");
+        cell.setError("");
+        cell = sheet.getCellByLabel("B1");
+        cell.setFormula(["TRUE"]);
+        cell.setValue(true);
+        cell.setError("");
+
+        const copy = SheetMemory.createSheetFromJSON(sheet.sheetToJSON());
+
+        expect(copy.getCellByLabel("A1").getValue()).toEqual("Revenue");
+        expect(copy.getCellByLabel("B1").getValue()).toEqual(true);
+        expect(copy.getCellByLabel("A2").getValue()).toEqual(0);
+      });
+    });
+
     describe("Update from JSON", () => {
       it("should throw an error when the dimentions do not match", () => {
         const sheet = new SheetMemory(2, 3);
@@ -351,6 +379,50 @@ describe('SheetMemory', () => {
     });
   });
 
-});
+  describe('insert and delete', () => {
+    it('should move the cells below an inserted row down', () => {
+      const sheet = new SheetMemory(2, 2);
+      sheet.getCellByLabel("A2").setFormula(["7"]);
+      sheet.insertRows(1, 2);
 
+      expect(sheet.getNumRows()).toEqual(4);
+      expect(sheet.getCellByLabel("A2").getFormula()).toEqual([]);
+      expect(sheet.getCellByLabel("A4").getFormula()).toEqual(["7"]);
+      expect(sheet.getCellByLabel("A4").getLabel()).toEqual("A4");
+    });
+
+    it('should move the cells after a deleted column left', () => {
+      const sheet = new SheetMemory(3, 2);
+      sheet.getCellByLabel("C1").setFormula(["9"]);
+      sheet.deleteColumns(0, 2);
+
+      expect(sheet.getNumColumns()).toEqual(1);
+      expect(sheet.getCellByLabel("A1").getFormula()).toEqual(["9"]);
+      expect(sheet.getCellByLabel("A1").getLabel()).toEqual("A1");
+    });
+
+    it('should keep the size in the JSON', () => {
+      const sheet = new SheetMemory(2, 2);
+      sheet.insertColumns(2, 1);
+      sheet.deleteRows(0, 1);
+
+      const sheetObject = JSON.parse(sheet.sheetToJSON());
+      expect(sheetObject.columns).toEqual(3);
+      expect(sheetObject.rows).toEqual(1);
+      expect(Object.keys(sheetObject.cells).sort()).toEqual(["A1", "B1", "C1"]);
+    });
+
+    it('should put the rows of a block in a new order and leave the other columns', () => {
+      const sheet = new SheetMemory(3, 3);
+      ["A1", "A2", "A3", "C1"].forEach((label, index) => sheet.getCellByLabel(label).setFormula([String(index)]));
+      sheet.reorderRows(0, 1, [2, 0, 1]);
+
+      expect(sheet.getCellByLabel("A1").getFormula()).toEqual(["2"]);
+      expect(sheet.getCellByLabel("A2").getFormula()).toEqual(["0"]);
+      expect(sheet.getCellByLabel("A3").getFormula()).toEqual(["1"]);
+      expect(sheet.getCellByLabel("A3").getLabel()).toEqual("A3");
+      expect(sheet.getCellByLabel("C1").getFormula()).toEqual(["3"]);
+    });
+  });
 
+});
@@ -0,0 +1,53 @@
+import { SortAndFilter } from '../../Engine/SortAndFilter';
+import { Cell } from '../../Engine/Cell';
+import { CellValue } from '../../Engine/GlobalDefinitions';
+
+// a cell with a formula that was evaluated to the value or the error, an empty cell without either
+function makeCell(value?: CellValue, error: string = ''): Cell {
+    const cell = new Cell();
+    if (value !== undefined || error !== '') {
+        cell.setFormula([String(value)]);
+        cell.setValue(value ?? 0);
+    }
+    cell.setError(error);
+    return cell;
+}
+
+describe('SortAndFilter', () => {
+    it('should sort numbers, text and booleans with the errors and the empty cells last', () => {
+        const cells = [makeCell('pear'), makeCell(), makeCell(10), makeCell(0, '#DIV/0!'), makeCell(true), makeCell('Apple'), makeCell(-2)];
+        const keyCells = cells.map((cell) => [cell]);
+
+        expect(SortAndFilter.sortOrder(keyCells, [false])).toEqual([6, 2, 5, 0, 4, 3, 1]);
+        expect(SortAndFilter.sortOrder(keyCells, [true])).toEqual([4, 0, 5, 2, 6, 3, 1]);
+    });
+
+    it('should break the ties of a key with the next key and keep the order of equal rows', () => {
+        const keyCells = [
+            [makeCell('b'), makeCell(1)],
+            [makeCell('a'), makeCell(5)],
+            [makeCell('B'), makeCell(3)],
+            [makeCell('a'), makeCell(5)],
+        ];
+        expect(SortAndFilter.sortOrder(keyCells, [false, true])).toEqual([1, 3, 2, 0]);
+    });
+
+    it('should match the cells against the criteria', () => {
+        expect(SortAndFilter.matches(makeCell(1.5), { column: 'A', condition: 'equalTo', value: '1.50' })).toBe(true);
+        expect(SortAndFilter.matches(makeCell('Rent'), { column: 'A', condition: 'equalTo', value: 'rent' })).toBe(true);
+        expect(SortAndFilter.matches(makeCell('Rent'), { column: 'A', condition: 'notEqualTo', value: 'rent' })).toBe(false);
+        expect(SortAndFilter.matches(makeCell(-3), { column: 'A', condition: 'lessThan', value: '0' })).toBe(true);
+        expect(SortAndFilter.matches(makeCell('x'), { column: 'A', condition: 'greaterThan', value: '0' })).toBe(false);
+        expect(SortAndFilter.matches(makeCell('March rent'), { column: 'A', condition: 'contains', value: 'RENT' })).toBe(true);
+        expect(SortAndFilter.matches(makeCell(), { column: 'A', condition: 'notBlank' })).toBe(false);
+        expect(SortAndFilter.matches(makeCell(), { column: 'A', condition: 'equalTo', value: '' })).toBe(true);
+    });
+
+    it('should report the criteria that are not valid', () => {
+        expect(SortAndFilter.checkCriterion({ column: 'A', condition: 'notBlank' })).toEqual('');
+        expect(SortAndFilter.checkCriterion({ column: 'A', condition: 'like', value: 'x' }))
+            .toEqual('Invalid filter condition, use equalTo, notEqualTo, lessThan, greaterThan, contains, notBlank');
+        expect(SortAndFilter.checkCriterion({ column: 'A', condition: 'contains' })).toEqual('The contains filter needs a value');
+        expect(SortAndFilter.checkCriterion({ column: 'A', condition: 'lessThan', value: 'ten' })).toEqual('The lessThan filter needs a number');
+    });
+});
@@ -189,6 +189,27 @@ describe("TokenProcessor", () => {
     });
   });
 
+  describe("addToken with ranges", () => {
+    it("should start a range when : follows a cell", () => {
+      const tokenProcessor = new FormulaBuilder();
+      tokenProcessor.setFormula(["SUM", "(", "A1"]);
+      tokenProcessor.addToken(":");
+      expect(tokenProcessor.getFormula()).toEqual(["SUM", "(", "A1:"]);
+    });
+    it("should close a range when a cell follows the start of a range", () => {
+      const tokenProcessor = new FormulaBuilder();
+      tokenProcessor.setFormula(["SUM", "(", "A1:"]);
+      tokenProcessor.addToken("B4");
+      expect(tokenProcessor.getFormula()).toEqual(["SUM", "(", "A1:B4"]);
+    });
+    it("should not start a range after a number", () => {
+      const tokenProcessor = new FormulaBuilder();
+      tokenProcessor.setFormula(["1"]);
+      tokenProcessor.addToken(":");
+      expect(tokenProcessor.getFormula()).toEqual(["1", ":"]);
+    });
+  });
+
   describe("getCellReferences", () => {
     describe("when the formula is empty", () => {
       it("should return an empty array", () => {
@@ -226,6 +247,116 @@ describe("TokenProcessor", () => {
       });
     });
 
+    describe("when the formula has a range", () => {
+      it("should return every cell in the range", () => {
+        let formula = ["SUM", "(", "A1:B2", ")", "+", "A1"];
+        let cellsInFormula = FormulaBuilder.getCellReferences(formula);
+        expect(cellsInFormula).toEqual(["A1", "B1", "A2", "B2"]);
+      });
+    });
+
   });
-});
 
+  describe("adjustReferences", () => {
+    describe("when a row is inserted above a reference", () => {
+      it("should move the reference down", () => {
+        let formula = ["A1", "+", "B3"];
+        expect(FormulaBuilder.adjustReferences(formula, "row", 1, 1)).toEqual(["A1", "+", "B4"]);
+      });
+    });
+    describe("when a column is inserted before a reference", () => {
+      it("should move the reference right", () => {
+        let formula = ["A1", "+", "B3"];
+        expect(FormulaBuilder.adjustReferences(formula, "column", 0, 2)).toEqual(["C1", "+", "D3"]);
+      });
+    });
+    describe("when the row of a reference is deleted", () => {
+      it("should replace the reference with #REF! and move the ones below up", () => {
+        let formula = ["A1", "+", "A2", "+", "A4"];
+        expect(FormulaBuilder.adjustReferences(formula, "row", 1, -2)).toEqual(["A1", "+", "#REF!", "+", "A2"]);
+      });
+    });
+    describe("when a row is inserted inside a range", () => {
+      it("should grow the range", () => {
+        let formula = ["SUM", "(", "A1:B3", ")"];
+        expect(FormulaBuilder.adjustReferences(formula, "row", 1, 1)).toEqual(["SUM", "(", "A1:B4", ")"]);
+      });
+    });
+    describe("when some rows of a range are deleted", () => {
+      it("should shrink the range", () => {
+        expect(FormulaBuilder.adjustReferences(["A2:B5"], "row", 0, -2)).toEqual(["A1:B3"]);
+        expect(FormulaBuilder.adjustReferences(["A5:B2"], "row", 3, -3)).toEqual(["B2:A3"]);
+      });
+    });
+    describe("when all the columns of a range are deleted", () => {
+      it("should replace the range with #REF!", () => {
+        expect(FormulaBuilder.adjustReferences(["B1:C4"], "column", 1, -2)).toEqual(["#REF!"]);
+      });
+    });
+  });
+
+  describe("shiftReferences", () => {
+    describe("when a formula is copied one row down", () => {
+      it("should move the relative references and keep the absolute ones", () => {
+        let formula = ["A1", "+", "$B$1", "+", "$C1", "+", "D$1"];
+        expect(FormulaBuilder.shiftReferences(formula, 1, 1, 5, 5)).toEqual(["B2", "+", "$B$1", "+", "$C2", "+", "E$1"]);
+      });
+    });
+    describe("when a copied reference would leave the sheet", () => {
+      it("should replace the reference with #REF!", () => {
+        let formula = ["A1", "+", "SUM", "(", "A1:B2", ")"];
+        expect(FormulaBuilder.shiftReferences(formula, 0, -1, 5, 5)).toEqual(["#REF!", "+", "SUM", "(", "#REF!", ")"]);
+      });
+    });
+  });
+
+  describe("addToken with $", () => {
+    it("should cycle the anchors of the last cell reference", () => {
+      const formulaBuilder = new FormulaBuilder();
+      formulaBuilder.addToken("A1");
+      formulaBuilder.addToken("$");
+      expect(formulaBuilder.getFormula()).toEqual(["$A$1"]);
+      formulaBuilder.addToken("$");
+      expect(formulaBuilder.getFormula()).toEqual(["A$1"]);
+      formulaBuilder.addToken("$");
+      expect(formulaBuilder.getFormula()).toEqual(["$A1"]);
+      formulaBuilder.addToken("$");
+      expect(formulaBuilder.getFormula()).toEqual(["A1"]);
+    });
+    it("should strip the anchors from the cell references", () => {
+      expect(FormulaBuilder.getCellReferences(["$A$1", "+", "A1", "+", "B$2"])).toEqual(["A1", "B2"]);
+    });
+    it("should keep the anchors when rows are inserted", () => {
+      expect(FormulaBuilder.adjustReferences(["$A$2"], "row", 0, 1)).toEqual(["$A$3"]);
+    });
+  });
+
+  describe("references to other sheets", () => {
+    it("should close a range on another sheet with a cell of that sheet", () => {
+      const formulaBuilder = new FormulaBuilder();
+      formulaBuilder.addToken("Summary!A1");
+      formulaBuilder.addToken(":");
+      formulaBuilder.addToken("Summary!B2");
+      expect(formulaBuilder.getFormula()).toEqual(["Summary!A1:B2"]);
+    });
+
+    it("should keep the sheet name in the cell references", () => {
+      expect(FormulaBuilder.getCellReferences(["Summary!$A$1", "+", "SUM", "(", "Data!A1:A2", ")", "+", "B1"]))
+        .toEqual(["Summary!A1", "Data!A1", "Data!A2", "B1"]);
+    });
+
+    it("should only move the references to the sheet that changed", () => {
+      expect(FormulaBuilder.adjustReferences(["Summary!A1", "+", "A1"], "row", 0, 1, "Summary", "Sheet1"))
+        .toEqual(["Summary!A2", "+", "A1"]);
+      expect(FormulaBuilder.adjustReferences(["Summary!A1", "+", "A1"], "row", 0, 1, "Summary", "Summary"))
+        .toEqual(["Summary!A2", "+", "A2"]);
+    });
+
+    it("should rename the references to a sheet and replace them with #REF! when it is deleted", () => {
+      expect(FormulaBuilder.replaceSheetReferences(["Data!A1:B2", "+", "Other!A1"], "Data", "Input"))
+        .toEqual(["Input!A1:B2", "+", "Other!A1"]);
+      expect(FormulaBuilder.replaceSheetReferences(["Data!A1", "+", "A1"], "Data", undefined))
+        .toEqual(["#REF!", "+", "A1"]);
+    });
+  });
+});
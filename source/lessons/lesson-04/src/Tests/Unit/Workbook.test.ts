@@ -0,0 +1,135 @@
+import { Workbook } from '../../Engine/Workbook';
+import CalculationManager from '../../Engine/CalculationManager';
+
+describe('Workbook', () => {
+    let workbook: Workbook;
+
+    function setFormula(label: string, formula: string[]): void {
+        const cell = workbook.getCellByLabel(label);
+        cell.setFormula(formula);
+        workbook.setCellByLabel(label, cell);
+    }
+
+    beforeEach(() => {
+        workbook = new Workbook();
+        workbook.addSheet('Sheet1', 2, 2);
+        workbook.addSheet('Summary', 3, 3);
+    });
+
+    it('should label the cells with the names of their sheets', () => {
+        expect(workbook.getSheetNames()).toEqual(['Sheet1', 'Summary']);
+        expect(workbook.getCellLabels().length).toEqual(13);
+        expect(workbook.getCellLabels()[4]).toEqual('Summary!A1');
+        expect(workbook.hasCell('Summary!C3')).toBe(true);
+        expect(workbook.hasCell('Sheet1!C3')).toBe(false);
+        expect(workbook.hasCell('Missing!A1')).toBe(false);
+    });
+
+    it('should read the references of a formula on the sheet of the formula', () => {
+        setFormula('Summary!A1', ['B1', '+', 'Sheet1!A2', '+', 'Summary!B1', '+', 'Missing!A1']);
+
+        expect(workbook.getCellReferences('Summary!A1')).toEqual(['Summary!B1', 'Sheet1!A2']);
+    });
+
+    it('should evaluate formulas across the sheets', () => {
+        const calculationManager = new CalculationManager();
+        setFormula('Sheet1!A1', ['4']);
+        setFormula('Summary!B2', ['Sheet1!A1', '*', 'A1']);
+        setFormula('Summary!A1', ['2']);
+        calculationManager.evaluateSheet(workbook);
+        expect(workbook.getCellByLabel('Summary!B2').getValue()).toEqual(8);
+
+        setFormula('Sheet1!A1', ['5']);
+        expect(calculationManager.evaluateCell('Sheet1!A1', workbook)).toEqual(['Sheet1!A1', 'Summary!B2']);
+        expect(workbook.getCellByLabel('Summary!B2').getValue()).toEqual(10);
+    });
+
+    it('should move, rename and delete sheets', () => {
+        setFormula('Sheet1!A1', ['Summary!A1', '+', '1']);
+        workbook.moveSheet('Summary', 0);
+        expect(workbook.getSheetNames()).toEqual(['Summary', 'Sheet1']);
+
+        workbook.renameSheet('Summary', 'Totals');
+        expect(workbook.getCellByLabel('Sheet1!A1').getFormula()).toEqual(['Totals!A1', '+', '1']);
+
+        workbook.deleteSheet('Totals');
+        expect(workbook.getSheetNames()).toEqual(['Sheet1']);
+        expect(workbook.getCellByLabel('Sheet1!A1').getFormula()).toEqual(['#REF!', '+', '1']);
+    });
+
+    it('should save the sheets and read a document with a single sheet', () => {
+        setFormula('Summary!B2', ['7']);
+        const copy = Workbook.createWorkbookFromJSON(workbook.workbookToJSON());
+        expect(copy.getSheetNames()).toEqual(['Sheet1', 'Summary']);
+        expect(copy.getCellByLabel('Summary!B2').getFormula()).toEqual(['7']);
+
+        const singleSheet = Workbook.createWorkbookFromJSON(JSON.stringify({ columns: 1, rows: 1, cells: {} }));
+        expect(singleSheet.getSheetNames()).toEqual([Workbook.defaultSheetName]);
+        expect(() => Workbook.createWorkbookFromJSON(JSON.stringify({ version: 99, sheets: [] }))).toThrow();
+    });
+
+    it('should refuse a document that is not whole', () => {
+        const sheet = { name: 'Sheet1', columns: 2, rows: 2, cells: { A1: { formula: ['1'], value: 1, error: '' } } };
+        expect(Workbook.upgradeContainer({ version: 2, sheets: [sheet] }).sheets).toEqual([sheet]);
+
+        expect(() => Workbook.upgradeContainer({})).toThrow('Sheet Sheet1: The columns must be a whole number from 1 to 100');
+        expect(() => Workbook.upgradeContainer([])).toThrow('The document is not an object');
+        expect(() => Workbook.upgradeContainer(null)).toThrow('The document is not an object');
+        expect(() => Workbook.upgradeContainer({ version: 'two', sheets: [sheet] })).toThrow('Invalid document format version two');
+        expect(() => Workbook.upgradeContainer({ version: 2, sheets: [] })).toThrow('The document has no sheets');
+        expect(() => Workbook.upgradeContainer({ version: 2, sheets: [sheet, sheet] })).toThrow('The document has two sheets named Sheet1');
+        expect(() => Workbook.upgradeContainer({ version: 2, sheets: [{ ...sheet, columns: -1 }] })).toThrow('must be a whole number');
+        expect(() => Workbook.upgradeContainer({ version: 2, sheets: [{ ...sheet, rows: 2.5 }] })).toThrow('must be a whole number');
+        expect(() => Workbook.upgradeContainer({ version: 2, sheets: [{ ...sheet, cells: [] }] })).toThrow('Sheet Sheet1 has no cells');
+        expect(() => Workbook.upgradeContainer({ version: 2, sheets: [{ ...sheet, cells: { A1: {} } }] })).toThrow('Cell A1 of sheet Sheet1 has no formula');
+    });
+
+    describe('names', () => {
+        it('should evaluate the names and depend on the cells they stand for', () => {
+            const calculationManager = new CalculationManager();
+            workbook.defineName('Sales', 'Summary!A1:A2');
+            workbook.defineName('TaxRate', '0.5');
+            setFormula('Summary!A1', ['4']);
+            setFormula('Summary!A2', ['6']);
+            setFormula('Sheet1!A1', ['SUM', '(', 'Sales', ')', '*', 'TaxRate']);
+            calculationManager.evaluateSheet(workbook);
+
+            expect(workbook.getCellReferences('Sheet1!A1')).toEqual(['Summary!A1', 'Summary!A2']);
+            expect(workbook.getCellByLabel('Sheet1!A1').getValue()).toEqual(5);
+
+            setFormula('Summary!A2', ['16']);
+            calculationManager.evaluateCell('Summary!A2', workbook);
+            expect(workbook.getCellByLabel('Sheet1!A1').getValue()).toEqual(10);
+        });
+
+        it('should rename the names in the formulas and follow the sheets', () => {
+            workbook.defineName('Total', 'Summary!B2');
+            setFormula('Sheet1!A1', ['Total', '+', '1']);
+
+            workbook.renameName('Total', 'GrandTotal');
+            expect(workbook.getCellByLabel('Sheet1!A1').getFormula()).toEqual(['GrandTotal', '+', '1']);
+            workbook.renameSheet('Summary', 'Report');
+            expect(workbook.getNameDefinition('GrandTotal')).toEqual('Report!B2');
+            workbook.deleteSheet('Report');
+            expect(workbook.getNameDefinition('GrandTotal')).toEqual('#REF!');
+        });
+
+        it('should show #NAME? for a name that is deleted', () => {
+            const calculationManager = new CalculationManager();
+            workbook.defineName('Rate', '2');
+            setFormula('Sheet1!A1', ['Rate', '*', '3']);
+            workbook.deleteName('Rate');
+            calculationManager.evaluateSheet(workbook);
+
+            expect(workbook.getNames()).toEqual([]);
+            expect(workbook.getCellByLabel('Sheet1!A1').getError()).toEqual('#NAME?');
+        });
+
+        it('should save the names with the document', () => {
+            workbook.defineName('TaxRate', 'Sheet1!$B$1');
+            const copy = Workbook.createWorkbookFromJSON(workbook.workbookToJSON());
+            expect(copy.getNames()).toEqual(['TaxRate']);
+            expect(copy.getNameDefinition('TaxRate')).toEqual('Sheet1!$B$1');
+        });
+    });
+});